@@ -0,0 +1,43 @@
+// server/relay.js
+// Local WebSocket relay for collaborative editing. Every browser editing a
+// document joins the room named after its path; the relay keeps each room's
+// Yjs doc in memory and forwards document updates and awareness (names,
+// colors, cursors) between the clients in it. Nothing is written to disk:
+// the documents live in each browser's workspace, and the first client to
+// open a document in an empty room seeds it.
+//
+//   npm run relay                   # ws://localhost:1234
+//   HOST=0.0.0.0 PORT=4444 npm run relay
+import http from "node:http";
+import { WebSocketServer } from "ws";
+import { setupWSConnection } from "y-websocket/bin/utils";
+
+const host = process.env.HOST || "localhost";
+const port = Number.parseInt(process.env.PORT || "1234", 10);
+// Rooms the editor uses; anything else is refused
+const ROOM_PREFIX = "/docground/";
+
+const server = http.createServer((_request, response) => {
+  response.writeHead(200, { "Content-Type": "text/plain" });
+  response.end("docground collaboration relay\n");
+});
+
+const wss = new WebSocketServer({ noServer: true });
+wss.on("connection", (socket, request) => {
+  setupWSConnection(socket, request);
+});
+
+server.on("upgrade", (request, socket, head) => {
+  if (!request.url?.startsWith(ROOM_PREFIX)) {
+    socket.write("HTTP/1.1 404 Not Found\r\n\r\n");
+    socket.destroy();
+    return;
+  }
+  wss.handleUpgrade(request, socket, head, (ws) => {
+    wss.emit("connection", ws, request);
+  });
+});
+
+server.listen(port, host, () => {
+  console.log(`Collaboration relay listening on ws://${host}:${port}`);
+});
@@ -1,11 +1,78 @@
 // src/App.tsx
-import { useState, useCallback } from "react";
-import "./hacker-theme.css"; // Import the hacker theme CSS
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { Editor } from "@tiptap/core";
+import "./theme.css"; // Page styles, colored by the current theme
 import "./App.css"; // For TipTap editor specific styles and overrides
 
-import LiveMarkdownEditor from "./components/liveMarkdown/editor";
+import LiveMarkdownEditor, {
+  type FindRequest,
+  type RestoreRequest,
+} from "./components/liveMarkdown/editor";
+import FileTree from "./components/sidebar/fileTree";
+import { useWorkspace } from "./components/sidebar/useWorkspace";
+import {
+  createWorkspaceStore,
+  getEntryPath,
+} from "./services/storage/workspaceStore";
+import RepositoryPanel from "./components/repository/repositoryPanel";
+import BacklinksPanel from "./components/backlinks/backlinksPanel";
+import SearchPalette from "./components/searchPalette/searchPalette";
+import OutlinePanel from "./components/outline/outlinePanel";
+import HistoryPanel from "./components/history/historyPanel";
+import SnapshotDiff from "./components/history/snapshotDiff";
+import CollaborationPanel from "./components/collaboration/collaborationPanel";
+import CommentsPanel from "./components/comments/commentsPanel";
+import ThemeSwitcher from "./components/themeSwitcher/themeSwitcher";
+import SanitizeModeSwitcher from "./components/sanitizeModeSwitcher/sanitizeModeSwitcher";
+import { useCollaborationSession } from "./components/collaboration/useCollaborationSession";
+import type { GitRepository } from "./services/git/gitRepository";
+import { createGitDocumentStorage } from "./services/git/gitDocumentStorage";
+import type { DocumentStorage } from "./services/storage/documentStorage";
+import { listWikiLinkDocuments } from "./services/wikiLinks";
+import {
+  createSearchIndex,
+  type SearchResult,
+} from "./services/search/searchIndex";
+import type { SearchOptions } from "./services/search/searchPattern";
+import {
+  createSnapshotScheduler,
+  createSnapshotStore,
+  type Snapshot,
+} from "./services/storage/snapshotStore";
+import { createCommentStore } from "./services/storage/commentStore";
+import {
+  loadCollaborationSettings,
+  saveCollaborationSettings,
+  type CollaborationSettings,
+} from "./services/collaboration/collaborationSettings";
+import { applyTheme, type Theme } from "./services/themes/themes";
+import { loadTheme, saveTheme } from "./services/themes/themeSettings";
+import type { SanitizeMode } from "./services/sanitize/sanitizePolicy";
+import {
+  loadSanitizeMode,
+  saveSanitizeMode,
+} from "./services/sanitize/sanitizeSettings";
 
-// Initial Markdown content for the editor
+// One IndexedDB backed workspace for the whole app
+const workspaceStore = createWorkspaceStore();
+// Full-text index of the workspace documents, kept in memory
+const searchIndex = createSearchIndex();
+// Version history of the workspace documents
+const snapshotStore = createSnapshotStore();
+const snapshotScheduler = createSnapshotScheduler(
+  snapshotStore,
+  workspaceStore.loadDocument
+);
+// Review threads of the workspace documents, kept out of the Markdown
+const commentStore = createCommentStore();
+
+// Every edit of a workspace document, with its full Markdown
+function handleDocumentChange(documentId: string, markdown: string) {
+  searchIndex.update(documentId, markdown);
+  snapshotScheduler.recordChange(documentId, markdown);
+}
+
+// Initial Markdown content, used to seed an empty workspace
 const initialMarkdownContent = `# Welcome to Your Hacker Editor!
 
 Powered by **TipTap**. Type your Markdown here.
@@ -36,40 +103,233 @@ A horizontal rule.
 Pasting Markdown content should also work! Try pasting some from another source.
 `;
 
+const welcomeDocument = { name: "Welcome", markdown: initialMarkdownContent };
+
 function App() {
-  // markdownText remains the source of truth for persistence.
-  // TipTap will be initialized with this and will update this state.
-  const [markdownText, setMarkdownText] = useState<string>(
-    initialMarkdownContent
+  // The workspace store is the source of truth for persistence; the editor
+  // loads and saves the active document through it.
+  const { entries, activeDocumentId, openDocument } = useWorkspace(
+    workspaceStore,
+    welcomeDocument
+  );
+  // A repository file open in the editor takes precedence over the workspace document
+  const [repositoryFile, setRepositoryFile] = useState<{
+    path: string;
+    storage: DocumentStorage;
+  } | null>(null);
+  // Workspace documents by path, for [[wiki-links]] and backlinks
+  const linkTargets = useMemo(() => listWikiLinkDocuments(entries), [entries]);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [findRequest, setFindRequest] = useState<FindRequest | null>(null);
+  // The open editor, for the outline panel
+  const [editor, setEditor] = useState<Editor | null>(null);
+  // The snapshot being compared with the current content
+  const [openSnapshot, setOpenSnapshot] = useState<Snapshot | null>(null);
+  const [restoreRequest, setRestoreRequest] = useState<RestoreRequest | null>(
+    null
+  );
+  const [collaborationSettings, setCollaborationSettings] =
+    useState<CollaborationSettings>(loadCollaborationSettings);
+  // Workspace documents are shared by path; repository files are not shared
+  const collaborationPath =
+    collaborationSettings.enabled && !repositoryFile && activeDocumentId
+      ? getEntryPath(entries, activeDocumentId) || null
+      : null;
+  const collaboration = useCollaborationSession(
+    collaborationPath === null ? null : activeDocumentId,
+    collaborationPath,
+    collaborationSettings.serverUrl,
+    collaborationSettings.user
   );
 
-  /**
-   * Callback for LiveMarkdownEditor to update the central markdownText state.
-   * This is triggered when TipTap's content changes and is serialized to Markdown.
-   */
-  const handleMarkdownUpdate = useCallback((newMarkdown: string) => {
-    setMarkdownText(newMarkdown);
+  // Colors the whole page; the renderer of the preview and exports follows it
+  const [theme, setTheme] = useState<Theme>(loadTheme);
+
+  useEffect(() => {
+    applyTheme(theme);
+    saveTheme(theme);
+  }, [theme]);
+
+  // Which raw HTML documents keep, in the editor and in everything rendered
+  const [sanitizeMode, setSanitizeMode] = useState<SanitizeMode>(loadSanitizeMode);
+
+  useEffect(() => {
+    saveSanitizeMode(sanitizeMode);
+  }, [sanitizeMode]);
+
+  // Also keeps a first-time guest name across reloads
+  useEffect(() => {
+    saveCollaborationSettings(collaborationSettings);
+  }, [collaborationSettings]);
+
+  // New, renamed and deleted documents; edits arrive through onDocumentChange
+  useEffect(() => {
+    searchIndex.sync(entries, workspaceStore.loadDocument);
+  }, [entries]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const isMod = event.metaKey || event.ctrlKey;
+      if (isMod && event.shiftKey && event.key.toLowerCase() === "f") {
+        event.preventDefault();
+        setIsSearchOpen(true);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
   }, []);
 
+  const openWorkspaceDocument = useCallback(
+    (id: string) => {
+      setRepositoryFile(null);
+      openDocument(id);
+    },
+    [openDocument]
+  );
+
+  const openSearchResult = useCallback(
+    (result: SearchResult, query: string, options: SearchOptions) => {
+      setIsSearchOpen(false);
+      setFindRequest({ documentId: result.documentId, query, options });
+      openWorkspaceDocument(result.documentId);
+    },
+    [openWorkspaceDocument]
+  );
+
+  const restoreSnapshot = useCallback(
+    (snapshot: Snapshot) => {
+      setOpenSnapshot(null);
+      setRestoreRequest({
+        documentId: snapshot.documentId,
+        markdown: snapshot.markdown,
+      });
+      openWorkspaceDocument(snapshot.documentId);
+    },
+    [openWorkspaceDocument]
+  );
+
+  const openRepositoryFile = useCallback(
+    (repository: GitRepository, path: string) => {
+      setRepositoryFile({ path, storage: createGitDocumentStorage(repository) });
+    },
+    []
+  );
+
   return (
     <div className="app-container">
       <header className="app-header-placeholder">
-        {/* Placeholder for site header, actual styling by hacker-theme.css */}
+        {/* Placeholder for site header, actual styling by theme.css */}
       </header>
 
       {/* The main content area where the live TipTap editor will reside.
-          It needs the .container and #main_content structure for the hacker-theme
+          It needs the .container and #main_content structure for theme.css
           to apply correctly to the overall page layout. The TipTap editor itself
           will be styled by .ProseMirror and rules in app.css.
       */}
       <div className="container editor-main-container">
-        <section id="main_content" className="editor-section">
-          <LiveMarkdownEditor
-            initialContent={markdownText}
-            onUpdate={handleMarkdownUpdate}
+        <aside className="workspace-sidebar">
+          <FileTree
+            entries={entries}
+            store={workspaceStore}
+            activeDocumentId={repositoryFile ? null : activeDocumentId}
+            onOpenDocument={openWorkspaceDocument}
+            onOpenSearch={() => setIsSearchOpen(true)}
+            theme={theme}
+            sanitizeMode={sanitizeMode}
           />
+          {!repositoryFile && activeDocumentId && (
+            <BacklinksPanel
+              documentId={activeDocumentId}
+              linkTargets={linkTargets}
+              loadDocument={workspaceStore.loadDocument}
+              onOpenDocument={openWorkspaceDocument}
+            />
+          )}
+          {editor && <OutlinePanel editor={editor} />}
+          {!repositoryFile && activeDocumentId && (
+            <HistoryPanel
+              documentId={activeDocumentId}
+              store={snapshotStore}
+              onSnapshotNow={() => snapshotScheduler.snapshotNow(activeDocumentId)}
+              onOpenSnapshot={setOpenSnapshot}
+            />
+          )}
+          <CollaborationPanel
+            settings={collaborationSettings}
+            onChange={setCollaborationSettings}
+            session={collaboration}
+            canCollaborate={!repositoryFile}
+          />
+          <RepositoryPanel
+            activePath={repositoryFile?.path ?? null}
+            onOpenFile={openRepositoryFile}
+          />
+          <ThemeSwitcher theme={theme} onChange={setTheme} />
+          <SanitizeModeSwitcher mode={sanitizeMode} onChange={setSanitizeMode} />
+        </aside>
+        <section id="main_content" className="editor-section">
+          {repositoryFile ? (
+            <LiveMarkdownEditor
+              documentId={repositoryFile.path}
+              storage={repositoryFile.storage}
+              linkTargets={linkTargets}
+              onOpenDocument={openWorkspaceDocument}
+              onEditorChange={setEditor}
+              theme={theme}
+              sanitizeMode={sanitizeMode}
+            />
+          ) : activeDocumentId && collaborationPath !== null && !collaboration ? (
+            // The editor binds to the session it starts with, so it waits for it
+            <div className="editor-loading">Joining the shared document...</div>
+          ) : activeDocumentId ? (
+            <LiveMarkdownEditor
+              documentId={activeDocumentId}
+              storage={workspaceStore}
+              linkTargets={linkTargets}
+              onOpenDocument={openWorkspaceDocument}
+              onDocumentChange={handleDocumentChange}
+              findRequest={findRequest}
+              restoreRequest={restoreRequest}
+              onEditorChange={setEditor}
+              collaboration={collaboration}
+              comments={commentStore}
+              theme={theme}
+              sanitizeMode={sanitizeMode}
+            />
+          ) : (
+            <div className="editor-loading">
+              Create a document in the sidebar to start writing.
+            </div>
+          )}
         </section>
+        {editor && !repositoryFile && activeDocumentId && (
+          <aside className="comments-margin">
+            <CommentsPanel
+              editor={editor}
+              documentId={activeDocumentId}
+              store={commentStore}
+              author={collaborationSettings.user.name}
+            />
+          </aside>
+        )}
       </div>
+      {openSnapshot && (
+        <SnapshotDiff
+          snapshot={openSnapshot}
+          loadDocument={workspaceStore.loadDocument}
+          onRestore={restoreSnapshot}
+          onClose={() => setOpenSnapshot(null)}
+          theme={theme}
+          sanitizeMode={sanitizeMode}
+        />
+      )}
+      {isSearchOpen && (
+        <SearchPalette
+          index={searchIndex}
+          onOpenResult={openSearchResult}
+          onClose={() => setIsSearchOpen(false)}
+        />
+      )}
     </div>
   );
 }
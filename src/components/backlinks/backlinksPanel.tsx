@@ -0,0 +1,91 @@
+// src/components/backlinks/backlinksPanel.tsx
+import React, { useEffect, useState } from "react";
+import type { DocumentStorage } from "../../services/storage/documentStorage";
+import {
+  findBacklinks,
+  type Backlink,
+  type WikiLinkDocument,
+} from "../../services/wikiLinks";
+import "./styles.css";
+
+interface BacklinksPanelProps {
+  documentId: string;
+  linkTargets: WikiLinkDocument[]; // Every workspace document
+  loadDocument: DocumentStorage["loadDocument"];
+  onOpenDocument: (id: string) => void;
+}
+
+/**
+ * Lists the documents with a `[[wiki-link]]` to the open one, each with the
+ * lines that link to it. Documents only change while they are open, so the
+ * list is rebuilt whenever another document is opened or the tree changes.
+ */
+const BacklinksPanel: React.FC<BacklinksPanelProps> = ({
+  documentId,
+  linkTargets,
+  loadDocument,
+  onOpenDocument,
+}) => {
+  const [backlinks, setBacklinks] = useState<Backlink[] | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setBacklinks(null);
+    setErrorMessage(null);
+    findBacklinks(linkTargets, documentId, loadDocument)
+      .then((found) => {
+        if (!cancelled) setBacklinks(found);
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setErrorMessage(error instanceof Error ? error.message : String(error));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, linkTargets, loadDocument]);
+
+  return (
+    <div className="backlinks-panel">
+      <div className="backlinks-header">
+        <span className="backlinks-title">backlinks</span>
+        {backlinks && <span className="backlinks-count">{backlinks.length}</span>}
+      </div>
+      {errorMessage ? (
+        <div className="backlinks-error" role="alert">
+          {errorMessage}
+        </div>
+      ) : !backlinks ? (
+        <div className="backlinks-notice">scanning...</div>
+      ) : backlinks.length === 0 ? (
+        <div className="backlinks-notice">
+          No documents link here. Type [[ in another document to add one.
+        </div>
+      ) : (
+        <ul className="backlinks-list">
+          {backlinks.map(({ document, excerpts }) => (
+            <li key={document.id}>
+              <button
+                type="button"
+                className="backlinks-document"
+                title={document.path}
+                onClick={() => onOpenDocument(document.id)}
+              >
+                {document.name}
+              </button>
+              {excerpts.map((excerpt, index) => (
+                <div key={index} className="backlinks-excerpt">
+                  {excerpt}
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BacklinksPanel;
@@ -0,0 +1,101 @@
+// src/components/blockMenu/blockMenu.tsx
+import React, { useCallback } from "react";
+import { useEditorState } from "@tiptap/react";
+import type { Editor } from "@tiptap/core";
+import {
+  getBlockMenuPos,
+  getBlockTextStart,
+} from "../../editor/blockHandle/blockHandle";
+import type { SlashCommandItem } from "../../editor/slashCommands/slashCommand.config";
+import { slashCommandRegistry } from "../../editor/slashCommands/slashCommandRegistry";
+import "./styles.css";
+
+interface BlockMenuProps {
+  editor: Editor;
+}
+
+// Gap between the menu and the left edge of its block
+const MENU_GAP = 28;
+
+/**
+ * Menu opened by clicking a block's grip: duplicate, delete, or turn the
+ * block into another type using the slash commands marked `turnInto`.
+ * The open/closed state lives in the blockHandle plugin, so Escape, clicks
+ * elsewhere and scrolling close it without going through React.
+ */
+const BlockMenu: React.FC<BlockMenuProps> = ({ editor }) => {
+  const { menuPos, textStart, anchor } = useEditorState({
+    editor,
+    selector: ({ editor: current }) => {
+      const pos = getBlockMenuPos(current.state);
+      const dom = pos === null ? null : current.view.nodeDOM(pos);
+      // Plain numbers: DOMRects have no own keys, so the selector's deep
+      // comparison would treat any two of them as equal
+      const rect = dom instanceof HTMLElement ? dom.getBoundingClientRect() : null;
+      return {
+        menuPos: pos,
+        textStart:
+          pos === null ? null : getBlockTextStart(current.state.doc, pos),
+        anchor: rect ? { top: rect.top, left: rect.left } : null,
+      };
+    },
+  });
+
+  const turnInto = useCallback(
+    (item: SlashCommandItem) => {
+      if (textStart === null) return;
+      // Block commands act on the block holding the cursor
+      editor.chain().focus().setTextSelection(textStart).run();
+      item.command({ editor, range: { from: textStart, to: textStart } });
+    },
+    [editor, textStart]
+  );
+
+  if (menuPos === null || !anchor) {
+    return null;
+  }
+
+  const turnIntoItems = slashCommandRegistry
+    .list()
+    .filter((item) => item.turnInto);
+
+  return (
+    <div
+      className="block-menu"
+      style={{ top: anchor.top, left: anchor.left - MENU_GAP }}
+      // Keep focus in the editor; a blur closes the menu
+      onMouseDown={(event) => event.preventDefault()}
+    >
+      <button
+        type="button"
+        onClick={() => editor.chain().focus().duplicateBlock(menuPos).run()}
+      >
+        duplicate
+      </button>
+      <button
+        type="button"
+        className="danger"
+        onClick={() => editor.chain().focus().deleteBlock(menuPos).run()}
+      >
+        delete
+      </button>
+      {textStart !== null && turnIntoItems.length > 0 && (
+        <>
+          <div className="menu-title">turn into</div>
+          {turnIntoItems.map((item) => (
+            <button
+              type="button"
+              key={item.id}
+              title={item.description}
+              onClick={() => turnInto(item)}
+            >
+              {item.title}
+            </button>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BlockMenu;
@@ -0,0 +1,156 @@
+// src/components/collaboration/collaborationPanel.tsx
+import React, { useEffect, useState } from "react";
+import type {
+  CollaborationPeer,
+  CollaborationSession,
+  CollaborationStatus,
+} from "../../services/collaboration/collaborationSession";
+import type {
+  CollaborationSettings,
+  CollaborationUser,
+} from "../../services/collaboration/collaborationSettings";
+import "./styles.css";
+
+interface CollaborationPanelProps {
+  settings: CollaborationSettings;
+  onChange: (settings: CollaborationSettings) => void;
+  session: CollaborationSession | null; // The open document's, while enabled
+  canCollaborate: boolean; // False while a repository file is open
+}
+
+const STATUS_LABELS: Record<CollaborationStatus, string> = {
+  connecting: "connecting...",
+  connected: "connected",
+  disconnected: "offline, retrying...",
+};
+
+/**
+ * Turns collaboration on and off, sets the name and color the others see,
+ * and lists who else has the open document.
+ */
+const CollaborationPanel: React.FC<CollaborationPanelProps> = ({
+  settings,
+  onChange,
+  session,
+  canCollaborate,
+}) => {
+  const [status, setStatus] = useState<CollaborationStatus>("connecting");
+  const [peers, setPeers] = useState<CollaborationPeer[]>([]);
+  // Committed on blur or Enter, so typing does not reconnect on every key
+  const [serverUrlDraft, setServerUrlDraft] = useState(settings.serverUrl);
+
+  useEffect(() => {
+    setServerUrlDraft(settings.serverUrl);
+  }, [settings.serverUrl]);
+
+  useEffect(() => {
+    if (!session) {
+      setPeers([]);
+      return;
+    }
+    const refresh = () => {
+      setStatus(session.getStatus());
+      setPeers(session.getPeers());
+    };
+    refresh();
+    return session.subscribe(refresh);
+  }, [session]);
+
+  const updateUser = (patch: Partial<CollaborationUser>) =>
+    onChange({ ...settings, user: { ...settings.user, ...patch } });
+
+  const commitServerUrl = () => {
+    const serverUrl = serverUrlDraft.trim();
+    if (serverUrl && serverUrl !== settings.serverUrl) {
+      onChange({ ...settings, serverUrl });
+    } else {
+      setServerUrlDraft(settings.serverUrl);
+    }
+  };
+
+  return (
+    <div className="collaboration-panel">
+      <div className="collaboration-header">
+        <span className="collaboration-title">collaborate</span>
+        <button
+          type="button"
+          className={`collaboration-toggle ${settings.enabled ? "on" : ""}`}
+          title={
+            settings.enabled
+              ? "Stop sharing documents through the relay"
+              : "Edit documents together through the relay"
+          }
+          onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+        >
+          {settings.enabled ? "on" : "off"}
+        </button>
+      </div>
+
+      <form
+        className="collaboration-config"
+        onSubmit={(event) => {
+          event.preventDefault();
+          commitServerUrl();
+        }}
+      >
+        <label>
+          name
+          <span className="collaboration-user">
+            <input
+              value={settings.user.name}
+              onChange={(event) => updateUser({ name: event.target.value })}
+            />
+            <input
+              type="color"
+              value={settings.user.color}
+              title="Cursor color"
+              onChange={(event) => updateUser({ color: event.target.value })}
+            />
+          </span>
+        </label>
+        <label>
+          relay
+          <input
+            value={serverUrlDraft}
+            onChange={(event) => setServerUrlDraft(event.target.value)}
+            onBlur={commitServerUrl}
+          />
+        </label>
+      </form>
+
+      {settings.enabled && !canCollaborate && (
+        <div className="collaboration-notice">
+          Repository files are edited alone; open a workspace document to
+          collaborate.
+        </div>
+      )}
+      {session && (
+        <>
+          <div className={`collaboration-status ${status}`} role="status">
+            {STATUS_LABELS[status]}
+          </div>
+          {peers.length === 0 ? (
+            <div className="collaboration-notice">
+              Nobody else is here. Others join by opening a document with the
+              same path on the same relay.
+            </div>
+          ) : (
+            <ul className="collaboration-peers">
+              {peers.map((peer) => (
+                <li key={peer.clientId}>
+                  <span
+                    className="collaboration-peer-color"
+                    style={{ backgroundColor: peer.color }}
+                  />
+                  {peer.name || "anonymous"}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CollaborationPanel;
@@ -0,0 +1,56 @@
+// src/components/collaboration/useCollaborationSession.ts
+import { useEffect, useRef, useState } from "react";
+import {
+  createCollaborationSession,
+  getCollaborationRoom,
+  type CollaborationSession,
+} from "../../services/collaboration/collaborationSession";
+import type { CollaborationUser } from "../../services/collaboration/collaborationSettings";
+
+/**
+ * Joins the relay room of the document at `path` while `documentId` is set,
+ * and leaves it when the document, its path or the relay changes. Returns
+ * null until the session for the current arguments exists, so an editor is
+ * never handed the previous document's shared doc.
+ *
+ * Changing `user` updates the name and color the others see without
+ * reconnecting.
+ */
+export function useCollaborationSession(
+  documentId: string | null,
+  path: string | null,
+  serverUrl: string,
+  user: CollaborationUser
+): CollaborationSession | null {
+  const [session, setSession] = useState<CollaborationSession | null>(null);
+  // Read when a session starts; later changes go through setUser
+  const userRef = useRef(user);
+
+  useEffect(() => {
+    userRef.current = user;
+    session?.setUser(user);
+  }, [session, user]);
+
+  useEffect(() => {
+    if (!documentId || path === null) {
+      setSession(null);
+      return;
+    }
+    const created = createCollaborationSession(
+      documentId,
+      path,
+      serverUrl,
+      userRef.current
+    );
+    setSession(created);
+    return () => created.destroy();
+  }, [documentId, path, serverUrl]);
+
+  const isCurrent =
+    session !== null &&
+    path !== null &&
+    session.documentId === documentId &&
+    session.room === getCollaborationRoom(path) &&
+    session.serverUrl === serverUrl;
+  return isCurrent ? session : null;
+}
@@ -0,0 +1,348 @@
+// src/components/comments/commentsPanel.tsx
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useEditorState } from "@tiptap/react";
+import type { Editor } from "@tiptap/core";
+import {
+  getCommentRanges,
+  getCommentState,
+} from "../../editor/comments/comment";
+import {
+  positionsToTextRange,
+  readDocumentText,
+  textRangeToPositions,
+} from "../../editor/comments/documentText";
+import {
+  createTextAnchor,
+  locateTextAnchor,
+} from "../../services/comments/textAnchor";
+import {
+  formatCommentTime,
+  type CommentStore,
+  type CommentThread,
+} from "../../services/storage/commentStore";
+import "./styles.css";
+
+interface CommentsPanelProps {
+  editor: Editor;
+  documentId: string;
+  store: CommentStore;
+  author: string; // Name new comments and replies are signed with
+}
+
+// Longer quotes are cut in the thread header
+const QUOTE_LENGTH = 80;
+
+function shortenQuote(quote: string): string {
+  const text = quote.replace(/\s+/g, " ").trim();
+  return text.length > QUOTE_LENGTH ? `${text.slice(0, QUOTE_LENGTH - 1)}…` : text;
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Review threads of the open document, in the margin next to the editor.
+ * Selecting text and pressing Mod-Alt-m (or "comment") starts a thread;
+ * clicking a thread shows its text and clicking highlighted text opens its
+ * thread. Resolving a thread removes its highlight, reopening puts it back
+ * if the text can still be found.
+ */
+const CommentsPanel: React.FC<CommentsPanelProps> = ({
+  editor,
+  documentId,
+  store,
+  author,
+}) => {
+  const [threads, setThreads] = useState<CommentThread[] | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [draftText, setDraftText] = useState("");
+  const [replyText, setReplyText] = useState("");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Ids joined into a string, so unrelated edits do not re-render the panel
+  const { activeThreadId, draftQuote, canComment, highlightedIds } =
+    useEditorState({
+      editor,
+      selector: ({ editor: current }) => {
+        const { state } = current;
+        const comments = getCommentState(state);
+        const { from, to, empty } = state.selection;
+        return {
+          activeThreadId: comments?.activeThreadId ?? null,
+          draftQuote: comments?.draft
+            ? state.doc.textBetween(comments.draft.from, comments.draft.to, " ")
+            : null,
+          canComment: !empty && state.doc.textBetween(from, to).trim() !== "",
+          highlightedIds: [...getCommentRanges(state.doc).keys()].sort().join(" "),
+        };
+      },
+    });
+
+  useEffect(() => {
+    let cancelled = false;
+    const reload = () => {
+      store
+        .listThreads(documentId)
+        .then((found) => {
+          if (!cancelled) setThreads(found);
+        })
+        .catch((error) => {
+          if (!cancelled) setErrorMessage(errorText(error));
+        });
+    };
+    setThreads(null);
+    setErrorMessage(null);
+    reload();
+    const unsubscribe = store.subscribe((changedId) => {
+      if (changedId === documentId) reload();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [documentId, store]);
+
+  // Keeps the thread opened from the text in view
+  useEffect(() => {
+    setReplyText("");
+    if (!activeThreadId) return;
+    listRef.current
+      ?.querySelector(`[data-thread-id="${activeThreadId}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeThreadId]);
+
+  const runAction = (action: () => Promise<unknown>) => {
+    setErrorMessage(null);
+    action().catch((error) => setErrorMessage(errorText(error)));
+  };
+
+  const openThread = useCallback(
+    (threadId: string) => {
+      editor.commands.setActiveComment(threadId);
+      const range = getCommentRanges(editor.state.doc).get(threadId);
+      if (!range) return;
+      const { node } = editor.view.domAtPos(range.from);
+      const element = node instanceof HTMLElement ? node : node.parentElement;
+      element?.scrollIntoView({ block: "center" });
+    },
+    [editor]
+  );
+
+  const submitDraft = () => {
+    const draft = getCommentState(editor.state)?.draft;
+    const body = draftText.trim();
+    if (!draft || !body) return;
+    const documentText = readDocumentText(editor.state.doc);
+    const { from, to } = positionsToTextRange(documentText, draft);
+    runAction(async () => {
+      const thread = await store.createThread(
+        documentId,
+        createTextAnchor(documentText.text, from, to),
+        author,
+        body
+      );
+      editor.commands.addComment(thread.id);
+      setDraftText("");
+    });
+  };
+
+  const resolveThread = (thread: CommentThread) =>
+    runAction(async () => {
+      await store.setResolved(thread, true);
+      editor.commands.removeComment(thread.id);
+    });
+
+  const reopenThread = (thread: CommentThread) =>
+    runAction(async () => {
+      await store.setResolved(thread, false);
+      const documentText = readDocumentText(editor.state.doc);
+      const found = locateTextAnchor(documentText.text, thread.anchor);
+      const range = found && textRangeToPositions(documentText, found);
+      if (range) {
+        editor.commands.restoreComments([{ threadId: thread.id, ...range }]);
+        editor.commands.setActiveComment(thread.id);
+      }
+    });
+
+  const deleteThread = (thread: CommentThread) => {
+    if (window.confirm("Delete this thread and all its replies?")) {
+      runAction(async () => {
+        await store.deleteThread(thread);
+        editor.commands.removeComment(thread.id);
+      });
+    }
+  };
+
+  const highlighted = new Set(highlightedIds.split(" "));
+  const visibleThreads = (threads ?? []).filter(
+    (thread) => showResolved || !thread.resolved
+  );
+  const resolvedCount = (threads ?? []).filter((thread) => thread.resolved).length;
+
+  return (
+    <div className="comments-panel">
+      <div className="comments-header">
+        <span className="comments-title">comments</span>
+        <button
+          type="button"
+          className="comments-action"
+          title="Comment on the selected text (Mod-Alt-m)"
+          disabled={!canComment}
+          onClick={() => editor.chain().focus().startComment().run()}
+        >
+          comment
+        </button>
+      </div>
+      <label className="comments-filter">
+        <input
+          type="checkbox"
+          checked={showResolved}
+          onChange={(event) => setShowResolved(event.target.checked)}
+        />
+        show resolved ({resolvedCount})
+      </label>
+      {errorMessage && (
+        <div className="comments-error" role="alert">
+          {errorMessage}
+        </div>
+      )}
+
+      {draftQuote !== null && (
+        <form
+          className="comments-draft"
+          onSubmit={(event) => {
+            event.preventDefault();
+            submitDraft();
+          }}
+        >
+          <div className="comments-quote">{shortenQuote(draftQuote)}</div>
+          <textarea
+            autoFocus
+            value={draftText}
+            placeholder="Add a comment..."
+            onChange={(event) => setDraftText(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) {
+                event.preventDefault();
+                submitDraft();
+              } else if (event.key === "Escape") {
+                editor.chain().focus().cancelComment().run();
+              }
+            }}
+          />
+          <div className="comments-buttons">
+            <button type="submit" disabled={!draftText.trim()}>
+              comment
+            </button>
+            <button
+              type="button"
+              onClick={() => editor.chain().focus().cancelComment().run()}
+            >
+              cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {!threads ? (
+        <div className="comments-notice">loading...</div>
+      ) : visibleThreads.length === 0 && draftQuote === null ? (
+        <div className="comments-notice">
+          {threads.length === 0
+            ? "No comments yet. Select some text and press comment."
+            : "All threads are resolved."}
+        </div>
+      ) : (
+        <ul className="comments-list" ref={listRef}>
+          {visibleThreads.map((thread) => {
+            const isActive = thread.id === activeThreadId;
+            const isDetached = !thread.resolved && !highlighted.has(thread.id);
+            return (
+              <li
+                key={thread.id}
+                data-thread-id={thread.id}
+                className={`comments-thread ${isActive ? "active" : ""} ${thread.resolved ? "resolved" : ""}`}
+                onClick={() => !isActive && openThread(thread.id)}
+              >
+                <div className="comments-quote" title={thread.anchor.quote}>
+                  {shortenQuote(thread.anchor.quote)}
+                </div>
+                {thread.resolved && (
+                  <span className="comments-badge">resolved</span>
+                )}
+                {isDetached && (
+                  <span
+                    className="comments-badge detached"
+                    title="The commented text is no longer in the document"
+                  >
+                    detached
+                  </span>
+                )}
+                {thread.comments.map((message) => (
+                  <div key={message.id} className="comments-message">
+                    <div className="comments-meta">
+                      <span className="comments-author">
+                        {message.author || "anonymous"}
+                      </span>
+                      {formatCommentTime(message.createdAt)}
+                    </div>
+                    <div className="comments-body">{message.body}</div>
+                  </div>
+                ))}
+                {isActive && (
+                  <form
+                    className="comments-reply"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      const body = replyText.trim();
+                      if (!body) return;
+                      runAction(async () => {
+                        await store.addReply(thread, author, body);
+                        setReplyText("");
+                      });
+                    }}
+                  >
+                    {!thread.resolved && (
+                      <textarea
+                        value={replyText}
+                        placeholder="Reply..."
+                        onChange={(event) => setReplyText(event.target.value)}
+                      />
+                    )}
+                    <div className="comments-buttons">
+                      {!thread.resolved && (
+                        <button type="submit" disabled={!replyText.trim()}>
+                          reply
+                        </button>
+                      )}
+                      {thread.resolved ? (
+                        <button type="button" onClick={() => reopenThread(thread)}>
+                          reopen
+                        </button>
+                      ) : (
+                        <button type="button" onClick={() => resolveThread(thread)}>
+                          resolve
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        className="comments-delete"
+                        onClick={() => deleteThread(thread)}
+                      >
+                        delete
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CommentsPanel;
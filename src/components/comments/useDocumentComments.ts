@@ -0,0 +1,99 @@
+// src/components/comments/useDocumentComments.ts
+import { useEffect } from "react";
+import type { Editor } from "@tiptap/core";
+import { getCommentRanges } from "../../editor/comments/comment";
+import {
+  positionsToTextRange,
+  readDocumentText,
+  textRangeToPositions,
+} from "../../editor/comments/documentText";
+import {
+  createTextAnchor,
+  locateTextAnchor,
+  type TextAnchor,
+} from "../../services/comments/textAnchor";
+import type { CommentStore } from "../../services/storage/commentStore";
+
+// Anchors are refreshed once the typing pauses
+const ANCHOR_SAVE_DELAY_MS = 1000;
+
+/**
+ * Puts the comment highlights back when a document is opened and keeps the
+ * stored anchors in step with the highlighted text while it is edited.
+ *
+ * Markdown files carry no comments, so on load every unresolved thread is
+ * looked up by its anchor (quote and context) and highlighted where it is
+ * found; threads whose text is gone stay in the panel as detached. A shared
+ * collaboration doc may already hold the highlights, which are kept.
+ */
+export function useDocumentComments(
+  editor: Editor | null,
+  store: CommentStore | undefined,
+  loadedDocumentId: string | null
+) {
+  useEffect(() => {
+    if (!editor || !store || !loadedDocumentId) {
+      return;
+    }
+    const documentId = loadedDocumentId;
+    let cancelled = false;
+
+    store
+      .listThreads(documentId)
+      .then((threads) => {
+        if (cancelled || editor.isDestroyed) {
+          return;
+        }
+        const { doc } = editor.state;
+        const highlighted = getCommentRanges(doc);
+        const documentText = readDocumentText(doc);
+        const ranges = threads
+          .filter((thread) => !thread.resolved && !highlighted.has(thread.id))
+          .flatMap((thread) => {
+            const found = locateTextAnchor(documentText.text, thread.anchor);
+            const range = found && textRangeToPositions(documentText, found);
+            return range ? [{ threadId: thread.id, ...range }] : [];
+          });
+        if (ranges.length > 0) {
+          editor.commands.restoreComments(ranges);
+        }
+      })
+      .catch((error) => console.error("Error loading comments:", error));
+
+    let timer: number | null = null;
+    const saveAnchors = () => {
+      timer = null;
+      const { doc } = editor.state;
+      const documentText = readDocumentText(doc);
+      const anchors = new Map<string, TextAnchor>();
+      getCommentRanges(doc).forEach((range, threadId) => {
+        const { from, to } = positionsToTextRange(documentText, range);
+        if (from < to) {
+          anchors.set(threadId, createTextAnchor(documentText.text, from, to));
+        }
+      });
+      if (anchors.size > 0) {
+        store
+          .updateAnchors(documentId, anchors)
+          .catch((error) => console.error("Error saving comments:", error));
+      }
+    };
+    const handleUpdate = () => {
+      if (timer !== null) {
+        window.clearTimeout(timer);
+      }
+      timer = window.setTimeout(saveAnchors, ANCHOR_SAVE_DELAY_MS);
+    };
+    editor.on("update", handleUpdate);
+
+    return () => {
+      cancelled = true;
+      editor.off("update", handleUpdate);
+      // The editor still shows this document; switching loads the next one later
+      if (timer !== null) {
+        window.clearTimeout(timer);
+        if (!editor.isDestroyed) saveAnchors();
+      }
+    };
+  }, [editor, store, loadedDocumentId]);
+}
@@ -0,0 +1,190 @@
+// src/components/findBar/findBar.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { useEditorState } from "@tiptap/react";
+import type { Editor } from "@tiptap/core";
+import { getSearchState } from "../../editor/search/search";
+import "./styles.css";
+
+interface FindBarProps {
+  editor: Editor;
+}
+
+/**
+ * Find and replace for the open document, shown while the search is open
+ * (Mod-f). Enter / Shift+Enter step through the matches, Escape closes the
+ * bar and returns to the editor with the current match selected.
+ */
+const FindBar: React.FC<FindBarProps> = ({ editor }) => {
+  const search = useEditorState({
+    editor,
+    selector: ({ editor: current }) => {
+      const state = getSearchState(current.state);
+      return state
+        ? {
+            open: state.open,
+            query: state.query,
+            regex: state.options.regex,
+            caseSensitive: state.options.caseSensitive,
+            count: state.matches.length,
+            current: state.current,
+            error: state.error,
+            focusRequest: state.focusRequest,
+          }
+        : null;
+    },
+  });
+  const [replacement, setReplacement] = useState("");
+  const [showReplace, setShowReplace] = useState(false);
+  const queryRef = useRef<HTMLInputElement>(null);
+
+  // Every openSearch, including Mod-f while already open, focuses the query
+  const focusRequest = search?.focusRequest;
+  useEffect(() => {
+    if (focusRequest) {
+      queryRef.current?.focus();
+      queryRef.current?.select();
+    }
+  }, [focusRequest]);
+
+  if (!search?.open) {
+    return null;
+  }
+
+  const close = () => editor.chain().focus().closeSearch().run();
+
+  const handleQueryKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      if (event.shiftKey) {
+        editor.commands.findPrevious();
+      } else {
+        editor.commands.findNext();
+      }
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      close();
+    }
+  };
+
+  const handleReplaceKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      if (event.metaKey || event.ctrlKey) {
+        editor.commands.replaceAllMatches(replacement);
+      } else {
+        editor.commands.replaceMatch(replacement);
+      }
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      close();
+    }
+  };
+
+  const status = search.error
+    ? "bad regex"
+    : search.count === 0
+      ? search.query
+        ? "no matches"
+        : ""
+      : `${search.current + 1} of ${search.count}`;
+
+  return (
+    <div className="find-bar" role="search">
+      <div className="find-bar-row">
+        <button
+          type="button"
+          className="find-bar-toggle"
+          title="Toggle replace"
+          onClick={() => setShowReplace((shown) => !shown)}
+        >
+          {showReplace ? "v" : ">"}
+        </button>
+        <input
+          ref={queryRef}
+          className={`find-bar-input ${search.error ? "invalid" : ""}`}
+          value={search.query}
+          placeholder="find"
+          spellCheck={false}
+          aria-label="Find"
+          title={search.error ?? undefined}
+          onChange={(event) => editor.commands.setSearchQuery(event.target.value)}
+          onKeyDown={handleQueryKeyDown}
+        />
+        <button
+          type="button"
+          className={`find-bar-option ${search.caseSensitive ? "active" : ""}`}
+          title="Match case"
+          aria-pressed={search.caseSensitive}
+          onClick={() =>
+            editor.commands.setSearchOptions({ caseSensitive: !search.caseSensitive })
+          }
+        >
+          Aa
+        </button>
+        <button
+          type="button"
+          className={`find-bar-option ${search.regex ? "active" : ""}`}
+          title="Regular expression"
+          aria-pressed={search.regex}
+          onClick={() => editor.commands.setSearchOptions({ regex: !search.regex })}
+        >
+          .*
+        </button>
+        <span className={`find-bar-status ${search.error ? "error" : ""}`}>
+          {status}
+        </span>
+        <button
+          type="button"
+          title="Previous match (Shift+Enter)"
+          disabled={search.count === 0}
+          onClick={() => editor.commands.findPrevious()}
+        >
+          prev
+        </button>
+        <button
+          type="button"
+          title="Next match (Enter)"
+          disabled={search.count === 0}
+          onClick={() => editor.commands.findNext()}
+        >
+          next
+        </button>
+        <button type="button" title="Close (Escape)" onClick={close}>
+          x
+        </button>
+      </div>
+      {showReplace && (
+        <div className="find-bar-row">
+          <span className="find-bar-toggle-spacer" />
+          <input
+            className="find-bar-input"
+            value={replacement}
+            placeholder={search.regex ? "replace ($1 for groups)" : "replace"}
+            spellCheck={false}
+            aria-label="Replace"
+            onChange={(event) => setReplacement(event.target.value)}
+            onKeyDown={handleReplaceKeyDown}
+          />
+          <button
+            type="button"
+            title="Replace this match (Enter)"
+            disabled={search.count === 0}
+            onClick={() => editor.commands.replaceMatch(replacement)}
+          >
+            replace
+          </button>
+          <button
+            type="button"
+            title="Replace every match (Ctrl+Enter)"
+            disabled={search.count === 0}
+            onClick={() => editor.commands.replaceAllMatches(replacement)}
+          >
+            all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FindBar;
@@ -0,0 +1,119 @@
+// src/components/history/historyPanel.tsx
+import React, { useEffect, useState } from "react";
+import {
+  formatSnapshotTime,
+  type Snapshot,
+  type SnapshotStore,
+} from "../../services/storage/snapshotStore";
+import "./styles.css";
+
+interface HistoryPanelProps {
+  documentId: string;
+  store: SnapshotStore;
+  onSnapshotNow: () => Promise<unknown>; // Saves a manual snapshot
+  onOpenSnapshot: (snapshot: Snapshot) => void;
+}
+
+/**
+ * Saved versions of the open document, newest first. Opening one shows its
+ * differences from the current content, from where it can be restored.
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  documentId,
+  store,
+  onSnapshotNow,
+  onOpenSnapshot,
+}) => {
+  const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const reload = () => {
+      store
+        .listSnapshots(documentId)
+        .then((found) => {
+          if (!cancelled) setSnapshots(found);
+        })
+        .catch((error) => {
+          if (!cancelled) {
+            setErrorMessage(error instanceof Error ? error.message : String(error));
+          }
+        });
+    };
+    setSnapshots(null);
+    setErrorMessage(null);
+    reload();
+    const unsubscribe = store.subscribe((changedId) => {
+      if (changedId === documentId) reload();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [documentId, store]);
+
+  const runAction = (action: () => Promise<unknown>) => {
+    setErrorMessage(null);
+    action().catch((error) =>
+      setErrorMessage(error instanceof Error ? error.message : String(error))
+    );
+  };
+
+  return (
+    <div className="history-panel">
+      <div className="history-header">
+        <span className="history-title">history</span>
+        <button
+          type="button"
+          className="history-action"
+          title="Save a snapshot of the current content"
+          onClick={() => runAction(onSnapshotNow)}
+        >
+          snapshot
+        </button>
+      </div>
+      {errorMessage && (
+        <div className="history-error" role="alert">
+          {errorMessage}
+        </div>
+      )}
+      {!snapshots ? (
+        <div className="history-notice">loading...</div>
+      ) : snapshots.length === 0 ? (
+        <div className="history-notice">
+          No snapshots yet. One is taken when you start editing, then every
+          few minutes.
+        </div>
+      ) : (
+        <ul className="history-list">
+          {snapshots.map((snapshot) => (
+            <li key={snapshot.id}>
+              <button
+                type="button"
+                className="history-snapshot"
+                title="Compare with the current content"
+                onClick={() => onOpenSnapshot(snapshot)}
+              >
+                {formatSnapshotTime(snapshot.createdAt)}
+                {snapshot.kind === "manual" && (
+                  <span className="history-kind">saved</span>
+                )}
+              </button>
+              <button
+                type="button"
+                className="history-delete"
+                title="Delete this snapshot"
+                onClick={() => runAction(() => store.deleteSnapshot(snapshot))}
+              >
+                x
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
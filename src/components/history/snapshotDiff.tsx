@@ -0,0 +1,183 @@
+// src/components/history/snapshotDiff.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import { diffBlocks, type DiffBlock } from "../../services/blockDiff";
+import {
+  createThemeRenderer,
+  type ThemeRenderer,
+} from "../../services/themes/themeRenderer";
+import type { Theme } from "../../services/themes/themes";
+import type { SanitizeMode } from "../../services/sanitize/sanitizePolicy";
+import type { DocumentStorage } from "../../services/storage/documentStorage";
+import {
+  formatSnapshotTime,
+  type Snapshot,
+} from "../../services/storage/snapshotStore";
+import "./styles.css";
+
+interface SnapshotDiffProps {
+  snapshot: Snapshot;
+  loadDocument: DocumentStorage["loadDocument"]; // For the current content
+  onRestore: (snapshot: Snapshot) => void;
+  onClose: () => void;
+  theme: Theme; // Blocks are rendered the way this theme exports them
+  sanitizeMode: SanitizeMode; // ...and with the raw HTML it would publish
+}
+
+/** One block of the diff, rendered like the exported page would show it. */
+const DiffBlockView: React.FC<{
+  block: DiffBlock;
+  renderer: ThemeRenderer;
+  sanitizeMode: SanitizeMode;
+}> = ({ block, renderer, sanitizeMode }) => {
+  const [copied, setCopied] = useState(false);
+  const html = useMemo(
+    () => (block.frontMatter ? "" : renderer.render(block.markdown, { sanitizeMode })),
+    [block, renderer, sanitizeMode]
+  );
+
+  const copy = () => {
+    navigator.clipboard
+      .writeText(block.markdown)
+      .then(() => setCopied(true))
+      .catch((error) => console.error("Error copying block:", error));
+  };
+
+  return (
+    <div className={`snapshot-diff-block ${block.change}`}>
+      <div className="snapshot-diff-gutter">
+        {block.change === "added" ? "+" : block.change === "removed" ? "-" : ""}
+      </div>
+      <div className="snapshot-diff-content">
+        {block.frontMatter ? (
+          <pre className="snapshot-diff-front-matter">{block.markdown}</pre>
+        ) : (
+          <div dangerouslySetInnerHTML={{ __html: html }} />
+        )}
+      </div>
+      {/* Blocks of the snapshot can be pasted back into the document */}
+      {block.change !== "added" && (
+        <button
+          type="button"
+          className="snapshot-diff-copy"
+          title={`Copy this block's Markdown${block.change === "removed" ? " (only in snapshot)" : ""}`}
+          onClick={copy}
+        >
+          {copied ? "copied" : "copy"}
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * A snapshot compared with the current content: blocks added since are
+ * marked "+", blocks only in the snapshot "-". The whole snapshot can be
+ * restored, or single blocks copied and pasted back.
+ */
+const SnapshotDiff: React.FC<SnapshotDiffProps> = ({
+  snapshot,
+  loadDocument,
+  onRestore,
+  onClose,
+  theme,
+  sanitizeMode,
+}) => {
+  const renderer = useMemo(() => createThemeRenderer(theme), [theme]);
+  const [blocks, setBlocks] = useState<DiffBlock[] | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [changesOnly, setChangesOnly] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setBlocks(null);
+    loadDocument(snapshot.documentId)
+      .then((current) => {
+        if (!cancelled) setBlocks(diffBlocks(snapshot.markdown, current));
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setErrorMessage(error instanceof Error ? error.message : String(error));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [snapshot, loadDocument]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const changeCount =
+    blocks?.filter((block) => block.change !== "unchanged").length ?? 0;
+
+  return (
+    <div className="snapshot-diff-backdrop" onMouseDown={onClose}>
+      <div
+        className="snapshot-diff"
+        role="dialog"
+        aria-label="Compare snapshot"
+        onMouseDown={(event) => event.stopPropagation()}
+      >
+        <div className="snapshot-diff-header">
+          <span className="snapshot-diff-title">
+            {formatSnapshotTime(snapshot.createdAt)} vs. current
+          </span>
+          <label className="snapshot-diff-filter">
+            <input
+              type="checkbox"
+              checked={changesOnly}
+              onChange={(event) => setChangesOnly(event.target.checked)}
+            />
+            changes only
+          </label>
+          <button
+            type="button"
+            className="history-action"
+            title="Replace the current content with this snapshot (undoable)"
+            onClick={() => onRestore(snapshot)}
+          >
+            restore
+          </button>
+          <button type="button" className="history-action" onClick={onClose}>
+            close
+          </button>
+        </div>
+        {errorMessage ? (
+          <div className="history-error" role="alert">
+            {errorMessage}
+          </div>
+        ) : !blocks ? (
+          <div className="history-notice">comparing...</div>
+        ) : changeCount === 0 ? (
+          <div className="history-notice">
+            Identical to the current content.
+          </div>
+        ) : (
+          <div className="snapshot-diff-blocks">
+            <div className="snapshot-diff-legend">
+              <span className="added">+ added since</span>
+              <span className="removed">- only in snapshot</span>
+            </div>
+            {blocks.map((block, index) =>
+              changesOnly && block.change === "unchanged" ? null : (
+                <DiffBlockView
+                  key={index}
+                  block={block}
+                  renderer={renderer}
+                  sanitizeMode={sanitizeMode}
+                />
+              )
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotDiff;
@@ -1,101 +1,123 @@
 // src/components/LiveMarkdownEditor.tsx
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { useEditor, EditorContent } from "@tiptap/react";
-import type { Range, Editor } from "@tiptap/core"; // Import Node type
+import type { Editor } from "@tiptap/core";
 import StarterKit from "@tiptap/starter-kit";
 import { Markdown } from "tiptap-markdown";
 import Placeholder from "@tiptap/extension-placeholder";
+import { SourcePreservingMarkdown } from "../../editor/markdown/sourcePreservingMarkdown";
+import { HtmlSanitizer } from "../../editor/markdown/htmlSanitizer";
+import { HighlightedCodeBlock } from "../../editor/codeBlock/highlightedCodeBlock";
+import { Callout } from "../../editor/callout/callout";
+import { MathBlock, MathInline } from "../../editor/math/math";
+import { WikiLink } from "../../editor/wikiLink/wikiLink";
+import { Search } from "../../editor/search/search";
+import { HeadingAnchors } from "../../editor/tableOfContents/headingAnchors";
+import { TableOfContents } from "../../editor/tableOfContents/tableOfContents";
 import { TextTaskList } from "../../editor/extensions/textTaskList";
 import { TextTaskItem } from "../../editor/extensions/textTaskItem";
+import { SlashCommandExtension } from "../../editor/slashCommands/slashCommandExtension";
+import { BlockHandle } from "../../editor/blockHandle/blockHandle";
+import { createCollaborationExtensions } from "../../editor/collaboration/collaboration";
+import { Comment } from "../../editor/comments/comment";
+import { Image } from "../../editor/assets/image";
+import { Attachment } from "../../editor/assets/attachment";
+import { AssetUpload } from "../../editor/assets/assetUpload";
+import TableControlBar from "../tableControlBar/tableControlBar";
+import BlockMenu from "../blockMenu/blockMenu";
+import PropertiesPanel from "../propertiesPanel/propertiesPanel";
+import FindBar from "../findBar/findBar";
+import SourcePane from "../sourcePane/sourcePane";
+import ViewModeBar from "../sourcePane/viewModeBar";
+import PreviewPane from "../previewPane/previewPane";
 import {
-  SlashCommandItem,
-  slashCommands,
-  SlashCommandMenuComponentProps,
-} from "../../editor/slashCommands/slashCommand.config";
+  loadViewMode,
+  saveViewMode,
+  type EditorViewMode,
+} from "../sourcePane/viewMode";
+import { useDocumentPersistence } from "./useDocumentPersistence";
+import { useDocumentComments } from "../comments/useDocumentComments";
+import type { DocumentStorage } from "../../services/storage/documentStorage";
+import type { WikiLinkDocument } from "../../services/wikiLinks";
+import type { SearchOptions } from "../../services/search/searchPattern";
+import type { CollaborationSession } from "../../services/collaboration/collaborationSession";
+import type { CommentStore } from "../../services/storage/commentStore";
+import { DEFAULT_THEME, type Theme } from "../../services/themes/themes";
 import {
-  SlashCommandActivationProps,
-  SlashCommandExtension,
-} from "../../editor/slashCommands/slashCommandInputRule";
-import SlashCommandMenu, {
-  SlashCommandMenuRef,
-} from "../../editor/slashCommands/slashCommandMenu";
+  DEFAULT_SANITIZE_MODE,
+  type SanitizeMode,
+} from "../../services/sanitize/sanitizePolicy";
 import "./styles.css";
 
 // Table Extension Imports
-import Table from "@tiptap/extension-table";
 import TableRow from "@tiptap/extension-table-row";
-import TableCell from "@tiptap/extension-table-cell";
-import TableHeader from "@tiptap/extension-table-header";
-
-// Slash Command Imports
+import {
+  GfmTable,
+  GfmTableCell,
+  GfmTableHeader,
+} from "../../editor/extensions/gfmTable";
 
 interface LiveMarkdownEditorProps {
-  initialContent: string;
-  onUpdate: (markdown: string) => void;
+  documentId: string; // Id understood by `storage`
+  storage: DocumentStorage; // Where the document's Markdown is loaded from and saved to
+  linkTargets?: WikiLinkDocument[]; // Documents [[wiki-links]] can point at
+  onOpenDocument?: (id: string) => void; // Follows a clicked wiki-link
+  // Gets the full Markdown on every edit, e.g. for the search index
+  onDocumentChange?: (documentId: string, markdown: string) => void;
+  findRequest?: FindRequest | null; // Search to show once `documentId` is loaded
+  // Gets the editor once it exists (null on unmount), e.g. for the outline
+  onEditorChange?: (editor: Editor | null) => void;
+  restoreRequest?: RestoreRequest | null; // Content to put back once `documentId` is loaded
+  // Shared Yjs doc to edit together with others; must belong to `documentId`
+  collaboration?: CollaborationSession | null;
+  comments?: CommentStore; // Review threads of `documentId`, highlighted in the text
+  theme?: Theme; // Renders the preview; the editor itself follows the page's CSS variables
+  // Which raw HTML the editor and the preview keep; changing it rebuilds the editor
+  sanitizeMode?: SanitizeMode;
 }
 
-const LiveMarkdownEditor: React.FC<LiveMarkdownEditorProps> = ({
-  initialContent,
-  onUpdate,
-}) => {
-  const slashCommandMenuRef = useRef<SlashCommandMenuRef>(null);
-  const editorRef = useRef<Editor | null>(null);
-
-  const [isSlashMenuOpen, setIsSlashMenuOpen] = useState(false);
-  const [slashMenuQuery, setSlashMenuQuery] = useState("");
-  const [slashMenuRange, setSlashMenuRange] = useState<Range | null>(null);
-  const [slashMenuPosition, setSlashMenuPosition] = useState<{
-    top: number;
-    left: number;
-    height: number;
-  } | null>(null);
-  const [slashMenuItems, setSlashMenuItems] = useState<SlashCommandItem[]>([]);
-
-  // State for TableControlBar (will be added later)
-  // const [isTableControlBarVisible, setIsTableControlBarVisible] = useState(false);
-  // const [tableControlBarPosition, setTableControlBarPosition] = useState<{ top: number; left: number; width?: number } | null>(null);
+// A search result opened from the workspace search palette
+export interface FindRequest {
+  documentId: string;
+  query: string;
+  options: SearchOptions;
+}
 
-  const isSlashMenuOpenRef = useRef(isSlashMenuOpen);
-  useEffect(() => {
-    isSlashMenuOpenRef.current = isSlashMenuOpen;
-  }, [isSlashMenuOpen]);
+// A snapshot restored from the history panel
+export interface RestoreRequest {
+  documentId: string;
+  markdown: string;
+}
 
-  const openSlashMenu = useCallback((props: SlashCommandActivationProps) => {
-    setIsSlashMenuOpen(true);
-    setSlashMenuQuery(props.query);
-    setSlashMenuRange(props.range);
-    setSlashMenuPosition(props.position);
-    const filtered = slashCommands
-      .filter(
-        (item) =>
-          item.title.toLowerCase().includes(props.query.toLowerCase()) ||
-          item.aliases?.some((alias) =>
-            alias.toLowerCase().includes(props.query.toLowerCase())
-          )
-      )
-      .slice(0, 10);
-    setSlashMenuItems(filtered);
-  }, []);
+// Stable fallback, so the link targets effect does not run on every render
+const NO_LINK_TARGETS: WikiLinkDocument[] = [];
 
-  const closeSlashMenuAndFocusEditor = useCallback(() => {
-    if (!isSlashMenuOpenRef.current) return;
-    setIsSlashMenuOpen(false);
-    setSlashMenuQuery("");
-    setSlashMenuRange(null);
-    setSlashMenuPosition(null);
-    setSlashMenuItems([]);
-    setTimeout(() => {
-      editorRef.current?.commands.focus();
-    }, 0);
-  }, []);
+const LiveMarkdownEditor: React.FC<LiveMarkdownEditorProps> = ({
+  documentId,
+  storage,
+  linkTargets = NO_LINK_TARGETS,
+  onOpenDocument,
+  onDocumentChange,
+  findRequest,
+  onEditorChange,
+  restoreRequest,
+  collaboration = null,
+  comments,
+  theme = DEFAULT_THEME,
+  sanitizeMode = DEFAULT_SANITIZE_MODE,
+}) => {
+  // useEditor captures onUpdate once, so it calls through a ref to the latest saver
+  const scheduleSaveRef = useRef<(editor: Editor) => void>(() => {});
+  // Same for the wiki-link click handler
+  const openDocumentRef = useRef(onOpenDocument);
 
   const tiptapEditor = useEditor({
     extensions: [
       StarterKit.configure({
         heading: { levels: [1, 2, 3, 4, 5, 6] },
-        codeBlock: {
-          /* Using StarterKit's default codeBlock */
-        },
+        codeBlock: false, // Replaced by HighlightedCodeBlock below
+        dropcursor: { color: "var(--theme-accent)", width: 2 }, // Marks where a dragged block lands
+        history: collaboration ? false : undefined, // The shared doc keeps its own undo history
         // StarterKit includes paragraph, text, bold, italic, strike, horizontalRule, etc.
         // It also includes BulletList, OrderedList, ListItem by default.
       }),
@@ -106,6 +128,33 @@ const LiveMarkdownEditor: React.FC<LiveMarkdownEditorProps> = ({
         breaks: false,
         transformPastedText: true,
       }),
+      // Raw HTML is allowed above; this filters it, and pasted HTML too
+      HtmlSanitizer.configure({ mode: sanitizeMode }),
+      // Saves untouched blocks exactly as they were loaded
+      SourcePreservingMarkdown.configure({ editorOnlyMarks: ["comment"] }),
+      // lowlight highlighting, language picker, fence info string round-trip
+      HighlightedCodeBlock,
+      // GitHub alerts (> [!NOTE]) as callout blocks
+      Callout,
+      // KaTeX formulas: $inline$ and $$ blocks $$
+      MathInline,
+      MathBlock,
+      // [[Document Name]] links between workspace documents, with a "[[" menu
+      WikiLink.configure({
+        onOpenDocument: (id) => openDocumentRef.current?.(id),
+      }),
+      // Find and replace (Mod-f), drawn by FindBar
+      Search,
+      // GitHub-style heading ids, and the /toc block that links to them
+      HeadingAnchors,
+      TableOfContents,
+      // Highlights of review threads (Mod-Alt-m), kept out of the Markdown
+      Comment,
+      // ![alt](assets/...) images and file cards; pasted and dropped files
+      // are stored next to the document
+      Image,
+      Attachment,
+      AssetUpload,
       Placeholder.configure({
         emptyEditorClass: "is-editor-empty",
         emptyNodeClass: "is-empty",
@@ -171,177 +220,188 @@ const LiveMarkdownEditor: React.FC<LiveMarkdownEditorProps> = ({
           class: 'task-item-text-based',
         },
       }),
-      SlashCommandExtension.configure({
-        onActivate: openSlashMenu,
-      }),
-      // Add Table Extensions
-      Table.configure({
+      // "/" menu; renders its own popup and handles its own keys
+      SlashCommandExtension,
+      // Drag grip beside each block, plus the block menu state
+      BlockHandle,
+      // Add Table Extensions (GFM pipe tables with column alignment)
+      GfmTable.configure({
         resizable: true, // Enable column resizing
         // cellMinWidth: 50, // Optional: set a minimum width for cells
       }),
       TableRow,
-      TableHeader, // For <th> cells
-      TableCell, // For <td> cells
+      GfmTableHeader, // For <th> cells
+      GfmTableCell, // For <td> cells
+      // Shared Yjs doc and remote cursors, in collaboration mode
+      ...(collaboration ? createCollaborationExtensions(collaboration) : []),
     ],
-    content: initialContent,
+    // Content is loaded from storage by useDocumentPersistence once the editor exists
+    content: "",
+    editable: false,
     onUpdate: ({ editor: currentEditor }) => {
-      let newMarkdown = "";
-      if (typeof (currentEditor as any).getMarkdown === "function") {
-        newMarkdown = (currentEditor as any).getMarkdown();
-      } else if (
-        currentEditor.storage &&
-        typeof currentEditor.storage.markdown?.getMarkdown === "function"
-      ) {
-        newMarkdown = currentEditor.storage.markdown.getMarkdown();
-      }
-      onUpdate(newMarkdown);
-
-      // Logic for closing slash menu if trigger text is modified
-      if (isSlashMenuOpenRef.current && slashMenuRange && currentEditor) {
-        // ... (existing logic)
-      }
+      scheduleSaveRef.current(currentEditor);
     },
-    // onSelectionUpdate will be used later for the TableControlBar
-    // onSelectionUpdate: ({ editor }) => {
-    //   if (editor.isActive('table')) {
-    //     // Logic to show and position TableControlBar
-    //   } else {
-    //     // Logic to hide TableControlBar
-    //   }
-    // },
-  });
+    // A new session is a different shared doc, and a new sanitization mode
+    // changes what loading keeps; either way the editor starts over
+  }, [collaboration, sanitizeMode]);
+
+  const {
+    loadState,
+    loadedDocumentId,
+    scheduleSave,
+    frontMatter,
+    updateFrontMatter,
+    replaceDocument,
+    getMarkdown,
+  } = useDocumentPersistence(
+    tiptapEditor,
+    storage,
+    documentId,
+    onDocumentChange,
+    collaboration
+  );
+  useDocumentComments(tiptapEditor, comments, loadedDocumentId);
+  useEffect(() => {
+    scheduleSaveRef.current = scheduleSave;
+  }, [scheduleSave]);
+  useEffect(() => {
+    openDocumentRef.current = onOpenDocument;
+  }, [onOpenDocument]);
+
+  // Pasted files go to the storage of the document being opened
+  useEffect(() => {
+    const { saveAsset, loadAsset } = storage;
+    tiptapEditor?.commands.setDocumentAssets(
+      saveAsset && loadAsset
+        ? {
+            save: (file) => saveAsset(documentId, file),
+            load: (path) => loadAsset(documentId, path),
+          }
+        : null
+    );
+  }, [tiptapEditor, storage, documentId]);
 
+  // Also updates links to documents that were just renamed or moved
   useEffect(() => {
-    editorRef.current = tiptapEditor;
-  }, [tiptapEditor]);
+    tiptapEditor?.commands.setWikiLinkDocuments(linkTargets);
+  }, [tiptapEditor, linkTargets]);
 
   useEffect(() => {
-    if (isSlashMenuOpen) {
-      const currentQuery = slashMenuQuery;
-      const filtered = slashCommands
-        .filter(
-          (item) =>
-            item.title.toLowerCase().includes(currentQuery.toLowerCase()) ||
-            item.aliases?.some((alias) =>
-              alias.toLowerCase().includes(currentQuery.toLowerCase())
-            )
-        )
-        .slice(0, 10);
-      setSlashMenuItems(filtered);
+    if (!tiptapEditor || !onEditorChange) {
+      return;
     }
-  }, [slashMenuQuery, isSlashMenuOpen]);
+    onEditorChange(tiptapEditor);
+    return () => onEditorChange(null);
+  }, [tiptapEditor, onEditorChange]);
 
+  // Each request is shown once, from the top of the freshly loaded document
+  const shownFindRequestRef = useRef<FindRequest | null>(null);
   useEffect(() => {
-    if (tiptapEditor) {
-      let currentEditorMarkdown = "";
-      if (typeof (tiptapEditor as any).getMarkdown === "function") {
-        currentEditorMarkdown = (tiptapEditor as any).getMarkdown();
-      } else if (
-        tiptapEditor.storage &&
-        typeof tiptapEditor.storage.markdown?.getMarkdown === "function"
-      ) {
-        currentEditorMarkdown = tiptapEditor.storage.markdown.getMarkdown();
-      }
-      if (initialContent !== currentEditorMarkdown) {
-        tiptapEditor.commands.setContent(initialContent, true);
-      }
+    if (
+      !tiptapEditor ||
+      !findRequest ||
+      findRequest.documentId !== loadedDocumentId ||
+      shownFindRequestRef.current === findRequest
+    ) {
+      return;
     }
-  }, [initialContent, tiptapEditor]);
+    shownFindRequestRef.current = findRequest;
+    tiptapEditor
+      .chain()
+      .setTextSelection(0)
+      .openSearch(findRequest.query, findRequest.options)
+      .run();
+  }, [tiptapEditor, findRequest, loadedDocumentId]);
 
-  const handleCommandSelection = useCallback(
-    (item: SlashCommandItem) => {
-      const currentEditor = editorRef.current;
-      if (currentEditor && slashMenuRange) {
-        currentEditor.chain().focus().deleteRange(slashMenuRange).run(); // Delete trigger text
-        item.command({ editor: currentEditor, range: slashMenuRange }); // Execute command
-      }
-      closeSlashMenuAndFocusEditor();
-    },
-    [slashMenuRange, closeSlashMenuAndFocusEditor]
-  );
+  // Rich editor, Markdown source, or both side by side
+  const [viewMode, setViewMode] = useState<EditorViewMode>(loadViewMode);
+  const changeViewMode = (mode: EditorViewMode) => {
+    saveViewMode(mode);
+    setViewMode(mode);
+  };
+  // The rich pane scrolls on its own beside the source, which follows it
+  const [richPane, setRichPane] = useState<HTMLDivElement | null>(null);
 
+  // Like find requests, each restore is applied once
+  const appliedRestoreRequestRef = useRef<RestoreRequest | null>(null);
   useEffect(() => {
-    if (!isSlashMenuOpen || !tiptapEditor) {
+    if (
+      !restoreRequest ||
+      restoreRequest.documentId !== loadedDocumentId ||
+      appliedRestoreRequestRef.current === restoreRequest
+    ) {
       return;
     }
-    const handleKeyDown = (event: KeyboardEvent) => {
-      if (!isSlashMenuOpenRef.current) {
-        return;
-      }
-      if (slashCommandMenuRef.current?.onKeyDown(event)) {
-        event.preventDefault();
-        event.stopPropagation();
-        return;
-      }
-      if (event.key === "Escape") {
-        event.preventDefault();
-        event.stopPropagation();
-        closeSlashMenuAndFocusEditor();
-      }
-    };
-    document.addEventListener("keydown", handleKeyDown, true);
-    return () => {
-      document.removeEventListener("keydown", handleKeyDown, true);
-    };
-  }, [isSlashMenuOpen, tiptapEditor, closeSlashMenuAndFocusEditor]);
+    appliedRestoreRequestRef.current = restoreRequest;
+    replaceDocument(restoreRequest.markdown);
+  }, [restoreRequest, loadedDocumentId, replaceDocument]);
 
   if (!tiptapEditor) {
     return <div className="editor-loading">Loading Editor...</div>;
   }
-
-  const currentValidEditor = editorRef.current || tiptapEditor;
-  const slashMenuProps: SlashCommandMenuComponentProps | null =
-    isSlashMenuOpen && slashMenuPosition && currentValidEditor
-      ? {
-          editor: currentValidEditor,
-          items: slashMenuItems,
-          command: handleCommandSelection,
-          range: slashMenuRange || { from: 0, to: 0 },
-          query: slashMenuQuery,
-          text: `/${slashMenuQuery}`,
-          decorationNode: null,
-          clientRect: () => {
-            if (slashMenuPosition) {
-              return {
-                width: 0,
-                height: slashMenuPosition.height,
-                top: slashMenuPosition.top,
-                bottom: slashMenuPosition.top + slashMenuPosition.height,
-                left: slashMenuPosition.left,
-                right: slashMenuPosition.left,
-                x: slashMenuPosition.left,
-                y: slashMenuPosition.top,
-                toJSON: () => ({}),
-              } as DOMRect;
-            }
-            return null;
-          },
-          onClose: closeSlashMenuAndFocusEditor,
-        }
-      : null;
+  if (loadState === "error") {
+    return <div className="editor-loading">Could not load this document.</div>;
+  }
 
   return (
     <>
-      <EditorContent
-        editor={tiptapEditor}
-        className="live-editor-tiptap-container"
-      />
-      {isSlashMenuOpen && slashMenuPosition && slashMenuProps && (
-        <div
-          style={{
-            position: "fixed",
-            top: `${slashMenuPosition.top + slashMenuPosition.height + 2}px`,
-            left: `${slashMenuPosition.left}px`,
-            zIndex: 100,
-          }}
-        >
-          <SlashCommandMenu ref={slashCommandMenuRef} {...slashMenuProps} />
+      {loadState === "loading" && (
+        <div className="editor-loading">Loading document...</div>
+      )}
+      {loadState === "connecting" && collaboration && (
+        <div className="editor-loading">
+          Waiting for the collaboration relay at {collaboration.serverUrl}...
         </div>
       )}
-      {/* Placeholder for TableControlBar - will be added next */}
-      {/* {isTableControlBarVisible && tableControlBarPosition && tiptapEditor && (
-        <TableControlBar editor={tiptapEditor} position={tableControlBarPosition} />
-      )} */}
+      {/* YAML front matter, kept out of the editor content */}
+      {loadState === "ready" && (
+        <PropertiesPanel
+          frontMatter={frontMatter}
+          onChange={updateFrontMatter}
+        />
+      )}
+      <ViewModeBar mode={viewMode} onChange={changeViewMode} />
+      {/* Shows itself while the search is open (Mod-f) */}
+      <FindBar editor={tiptapEditor} />
+      <div className={`live-editor-panes ${viewMode}`}>
+        {/* Hidden, but still edited through the source, in source mode */}
+        <div className="live-editor-pane" ref={setRichPane}>
+          <EditorContent
+            editor={tiptapEditor}
+            className="live-editor-tiptap-container"
+          />
+        </div>
+        {(viewMode === "split" || viewMode === "source") && (
+          <SourcePane
+            editor={tiptapEditor}
+            documentId={documentId}
+            ready={loadState === "ready" && loadedDocumentId === documentId}
+            getMarkdown={getMarkdown}
+            onChange={replaceDocument}
+            frontMatter={frontMatter}
+            scrollPartner={viewMode === "split" ? richPane : null}
+          />
+        )}
+        {/* The page as the static site export publishes it */}
+        {viewMode === "preview" && (
+          <PreviewPane
+            editor={tiptapEditor}
+            documentId={documentId}
+            ready={loadState === "ready" && loadedDocumentId === documentId}
+            getMarkdown={getMarkdown}
+            frontMatter={frontMatter}
+            linkTargets={linkTargets}
+            onOpenDocument={onOpenDocument}
+            scrollPartner={richPane}
+            theme={theme}
+            sanitizeMode={sanitizeMode}
+          />
+        )}
+      </div>
+      {/* Shows itself while the cursor is inside a table */}
+      <TableControlBar editor={tiptapEditor} />
+      {/* Opened from a block's drag grip */}
+      <BlockMenu editor={tiptapEditor} />
     </>
   );
 };
@@ -0,0 +1,224 @@
+// src/components/liveMarkdown/useDocumentPersistence.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Editor } from "@tiptap/core";
+import { EditorState } from "@tiptap/pm/state";
+import type { DocumentStorage } from "../../services/storage/documentStorage";
+import type { CollaborationSession } from "../../services/collaboration/collaborationSession";
+import { getEditorMarkdown } from "../../editor/markdown/editorMarkdown";
+import { mapMarkdownSource } from "../../editor/markdown/sourcePreservingMarkdown";
+import {
+  joinFrontMatter,
+  splitFrontMatter,
+  type FrontMatter,
+} from "../../services/frontMatter";
+
+// Saving on every keystroke would hammer IndexedDB; edits are batched instead.
+const SAVE_DELAY_MS = 400;
+
+// "connecting": loaded from storage, waiting for the collaboration relay
+export type DocumentLoadState = "loading" | "connecting" | "ready" | "error";
+
+interface PendingSave {
+  documentId: string;
+  markdown: string;
+}
+
+/**
+ * Recreates the editor state around the current doc so undo cannot step
+ * back into the previously opened document.
+ */
+function resetHistory(editor: Editor) {
+  const { doc, plugins, schema } = editor.state;
+  editor.view.updateState(EditorState.create({ doc, plugins, schema }));
+}
+
+/**
+ * Loads `documentId` from `storage` into the editor and writes changes back.
+ * Returns the load state, the id of the document the editor shows once it
+ * is loaded, and a `scheduleSave` callback for the editor's onUpdate
+ * handler; `onChange` gets the full Markdown on every edit. Pending saves
+ * are flushed when the document changes or the editor unmounts so
+ * switching documents never loses the last edit.
+ *
+ * `replaceDocument` swaps in new content (a restored snapshot, an edit in
+ * the source pane) as an undoable edit that is saved like any other; only
+ * the blocks that differ are replaced. `getMarkdown` returns the document
+ * as it will be saved, front matter included.
+ *
+ * YAML front matter never reaches the editor: it is returned separately as
+ * `frontMatter`, edited through `updateFrontMatter`, and put back in front
+ * of the body on every save.
+ *
+ * With a `collaboration` session the shared Yjs doc owns the content: the
+ * stored document only seeds it when nobody has seeded the room yet (see
+ * CollaborationSession.seed), and the undo history is left to the session.
+ * The other clients map their stored copy onto the shared content so their
+ * saves keep its formatting too. Every client still
+ * saves its own copy (front matter included, which is not shared) on each
+ * local or remote edit.
+ */
+export function useDocumentPersistence(
+  editor: Editor | null,
+  storage: DocumentStorage,
+  documentId: string,
+  onChange?: (documentId: string, markdown: string) => void,
+  collaboration?: CollaborationSession | null
+) {
+  const [loadState, setLoadState] = useState<DocumentLoadState>("loading");
+  // Lags behind `documentId` until its content is in the editor
+  const [loadedDocumentId, setLoadedDocumentId] = useState<string | null>(null);
+  const [frontMatter, setFrontMatter] = useState<FrontMatter | null>(null);
+  // Read by scheduleSave, which the editor calls outside React's render cycle
+  const frontMatterRef = useRef<FrontMatter | null>(null);
+  // Id of the document currently shown in the editor; null while loading so
+  // setContent during a load is never mistaken for a user edit.
+  const loadedDocumentIdRef = useRef<string | null>(null);
+  const pendingSaveRef = useRef<PendingSave | null>(null);
+  const saveTimerRef = useRef<number | null>(null);
+
+  const flushSave = useCallback(() => {
+    if (saveTimerRef.current !== null) {
+      window.clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (pending) {
+      storage
+        .saveDocument(pending.documentId, pending.markdown)
+        .catch((error) => console.error("Error saving document:", error));
+    }
+  }, [storage]);
+
+  useEffect(() => {
+    if (!editor) {
+      return;
+    }
+    let cancelled = false;
+    loadedDocumentIdRef.current = null;
+    setLoadState("loading");
+    setLoadedDocumentId(null);
+    editor.setEditable(false);
+
+    storage
+      .loadDocument(documentId)
+      .then(async (markdown) => {
+        if (collaboration) {
+          if (!cancelled) setLoadState("connecting");
+          // Someone else may already be editing; their content wins over ours
+          await collaboration.whenSynced;
+        }
+        return markdown;
+      })
+      .then((markdown) => {
+        if (cancelled || editor.isDestroyed) {
+          return;
+        }
+        const { frontMatter: loadedFrontMatter, body } =
+          splitFrontMatter(markdown);
+        frontMatterRef.current = loadedFrontMatter;
+        setFrontMatter(loadedFrontMatter);
+        if (!collaboration) {
+          editor.commands.setMarkdown(body, false);
+          resetHistory(editor);
+        } else if (!collaboration.isSeeded()) {
+          // First one in the room: share the stored content, not as an undoable edit
+          collaboration.seed(() =>
+            editor
+              .chain()
+              .setMarkdown(body, false)
+              .setMeta("addToHistory", false)
+              .run()
+          );
+        } else {
+          // The content came from someone else's copy; blocks that are the
+          // same in ours are still saved byte-for-byte as we have them
+          mapMarkdownSource(editor, body);
+        }
+        editor.setEditable(true);
+        loadedDocumentIdRef.current = documentId;
+        setLoadState("ready");
+        setLoadedDocumentId(documentId);
+      })
+      .catch((error) => {
+        if (cancelled) {
+          return;
+        }
+        console.error("Error loading document:", error);
+        setLoadState("error");
+      });
+
+    return () => {
+      cancelled = true;
+      flushSave();
+    };
+  }, [editor, storage, documentId, collaboration, flushSave]);
+
+  const scheduleSave = useCallback(
+    (currentEditor: Editor) => {
+      const documentIdToSave = loadedDocumentIdRef.current;
+      if (!documentIdToSave) {
+        return;
+      }
+      pendingSaveRef.current = {
+        documentId: documentIdToSave,
+        markdown: joinFrontMatter(
+          frontMatterRef.current,
+          getEditorMarkdown(currentEditor)
+        ),
+      };
+      onChange?.(documentIdToSave, pendingSaveRef.current.markdown);
+      if (saveTimerRef.current !== null) {
+        window.clearTimeout(saveTimerRef.current);
+      }
+      saveTimerRef.current = window.setTimeout(flushSave, SAVE_DELAY_MS);
+    },
+    [flushSave, onChange]
+  );
+
+  const updateFrontMatter = useCallback(
+    (next: FrontMatter | null) => {
+      frontMatterRef.current = next;
+      setFrontMatter(next);
+      if (editor) {
+        scheduleSave(editor);
+      }
+    },
+    [editor, scheduleSave]
+  );
+
+  const replaceDocument = useCallback(
+    (markdown: string) => {
+      if (!editor || !loadedDocumentIdRef.current) {
+        return;
+      }
+      const { frontMatter: nextFrontMatter, body } = splitFrontMatter(markdown);
+      // Keeps the properties panel as it is while only the body is edited
+      if (nextFrontMatter?.raw !== frontMatterRef.current?.raw) {
+        frontMatterRef.current = nextFrontMatter;
+        setFrontMatter(nextFrontMatter);
+      }
+      editor.commands.updateMarkdown(body);
+      scheduleSave(editor);
+    },
+    [editor, scheduleSave]
+  );
+
+  const getMarkdown = useCallback(
+    () =>
+      editor
+        ? joinFrontMatter(frontMatterRef.current, getEditorMarkdown(editor))
+        : "",
+    [editor]
+  );
+
+  return {
+    loadState,
+    loadedDocumentId,
+    scheduleSave,
+    frontMatter,
+    updateFrontMatter,
+    replaceDocument,
+    getMarkdown,
+  };
+}
@@ -0,0 +1,122 @@
+// src/components/outline/outlinePanel.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { useEditorState } from "@tiptap/react";
+import type { Editor } from "@tiptap/core";
+import {
+  getHeadings,
+  revealHeading,
+} from "../../editor/tableOfContents/headingAnchors";
+import "./styles.css";
+
+interface OutlinePanelProps {
+  editor: Editor;
+}
+
+// How far below the top of the scrolled area a heading still counts as
+// the one being read
+const ACTIVE_OFFSET = 24;
+
+/** The nearest ancestor that scrolls, or null when the page itself does. */
+function findScrollParent(element: HTMLElement): HTMLElement | null {
+  for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+    const { overflowY } = getComputedStyle(parent);
+    if (/auto|scroll/.test(overflowY) && parent.scrollHeight > parent.clientHeight) {
+      return parent;
+    }
+  }
+  return null;
+}
+
+/**
+ * The open document's headings as a navigable tree. Clicking one scrolls to
+ * it; the heading currently at the top of the editor is highlighted.
+ */
+const OutlinePanel: React.FC<OutlinePanelProps> = ({ editor }) => {
+  // Positions left out, so typing inside a paragraph does not re-render
+  const headings = useEditorState({
+    editor,
+    selector: ({ editor: current }) =>
+      getHeadings(current.state).map(({ id, level, text }) => ({
+        id,
+        level,
+        text,
+      })),
+  });
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  // Tracks scrolling anywhere, since the editor may sit in a scrolled pane
+  useEffect(() => {
+    let frame = 0;
+    const updateActive = () => {
+      frame = 0;
+      if (editor.isDestroyed) return;
+      const { view } = editor;
+      const scrollParent = findScrollParent(view.dom);
+      const top = (scrollParent?.getBoundingClientRect().top ?? 0) + ACTIVE_OFFSET;
+      let active: string | null = null;
+      for (const heading of getHeadings(view.state)) {
+        const element = view.nodeDOM(heading.pos);
+        if (!(element instanceof HTMLElement)) continue;
+        if (active !== null && element.getBoundingClientRect().top > top) break;
+        // The first heading counts until the reader scrolls past the next one
+        active = heading.id;
+      }
+      setActiveId(active);
+    };
+    const scheduleUpdate = () => {
+      if (!frame) frame = requestAnimationFrame(updateActive);
+    };
+    scheduleUpdate();
+    document.addEventListener("scroll", scheduleUpdate, true);
+    window.addEventListener("resize", scheduleUpdate);
+    return () => {
+      cancelAnimationFrame(frame);
+      document.removeEventListener("scroll", scheduleUpdate, true);
+      window.removeEventListener("resize", scheduleUpdate);
+    };
+  }, [editor, headings]);
+
+  const openHeading = useCallback(
+    (id: string) => {
+      editor.view.focus();
+      if (revealHeading(editor.view, id)) {
+        setActiveId(id);
+      }
+    },
+    [editor]
+  );
+
+  const topLevel = Math.min(...headings.map((heading) => heading.level));
+
+  return (
+    <div className="outline-panel">
+      <div className="outline-header">
+        <span className="outline-title">outline</span>
+        <span className="outline-count">{headings.length}</span>
+      </div>
+      {headings.length === 0 ? (
+        <div className="outline-notice">
+          No headings yet. Start a line with # to add one.
+        </div>
+      ) : (
+        <ul className="outline-list">
+          {headings.map((heading, index) => (
+            <li key={`${heading.id}:${index}`}>
+              <button
+                type="button"
+                className={`outline-heading ${heading.id === activeId ? "active" : ""}`}
+                style={{ paddingLeft: `${6 + (heading.level - topLevel) * 12}px` }}
+                title={`#${heading.id}`}
+                onClick={() => openHeading(heading.id)}
+              >
+                {heading.text || "(untitled)"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default OutlinePanel;
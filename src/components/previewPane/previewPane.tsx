@@ -0,0 +1,181 @@
+// src/components/previewPane/previewPane.tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { Editor } from "@tiptap/core";
+import { createThemeRenderer } from "../../services/themes/themeRenderer";
+import type { Theme } from "../../services/themes/themes";
+import type { SanitizeMode } from "../../services/sanitize/sanitizePolicy";
+import {
+  convertWikiLinksToMarkdown,
+  type WikiLinkDocument,
+} from "../../services/wikiLinks";
+import {
+  isAbsoluteUrl,
+  resolveRelativePath,
+} from "../../services/assets/assetFiles";
+import { getDocumentAssets } from "../../editor/assets/assetUpload";
+import type { FrontMatter } from "../../services/frontMatter";
+import {
+  createRenderedScrollPane,
+  createRichScrollPane,
+  linkScrollPanes,
+} from "../sourcePane/scrollSync";
+import "./styles.css";
+
+// Rendering on every keystroke would redo the whole page; edits are batched
+const RENDER_DELAY_MS = 300;
+
+interface PreviewPaneProps {
+  editor: Editor;
+  documentId: string;
+  ready: boolean; // The document is loaded
+  // Full Markdown of the document, front matter included
+  getMarkdown: () => string;
+  frontMatter: FrontMatter | null; // A new title or properties re-render the page
+  linkTargets: WikiLinkDocument[]; // Resolves [[wiki-links]] like the export does
+  onOpenDocument?: (id: string) => void; // Follows links to other documents
+  // The rich view's scroll container, kept at the same spot as the preview
+  scrollPartner: HTMLElement | null;
+  theme: Theme; // The export renders with the same theme
+  sanitizeMode?: SanitizeMode; // Which raw HTML is kept, as in the editor
+}
+
+/**
+ * The open document as the static site export publishes it: rendered by
+ * the theme's renderer (marked and DOMPurify) with wiki-links turned into
+ * Markdown links first. Read-only; it follows the editor as it changes and
+ * scrolls along with it through the source line of each top-level block.
+ */
+const PreviewPane: React.FC<PreviewPaneProps> = ({
+  editor,
+  documentId,
+  ready,
+  getMarkdown,
+  frontMatter,
+  linkTargets,
+  onOpenDocument,
+  scrollPartner,
+  theme,
+  sanitizeMode,
+}) => {
+  const renderer = useMemo(() => createThemeRenderer(theme), [theme]);
+  const paneRef = useRef<HTMLDivElement>(null);
+  const [html, setHtml] = useState("");
+  // Object URLs of the document's images, made once per path
+  const assetUrlsRef = useRef(new Map<string, Promise<string>>());
+
+  useEffect(() => {
+    if (!ready) {
+      return;
+    }
+    const source = linkTargets.find(({ id }) => id === documentId);
+    const render = () => {
+      const markdown = getMarkdown();
+      setHtml(
+        renderer.renderDocument(
+          source ? convertWikiLinksToMarkdown(markdown, source, linkTargets) : markdown,
+          { sourceLines: true, sanitizeMode }
+        ).html
+      );
+    };
+    render();
+    let timer: number | null = null;
+    const schedule = () => {
+      if (timer !== null) window.clearTimeout(timer);
+      timer = window.setTimeout(render, RENDER_DELAY_MS);
+    };
+    editor.on("update", schedule);
+    return () => {
+      editor.off("update", schedule);
+      if (timer !== null) window.clearTimeout(timer);
+    };
+  }, [editor, documentId, ready, getMarkdown, frontMatter, linkTargets, renderer, sanitizeMode]);
+
+  // Images stored next to the document are served through object URLs
+  useEffect(() => {
+    const assets = getDocumentAssets(editor.state);
+    const images = paneRef.current?.querySelectorAll("img") ?? [];
+    for (const image of Array.from(images)) {
+      const src = image.getAttribute("src") ?? "";
+      if (!assets || !src || isAbsoluteUrl(src)) {
+        continue;
+      }
+      let url = assetUrlsRef.current.get(src);
+      if (!url) {
+        url = assets.load(src).then((blob) => URL.createObjectURL(blob));
+        assetUrlsRef.current.set(src, url);
+      }
+      url
+        .then((objectUrl) => {
+          if (image.getAttribute("src") === src) image.src = objectUrl;
+        })
+        .catch(() => {
+          // Left as it is, like a broken image on the published page
+        });
+    }
+  }, [editor, html]);
+
+  // Another document has other assets
+  useEffect(() => {
+    const assetUrls = assetUrlsRef.current;
+    return () => {
+      assetUrls.forEach((url) =>
+        url.then((objectUrl) => URL.revokeObjectURL(objectUrl)).catch(() => {})
+      );
+      assetUrls.clear();
+    };
+  }, [documentId]);
+
+  useEffect(() => {
+    const pane = paneRef.current;
+    if (!pane || !scrollPartner) {
+      return;
+    }
+    return linkScrollPanes(
+      createRenderedScrollPane(pane),
+      createRichScrollPane(editor, scrollPartner)
+    );
+  }, [editor, scrollPartner]);
+
+  // Links must not navigate away from the app
+  const handleClick = (event: React.MouseEvent) => {
+    const link = (event.target as Element).closest("a");
+    const href = link?.getAttribute("href");
+    if (!href) {
+      return;
+    }
+    event.preventDefault();
+    if (href.startsWith("#")) {
+      const id = decodeURIComponent(href.slice(1));
+      paneRef.current
+        ?.querySelector(`[id="${CSS.escape(id)}"]`)
+        ?.scrollIntoView({ block: "start" });
+    } else if (isAbsoluteUrl(href)) {
+      window.open(href, "_blank", "noopener");
+    } else {
+      // Relative links to .md files are links to workspace documents
+      const source = linkTargets.find(({ id }) => id === documentId);
+      const directory = source?.path.split("/").slice(0, -1).join("/") ?? "";
+      try {
+        const path = resolveRelativePath(
+          directory,
+          decodeURIComponent(href.split("#")[0])
+        ).replace(/\.md$/i, "");
+        const target = linkTargets.find((document) => document.path === path);
+        if (target) onOpenDocument?.(target.id);
+      } catch {
+        // Points outside the workspace
+      }
+    }
+  };
+
+  return (
+    <div className="preview-pane" ref={paneRef} onClick={handleClick}>
+      <div
+        className="preview-pane-content"
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+    </div>
+  );
+};
+
+export default PreviewPane;
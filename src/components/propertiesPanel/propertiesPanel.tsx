@@ -0,0 +1,233 @@
+// src/components/propertiesPanel/propertiesPanel.tsx
+import React, { useState } from "react";
+import { stringify } from "yaml";
+import {
+  createFrontMatter,
+  getPropertyKind,
+  setFrontMatterProperty,
+  type FrontMatter,
+} from "../../services/frontMatter";
+import "./styles.css";
+
+interface PropertiesPanelProps {
+  frontMatter: FrontMatter | null;
+  onChange: (frontMatter: FrontMatter | null) => void;
+}
+
+interface PropertyFieldProps {
+  value: unknown;
+  onCommit: (value: unknown) => void;
+}
+
+/**
+ * One input per value type. Text-like inputs are uncontrolled and commit on
+ * blur or Enter, so the YAML is rewritten once per edit, not per keystroke.
+ */
+const PropertyField: React.FC<PropertyFieldProps> = ({ value, onCommit }) => {
+  const commitOnEnter = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.currentTarget.blur();
+    }
+  };
+
+  switch (getPropertyKind(value)) {
+    case "boolean":
+      return (
+        <input
+          type="checkbox"
+          checked={value as boolean}
+          onChange={(event) => onCommit(event.currentTarget.checked)}
+        />
+      );
+    case "date":
+      return (
+        <input
+          type="date"
+          value={value as string}
+          onChange={(event) => onCommit(event.currentTarget.value)}
+        />
+      );
+    case "number":
+      return (
+        <input
+          type="number"
+          defaultValue={value as number}
+          onKeyDown={commitOnEnter}
+          onBlur={(event) => {
+            const number = event.currentTarget.valueAsNumber;
+            if (!Number.isNaN(number) && number !== value) onCommit(number);
+          }}
+        />
+      );
+    case "list":
+      return (
+        <input
+          type="text"
+          defaultValue={(value as unknown[]).join(", ")}
+          placeholder="comma, separated"
+          onKeyDown={commitOnEnter}
+          onBlur={(event) => {
+            const items = event.currentTarget.value
+              .split(",")
+              .map((item) => item.trim())
+              .filter(Boolean);
+            if (items.join(", ") !== (value as unknown[]).join(", ")) {
+              onCommit(items);
+            }
+          }}
+        />
+      );
+    case "yaml":
+      // Nested mappings would need a tree editor; the YAML view covers them
+      return (
+        <code className="properties-panel-nested" title="Edit in the yaml view">
+          {stringify(value).trim()}
+        </code>
+      );
+    default:
+      return (
+        <input
+          type="text"
+          defaultValue={value === null || value === undefined ? "" : String(value)}
+          onKeyDown={commitOnEnter}
+          onBlur={(event) => {
+            const text = event.currentTarget.value;
+            if (text !== (value ?? "")) onCommit(text);
+          }}
+        />
+      );
+  }
+};
+
+/**
+ * Structured view of the document's YAML front matter, shown above the
+ * editor. Invalid YAML (or a click on "yaml") switches to the raw source
+ * so nothing in the block is ever unreachable.
+ */
+const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
+  frontMatter,
+  onChange,
+}) => {
+  const [showSource, setShowSource] = useState(false);
+  const [newKey, setNewKey] = useState("");
+
+  if (!frontMatter) {
+    return (
+      <div className="properties-panel empty">
+        <button
+          type="button"
+          title="Add YAML front matter"
+          onClick={() => onChange(createFrontMatter(""))}
+        >
+          +properties
+        </button>
+      </div>
+    );
+  }
+
+  const { data, error } = frontMatter;
+
+  const addProperty = () => {
+    const key = newKey.trim();
+    if (key && data && !(key in data)) {
+      onChange(setFrontMatterProperty(frontMatter, key, ""));
+      setNewKey("");
+    }
+  };
+
+  return (
+    <div className="properties-panel">
+      <div className="properties-panel-header">
+        <span className="properties-panel-title">properties</span>
+        <span className="properties-panel-actions">
+          <button
+            type="button"
+            className={showSource || !data ? "active" : ""}
+            title="Edit the YAML source"
+            disabled={!data}
+            onClick={() => setShowSource((previous) => !previous)}
+          >
+            yaml
+          </button>
+          <button
+            type="button"
+            className="danger"
+            title="Remove the front matter block"
+            onClick={() => onChange(null)}
+          >
+            rm
+          </button>
+        </span>
+      </div>
+
+      {showSource || !data ? (
+        <>
+          <textarea
+            // Remount when the source changes elsewhere so the text stays current
+            key={frontMatter.yaml}
+            className="properties-panel-source"
+            defaultValue={frontMatter.yaml}
+            spellCheck={false}
+            rows={Math.max(3, frontMatter.yaml.split("\n").length)}
+            onBlur={(event) => {
+              if (event.currentTarget.value !== frontMatter.yaml) {
+                onChange(createFrontMatter(event.currentTarget.value));
+              }
+            }}
+          />
+          {error && (
+            <div className="properties-panel-error" role="alert">
+              {error}
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          <dl className="properties-panel-list">
+            {Object.entries(data).map(([key, value]) => (
+              // The value is part of the key so uncontrolled inputs reset
+              // when the property changes outside the field
+              <div className="properties-panel-row" key={`${key}:${JSON.stringify(value)}`}>
+                <dt title={key}>{key}</dt>
+                <dd>
+                  <PropertyField
+                    value={value}
+                    onCommit={(next) =>
+                      onChange(setFrontMatterProperty(frontMatter, key, next))
+                    }
+                  />
+                </dd>
+                <button
+                  type="button"
+                  className="danger"
+                  title={`Remove "${key}"`}
+                  onClick={() =>
+                    onChange(setFrontMatterProperty(frontMatter, key, undefined))
+                  }
+                >
+                  rm
+                </button>
+              </div>
+            ))}
+          </dl>
+          <div className="properties-panel-add">
+            <input
+              type="text"
+              value={newKey}
+              placeholder="new property"
+              onChange={(event) => setNewKey(event.currentTarget.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") addProperty();
+              }}
+            />
+            <button type="button" title="Add property" onClick={addProperty}>
+              +
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PropertiesPanel;
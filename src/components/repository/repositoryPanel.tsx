@@ -0,0 +1,299 @@
+// src/components/repository/repositoryPanel.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  openRepository,
+  type GitRepository,
+  type GitSyncConfig,
+  type RepositoryStatus,
+} from "../../services/git/gitRepository";
+import "./styles.css";
+
+interface RepositoryPanelProps {
+  activePath: string | null; // Repository file open in the editor, if any
+  onOpenFile: (repository: GitRepository, path: string) => void;
+}
+
+// The token is kept per tab; everything else survives reloads
+const CONFIG_KEY = "docground:gitConfig";
+const TOKEN_KEY = "docground:gitToken";
+
+// A CORS proxy sees every request, token included, so none is used unless
+// the user sets one
+const defaultConfig: GitSyncConfig = {
+  url: "",
+  branch: "main",
+  docsDirectory: "docs",
+  author: { name: "", email: "" },
+  corsProxy: "",
+};
+
+// Filled in for everyone by earlier versions; saved configs that still
+// carry it never chose it, so it is dropped until the user sets it again
+const FORMER_DEFAULT_PROXY = "https://cors.isomorphic-git.org";
+
+function loadConfig(): GitSyncConfig {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFIG_KEY) ?? "null");
+    if (stored?.corsProxy === FORMER_DEFAULT_PROXY) {
+      delete stored.corsProxy;
+    }
+    return {
+      ...defaultConfig,
+      ...stored,
+      token: sessionStorage.getItem(TOKEN_KEY) ?? undefined,
+    };
+  } catch {
+    return defaultConfig;
+  }
+}
+
+function saveConfig({ token, ...config }: GitSyncConfig) {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+  if (token) {
+    sessionStorage.setItem(TOKEN_KEY, token);
+  } else {
+    sessionStorage.removeItem(TOKEN_KEY);
+  }
+}
+
+const RepositoryPanel: React.FC<RepositoryPanelProps> = ({
+  activePath,
+  onOpenFile,
+}) => {
+  const [config, setConfig] = useState<GitSyncConfig>(loadConfig);
+  const [repository, setRepository] = useState<GitRepository | null>(null);
+  const [files, setFiles] = useState<string[]>([]);
+  const [status, setStatus] = useState<RepositoryStatus>({
+    modified: [],
+    conflicted: [],
+  });
+  const [commitMessage, setCommitMessage] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isConfigOpen, setIsConfigOpen] = useState(!config.url);
+
+  const refresh = useCallback(async (repo: GitRepository) => {
+    setFiles(await repo.listMarkdownFiles());
+    setStatus(await repo.getStatus());
+  }, []);
+
+  /** Runs a repository operation with a busy flag and error reporting. */
+  const run = useCallback(async (operation: () => Promise<void>) => {
+    setIsBusy(true);
+    setNotice(null);
+    try {
+      await operation();
+    } catch (error) {
+      setNotice(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const connect = useCallback(
+    () =>
+      run(async () => {
+        saveConfig(config);
+        const repo = await openRepository(config);
+        setRepository(repo);
+        setIsConfigOpen(false);
+        await refresh(repo);
+      }),
+    [config, refresh, run]
+  );
+
+  const sync = useCallback(
+    () =>
+      run(async () => {
+        if (!repository) return;
+        const result = await repository.sync(commitMessage.trim());
+        switch (result.status) {
+          case "up-to-date":
+            setNotice("Already up to date.");
+            break;
+          case "pulled":
+            setNotice(`Pulled ${result.commit.slice(0, 7)}.`);
+            break;
+          case "pushed":
+            setNotice(`Pushed ${result.commit.slice(0, 7)}.`);
+            setCommitMessage("");
+            break;
+          case "conflict":
+            setNotice(
+              "The remote changed the same files. Resolve the conflict markers in the files below, then sync again."
+            );
+            break;
+        }
+        await refresh(repository);
+        // Reload the open file in case the sync rewrote it
+        if (activePath && result.status !== "up-to-date") {
+          onOpenFile(repository, activePath);
+        }
+      }),
+    [activePath, commitMessage, onOpenFile, refresh, repository, run]
+  );
+
+  // Keep the modified markers fresh while the user edits a repository file
+  useEffect(() => {
+    if (!repository) return;
+    const timer = window.setInterval(() => {
+      repository
+        .getStatus()
+        .then(setStatus)
+        .catch(() => {});
+    }, 3000);
+    return () => window.clearInterval(timer);
+  }, [repository]);
+
+  const updateConfig = (patch: Partial<GitSyncConfig>) =>
+    setConfig((previous) => ({ ...previous, ...patch }));
+
+  return (
+    <div className="repository-panel">
+      <div className="repository-header">
+        <span className="repository-title">repository</span>
+        <button
+          type="button"
+          className="repository-link-button"
+          onClick={() => setIsConfigOpen((open) => !open)}
+        >
+          {isConfigOpen ? "hide" : "config"}
+        </button>
+      </div>
+
+      {isConfigOpen && (
+        <form
+          className="repository-config"
+          onSubmit={(event) => {
+            event.preventDefault();
+            connect();
+          }}
+        >
+          <label>
+            url
+            <input
+              value={config.url}
+              placeholder="https://github.com/user/repo.git"
+              onChange={(event) => updateConfig({ url: event.target.value })}
+            />
+          </label>
+          <label>
+            branch
+            <input
+              value={config.branch}
+              onChange={(event) => updateConfig({ branch: event.target.value })}
+            />
+          </label>
+          <label>
+            directory
+            <input
+              value={config.docsDirectory}
+              onChange={(event) =>
+                updateConfig({ docsDirectory: event.target.value })
+              }
+            />
+          </label>
+          <label>
+            author
+            <input
+              value={config.author.name}
+              placeholder="name"
+              onChange={(event) =>
+                updateConfig({
+                  author: { ...config.author, name: event.target.value },
+                })
+              }
+            />
+          </label>
+          <label>
+            email
+            <input
+              value={config.author.email}
+              onChange={(event) =>
+                updateConfig({
+                  author: { ...config.author, email: event.target.value },
+                })
+              }
+            />
+          </label>
+          <label>
+            token
+            <input
+              type="password"
+              value={config.token ?? ""}
+              onChange={(event) =>
+                updateConfig({ token: event.target.value || undefined })
+              }
+            />
+          </label>
+          <label>
+            cors proxy
+            <input
+              value={config.corsProxy ?? ""}
+              placeholder="none"
+              onChange={(event) =>
+                updateConfig({ corsProxy: event.target.value })
+              }
+            />
+          </label>
+          <p
+            className={`repository-proxy-warning ${config.corsProxy ? "active" : ""}`}
+          >
+            A proxy relays every clone, fetch and push, including your token.
+            Only set one you run or trust, for hosts without CORS support such
+            as github.com.
+          </p>
+          <button type="submit" disabled={isBusy || !config.url}>
+            {isBusy ? "cloning..." : "open"}
+          </button>
+        </form>
+      )}
+
+      {repository && (
+        <>
+          <ul className="repository-files">
+            {files.map((path) => {
+              const state = status.conflicted.includes(path)
+                ? "conflicted"
+                : status.modified.includes(path)
+                  ? "modified"
+                  : "";
+              return (
+                <li key={path}>
+                  <button
+                    type="button"
+                    className={`repository-file ${state} ${path === activePath ? "active" : ""}`}
+                    onClick={() => onOpenFile(repository, path)}
+                    title={path}
+                  >
+                    {path}
+                    {state === "modified" && " *"}
+                    {state === "conflicted" && " !"}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="repository-sync">
+            <input
+              value={commitMessage}
+              placeholder="commit message"
+              onChange={(event) => setCommitMessage(event.target.value)}
+            />
+            <button type="button" disabled={isBusy} onClick={sync}>
+              {isBusy ? "syncing..." : "commit & sync"}
+            </button>
+          </div>
+        </>
+      )}
+
+      {notice && (
+        <div className="repository-notice" role="status">
+          {notice}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RepositoryPanel;
@@ -0,0 +1,33 @@
+// src/components/sanitizeModeSwitcher/sanitizeModeSwitcher.tsx
+import React from "react";
+import type { SanitizeMode } from "../../services/sanitize/sanitizePolicy";
+import { SANITIZE_MODES } from "../../services/sanitize/sanitizeSettings";
+import "./styles.css";
+
+interface SanitizeModeSwitcherProps {
+  mode: SanitizeMode;
+  onChange: (mode: SanitizeMode) => void;
+}
+
+/** Picks which raw HTML documents may keep (src/services/sanitize). */
+const SanitizeModeSwitcher: React.FC<SanitizeModeSwitcherProps> = ({ mode, onChange }) => (
+  <div className="sanitize-mode-switcher">
+    <label className="sanitize-mode-title" htmlFor="sanitize-mode-select">
+      raw html
+    </label>
+    <select
+      id="sanitize-mode-select"
+      value={mode}
+      title={SANITIZE_MODES.find((option) => option.mode === mode)?.description}
+      onChange={(event) => onChange(event.target.value as SanitizeMode)}
+    >
+      {SANITIZE_MODES.map((option) => (
+        <option key={option.mode} value={option.mode} title={option.description}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
+export default SanitizeModeSwitcher;
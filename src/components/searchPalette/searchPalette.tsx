@@ -0,0 +1,198 @@
+// src/components/searchPalette/searchPalette.tsx
+import React, { useEffect, useRef, useState } from "react";
+import type {
+  SearchIndex,
+  SearchResult,
+  SearchSnippet,
+} from "../../services/search/searchIndex";
+import {
+  DEFAULT_SEARCH_OPTIONS,
+  SearchQueryError,
+  type SearchOptions,
+} from "../../services/search/searchPattern";
+import "./styles.css";
+
+interface SearchPaletteProps {
+  index: SearchIndex;
+  onOpenResult: (
+    result: SearchResult,
+    query: string,
+    options: SearchOptions
+  ) => void;
+  onClose: () => void;
+}
+
+interface SearchOutcome {
+  results: SearchResult[];
+  error: string | null; // Why a regex query does not compile
+}
+
+function runSearch(
+  index: SearchIndex,
+  query: string,
+  options: SearchOptions
+): SearchOutcome {
+  try {
+    return { results: index.search(query, options), error: null };
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return { results: [], error: error.message };
+    }
+    throw error;
+  }
+}
+
+/** The snippet text with its matches wrapped in <mark>. */
+function renderSnippet(snippet: SearchSnippet): React.ReactNode[] {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  snippet.highlights.forEach((highlight, index) => {
+    parts.push(snippet.text.slice(position, highlight.from));
+    parts.push(
+      <mark key={index}>{snippet.text.slice(highlight.from, highlight.to)}</mark>
+    );
+    position = highlight.to;
+  });
+  parts.push(snippet.text.slice(position));
+  return parts;
+}
+
+/**
+ * Workspace-wide search (Mod-Shift-f). Results update as you type, best
+ * first, with the matching lines of each document; opening one shows the
+ * document with the same query in its find bar.
+ */
+const SearchPalette: React.FC<SearchPaletteProps> = ({
+  index,
+  onOpenResult,
+  onClose,
+}) => {
+  const [query, setQuery] = useState("");
+  const [options, setOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [outcome, setOutcome] = useState<SearchOutcome>({
+    results: [],
+    error: null,
+  });
+  const listRef = useRef<HTMLUListElement>(null);
+  const { results, error } = outcome;
+
+  // Searches again when the index changes, e.g. while documents still load
+  useEffect(() => {
+    const run = () => setOutcome(runSearch(index, query, options));
+    run();
+    return index.subscribe(run);
+  }, [index, query, options]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [results]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector<HTMLElement>(`[data-index="${selectedIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [selectedIndex]);
+
+  const openResult = (result: SearchResult | undefined) => {
+    if (result) {
+      onOpenResult(result, query, options);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === "ArrowDown" && results.length > 0) {
+      event.preventDefault();
+      setSelectedIndex((current) => (current + 1) % results.length);
+    } else if (event.key === "ArrowUp" && results.length > 0) {
+      event.preventDefault();
+      setSelectedIndex(
+        (current) => (current - 1 + results.length) % results.length
+      );
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      openResult(results[selectedIndex]);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  const toggle = (option: keyof SearchOptions) =>
+    setOptions((current) => ({ ...current, [option]: !current[option] }));
+
+  return (
+    <div className="search-palette-backdrop" onMouseDown={onClose}>
+      <div
+        className="search-palette"
+        role="dialog"
+        aria-label="Search documents"
+        onMouseDown={(event) => event.stopPropagation()}
+      >
+        <div className="search-palette-header">
+          <input
+            className={`search-palette-input ${error ? "invalid" : ""}`}
+            value={query}
+            placeholder="search all documents"
+            spellCheck={false}
+            autoFocus
+            onChange={(event) => setQuery(event.target.value)}
+            onKeyDown={handleKeyDown}
+          />
+          <button
+            type="button"
+            className={`search-palette-option ${options.caseSensitive ? "active" : ""}`}
+            title="Match case"
+            aria-pressed={options.caseSensitive}
+            onClick={() => toggle("caseSensitive")}
+          >
+            Aa
+          </button>
+          <button
+            type="button"
+            className={`search-palette-option ${options.regex ? "active" : ""}`}
+            title="Regular expression"
+            aria-pressed={options.regex}
+            onClick={() => toggle("regex")}
+          >
+            .*
+          </button>
+        </div>
+        {error ? (
+          <div className="search-palette-notice error" role="alert">
+            {error}
+          </div>
+        ) : query && results.length === 0 ? (
+          <div className="search-palette-notice">no matches</div>
+        ) : null}
+        {results.length > 0 && (
+          <ul className="search-palette-results" ref={listRef}>
+            {results.map((result, resultIndex) => (
+              <li
+                key={result.documentId}
+                data-index={resultIndex}
+                className={`search-palette-result ${resultIndex === selectedIndex ? "selected" : ""}`}
+                onMouseEnter={() => setSelectedIndex(resultIndex)}
+                onClick={() => openResult(result)}
+              >
+                <div className="search-palette-result-title">
+                  <span>{result.name}</span>
+                  <span className="search-palette-result-path">
+                    {result.path} · {result.matchCount}
+                  </span>
+                </div>
+                {result.snippets.map((snippet, snippetIndex) => (
+                  <div key={snippetIndex} className="search-palette-snippet">
+                    {renderSnippet(snippet)}
+                  </div>
+                ))}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPalette;
@@ -0,0 +1,369 @@
+// src/components/sidebar/fileTree.tsx
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  collectDescendantIds,
+  type WorkspaceEntry,
+  type WorkspaceEntryKind,
+  type WorkspaceStore,
+} from "../../services/storage/workspaceStore";
+import {
+  downloadBlob,
+  exportStaticSite,
+} from "../../services/export/staticSiteExport";
+import { changeEntriesWithWikiLinks } from "../../services/wikiLinks";
+import type { Theme } from "../../services/themes/themes";
+import type { SanitizeMode } from "../../services/sanitize/sanitizePolicy";
+import "./styles.css";
+
+interface FileTreeProps {
+  entries: WorkspaceEntry[];
+  store: WorkspaceStore;
+  activeDocumentId: string | null;
+  onOpenDocument: (id: string) => void;
+  onOpenSearch: () => void;
+  theme: Theme; // Exported sites use the theme of the editor
+  sanitizeMode: SanitizeMode; // ...and keep the raw HTML the editor keeps
+}
+
+// MIME type used to carry the dragged entry id between tree rows
+const DRAG_MIME_TYPE = "application/x-docground-entry";
+
+function sortEntries(a: WorkspaceEntry, b: WorkspaceEntry) {
+  // Folders first, then alphabetical like most file explorers
+  if (a.kind !== b.kind) {
+    return a.kind === "folder" ? -1 : 1;
+  }
+  return a.name.localeCompare(b.name);
+}
+
+const FileTree: React.FC<FileTreeProps> = ({
+  entries,
+  store,
+  activeDocumentId,
+  onOpenDocument,
+  onOpenSearch,
+  theme,
+  sanitizeMode,
+}) => {
+  const [collapsedFolderIds, setCollapsedFolderIds] = useState<Set<string>>(
+    () => new Set()
+  );
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const childrenByParent = useMemo(() => {
+    const map = new Map<string | null, WorkspaceEntry[]>();
+    entries.forEach((entry) => {
+      const siblings = map.get(entry.parentId) ?? [];
+      siblings.push(entry);
+      map.set(entry.parentId, siblings);
+    });
+    map.forEach((siblings) => siblings.sort(sortEntries));
+    return map;
+  }, [entries]);
+
+  /** Runs a store operation and shows its error message in the sidebar. */
+  const runOperation = useCallback(async <T,>(operation: () => Promise<T>) => {
+    try {
+      setErrorMessage(null);
+      return await operation();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+      return undefined;
+    }
+  }, []);
+
+  const createEntry = useCallback(
+    async (kind: WorkspaceEntryKind, parentId: string | null) => {
+      const siblings = childrenByParent.get(parentId) ?? [];
+      const baseName = kind === "folder" ? "New folder" : "Untitled";
+      let name = baseName;
+      for (let i = 2; siblings.some((entry) => entry.name === name); i++) {
+        name = `${baseName} ${i}`;
+      }
+      const entry = await runOperation(() =>
+        store.createEntry(kind, name, parentId)
+      );
+      if (!entry) {
+        return;
+      }
+      if (parentId) {
+        setCollapsedFolderIds((previous) => {
+          const next = new Set(previous);
+          next.delete(parentId);
+          return next;
+        });
+      }
+      setRenamingId(entry.id);
+      if (entry.kind === "document") {
+        onOpenDocument(entry.id);
+      }
+    },
+    [childrenByParent, onOpenDocument, runOperation, store]
+  );
+
+  const deleteEntry = useCallback(
+    (entry: WorkspaceEntry) => {
+      const what = entry.kind === "folder" ? "folder and everything in it" : "document";
+      if (window.confirm(`Delete the ${what} "${entry.name}"?`)) {
+        runOperation(() => store.deleteEntry(entry.id));
+      }
+    },
+    [runOperation, store]
+  );
+
+  const commitRename = useCallback(
+    async (entry: WorkspaceEntry, name: string) => {
+      setRenamingId(null);
+      const nextName = name.trim();
+      if (nextName && nextName !== entry.name) {
+        // Links to the document (or to documents in the folder) follow it
+        await runOperation(() =>
+          changeEntriesWithWikiLinks(
+            store,
+            entries,
+            entries.map((candidate) =>
+              candidate.id === entry.id ? { ...candidate, name: nextName } : candidate
+            ),
+            () => store.renameEntry(entry.id, nextName)
+          )
+        );
+      }
+    },
+    [entries, runOperation, store]
+  );
+
+  /** Downloads a folder (or the whole workspace for null) as a static site. */
+  const exportSite = useCallback(
+    async (rootId: string | null) => {
+      const site = await runOperation(() =>
+        exportStaticSite({
+          entries,
+          rootId,
+          loadDocument: store.loadDocument,
+          loadAssets: store.listAssets,
+          theme,
+          sanitizeMode,
+        })
+      );
+      if (site) {
+        downloadBlob(site.blob, site.filename);
+      }
+    },
+    [entries, runOperation, store, theme, sanitizeMode]
+  );
+
+  const toggleFolder = useCallback((id: string) => {
+    setCollapsedFolderIds((previous) => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleDrop = useCallback(
+    (event: React.DragEvent, parentId: string | null) => {
+      event.preventDefault();
+      event.stopPropagation();
+      setDropTargetId(null);
+      const id = event.dataTransfer.getData(DRAG_MIME_TYPE);
+      const entry = entries.find((candidate) => candidate.id === id);
+      if (!entry || entry.parentId === parentId || entry.id === parentId) {
+        return;
+      }
+      if (parentId && collectDescendantIds(entries, id).includes(parentId)) {
+        // Let the store explain why a folder cannot go into itself
+        runOperation(() => store.moveEntry(id, parentId));
+      } else {
+        runOperation(() =>
+          changeEntriesWithWikiLinks(
+            store,
+            entries,
+            entries.map((candidate) =>
+              candidate.id === id ? { ...candidate, parentId } : candidate
+            ),
+            () => store.moveEntry(id, parentId)
+          )
+        );
+      }
+    },
+    [entries, runOperation, store]
+  );
+
+  const renderEntry = (entry: WorkspaceEntry, depth: number): React.ReactNode => {
+    const isFolder = entry.kind === "folder";
+    const isCollapsed = collapsedFolderIds.has(entry.id);
+    const children = childrenByParent.get(entry.id) ?? [];
+
+    return (
+      <li key={entry.id} className="file-tree-node">
+        <div
+          className={[
+            "file-tree-row",
+            entry.id === activeDocumentId ? "active" : "",
+            entry.id === dropTargetId ? "drop-target" : "",
+          ].join(" ")}
+          style={{ paddingLeft: `${depth * 14 + 6}px` }}
+          draggable={renamingId !== entry.id}
+          onDragStart={(event) => {
+            event.dataTransfer.setData(DRAG_MIME_TYPE, entry.id);
+            event.dataTransfer.effectAllowed = "move";
+          }}
+          onDragOver={(event) => {
+            if (!isFolder) return;
+            event.preventDefault();
+            event.stopPropagation();
+            setDropTargetId(entry.id);
+          }}
+          onDragLeave={() => setDropTargetId(null)}
+          onDrop={(event) => {
+            // Dropping onto a document moves the entry next to it
+            handleDrop(event, isFolder ? entry.id : entry.parentId);
+          }}
+        >
+          {renamingId === entry.id ? (
+            <input
+              className="file-tree-rename-input"
+              defaultValue={entry.name}
+              autoFocus
+              onFocus={(event) => event.currentTarget.select()}
+              onBlur={(event) => commitRename(entry, event.currentTarget.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                  event.currentTarget.blur();
+                } else if (event.key === "Escape") {
+                  setRenamingId(null);
+                }
+              }}
+            />
+          ) : (
+            <button
+              type="button"
+              className="file-tree-label"
+              onClick={() =>
+                isFolder ? toggleFolder(entry.id) : onOpenDocument(entry.id)
+              }
+              onDoubleClick={() => setRenamingId(entry.id)}
+              title={entry.name}
+            >
+              <span className="file-tree-icon">
+                {isFolder ? (isCollapsed ? "+" : "-") : ">"}
+              </span>
+              {entry.name}
+              {isFolder ? "/" : ""}
+            </button>
+          )}
+          <span className="file-tree-actions">
+            {isFolder && (
+              <>
+                <button
+                  type="button"
+                  title="New document"
+                  onClick={() => createEntry("document", entry.id)}
+                >
+                  +md
+                </button>
+                <button
+                  type="button"
+                  title="New folder"
+                  onClick={() => createEntry("folder", entry.id)}
+                >
+                  +dir
+                </button>
+                <button
+                  type="button"
+                  title="Export as static site (ZIP)"
+                  onClick={() => exportSite(entry.id)}
+                >
+                  zip
+                </button>
+              </>
+            )}
+            <button
+              type="button"
+              title="Rename"
+              onClick={() => setRenamingId(entry.id)}
+            >
+              mv
+            </button>
+            <button
+              type="button"
+              title="Delete"
+              onClick={() => deleteEntry(entry)}
+            >
+              rm
+            </button>
+          </span>
+        </div>
+        {isFolder && !isCollapsed && children.length > 0 && (
+          <ul className="file-tree-children">
+            {children.map((child) => renderEntry(child, depth + 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  const rootEntries = childrenByParent.get(null) ?? [];
+
+  return (
+    <nav
+      className={`file-tree ${dropTargetId === "root" ? "drop-target" : ""}`}
+      onDragOver={(event) => {
+        event.preventDefault();
+        setDropTargetId("root");
+      }}
+      onDragLeave={() => setDropTargetId(null)}
+      onDrop={(event) => handleDrop(event, null)}
+    >
+      <div className="file-tree-header">
+        <span className="file-tree-title">workspace</span>
+        <span className="file-tree-actions visible">
+          <button
+            type="button"
+            title="New document"
+            onClick={() => createEntry("document", null)}
+          >
+            +md
+          </button>
+          <button
+            type="button"
+            title="New folder"
+            onClick={() => createEntry("folder", null)}
+          >
+            +dir
+          </button>
+          <button
+            type="button"
+            title="Export workspace as static site (ZIP)"
+            onClick={() => exportSite(null)}
+          >
+            zip
+          </button>
+          <button
+            type="button"
+            title="Search all documents (Ctrl+Shift+F)"
+            onClick={onOpenSearch}
+          >
+            find
+          </button>
+        </span>
+      </div>
+      {errorMessage && (
+        <div className="file-tree-error" role="alert">
+          {errorMessage}
+        </div>
+      )}
+      <ul className="file-tree-children">
+        {rootEntries.map((entry) => renderEntry(entry, 0))}
+      </ul>
+    </nav>
+  );
+};
+
+export default FileTree;
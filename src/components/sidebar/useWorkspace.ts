@@ -0,0 +1,100 @@
+// src/components/sidebar/useWorkspace.ts
+import { useCallback, useEffect, useState } from "react";
+import type {
+  WorkspaceEntry,
+  WorkspaceStore,
+} from "../../services/storage/workspaceStore";
+
+// Remembers the open document across reloads
+const LAST_DOCUMENT_KEY = "docground:lastDocumentId";
+
+function firstDocumentId(entries: WorkspaceEntry[]): string | null {
+  const documents = entries
+    .filter((entry) => entry.kind === "document")
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  return documents[0]?.id ?? null;
+}
+
+// Loading is shared per store so StrictMode's double effects cannot seed twice
+const initialLoads = new WeakMap<WorkspaceStore, Promise<WorkspaceEntry[]>>();
+
+function loadInitialEntries(
+  store: WorkspaceStore,
+  welcome: { name: string; markdown: string }
+): Promise<WorkspaceEntry[]> {
+  let load = initialLoads.get(store);
+  if (!load) {
+    load = (async () => {
+      const entries = await store.listEntries();
+      if (entries.length > 0) {
+        return entries;
+      }
+      await store.createEntry("document", welcome.name, null, welcome.markdown);
+      return store.listEntries();
+    })();
+    initialLoads.set(store, load);
+  }
+  return load;
+}
+
+/**
+ * Keeps the sidebar entries in sync with the store and tracks which document
+ * is open. An empty workspace is seeded with a single welcome document.
+ */
+export function useWorkspace(
+  store: WorkspaceStore,
+  welcome: { name: string; markdown: string }
+) {
+  const [entries, setEntries] = useState<WorkspaceEntry[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [activeDocumentId, setActiveDocumentId] = useState<string | null>(
+    () => localStorage.getItem(LAST_DOCUMENT_KEY)
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const unsubscribe = store.subscribe((nextEntries) => {
+      if (!cancelled) setEntries(nextEntries);
+    });
+
+    loadInitialEntries(store, welcome)
+      .then((initialEntries) => {
+        if (!cancelled) {
+          setEntries(initialEntries);
+          setIsLoaded(true);
+        }
+      })
+      .catch((error) => console.error("Error loading workspace:", error));
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [store, welcome]);
+
+  // Fall back to another document when the open one disappears (deleted, or
+  // a stale id from localStorage).
+  useEffect(() => {
+    if (!isLoaded) {
+      return;
+    }
+    const isValid = entries.some(
+      (entry) => entry.id === activeDocumentId && entry.kind === "document"
+    );
+    if (!isValid) {
+      setActiveDocumentId(firstDocumentId(entries));
+    }
+  }, [entries, isLoaded, activeDocumentId]);
+
+  useEffect(() => {
+    if (activeDocumentId) {
+      localStorage.setItem(LAST_DOCUMENT_KEY, activeDocumentId);
+    }
+  }, [activeDocumentId]);
+
+  const openDocument = useCallback((id: string) => {
+    setActiveDocumentId(id);
+  }, []);
+
+  return { entries, isLoaded, activeDocumentId, openDocument };
+}
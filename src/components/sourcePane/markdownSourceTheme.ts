@@ -0,0 +1,55 @@
+// src/components/sourcePane/markdownSourceTheme.ts
+// CodeMirror look of the source pane, in the colors of the current theme
+// (the --theme-* variables, see src/services/themes/themes.ts).
+import { EditorView } from "@codemirror/view";
+import { HighlightStyle, syntaxHighlighting } from "@codemirror/language";
+import { tags } from "@lezer/highlight";
+
+// A faint tint of the text color, on light and dark backgrounds alike
+const ACTIVE_LINE = "color-mix(in srgb, var(--theme-text) 4%, transparent)";
+
+const editorTheme = EditorView.theme(
+  {
+    "&": {
+      height: "100%",
+      backgroundColor: "var(--theme-background)",
+      color: "var(--theme-text)",
+      fontSize: "13px",
+    },
+    ".cm-scroller": {
+      fontFamily: "var(--theme-font-code)",
+      lineHeight: "1.6",
+    },
+    ".cm-content": { caretColor: "var(--theme-accent)", padding: "15px 0" },
+    ".cm-cursor, .cm-dropCursor": { borderLeftColor: "var(--theme-accent)" },
+    "&.cm-focused .cm-selectionBackground, .cm-selectionBackground, .cm-content ::selection":
+      { backgroundColor: "var(--theme-raised)" },
+    ".cm-activeLine": { backgroundColor: ACTIVE_LINE },
+    ".cm-gutters": {
+      backgroundColor: "var(--theme-background)",
+      color: "var(--theme-border)",
+      border: "none",
+      borderRight: "1px solid var(--theme-raised)",
+    },
+    ".cm-activeLineGutter": { backgroundColor: ACTIVE_LINE, color: "var(--theme-muted)" },
+    "&.cm-focused": { outline: "none" },
+  }
+);
+
+// Headings and emphasis like the rich view; syntax characters stay dim
+const highlightStyle = HighlightStyle.define([
+  { tag: tags.heading, color: "var(--theme-heading)", fontWeight: "bold" },
+  { tag: tags.strong, color: "var(--theme-text)", fontWeight: "bold" },
+  { tag: tags.emphasis, fontStyle: "italic" },
+  { tag: tags.strikethrough, textDecoration: "line-through" },
+  { tag: [tags.link, tags.url], color: "var(--theme-link)" },
+  { tag: tags.monospace, color: "var(--theme-warning)" },
+  { tag: tags.quote, color: "var(--theme-muted)" },
+  { tag: tags.list, color: "var(--theme-info)" },
+  { tag: [tags.processingInstruction, tags.contentSeparator], color: "var(--theme-muted)" },
+  { tag: [tags.meta, tags.comment], color: "var(--theme-muted)" },
+  { tag: tags.invalid, color: "var(--theme-danger)" },
+]);
+
+/** Editor chrome plus Markdown highlighting, following the current theme. */
+export const markdownSourceTheme = [editorTheme, syntaxHighlighting(highlightStyle)];
@@ -0,0 +1,143 @@
+// src/components/sourcePane/scrollSync.ts
+// Keeps side-by-side panes showing the same part of a document. Each pane
+// reports the line of the Markdown body at its top edge, as a fraction
+// (12.5 is half way through line 12), and can scroll to such a line; the
+// rich editor's lines come from getBlockLines.
+import type { Editor } from "@tiptap/core";
+import { getEditorMarkdown } from "../../editor/markdown/editorMarkdown";
+import {
+  getBlockLines,
+  type BlockLines,
+} from "../../editor/markdown/sourcePreservingMarkdown";
+
+export interface ScrollPane {
+  element: HTMLElement; // The scroll container
+  topLine: () => number | null; // Null when the pane cannot tell
+  scrollToLine: (line: number) => void;
+}
+
+/** Scrolls `element` so that a point `offset` pixels below `target`'s top is at its top. */
+function scrollTo(element: HTMLElement, target: Element, offset: number) {
+  element.scrollTop +=
+    target.getBoundingClientRect().top - element.getBoundingClientRect().top + offset;
+}
+
+/**
+ * The rich editor's scroll container as a pane: positions are mapped
+ * through the top-level blocks and the source lines they were read from.
+ */
+export function createRichScrollPane(editor: Editor, element: HTMLElement): ScrollPane {
+  const readBlocks = () =>
+    (getBlockLines(editor, getEditorMarkdown(editor)) ?? []).flatMap((block) => {
+      const dom = editor.view.nodeDOM(block.from);
+      return dom instanceof HTMLElement ? [{ block, dom }] : [];
+    });
+  const lineCount = ({ lines }: BlockLines) => lines[1] - lines[0];
+
+  return {
+    element,
+    topLine: () => {
+      const top = element.getBoundingClientRect().top;
+      // The first block still showing at the top
+      for (const { block, dom } of readBlocks()) {
+        const rect = dom.getBoundingClientRect();
+        if (rect.bottom > top) {
+          const fraction = rect.height ? Math.max(0, top - rect.top) / rect.height : 0;
+          return block.lines[0] + fraction * lineCount(block);
+        }
+      }
+      return null;
+    },
+    scrollToLine: (line) => {
+      const blocks = readBlocks();
+      // Lines between blocks go with the next one
+      const found =
+        blocks.find(({ block }) => line < block.lines[1]) ?? blocks[blocks.length - 1];
+      if (!found) {
+        return;
+      }
+      const { block, dom } = found;
+      const fraction = lineCount(block)
+        ? Math.min(Math.max((line - block.lines[0]) / lineCount(block), 0), 1)
+        : 0;
+      scrollTo(element, dom, fraction * dom.getBoundingClientRect().height);
+    },
+  };
+}
+
+/**
+ * Rendered HTML whose top-level blocks carry `data-source-line` (see the
+ * renderer's `sourceLines` option) as a pane.
+ */
+export function createRenderedScrollPane(element: HTMLElement): ScrollPane {
+  const readBlocks = () =>
+    Array.from(element.querySelectorAll<HTMLElement>("[data-source-line]")).map(
+      (dom) => ({ dom, line: Number(dom.dataset.sourceLine) })
+    );
+
+  return {
+    element,
+    topLine: () => {
+      const top = element.getBoundingClientRect().top;
+      const blocks = readBlocks();
+      const index = blocks.findIndex(
+        ({ dom }) => dom.getBoundingClientRect().bottom > top
+      );
+      if (index === -1) {
+        return null;
+      }
+      const { dom, line } = blocks[index];
+      const rect = dom.getBoundingClientRect();
+      const nextLine = blocks[index + 1]?.line ?? line + 1;
+      const fraction = rect.height ? Math.max(0, top - rect.top) / rect.height : 0;
+      return line + fraction * (nextLine - line);
+    },
+    scrollToLine: (line) => {
+      const blocks = readBlocks();
+      // The last block starting at or before `line`
+      let index = blocks.findIndex((block) => block.line > line) - 1;
+      if (index === -2) index = blocks.length - 1;
+      if (index < 0) {
+        if (blocks[0]) scrollTo(element, blocks[0].dom, 0);
+        return;
+      }
+      const { dom, line: startLine } = blocks[index];
+      const nextLine = blocks[index + 1]?.line ?? startLine + 1;
+      const fraction = Math.min((line - startLine) / (nextLine - startLine), 1);
+      scrollTo(element, dom, fraction * dom.getBoundingClientRect().height);
+    },
+  };
+}
+
+/**
+ * Scrolls each pane along with the other. Only the pane last pointed at or
+ * focused leads, so the follower's own scroll events do not bounce back.
+ * Returns a function that unlinks them.
+ */
+export function linkScrollPanes(first: ScrollPane, second: ScrollPane): () => void {
+  let leader: ScrollPane | null = null;
+  const listeners = [
+    [first, second],
+    [second, first],
+  ].map(([pane, other]) => {
+    const lead = () => {
+      leader = pane;
+    };
+    const follow = () => {
+      if (leader !== pane) {
+        return;
+      }
+      const line = pane.topLine();
+      if (line !== null) other.scrollToLine(line);
+    };
+    pane.element.addEventListener("pointerenter", lead);
+    pane.element.addEventListener("focusin", lead);
+    pane.element.addEventListener("scroll", follow);
+    return () => {
+      pane.element.removeEventListener("pointerenter", lead);
+      pane.element.removeEventListener("focusin", lead);
+      pane.element.removeEventListener("scroll", follow);
+    };
+  });
+  return () => listeners.forEach((unlink) => unlink());
+}
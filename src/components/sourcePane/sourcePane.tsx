@@ -0,0 +1,324 @@
+// src/components/sourcePane/sourcePane.tsx
+import React, { useEffect, useRef } from "react";
+import type { Editor } from "@tiptap/core";
+import {
+  Annotation,
+  Compartment,
+  EditorState,
+  Transaction,
+} from "@codemirror/state";
+import {
+  EditorView,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  keymap,
+  lineNumbers,
+} from "@codemirror/view";
+import {
+  defaultKeymap,
+  history,
+  historyKeymap,
+  indentWithTab,
+} from "@codemirror/commands";
+import { markdown } from "@codemirror/lang-markdown";
+import { getEditorMarkdown } from "../../editor/markdown/editorMarkdown";
+import {
+  posToSourceOffset,
+  sourceOffsetToPos,
+} from "../../editor/markdown/sourcePositions";
+import type { FrontMatter } from "../../services/frontMatter";
+import { markdownSourceTheme } from "./markdownSourceTheme";
+import {
+  createRichScrollPane,
+  linkScrollPanes,
+  type ScrollPane,
+} from "./scrollSync";
+import "./styles.css";
+
+// Typing in the source is sent to the editor once it pauses this long
+const SEND_DELAY_MS = 250;
+
+// Marks source changes that came from the editor, so they are not sent back
+const fromEditor = Annotation.define<boolean>();
+
+interface SourcePaneProps {
+  editor: Editor;
+  documentId: string; // Pending source edits are sent before it changes
+  ready: boolean; // The document is loaded and editable
+  // Full Markdown of the document, front matter included
+  getMarkdown: () => string;
+  // Makes the document match the edited source (replaceDocument)
+  onChange: (markdown: string) => void;
+  frontMatter: FrontMatter | null; // Edits in the properties panel show up in the source
+  // The rich view's scroll container, kept at the same spot as the source;
+  // null when the rich view is hidden
+  scrollPartner: HTMLElement | null;
+}
+
+/** Top of source line `line` (0-based), from the top of the first line. */
+function lineTop(view: EditorView, line: number): number {
+  const { doc } = view.state;
+  return line < doc.lines
+    ? view.lineBlockAt(doc.line(line + 1).from).top
+    : view.lineBlockAt(doc.length).bottom;
+}
+
+/**
+ * Where the editor's Markdown `body` starts in the source text, after the
+ * front matter; null while the two are out of sync.
+ */
+function bodyStart(source: string, body: string): number | null {
+  return source.endsWith(body) ? source.length - body.length : null;
+}
+
+/**
+ * The document's Markdown in a code editor, beside or instead of the rich
+ * editor. Both stay in sync: source edits replace the blocks that changed
+ * (replaceDocument), editor edits are patched into the source, and the
+ * cursor and scroll position of the pane being used are mirrored in the
+ * other one. Positions are matched block by block through the source lines
+ * of each top-level node (getBlockLines), then by the text around them.
+ */
+const SourcePane: React.FC<SourcePaneProps> = ({
+  editor,
+  documentId,
+  ready,
+  getMarkdown,
+  onChange,
+  frontMatter,
+  scrollPartner,
+}) => {
+  const hostRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const editableRef = useRef(new Compartment());
+  // Source text typed but not yet sent to the editor
+  const sendTimerRef = useRef<number | null>(null);
+  // The CodeMirror listeners are created once, so they read the latest props here
+  const propsRef = useRef({ editor, getMarkdown, onChange, ready });
+  useEffect(() => {
+    propsRef.current = { editor, getMarkdown, onChange, ready };
+  }, [editor, getMarkdown, onChange, ready]);
+  // Set by the sync helpers below, which need the view
+  const syncRef = useRef({
+    sendSource: () => {},
+    syncFromEditor: () => {},
+    selectInEditor: () => {},
+  });
+
+  useEffect(() => {
+    const host = hostRef.current;
+    if (!host) {
+      return;
+    }
+
+    const sendSource = () => {
+      if (sendTimerRef.current !== null) {
+        window.clearTimeout(sendTimerRef.current);
+        sendTimerRef.current = null;
+      }
+      const view = viewRef.current;
+      if (view) {
+        propsRef.current.onChange(view.state.doc.toString());
+        selectInEditor();
+      }
+    };
+
+    // Moves the editor's selection to the source cursor
+    const selectInEditor = () => {
+      const view = viewRef.current;
+      const { editor: currentEditor } = propsRef.current;
+      if (!view?.hasFocus || sendTimerRef.current !== null) {
+        return;
+      }
+      const source = view.state.doc.toString();
+      const body = getEditorMarkdown(currentEditor);
+      const start = bodyStart(source, body);
+      const offset = view.state.selection.main.head - (start ?? 0);
+      if (start === null || offset < 0) {
+        return;
+      }
+      const pos = sourceOffsetToPos(currentEditor, body, offset);
+      if (pos !== null) {
+        currentEditor.chain().setTextSelection(pos).scrollIntoView().run();
+      }
+    };
+
+    // Patches editor changes into the source and follows the editor's cursor
+    const syncFromEditor = () => {
+      const view = viewRef.current;
+      const { editor: currentEditor, getMarkdown: readMarkdown } =
+        propsRef.current;
+      // The editor is about to get the typed source; that source wins
+      if (!view || sendTimerRef.current !== null || currentEditor.isDestroyed) {
+        return;
+      }
+      const source = view.state.doc.toString();
+      const next = readMarkdown();
+      if (next !== source) {
+        let from = 0;
+        while (from < source.length && source[from] === next[from]) from++;
+        let end = 0;
+        while (
+          end < source.length - from &&
+          end < next.length - from &&
+          source[source.length - 1 - end] === next[next.length - 1 - end]
+        ) {
+          end++;
+        }
+        view.dispatch({
+          changes: {
+            from,
+            to: source.length - end,
+            insert: next.slice(from, next.length - end),
+          },
+          // Undo in the source pane only steps through its own edits
+          annotations: [fromEditor.of(true), Transaction.addToHistory.of(false)],
+        });
+      }
+      if (!currentEditor.isFocused) {
+        return;
+      }
+      const body = getEditorMarkdown(currentEditor);
+      const start = bodyStart(next, body);
+      const offset =
+        start === null
+          ? null
+          : posToSourceOffset(currentEditor, body, currentEditor.state.selection.head);
+      if (start !== null && offset !== null) {
+        view.dispatch({
+          selection: { anchor: start + offset },
+          scrollIntoView: true,
+          annotations: fromEditor.of(true),
+        });
+      }
+    };
+
+    syncRef.current = { sendSource, syncFromEditor, selectInEditor };
+
+    const view = new EditorView({
+      parent: host,
+      state: EditorState.create({
+        doc: propsRef.current.getMarkdown(),
+        extensions: [
+          lineNumbers(),
+          highlightActiveLine(),
+          highlightActiveLineGutter(),
+          history(),
+          keymap.of([...defaultKeymap, ...historyKeymap, indentWithTab]),
+          markdown(),
+          EditorView.lineWrapping,
+          markdownSourceTheme,
+          editableRef.current.of(EditorView.editable.of(propsRef.current.ready)),
+          EditorView.updateListener.of((update) => {
+            if (update.transactions.some((tr) => tr.annotation(fromEditor))) {
+              return;
+            }
+            if (update.docChanged) {
+              if (sendTimerRef.current !== null) {
+                window.clearTimeout(sendTimerRef.current);
+              }
+              sendTimerRef.current = window.setTimeout(sendSource, SEND_DELAY_MS);
+            } else if (update.selectionSet) {
+              selectInEditor();
+            }
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+
+    return () => {
+      // Switching to the rich view keeps what was just typed
+      if (sendTimerRef.current !== null) sendSource();
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  // A document switch must not drop source typed just before it
+  useEffect(
+    () => () => {
+      if (sendTimerRef.current !== null) syncRef.current.sendSource();
+    },
+    [documentId]
+  );
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: editableRef.current.reconfigure(EditorView.editable.of(ready)),
+    });
+  }, [ready]);
+
+  // Editor edits, local or from collaborators, and cursor moves; batched
+  // per frame since typing produces one transaction per key
+  useEffect(() => {
+    let frame: number | null = null;
+    const schedule = () => {
+      if (frame === null) {
+        frame = window.requestAnimationFrame(() => {
+          frame = null;
+          syncRef.current.syncFromEditor();
+        });
+      }
+    };
+    editor.on("update", schedule);
+    editor.on("selectionUpdate", schedule);
+    return () => {
+      editor.off("update", schedule);
+      editor.off("selectionUpdate", schedule);
+      if (frame !== null) window.cancelAnimationFrame(frame);
+    };
+  }, [editor]);
+
+  // A newly loaded document (set without an update event) and front matter
+  // edits from the properties panel
+  useEffect(() => {
+    if (ready) {
+      syncRef.current.syncFromEditor();
+    }
+  }, [ready, frontMatter]);
+
+  // Scrolling one pane scrolls the other to the same block
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || !scrollPartner) {
+      return;
+    }
+    // Panes count lines from the start of the body, after the front matter
+    const frontMatterLines = () => {
+      const text = view.state.doc.toString();
+      const start = bodyStart(text, getEditorMarkdown(editor));
+      return start === null ? null : text.slice(0, start).split("\n").length - 1;
+    };
+    const sourcePane: ScrollPane = {
+      element: view.scrollDOM,
+      topLine: () => {
+        const offset = frontMatterLines();
+        if (offset === null) {
+          return null;
+        }
+        const height = view.scrollDOM.scrollTop - view.documentPadding.top;
+        const block = view.lineBlockAtHeight(height);
+        const fraction = block.height ? Math.max(0, height - block.top) / block.height : 0;
+        return view.state.doc.lineAt(block.from).number - 1 + fraction - offset;
+      },
+      scrollToLine: (line) => {
+        const offset = frontMatterLines();
+        if (offset === null) {
+          return;
+        }
+        const whole = Math.floor(line + offset);
+        const top = lineTop(view, whole);
+        view.scrollDOM.scrollTop =
+          view.documentPadding.top +
+          top +
+          (line + offset - whole) * (lineTop(view, whole + 1) - top);
+      },
+    };
+    return linkScrollPanes(sourcePane, createRichScrollPane(editor, scrollPartner));
+  }, [editor, scrollPartner]);
+
+  return <div className="source-pane" ref={hostRef} />;
+};
+
+export default SourcePane;
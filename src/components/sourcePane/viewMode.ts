@@ -0,0 +1,26 @@
+// src/components/sourcePane/viewMode.ts
+// Which views of a document are shown: the rich editor, the Markdown
+// source, both side by side, or the editor beside a preview of the
+// published page. Remembered across reloads.
+
+export type EditorViewMode = "rich" | "split" | "source" | "preview";
+
+export const EDITOR_VIEW_MODES: { mode: EditorViewMode; label: string }[] = [
+  { mode: "rich", label: "rich" },
+  { mode: "split", label: "split" },
+  { mode: "source", label: "source" },
+  { mode: "preview", label: "preview" },
+];
+
+const VIEW_MODE_KEY = "docground:viewMode";
+
+export function loadViewMode(): EditorViewMode {
+  const stored = localStorage.getItem(VIEW_MODE_KEY);
+  return EDITOR_VIEW_MODES.some(({ mode }) => mode === stored)
+    ? (stored as EditorViewMode)
+    : "rich";
+}
+
+export function saveViewMode(mode: EditorViewMode) {
+  localStorage.setItem(VIEW_MODE_KEY, mode);
+}
@@ -0,0 +1,28 @@
+// src/components/sourcePane/viewModeBar.tsx
+import React from "react";
+import { EDITOR_VIEW_MODES, type EditorViewMode } from "./viewMode";
+import "./styles.css";
+
+interface ViewModeBarProps {
+  mode: EditorViewMode;
+  onChange: (mode: EditorViewMode) => void;
+}
+
+/** Switches between the rich editor, the Markdown source and the preview. */
+const ViewModeBar: React.FC<ViewModeBarProps> = ({ mode, onChange }) => (
+  <div className="view-mode-bar" role="group" aria-label="View">
+    {EDITOR_VIEW_MODES.map(({ mode: option, label }) => (
+      <button
+        key={option}
+        type="button"
+        className={`view-mode-button ${option === mode ? "active" : ""}`}
+        aria-pressed={option === mode}
+        onClick={() => onChange(option)}
+      >
+        {label}
+      </button>
+    ))}
+  </div>
+);
+
+export default ViewModeBar;
@@ -0,0 +1,181 @@
+// src/components/tableControlBar/tableControlBar.tsx
+import React, { useCallback } from "react";
+import { BubbleMenu, useEditorState } from "@tiptap/react";
+import type { ChainedCommands, Editor } from "@tiptap/core";
+import type { ColumnAlign } from "../../editor/extensions/gfmTable";
+import "./styles.css";
+
+interface TableControlBarProps {
+  editor: Editor;
+}
+
+interface TableAction {
+  label: string;
+  title: string;
+  run: (chain: ChainedCommands) => ChainedCommands;
+}
+
+// Grouped as they appear in the bar, separated by dividers
+const actionGroups: TableAction[][] = [
+  [
+    {
+      label: "+row↑",
+      title: "Add row above",
+      run: (chain) => chain.addRowBefore(),
+    },
+    {
+      label: "+row↓",
+      title: "Add row below",
+      run: (chain) => chain.addRowAfter(),
+    },
+    { label: "-row", title: "Delete row", run: (chain) => chain.deleteRow() },
+  ],
+  [
+    {
+      label: "+col←",
+      title: "Add column before",
+      run: (chain) => chain.addColumnBefore(),
+    },
+    {
+      label: "+col→",
+      title: "Add column after",
+      run: (chain) => chain.addColumnAfter(),
+    },
+    {
+      label: "-col",
+      title: "Delete column",
+      run: (chain) => chain.deleteColumn(),
+    },
+  ],
+  [
+    {
+      label: "header",
+      title: "Toggle header row",
+      run: (chain) => chain.toggleHeaderRow(),
+    },
+    {
+      label: "merge",
+      title: "Merge selected cells (saved as HTML)",
+      run: (chain) => chain.mergeCells(),
+    },
+    { label: "split", title: "Split cell", run: (chain) => chain.splitCell() },
+  ],
+];
+
+const alignments: { align: ColumnAlign; label: string }[] = [
+  { align: "left", label: ":--" },
+  { align: "center", label: ":-:" },
+  { align: "right", label: "--:" },
+];
+
+/** Finds the <table> element around the selection, if any. */
+function getSelectedTableElement(editor: Editor): HTMLElement | null {
+  const { node } = editor.view.domAtPos(editor.state.selection.from);
+  const element = node instanceof HTMLElement ? node : node.parentElement;
+  return element?.closest("table") ?? null;
+}
+
+/**
+ * Floating toolbar shown above the table that holds the cursor. Every
+ * action goes through the table commands, so it also works on a cell
+ * selection (e.g. align several columns at once).
+ */
+const TableControlBar: React.FC<TableControlBarProps> = ({ editor }) => {
+  // Re-render on selection changes so disabled/active states stay current
+  const { currentAlign, canRun } = useEditorState({
+    editor,
+    selector: ({ editor: current }) => ({
+      currentAlign: (current.getAttributes("tableCell").align ??
+        current.getAttributes("tableHeader").align ??
+        null) as ColumnAlign | null,
+      canRun: actionGroups
+        .flat()
+        .map((action) => action.run(current.can().chain()).run()),
+    }),
+  });
+
+  const runAction = useCallback(
+    (action: TableAction) => action.run(editor.chain().focus()).run(),
+    [editor]
+  );
+
+  const toggleAlign = useCallback(
+    (align: ColumnAlign) =>
+      editor
+        .chain()
+        .focus()
+        .setColumnAlign(currentAlign === align ? null : align)
+        .run(),
+    [editor, currentAlign]
+  );
+
+  let actionIndex = 0;
+
+  return (
+    <BubbleMenu
+      editor={editor}
+      pluginKey="tableControlBar"
+      className="table-control-bar"
+      shouldShow={({ editor: current }) =>
+        current.isEditable && current.isActive("table")
+      }
+      tippyOptions={{
+        placement: "top-start",
+        maxWidth: "none",
+        // Anchor to the whole table rather than the selected text
+        getReferenceClientRect: () =>
+          (
+            getSelectedTableElement(editor) ?? editor.view.dom
+          ).getBoundingClientRect(),
+      }}
+    >
+      {actionGroups.map((group, groupIndex) => (
+        <div className="table-control-group" key={groupIndex}>
+          {group.map((action) => {
+            const enabled = canRun[actionIndex++];
+            return (
+              <button
+                type="button"
+                key={action.label}
+                title={action.title}
+                disabled={!enabled}
+                // Keep focus (and the cell selection) in the editor
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => runAction(action)}
+              >
+                {action.label}
+              </button>
+            );
+          })}
+        </div>
+      ))}
+      <div className="table-control-group">
+        {alignments.map(({ align, label }) => (
+          <button
+            type="button"
+            key={align}
+            title={`Align column ${align}`}
+            className={currentAlign === align ? "active" : ""}
+            onMouseDown={(event) => event.preventDefault()}
+            onClick={() => toggleAlign(align)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="table-control-group">
+        <button
+          type="button"
+          title="Delete table"
+          className="danger"
+          onMouseDown={(event) => event.preventDefault()}
+          onClick={() => editor.chain().focus().deleteTable().run()}
+        >
+          rm table
+        </button>
+      </div>
+    </BubbleMenu>
+  );
+};
+
+export default TableControlBar;
@@ -0,0 +1,31 @@
+// src/components/themeSwitcher/themeSwitcher.tsx
+import React from "react";
+import { getTheme, THEMES, type Theme } from "../../services/themes/themes";
+import "./styles.css";
+
+interface ThemeSwitcherProps {
+  theme: Theme;
+  onChange: (theme: Theme) => void;
+}
+
+/** Picks the theme of the editor, the preview and exported sites. */
+const ThemeSwitcher: React.FC<ThemeSwitcherProps> = ({ theme, onChange }) => (
+  <div className="theme-switcher">
+    <label className="theme-switcher-title" htmlFor="theme-switcher-select">
+      theme
+    </label>
+    <select
+      id="theme-switcher-select"
+      value={theme.id}
+      onChange={(event) => onChange(getTheme(event.target.value))}
+    >
+      {THEMES.map((option) => (
+        <option key={option.id} value={option.id}>
+          {option.name}
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
+export default ThemeSwitcher;
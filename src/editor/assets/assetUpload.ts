@@ -0,0 +1,179 @@
+// src/editor/assets/assetUpload.ts
+// Turns pasted and dropped files into assets: each file is handed to the
+// document's storage, which keeps it next to the document, and an image or
+// attachment node linking to the stored path is inserted where the file
+// landed. The storage of the open document is kept in plugin state, set by
+// the editor component whenever the document changes.
+import { Extension, type Editor } from "@tiptap/core";
+import {
+  Plugin,
+  PluginKey,
+  type EditorState,
+  type Transaction,
+} from "@tiptap/pm/state";
+import { isImageFile } from "../../services/assets/assetFiles";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    assetUpload: {
+      /** Tell the editor where the open document's assets are stored */
+      setDocumentAssets: (assets: DocumentAssets | null) => ReturnType;
+    };
+  }
+}
+
+/** The asset side of the open document's storage. */
+export interface DocumentAssets {
+  /** Stores a file and resolves with the relative path to link it by. */
+  save: (file: File) => Promise<string>;
+  /** Reads a file linked by relative path, e.g. `assets/a.png`. */
+  load: (path: string) => Promise<Blob>;
+}
+
+export const AssetUploadPluginKey = new PluginKey<DocumentAssets | null>(
+  "assetUpload"
+);
+
+export function getDocumentAssets(state: EditorState): DocumentAssets | null {
+  return AssetUploadPluginKey.getState(state) ?? null;
+}
+
+/** "team-photo_2026.jpg" -> "team photo 2026", a starting point for alt text. */
+function altFromFileName(name: string): string {
+  return name
+    .replace(/\.[^.]+$/, "")
+    .replace(/[-_]+/g, " ")
+    .trim();
+}
+
+/**
+ * Stores `files` and inserts an image (for image files) or an attachment
+ * card for each at `pos`, which follows edits made while the upload runs.
+ * Resolves with false when the document cannot store files.
+ */
+export async function uploadFiles(
+  editor: Editor,
+  files: File[],
+  pos: number
+): Promise<boolean> {
+  const assets = getDocumentAssets(editor.state);
+  if (!assets || files.length === 0) {
+    return false;
+  }
+  let insertAt = pos;
+  const trackPosition = ({ transaction }: { transaction: Transaction }) => {
+    insertAt = transaction.mapping.map(insertAt);
+  };
+  editor.on("transaction", trackPosition);
+  try {
+    const content = await Promise.all(
+      files.map(async (file) => {
+        const path = await assets.save(file);
+        return isImageFile(file)
+          ? {
+              type: "image",
+              attrs: { src: path, alt: altFromFileName(file.name) },
+            }
+          : { type: "attachment", attrs: { href: path, name: file.name } };
+      })
+    );
+    // Another document may have been opened in the meantime
+    if (editor.isDestroyed || getDocumentAssets(editor.state) !== assets) {
+      return false;
+    }
+    editor
+      .chain()
+      .focus()
+      .insertContentAt(Math.min(insertAt, editor.state.doc.content.size), content)
+      .run();
+    return true;
+  } catch (error) {
+    console.error("Error uploading files:", error);
+    return false;
+  } finally {
+    editor.off("transaction", trackPosition);
+  }
+}
+
+/**
+ * Opens the browser's file picker (limited to `accept`, e.g. "image/*")
+ * and uploads the chosen files at the cursor.
+ */
+export function chooseFiles(editor: Editor, accept?: string) {
+  if (!getDocumentAssets(editor.state)) {
+    return;
+  }
+  const input = document.createElement("input");
+  input.type = "file";
+  input.multiple = true;
+  if (accept) {
+    input.accept = accept;
+  }
+  input.addEventListener("change", () => {
+    const files = Array.from(input.files ?? []);
+    uploadFiles(editor, files, editor.state.selection.from);
+  });
+  input.click();
+}
+
+/**
+ * Uploads files pasted or dropped into the editor. Text, HTML and blocks
+ * dragged within the editor are left to the default handling.
+ */
+export const AssetUpload = Extension.create({
+  name: "assetUpload",
+
+  addCommands() {
+    return {
+      setDocumentAssets:
+        (assets) =>
+        ({ tr, dispatch }) => {
+          dispatch?.(tr.setMeta(AssetUploadPluginKey, assets));
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { editor } = this;
+    return [
+      new Plugin<DocumentAssets | null>({
+        key: AssetUploadPluginKey,
+        state: {
+          init: () => null,
+          apply: (tr, value) => {
+            const assets: DocumentAssets | null | undefined =
+              tr.getMeta(AssetUploadPluginKey);
+            return assets === undefined ? value : assets;
+          },
+        },
+        props: {
+          // A screenshot on the clipboard comes as a file; copied images
+          // usually bring HTML too, but the file is what gets stored
+          handlePaste: (view, event) => {
+            const files = Array.from(event.clipboardData?.files ?? []);
+            if (files.length === 0 || !getDocumentAssets(view.state)) {
+              return false;
+            }
+            view.dispatch(view.state.tr.deleteSelection());
+            uploadFiles(editor, files, view.state.selection.from);
+            return true;
+          },
+          handleDrop: (view, event, _slice, moved) => {
+            const files = Array.from(event.dataTransfer?.files ?? []);
+            if (moved || files.length === 0 || !getDocumentAssets(view.state)) {
+              return false;
+            }
+            event.preventDefault();
+            const target = view.posAtCoords({
+              left: event.clientX,
+              top: event.clientY,
+            });
+            uploadFiles(editor, files, target?.pos ?? view.state.selection.from);
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,85 @@
+// src/editor/assets/attachment.ts
+import { mergeAttributes, Node } from "@tiptap/core";
+import { ReactNodeViewRenderer } from "@tiptap/react";
+import type { MarkdownNodeSpec } from "../markdown/markdownSpec";
+import { isAssetPath } from "../../services/assets/assetFiles";
+import {
+  getSanitizePolicy,
+  isAllowedUrl,
+} from "../../services/sanitize/sanitizePolicy";
+import {
+  ATTACHMENT_ATTRIBUTE,
+  formatAttachment,
+  parseAttachmentSyntax,
+} from "./attachmentSyntax";
+import AttachmentView from "./attachmentView";
+
+// Cards come from Markdown, which only makes them for assets, but also from
+// pasted HTML; their download button must never open a script URL
+function isSafeAttachmentHref(href: string): boolean {
+  return isAssetPath(href) || isAllowedUrl(href, getSanitizePolicy("strict"));
+}
+
+/**
+ * A file linked from the document, shown as a card with a download button.
+ * Saved as a paragraph holding only `[name](assets/file)`, see
+ * attachmentSyntax.ts; pasted and dropped files that are not images become
+ * attachments (src/editor/assets/assetUpload.ts).
+ */
+export const Attachment = Node.create({
+  name: "attachment",
+  group: "block",
+  atom: true,
+  draggable: true,
+
+  addAttributes() {
+    return {
+      href: {
+        default: "",
+        parseHTML: (element) => element.getAttribute(ATTACHMENT_ATTRIBUTE) ?? "",
+        renderHTML: (attributes) => ({ [ATTACHMENT_ATTRIBUTE]: attributes.href }),
+      },
+      name: {
+        default: "",
+        parseHTML: (element) => element.textContent ?? "",
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: `div[${ATTACHMENT_ATTRIBUTE}]`,
+        // Anything else is read as the plain text it contains
+        getAttrs: (element) =>
+          isSafeAttachmentHref(element.getAttribute(ATTACHMENT_ATTRIBUTE) ?? "")
+            ? null
+            : false,
+      },
+    ];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ["div", mergeAttributes(HTMLAttributes), node.attrs.name];
+  },
+
+  addStorage() {
+    const markdown: MarkdownNodeSpec = {
+      serialize(state, node) {
+        state.write(formatAttachment(node.attrs.name, node.attrs.href));
+        state.closeBlock(node);
+      },
+      parse: {
+        setup(markdownit) {
+          parseAttachmentSyntax(markdownit);
+        },
+      },
+    };
+    return { markdown };
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(AttachmentView);
+  },
+});
@@ -0,0 +1,74 @@
+// src/editor/assets/attachmentSyntax.ts
+// The Markdown form of an attachment: a paragraph holding nothing but a
+// link to a file in the document's `assets/` folder, e.g.
+// `[report.pdf](assets/report-3f9a2c.pdf)`. Other renderers show it as an
+// ordinary link; the editor shows it as a card.
+import type MarkdownIt from "markdown-it";
+import { isAssetPath } from "../../services/assets/assetFiles";
+
+type CoreRule = Parameters<MarkdownIt["core"]["ruler"]["after"]>[2];
+
+export const ATTACHMENT_ATTRIBUTE = "data-attachment";
+
+const patchedInstances = new WeakSet<MarkdownIt>();
+
+function escapeLinkText(text: string): string {
+  return text.replace(/[\\`*_[\]<]/g, "\\$&");
+}
+
+/** The Markdown of an attachment linking `name` to `href`. */
+export function formatAttachment(name: string, href: string): string {
+  const destination = /[\s<>()]/.test(href) ? `<${href}>` : href;
+  return `[${escapeLinkText(name || href)}](${destination})`;
+}
+
+/**
+ * Replaces top-level paragraphs whose only content is one link to an asset
+ * (but not another document) with an `attachment_block` token. Paragraphs
+ * in lists and quotes stay links, since those blocks must start with text.
+ */
+const attachmentBlocks: CoreRule = (state) => {
+  const { tokens } = state;
+  for (let i = tokens.length - 3; i >= 0; i--) {
+    const [open, inline, close] = tokens.slice(i, i + 3);
+    const children = inline.children ?? [];
+    const href = children[0]?.attrGet("href") ?? "";
+    const isLoneLink =
+      open.type === "paragraph_open" &&
+      open.level === 0 &&
+      inline.type === "inline" &&
+      close.type === "paragraph_close" &&
+      children.length >= 2 &&
+      children[0].type === "link_open" &&
+      children[children.length - 1].type === "link_close" &&
+      children.slice(1, -1).every((child) => child.type !== "link_open");
+    if (!isLoneLink || !isAssetPath(href) || /\.md$/i.test(href)) {
+      continue;
+    }
+    const token = new state.Token("attachment_block", "div", 0);
+    token.block = true;
+    token.map = open.map;
+    token.attrSet("href", href);
+    token.content = children
+      .slice(1, -1)
+      .map((child) => child.content)
+      .join("");
+    tokens.splice(i, 3, token);
+  }
+};
+
+/**
+ * Adds the attachment rule to `markdownit`, rendering attachments as
+ * `<div data-attachment="href">name</div>`.
+ */
+export function parseAttachmentSyntax(markdownit: MarkdownIt) {
+  if (patchedInstances.has(markdownit)) return;
+  patchedInstances.add(markdownit);
+
+  const { escapeHtml } = markdownit.utils;
+  markdownit.core.ruler.after("inline", "attachment_block", attachmentBlocks);
+  markdownit.renderer.rules.attachment_block = (tokens, index) => {
+    const token = tokens[index];
+    return `<div ${ATTACHMENT_ATTRIBUTE}="${escapeHtml(token.attrGet("href") ?? "")}">${escapeHtml(token.content)}</div>\n`;
+  };
+}
@@ -0,0 +1,64 @@
+// src/editor/assets/attachmentView.tsx
+import React, { useState } from "react";
+import { NodeViewWrapper, type NodeViewProps } from "@tiptap/react";
+import {
+  getFileExtension,
+  isAbsoluteUrl,
+} from "../../services/assets/assetFiles";
+import { downloadBlob } from "../../services/export/staticSiteExport";
+import { getDocumentAssets } from "./assetUpload";
+import "./assetStyles.css";
+
+/** An attachment card: file type, name and path, and a download button. */
+const AttachmentView: React.FC<NodeViewProps> = ({ node, editor, selected }) => {
+  const href: string = node.attrs.href;
+  const name: string = node.attrs.name || href.split("/").pop() || href;
+  const [error, setError] = useState<string | null>(null);
+
+  const download = () => {
+    setError(null);
+    if (isAbsoluteUrl(href)) {
+      // Web links open in a new tab; other schemes are not followed
+      if (/^https?:\/\//i.test(href)) {
+        window.open(href, "_blank", "noopener");
+      } else {
+        setError("Only http and https links can be opened");
+      }
+      return;
+    }
+    const assets = getDocumentAssets(editor.state);
+    if (!assets) {
+      setError("This document cannot store files");
+      return;
+    }
+    assets
+      .load(href)
+      .then((blob) => downloadBlob(blob, name))
+      .catch((loadError) =>
+        setError(loadError instanceof Error ? loadError.message : String(loadError))
+      );
+  };
+
+  return (
+    <NodeViewWrapper
+      className={`attachment-card ${selected ? "selected" : ""}`}
+      contentEditable={false}
+      data-drag-handle
+    >
+      <span className="attachment-type">
+        {getFileExtension(href) || "file"}
+      </span>
+      <span className="attachment-details">
+        <span className="attachment-name">{name}</span>
+        <span className={error ? "attachment-error" : "attachment-path"}>
+          {error ?? href}
+        </span>
+      </span>
+      <button type="button" className="attachment-download" onClick={download}>
+        download
+      </button>
+    </NodeViewWrapper>
+  );
+};
+
+export default AttachmentView;
@@ -0,0 +1,109 @@
+// src/editor/assets/image.ts
+import { mergeAttributes, Node } from "@tiptap/core";
+import { ReactNodeViewRenderer } from "@tiptap/react";
+import type { MarkdownNodeSpec } from "../markdown/markdownSpec";
+import ImageView from "./imageView";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    image: {
+      setImage: (attributes: {
+        src: string;
+        alt?: string;
+        title?: string;
+      }) => ReturnType;
+    };
+  }
+}
+
+function escapeHtmlAttribute(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;");
+}
+
+/** A link destination, in angle brackets when it has spaces. */
+function formatDestination(src: string): string {
+  return /[\s<>]/.test(src)
+    ? `<${src.replace(/[<>]/g, "\\$&")}>`
+    : src.replace(/[()]/g, "\\$&");
+}
+
+/**
+ * Inline image, saved as `![alt](src "caption")`: the title doubles as the
+ * caption shown under the image. Markdown has no size syntax, so a resized
+ * image is saved as `<img src alt title width>` instead, which GitHub
+ * renders at that width too. `src` is usually a relative `assets/` path.
+ */
+export const Image = Node.create({
+  name: "image",
+  group: "inline",
+  inline: true,
+  atom: true,
+  draggable: true,
+
+  addAttributes() {
+    return {
+      src: { default: "" },
+      alt: { default: "" },
+      title: { default: null },
+      width: {
+        default: null,
+        parseHTML: (element) => {
+          const width = parseInt(element.getAttribute("width") ?? "", 10);
+          return width > 0 ? width : null;
+        },
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "img[src]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["img", mergeAttributes(HTMLAttributes)];
+  },
+
+  renderText({ node }) {
+    return node.attrs.alt;
+  },
+
+  addStorage() {
+    const markdown: MarkdownNodeSpec = {
+      serialize(state, node) {
+        const { src, alt, title, width } = node.attrs;
+        if (width) {
+          const attributes = [
+            `src="${escapeHtmlAttribute(src)}"`,
+            `alt="${escapeHtmlAttribute(alt ?? "")}"`,
+            title ? `title="${escapeHtmlAttribute(title)}"` : "",
+            `width="${width}"`,
+          ];
+          state.write(`<img ${attributes.filter(Boolean).join(" ")}>`);
+          return;
+        }
+        const caption = title ? ` "${title.replace(/"/g, '\\"')}"` : "";
+        state.write(
+          `![${state.esc(alt ?? "")}](${formatDestination(src)}${caption})`
+        );
+      },
+      // markdown-it renders images (and passes <img> through) on its own
+    };
+    return { markdown };
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(ImageView);
+  },
+
+  addCommands() {
+    return {
+      setImage:
+        (attributes) =>
+        ({ commands }) =>
+          commands.insertContent({ type: this.name, attrs: attributes }),
+    };
+  },
+});
@@ -0,0 +1,144 @@
+// src/editor/assets/imageView.tsx
+import React, { useRef, useState } from "react";
+import { NodeViewWrapper, type NodeViewProps } from "@tiptap/react";
+import { useAssetUrl } from "./useAssetUrl";
+import "./assetStyles.css";
+
+// Images are not resized below this many pixels
+const MIN_WIDTH = 48;
+
+/**
+ * An image with a resize handle in its corner and, while it is selected,
+ * fields for its alt text and caption. Dragging the handle sets an explicit
+ * width; double-clicking it goes back to the natural size.
+ */
+const ImageView: React.FC<NodeViewProps> = ({
+  node,
+  editor,
+  selected,
+  updateAttributes,
+}) => {
+  const src: string = node.attrs.src;
+  const alt: string = node.attrs.alt ?? "";
+  const title: string = node.attrs.title ?? "";
+  const width: number | null = node.attrs.width;
+  const { url, error } = useAssetUrl(editor, src);
+  // Width shown while the handle is dragged; saved when it is released
+  const [dragWidth, setDragWidth] = useState<number | null>(null);
+  const [isEditingText, setIsEditingText] = useState(false);
+  const frameRef = useRef<HTMLSpanElement>(null);
+
+  const startResize = (event: React.PointerEvent<HTMLSpanElement>) => {
+    const frame = frameRef.current;
+    if (!frame || !editor.isEditable) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    const handle = event.currentTarget;
+    handle.setPointerCapture(event.pointerId);
+    const startX = event.clientX;
+    const startWidth = frame.getBoundingClientRect().width;
+    const maxWidth = editor.view.dom.clientWidth;
+    let nextWidth = startWidth;
+
+    const onMove = (moveEvent: PointerEvent) => {
+      nextWidth = Math.round(
+        Math.min(maxWidth, Math.max(MIN_WIDTH, startWidth + moveEvent.clientX - startX))
+      );
+      setDragWidth(nextWidth);
+    };
+    const onUp = () => {
+      handle.removeEventListener("pointermove", onMove);
+      handle.removeEventListener("pointerup", onUp);
+      setDragWidth(null);
+      if (nextWidth !== startWidth) {
+        updateAttributes({ width: nextWidth });
+      }
+    };
+    handle.addEventListener("pointermove", onMove);
+    handle.addEventListener("pointerup", onUp);
+  };
+
+  const finishEditingText = (event: React.KeyboardEvent) => {
+    if (event.key === "Enter" || event.key === "Escape") {
+      event.preventDefault();
+      editor.commands.focus();
+    }
+  };
+
+  const shownWidth = dragWidth ?? width;
+  const showFields = editor.isEditable && (selected || isEditingText);
+
+  return (
+    <NodeViewWrapper
+      as="span"
+      className={`image-node ${selected ? "selected" : ""}`}
+    >
+      <span
+        className="image-frame"
+        ref={frameRef}
+        contentEditable={false}
+        style={shownWidth ? { width: shownWidth } : undefined}
+      >
+        {url ? (
+          <img src={url} alt={alt} title={title || undefined} data-drag-handle />
+        ) : (
+          <span className="image-missing" title={error ?? undefined}>
+            {error ? `missing image: ${src}` : "loading image..."}
+          </span>
+        )}
+        {editor.isEditable && url && (
+          <span
+            className="image-resize-handle"
+            title="Drag to resize, double-click for the original size"
+            onPointerDown={startResize}
+            onDoubleClick={() => updateAttributes({ width: null })}
+          />
+        )}
+      </span>
+      {showFields ? (
+        <span
+          className="image-fields"
+          contentEditable={false}
+          onFocus={() => setIsEditingText(true)}
+          onBlur={(event) => {
+            // Moving between the two fields keeps them open
+            if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+              setIsEditingText(false);
+            }
+          }}
+        >
+          <label>
+            alt
+            <input
+              value={alt}
+              placeholder="Describe the image"
+              onChange={(event) => updateAttributes({ alt: event.target.value })}
+              onKeyDown={finishEditingText}
+            />
+          </label>
+          <label>
+            caption
+            <input
+              value={title}
+              placeholder="Optional caption"
+              onChange={(event) =>
+                updateAttributes({ title: event.target.value || null })
+              }
+              onKeyDown={finishEditingText}
+            />
+          </label>
+        </span>
+      ) : (
+        title && (
+          <span className="image-caption" contentEditable={false}>
+            {title}
+          </span>
+        )
+      )}
+    </NodeViewWrapper>
+  );
+};
+
+export default ImageView;
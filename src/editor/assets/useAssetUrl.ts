@@ -0,0 +1,64 @@
+// src/editor/assets/useAssetUrl.ts
+import { useEffect, useState } from "react";
+import type { Editor } from "@tiptap/core";
+import { isAbsoluteUrl } from "../../services/assets/assetFiles";
+import { getDocumentAssets } from "./assetUpload";
+
+export interface AssetUrl {
+  url: string | null; // null while loading or when the asset is missing
+  error: string | null;
+}
+
+/**
+ * A URL the browser can show for `src`. Absolute URLs are used as they
+ * are; relative ones are read from the open document's assets and served
+ * through an object URL that is revoked once it is no longer shown.
+ */
+export function useAssetUrl(editor: Editor, src: string): AssetUrl {
+  const [loaded, setLoaded] = useState<AssetUrl & { src: string }>({
+    src: "",
+    url: null,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!src || isAbsoluteUrl(src)) {
+      return;
+    }
+    const assets = getDocumentAssets(editor.state);
+    if (!assets) {
+      setLoaded({ src, url: null, error: "This document cannot store files" });
+      return;
+    }
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    assets
+      .load(src)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setLoaded({ src, url: objectUrl, error: null });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        setLoaded({
+          src,
+          url: null,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [editor, src]);
+
+  if (!src) {
+    return { url: null, error: "No file given" };
+  }
+  if (isAbsoluteUrl(src)) {
+    return { url: src, error: null };
+  }
+  // A result for the previous src is not shown for the new one
+  return loaded.src === src ? loaded : { url: null, error: null };
+}
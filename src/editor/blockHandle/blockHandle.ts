@@ -0,0 +1,504 @@
+// src/editor/blockHandle/blockHandle.ts
+// Grip shown beside the hovered top-level block or list item. Dragging the
+// grip moves the block (StarterKit's drop cursor marks the target), clicking
+// it opens the block menu (src/components/blockMenu).
+import { Extension } from "@tiptap/core";
+import { Fragment, Slice, type Node as ProseMirrorNode } from "@tiptap/pm/model";
+import {
+  NodeSelection,
+  Plugin,
+  PluginKey,
+  TextSelection,
+  type EditorState,
+  type Transaction,
+} from "@tiptap/pm/state";
+import { dropPoint } from "@tiptap/pm/transform";
+import type { EditorView } from "@tiptap/pm/view";
+import "./blockHandleStyles.css";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    blockHandle: {
+      /**
+       * Select the block at `pos` and open its block menu
+       */
+      openBlockMenu: (pos: number) => ReturnType;
+      closeBlockMenu: () => ReturnType;
+      /**
+       * Insert a copy of the block at `pos` right after it
+       */
+      duplicateBlock: (pos: number) => ReturnType;
+      /**
+       * Delete the block at `pos`, along with a list or quote it leaves empty
+       */
+      deleteBlock: (pos: number) => ReturnType;
+    };
+  }
+}
+
+export interface BlockHandleOptions {
+  // Nodes that get their own grip inside lists (and are retyped when moved
+  // between different kinds of list)
+  listItemTypes: string[];
+}
+
+interface BlockHandleState {
+  menuPos: number | null; // Block whose menu is open
+}
+
+interface Block {
+  pos: number;
+  node: ProseMirrorNode;
+}
+
+export const BlockHandlePluginKey = new PluginKey<BlockHandleState>(
+  "blockHandle"
+);
+
+// Grip sits this far left of its block; list items also clear their marker
+const GRIP_OFFSET = 24;
+const LIST_MARKER_WIDTH = 18;
+
+/** Node starting at `pos`, or null when `pos` is outside the document. */
+function blockAt(doc: ProseMirrorNode, pos: number): ProseMirrorNode | null {
+  return pos >= 0 && pos < doc.content.size ? doc.nodeAt(pos) : null;
+}
+
+/** Position of the block whose menu is open, or null. */
+export function getBlockMenuPos(state: EditorState): number | null {
+  return BlockHandlePluginKey.getState(state)?.menuPos ?? null;
+}
+
+/**
+ * Start of the first textblock in the block at `pos`, where block-type
+ * commands ("turn into") apply; null for blocks without one (tables, rules).
+ */
+export function getBlockTextStart(
+  doc: ProseMirrorNode,
+  pos: number
+): number | null {
+  let node = blockAt(doc, pos);
+  let start = pos;
+  while (node && !node.isTextblock) {
+    if (node.type.spec.tableRole || !node.firstChild) return null;
+    node = node.firstChild;
+    start += 1;
+  }
+  return node ? start + 1 : null;
+}
+
+/**
+ * Range to delete when removing the block at `from..to`. Parents that would
+ * be left empty (a list whose only item moves away) go with it.
+ */
+function deletionRange(doc: ProseMirrorNode, from: number, to: number) {
+  let $from = doc.resolve(from);
+  while ($from.depth > 0 && $from.parent.childCount === 1) {
+    from = $from.before();
+    to = $from.after();
+    $from = doc.resolve(from);
+  }
+  return { from, to };
+}
+
+/**
+ * Adapts a moved block to the list under the pointer: list items take that
+ * list's item type (bullet <-> task), paragraphs become a new item. Anything
+ * else is dropped as is.
+ */
+function fitToTarget(
+  doc: ProseMirrorNode,
+  pointerPos: number,
+  node: ProseMirrorNode,
+  listItemTypes: string[]
+): ProseMirrorNode {
+  const $pos = doc.resolve(pointerPos);
+  for (let depth = $pos.depth; depth >= 0; depth--) {
+    const itemType = $pos.node(depth).type.contentMatch.defaultType;
+    if (!itemType || !listItemTypes.includes(itemType.name)) continue;
+    if (node.type === itemType) return node;
+    const converted = listItemTypes.includes(node.type.name)
+      ? itemType.createAndFill(null, node.content)
+      : itemType.createAndFill(null, node);
+    return converted ?? node;
+  }
+  return node;
+}
+
+/** Moves `source` to the drop point nearest `pointerPos`, or returns null. */
+function moveBlock(
+  state: EditorState,
+  source: Block,
+  pointerPos: number,
+  listItemTypes: string[]
+): Transaction | null {
+  const node = fitToTarget(state.doc, pointerPos, source.node, listItemTypes);
+  const slice = new Slice(Fragment.from(node), 0, 0);
+  const insertPos = dropPoint(state.doc, pointerPos, slice);
+  const sourceEnd = source.pos + source.node.nodeSize;
+  // Dropping a block onto itself leaves it where it is
+  if (insertPos === null || (insertPos >= source.pos && insertPos <= sourceEnd)) {
+    return null;
+  }
+
+  const { from, to } = deletionRange(state.doc, source.pos, sourceEnd);
+  const tr = state.tr.delete(from, to);
+  const target = tr.mapping.map(insertPos);
+  // replaceRange wraps the block when needed (a list item dropped between
+  // paragraphs gets a list around it)
+  tr.replaceRange(target, target, slice);
+
+  // Select the moved block; look inside any wrapper added above
+  let pos = target;
+  let inserted = tr.doc.nodeAt(pos);
+  while (inserted && !inserted.sameMarkup(node) && inserted.firstChild) {
+    pos += 1;
+    inserted = inserted.firstChild;
+  }
+  tr.setSelection(
+    inserted?.sameMarkup(node) && NodeSelection.isSelectable(inserted)
+      ? NodeSelection.create(tr.doc, pos)
+      : TextSelection.near(tr.doc.resolve(target))
+  );
+  return tr;
+}
+
+/**
+ * Block under the pointer: the innermost list item, otherwise the top-level
+ * block. Pointers in the left margin are moved onto the content so the grip
+ * (which lives in that margin) keeps its block.
+ */
+function findBlockAt(
+  view: EditorView,
+  clientX: number,
+  clientY: number,
+  listItemTypes: string[]
+): Block | null {
+  const box = view.dom.getBoundingClientRect();
+  const contentLeft =
+    box.left + parseFloat(getComputedStyle(view.dom).paddingLeft || "0");
+  const hit = view.posAtCoords({
+    left: Math.max(clientX, contentLeft + 1),
+    top: clientY,
+  });
+  if (!hit) return null;
+
+  const { doc } = view.state;
+  // `inside` is the innermost node the pointer is over (-1 between nodes)
+  const $pos = doc.resolve(hit.inside >= 0 ? hit.inside : hit.pos);
+  const inner = hit.inside >= 0 ? doc.nodeAt(hit.inside) : null;
+  let block: Block | null = null;
+
+  if (inner && listItemTypes.includes(inner.type.name)) {
+    block = { pos: hit.inside, node: inner };
+  }
+  for (let depth = $pos.depth; !block && depth > 0; depth--) {
+    if (listItemTypes.includes($pos.node(depth).type.name)) {
+      block = { pos: $pos.before(depth), node: $pos.node(depth) };
+    }
+  }
+  if (!block) {
+    if ($pos.depth > 0) {
+      block = { pos: $pos.before(1), node: $pos.node(1) };
+    } else if (inner) {
+      block = { pos: hit.inside, node: inner };
+    }
+  }
+
+  // A list's margin maps to the list itself; pick the item at that height
+  const firstChild = block?.node.firstChild;
+  if (block && firstChild && listItemTypes.includes(firstChild.type.name)) {
+    return itemAtHeight(view, block, clientY) ?? block;
+  }
+  return block;
+}
+
+/** Child of `list` whose DOM spans `clientY` vertically. */
+function itemAtHeight(
+  view: EditorView,
+  list: Block,
+  clientY: number
+): Block | null {
+  let pos = list.pos + 1;
+  for (let index = 0; index < list.node.childCount; index++) {
+    const child = list.node.child(index);
+    const dom = view.nodeDOM(pos);
+    if (dom instanceof HTMLElement) {
+      const rect = dom.getBoundingClientRect();
+      if (clientY >= rect.top && clientY <= rect.bottom) {
+        return { pos, node: child };
+      }
+    }
+    pos += child.nodeSize;
+  }
+  return null;
+}
+
+export const BlockHandle = Extension.create<BlockHandleOptions>({
+  name: "blockHandle",
+
+  addOptions() {
+    return {
+      listItemTypes: ["listItem", "textTaskItem"],
+    };
+  },
+
+  addCommands() {
+    return {
+      openBlockMenu:
+        (pos) =>
+        ({ tr, dispatch }) => {
+          if (!blockAt(tr.doc, pos)) return false;
+          if (dispatch) {
+            tr.setSelection(NodeSelection.create(tr.doc, pos));
+            tr.setMeta(BlockHandlePluginKey, { menuPos: pos });
+          }
+          return true;
+        },
+      closeBlockMenu:
+        () =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(BlockHandlePluginKey, { menuPos: null });
+          return true;
+        },
+      duplicateBlock:
+        (pos) =>
+        ({ tr, dispatch }) => {
+          const node = blockAt(tr.doc, pos);
+          if (!node) return false;
+          if (dispatch) {
+            const after = pos + node.nodeSize;
+            tr.insert(after, node);
+            tr.setSelection(NodeSelection.create(tr.doc, after));
+          }
+          return true;
+        },
+      deleteBlock:
+        (pos) =>
+        ({ tr, dispatch }) => {
+          const node = blockAt(tr.doc, pos);
+          if (!node) return false;
+          if (dispatch) {
+            const { from, to } = deletionRange(tr.doc, pos, pos + node.nodeSize);
+            tr.delete(from, to);
+          }
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { listItemTypes } = this.options;
+    let hovered: Block | null = null; // Block the grip currently belongs to
+    let dragSource: Block | null = null; // Block being dragged by the grip
+
+    const closeMenu = (view: EditorView) => {
+      if (getBlockMenuPos(view.state) !== null) {
+        view.dispatch(
+          view.state.tr.setMeta(BlockHandlePluginKey, { menuPos: null })
+        );
+      }
+    };
+
+    return [
+      new Plugin<BlockHandleState>({
+        key: BlockHandlePluginKey,
+
+        state: {
+          init: () => ({ menuPos: null }),
+          apply(tr, value) {
+            const meta = tr.getMeta(BlockHandlePluginKey) as
+              | BlockHandleState
+              | undefined;
+            if (meta) return meta;
+            // Any other edit or cursor move closes the menu
+            if (value.menuPos !== null && (tr.docChanged || tr.selectionSet)) {
+              return { menuPos: null };
+            }
+            return value;
+          },
+        },
+
+        view(view) {
+          const host = view.dom.parentElement;
+          const grip = document.createElement("div");
+          grip.className = "block-handle";
+          grip.draggable = true;
+          grip.title = "Drag to move, click for options";
+          grip.textContent = "⠿";
+          grip.contentEditable = "false";
+          host?.classList.add("block-handle-host");
+          host?.appendChild(grip);
+
+          const hideGrip = () => {
+            hovered = null;
+            grip.classList.remove("visible");
+          };
+
+          const showGrip = (block: Block) => {
+            const dom = view.nodeDOM(block.pos);
+            if (!host || !(dom instanceof HTMLElement)) {
+              hideGrip();
+              return;
+            }
+            hovered = block;
+            const rect = dom.getBoundingClientRect();
+            const hostRect = host.getBoundingClientRect();
+            const offset = listItemTypes.includes(block.node.type.name)
+              ? GRIP_OFFSET + LIST_MARKER_WIDTH
+              : GRIP_OFFSET;
+            grip.style.top = `${rect.top - hostRect.top + host.scrollTop}px`;
+            grip.style.left = `${rect.left - hostRect.left + host.scrollLeft - offset}px`;
+            grip.classList.add("visible");
+          };
+
+          const onMouseMove = (event: MouseEvent) => {
+            if (!view.editable || dragSource) return;
+            const block = findBlockAt(
+              view,
+              event.clientX,
+              event.clientY,
+              listItemTypes
+            );
+            if (block) showGrip(block);
+            else hideGrip();
+          };
+
+          const onMouseLeave = (event: MouseEvent) => {
+            const next = event.relatedTarget as Node | null;
+            if (dragSource || grip.contains(next) || view.dom.contains(next)) {
+              return;
+            }
+            hideGrip();
+          };
+
+          // Positions go stale when anything scrolls; the next mousemove
+          // brings the grip back
+          const onScroll = () => {
+            if (dragSource) return;
+            hideGrip();
+            closeMenu(view);
+          };
+
+          const onClick = () => {
+            if (!hovered) return;
+            view.dispatch(
+              view.state.tr
+                .setSelection(NodeSelection.create(view.state.doc, hovered.pos))
+                .setMeta(BlockHandlePluginKey, { menuPos: hovered.pos })
+            );
+            view.focus();
+          };
+
+          const onDragStart = (event: DragEvent) => {
+            if (!hovered || !event.dataTransfer) return;
+            const selection = NodeSelection.create(view.state.doc, hovered.pos);
+            view.dispatch(
+              view.state.tr
+                .setSelection(selection)
+                .setMeta(BlockHandlePluginKey, { menuPos: null })
+            );
+            const slice = selection.content();
+            // Same payload ProseMirror itself puts on the clipboard, so
+            // dropping into another app or editor still works
+            const { dom, text } = view.serializeForClipboard(slice);
+            event.dataTransfer.clearData();
+            event.dataTransfer.setData("text/html", dom.innerHTML);
+            event.dataTransfer.setData("text/plain", text);
+            event.dataTransfer.effectAllowed = "copyMove";
+            const blockDom = view.nodeDOM(hovered.pos);
+            if (blockDom instanceof HTMLElement) {
+              event.dataTransfer.setDragImage(blockDom, 0, 0);
+            }
+            dragSource = hovered;
+            // ProseMirror's drop handling and the drop cursor read this
+            view.dragging = { slice, move: true };
+            grip.classList.add("dragging");
+          };
+
+          const onDragEnd = () => {
+            dragSource = null;
+            view.dragging = null;
+            grip.classList.remove("dragging");
+            hideGrip();
+          };
+
+          view.dom.addEventListener("mousemove", onMouseMove);
+          view.dom.addEventListener("mouseleave", onMouseLeave);
+          grip.addEventListener("mouseleave", onMouseLeave);
+          grip.addEventListener("click", onClick);
+          grip.addEventListener("dragstart", onDragStart);
+          grip.addEventListener("dragend", onDragEnd);
+          window.addEventListener("scroll", onScroll, true);
+
+          return {
+            update(updatedView, previousState) {
+              // The hovered block may have moved or gone away
+              if (!updatedView.state.doc.eq(previousState.doc)) hideGrip();
+            },
+            destroy() {
+              view.dom.removeEventListener("mousemove", onMouseMove);
+              view.dom.removeEventListener("mouseleave", onMouseLeave);
+              window.removeEventListener("scroll", onScroll, true);
+              grip.remove();
+              host?.classList.remove("block-handle-host");
+            },
+          };
+        },
+
+        props: {
+          handleKeyDown(view, event) {
+            if (event.key !== "Escape" || getBlockMenuPos(view.state) === null) {
+              return false;
+            }
+            closeMenu(view);
+            return true;
+          },
+
+          handleDOMEvents: {
+            blur(view) {
+              closeMenu(view);
+              return false;
+            },
+            dragover(view, event) {
+              if (!dragSource || !view.dragging) return false;
+              // Show the drop cursor for the block as it will land (e.g. a
+              // bullet retyped as a task when hovering a task list)
+              const hit = view.posAtCoords({
+                left: event.clientX,
+                top: event.clientY,
+              });
+              if (hit) {
+                const node = fitToTarget(
+                  view.state.doc,
+                  hit.pos,
+                  dragSource.node,
+                  listItemTypes
+                );
+                view.dragging = {
+                  slice: new Slice(Fragment.from(node), 0, 0),
+                  move: true,
+                };
+              }
+              return false;
+            },
+          },
+
+          handleDrop(view, event, _slice, moved) {
+            const source = dragSource;
+            // Copy-drags (Alt/Ctrl) and foreign drags use the default drop
+            if (!source || !moved) return false;
+            dragSource = null;
+            const hit = view.posAtCoords({
+              left: event.clientX,
+              top: event.clientY,
+            });
+            const tr = hit && moveBlock(view.state, source, hit.pos, listItemTypes);
+            if (tr) view.dispatch(tr.scrollIntoView());
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,141 @@
+// src/editor/callout/callout.ts
+import { isNodeActive, mergeAttributes, Node } from "@tiptap/core";
+import type MarkdownIt from "markdown-it";
+import type { MarkdownNodeSpec } from "../markdown/markdownSpec";
+import {
+  normalizeCalloutType,
+  parseAlertMarker,
+  type CalloutType,
+} from "./calloutTypes";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    callout: {
+      /**
+       * Wrap the selection in a callout, or change the type of the callout
+       * around it
+       */
+      setCallout: (type: CalloutType) => ReturnType;
+      /**
+       * Like setCallout, but unwraps a callout that already has `type`
+       */
+      toggleCallout: (type: CalloutType) => ReturnType;
+      unsetCallout: () => ReturnType;
+    };
+  }
+}
+
+const patchedInstances = new WeakSet<MarkdownIt>();
+
+/**
+ * Turns blockquotes that open with a GitHub alert marker (`> [!NOTE]`) into
+ * `<div data-callout="note">`, which the callout node parses. Runs before
+ * inline parsing, so only the paragraph's source text needs trimming.
+ */
+function parseGithubAlerts(markdownit: MarkdownIt) {
+  if (patchedInstances.has(markdownit)) return;
+  patchedInstances.add(markdownit);
+
+  markdownit.core.ruler.after("block", "github_alerts", (state) => {
+    const { tokens } = state;
+    for (let i = 0; i < tokens.length; i++) {
+      const open = tokens[i];
+      const inline = tokens[i + 2];
+      if (
+        open.type !== "blockquote_open" ||
+        tokens[i + 1]?.type !== "paragraph_open" ||
+        inline?.type !== "inline"
+      ) {
+        continue;
+      }
+      const alert = parseAlertMarker(inline.content);
+      const close = tokens.find(
+        (token, index) =>
+          index > i &&
+          token.type === "blockquote_close" &&
+          token.level === open.level
+      );
+      if (!alert || !close) continue;
+
+      open.tag = close.tag = "div";
+      open.attrSet("data-callout", alert.type);
+      if (alert.rest.trim()) {
+        inline.content = alert.rest;
+      } else {
+        // The marker had a paragraph of its own ("> [!NOTE]\n>\n> text")
+        tokens.splice(i + 1, 3);
+      }
+    }
+  });
+}
+
+/**
+ * Callout (admonition) block, saved as a GitHub alert:
+ *
+ *   > [!WARNING]
+ *   > Back up the database first.
+ */
+export const Callout = Node.create({
+  name: "callout",
+  group: "block",
+  content: "block+",
+  defining: true,
+
+  addAttributes() {
+    return {
+      type: {
+        default: "note" as CalloutType,
+        parseHTML: (element) =>
+          normalizeCalloutType(element.getAttribute("data-callout")) ?? "note",
+        renderHTML: (attributes) => ({ "data-callout": attributes.type }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "div[data-callout]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["div", mergeAttributes({ class: "callout" }, HTMLAttributes), 0];
+  },
+
+  addStorage() {
+    const markdown: MarkdownNodeSpec = {
+      serialize(state, node) {
+        state.wrapBlock("> ", null, node, () => {
+          state.write(`[!${String(node.attrs.type).toUpperCase()}]`);
+          state.ensureNewLine();
+          state.renderContent(node);
+        });
+      },
+      parse: {
+        setup(markdownit) {
+          parseGithubAlerts(markdownit);
+        },
+      },
+    };
+    return { markdown };
+  },
+
+  addCommands() {
+    return {
+      setCallout:
+        (type) =>
+        ({ state, commands }) =>
+          isNodeActive(state, this.name)
+            ? commands.updateAttributes(this.name, { type })
+            : commands.wrapIn(this.name, { type }),
+      toggleCallout:
+        (type) =>
+        ({ state, commands }) =>
+          isNodeActive(state, this.name, { type })
+            ? commands.lift(this.name)
+            : commands.setCallout(type),
+      unsetCallout:
+        () =>
+        ({ commands }) =>
+          commands.lift(this.name),
+    };
+  },
+});
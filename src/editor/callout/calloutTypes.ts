@@ -0,0 +1,38 @@
+// src/editor/callout/calloutTypes.ts
+// GitHub alert types, shared by the editor's callout node and the HTML
+// renderer so both read `> [!NOTE]` the same way.
+
+// In the order GitHub documents them
+export const CALLOUT_TYPES = [
+  "note",
+  "tip",
+  "important",
+  "warning",
+  "caution",
+] as const;
+
+export type CalloutType = (typeof CALLOUT_TYPES)[number];
+
+// `[!NOTE]` alone on the first line of a blockquote (case-insensitive, like
+// GitHub); whatever follows on later lines is the callout's content
+export const ALERT_MARKER = /^\[!([a-z]+)\][ \t]*(?:\r?\n|$)/i;
+
+/** The callout type named by `value`, or null for anything else. */
+export function normalizeCalloutType(
+  value: string | null | undefined
+): CalloutType | null {
+  const type = value?.trim().toLowerCase();
+  return CALLOUT_TYPES.find((known) => known === type) ?? null;
+}
+
+/**
+ * Splits `[!TYPE]` off the start of a blockquote's first paragraph. Returns
+ * null when the paragraph does not start with a known alert marker.
+ */
+export function parseAlertMarker(
+  text: string
+): { type: CalloutType; rest: string } | null {
+  const match = ALERT_MARKER.exec(text);
+  const type = normalizeCalloutType(match?.[1]);
+  return match && type ? { type, rest: text.slice(match[0].length) } : null;
+}
@@ -0,0 +1,132 @@
+// src/editor/codeBlock/codeBlockView.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  NodeViewContent,
+  NodeViewWrapper,
+  type NodeViewProps,
+} from "@tiptap/react";
+import {
+  detectLanguage,
+  isHighlightable,
+  listLanguages,
+  MERMAID_LANGUAGE,
+} from "./languages";
+import MermaidPreview from "./mermaidPreview";
+import "./codeBlockStyles.css";
+
+// Value of the picker's "no language" option
+const PLAIN_TEXT = "";
+
+/**
+ * Code block with a language picker in its top-right corner. The code itself
+ * is an editable NodeViewContent; lowlight decorations highlight it.
+ * Mermaid blocks show their diagram instead, with a toggle (or a click on
+ * the diagram) to edit the source above a live preview.
+ */
+const CodeBlockView: React.FC<NodeViewProps> = ({
+  node,
+  updateAttributes,
+  editor,
+  getPos,
+}) => {
+  const language: string | null = node.attrs.language;
+  const isDiagram = language === MERMAID_LANGUAGE;
+  const [showSource, setShowSource] = useState(() => !node.textContent.trim());
+
+  // The source is only hidden, not removed, so the cursor can still move
+  // into it with the arrow keys; show it when that happens
+  useEffect(() => {
+    if (!isDiagram || showSource) {
+      return;
+    }
+    const revealOnSelection = () => {
+      const pos = getPos();
+      const { from, to } = editor.state.selection;
+      if (typeof pos === "number" && from > pos && to < pos + node.nodeSize) {
+        setShowSource(true);
+      }
+    };
+    editor.on("selectionUpdate", revealOnSelection);
+    return () => {
+      editor.off("selectionUpdate", revealOnSelection);
+    };
+  }, [editor, getPos, isDiagram, node.nodeSize, showSource]);
+
+  const editSource = () => {
+    const pos = getPos();
+    setShowSource(true);
+    if (typeof pos === "number" && editor.isEditable) {
+      // Start of the code, inside the node
+      editor.chain().focus().setTextSelection(pos + 1).run();
+    }
+  };
+
+  // Keep unknown languages (e.g. from a loaded file) selectable, unhighlighted
+  const options = useMemo(() => {
+    const languages = listLanguages();
+    return language && !languages.includes(language)
+      ? [language, ...languages]
+      : languages;
+  }, [language]);
+
+  return (
+    <NodeViewWrapper className="tiptap-codeblock-node">
+      <div className="code-block-toolbar" contentEditable={false}>
+        <select
+          className="code-block-language"
+          value={language ?? PLAIN_TEXT}
+          disabled={!editor.isEditable}
+          onChange={(event) =>
+            updateAttributes({ language: event.target.value || null })
+          }
+          title={
+            language && !isHighlightable(language)
+              ? "No highlighting available for this language"
+              : "Code block language"
+          }
+        >
+          <option value={PLAIN_TEXT}>plain text</option>
+          {options.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        {isDiagram && (
+          <button
+            type="button"
+            className="code-block-detect"
+            title={showSource ? "Hide the diagram source" : "Edit the diagram source"}
+            onClick={() => (showSource ? setShowSource(false) : editSource())}
+          >
+            {showSource ? "preview" : "source"}
+          </button>
+        )}
+        {!language && editor.isEditable && (
+          <button
+            type="button"
+            className="code-block-detect"
+            onClick={() =>
+              updateAttributes({ language: detectLanguage(node.textContent) })
+            }
+          >
+            detect
+          </button>
+        )}
+      </div>
+      <pre className="highlight" hidden={isDiagram && !showSource}>
+        <NodeViewContent as="code" />
+      </pre>
+      {isDiagram && (
+        <div contentEditable={false}>
+          <MermaidPreview
+            source={node.textContent}
+            onClick={showSource ? undefined : editSource}
+          />
+        </div>
+      )}
+    </NodeViewWrapper>
+  );
+};
+
+export default CodeBlockView;
@@ -0,0 +1,140 @@
+// src/editor/codeBlock/highlightedCodeBlock.ts
+import CodeBlockLowlight from "@tiptap/extension-code-block-lowlight";
+import { Fragment, Slice, type Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { ReactNodeViewRenderer } from "@tiptap/react";
+import type MarkdownIt from "markdown-it";
+import type { MarkdownNodeSpec } from "../markdown/markdownSpec";
+import CodeBlockView from "./codeBlockView";
+import { detectLanguage, lowlight } from "./languages";
+
+type FenceRule = NonNullable<MarkdownIt["renderer"]["rules"]["fence"]>;
+
+const patchedInstances = new WeakSet<MarkdownIt>();
+
+/**
+ * markdown-it keeps only the first word of a fence's info string. Keep the
+ * rest (e.g. `title="app.ts" {1,3}`) on the <code> element so it survives
+ * the round-trip through the editor.
+ */
+function preserveFenceMeta(markdownit: MarkdownIt) {
+  if (patchedInstances.has(markdownit)) return;
+  patchedInstances.add(markdownit);
+
+  const renderFence: FenceRule = markdownit.renderer.rules.fence!;
+  markdownit.renderer.rules.fence = (tokens, index, options, env, self) => {
+    const token = tokens[index];
+    const meta = token.info.trim().split(/\s+/).slice(1).join(" ");
+    if (meta) {
+      token.attrSet("data-meta", meta);
+    }
+    return renderFence(tokens, index, options, env, self);
+  };
+}
+
+/** A backtick fence longer than any backtick run inside `code`. */
+function fenceFor(code: string): string {
+  const longestRun = Math.max(
+    0,
+    ...(code.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  return "`".repeat(Math.max(3, longestRun + 1));
+}
+
+/** Fills in the language of pasted code blocks that were fenced without one. */
+function detectPastedLanguages(fragment: Fragment): Fragment {
+  const children: ProseMirrorNode[] = [];
+  fragment.forEach((node) => {
+    if (node.type.name === "codeBlock" && !node.attrs.language) {
+      const language = detectLanguage(node.textContent);
+      children.push(
+        language ? node.type.create({ ...node.attrs, language }, node.content) : node
+      );
+    } else {
+      children.push(
+        node.childCount ? node.copy(detectPastedLanguages(node.content)) : node
+      );
+    }
+  });
+  return Fragment.from(children);
+}
+
+/**
+ * Code block highlighted by lowlight, with a language picker (see
+ * CodeBlockView) and a Markdown spec that keeps the whole fence info string.
+ */
+export const HighlightedCodeBlock = CodeBlockLowlight.extend({
+  addOptions() {
+    return {
+      ...this.parent?.(),
+      lowlight,
+      defaultLanguage: null,
+    };
+  },
+
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      // Everything after the language in the fence info string
+      meta: {
+        default: null,
+        parseHTML: (element) =>
+          element.firstElementChild?.getAttribute("data-meta") ??
+          element.getAttribute("data-meta"),
+        renderHTML: (attributes) =>
+          attributes.meta ? { "data-meta": attributes.meta } : {},
+      },
+    };
+  },
+
+  addStorage() {
+    const markdown: MarkdownNodeSpec = {
+      serialize(state, node) {
+        const info = [node.attrs.language, node.attrs.meta]
+          .filter(Boolean)
+          .join(" ");
+        const fence = fenceFor(node.textContent);
+        state.write(`${fence}${info}\n`);
+        state.text(node.textContent, false);
+        state.ensureNewLine();
+        state.write(fence);
+        state.closeBlock(node);
+      },
+      parse: {
+        setup(markdownit) {
+          markdownit.set({ langPrefix: "language-" });
+          preserveFenceMeta(markdownit);
+        },
+        updateDOM(element) {
+          // markdown-it ends fenced code with a newline the editor would keep
+          element.innerHTML = element.innerHTML.replace(
+            /\n<\/code><\/pre>/g,
+            "</code></pre>"
+          );
+        },
+      },
+    };
+    return { markdown };
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(CodeBlockView);
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      ...(this.parent?.() ?? []),
+      new Plugin({
+        key: new PluginKey("codeBlockLanguageDetection"),
+        props: {
+          transformPasted: (slice) =>
+            new Slice(
+              detectPastedLanguages(slice.content),
+              slice.openStart,
+              slice.openEnd
+            ),
+        },
+      }),
+    ];
+  },
+});
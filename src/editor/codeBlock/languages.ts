@@ -0,0 +1,75 @@
+// src/editor/codeBlock/languages.ts
+// Shared lowlight instance plus the language helpers used by the code block
+// node, its language picker and the `/code` slash command.
+import { common, createLowlight } from "lowlight";
+
+// highlight.js' "common" bundle: ~35 popular languages, small enough to ship
+export const lowlight = createLowlight(common);
+
+// Detection below this relevance is mostly guessing (short snippets, prose)
+const MIN_DETECTION_RELEVANCE = 3;
+
+// Languages auto-detection picks from. Grammars that rarely show up in docs
+// (scss, ini, arduino, vbnet, ...) score well on almost any snippet, so they
+// stay selectable in the picker but are never guessed.
+const DETECTABLE_LANGUAGES = [
+  "typescript",
+  "javascript",
+  "python",
+  "bash",
+  "shell",
+  "json",
+  "yaml",
+  "xml",
+  "css",
+  "sql",
+  "go",
+  "rust",
+  "java",
+  "c",
+  "cpp",
+  "csharp",
+  "ruby",
+  "php",
+  "markdown",
+  "diff",
+  "kotlin",
+  "swift",
+];
+
+// Fences in this language are previewed as diagrams (see mermaidPreview)
+export const MERMAID_LANGUAGE = "mermaid";
+
+/** Language names offered by the picker, alphabetically. */
+export function listLanguages(): string[] {
+  return [...lowlight.listLanguages(), MERMAID_LANGUAGE].sort();
+}
+
+/**
+ * Normalizes a language typed by the user (`/code TS`). Known names and
+ * aliases are kept as typed so the fence reads the way the author wrote it;
+ * unknown names are kept too, they just are not highlighted.
+ */
+export function normalizeLanguage(language: string | undefined): string | null {
+  const trimmed = language?.trim().toLowerCase();
+  return trimmed ? trimmed : null;
+}
+
+/** Whether lowlight can highlight `language` (a name or an alias). */
+export function isHighlightable(language: string | null): boolean {
+  return !!language && lowlight.registered(language);
+}
+
+/** Guesses the language of `code`, or null when the guess is too weak. */
+export function detectLanguage(code: string): string | null {
+  if (!code.trim()) {
+    return null;
+  }
+  const result = lowlight.highlightAuto(code, {
+    subset: DETECTABLE_LANGUAGES,
+  });
+  const { language, relevance } = result.data ?? {};
+  return language && (relevance ?? 0) >= MIN_DETECTION_RELEVANCE
+    ? language
+    : null;
+}
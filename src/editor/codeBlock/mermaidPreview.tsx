@@ -0,0 +1,133 @@
+// src/editor/codeBlock/mermaidPreview.tsx
+import React, { useEffect, useState } from "react";
+import type { Mermaid } from "mermaid";
+import { getTheme } from "../../services/themes/themes";
+
+interface MermaidPreviewProps {
+  source: string;
+  onClick?: () => void;
+}
+
+type PreviewResult =
+  | { status: "pending" }
+  | { status: "rendered"; svg: string }
+  | { status: "error"; message: string };
+
+// Re-rendering on every keystroke makes the diagram flicker
+const RENDER_DELAY_MS = 300;
+
+// mermaid is large, so it is only downloaded once a diagram is on screen
+let mermaidPromise: Promise<Mermaid> | null = null;
+// mermaid's settings are global; re-initialized when the page theme flips
+let initializedTheme: "dark" | "default" | null = null;
+
+async function loadMermaid(dark: boolean): Promise<Mermaid> {
+  mermaidPromise ??= import("mermaid").then(({ default: mermaid }) => mermaid);
+  const mermaid = await mermaidPromise;
+  const theme = dark ? "dark" : "default";
+  if (initializedTheme !== theme) {
+    mermaid.initialize({
+      startOnLoad: false,
+      theme,
+      securityLevel: "strict", // Labels are sanitized, click handlers disabled
+      fontFamily: 'Monaco, "Bitstream Vera Sans Mono", "Lucida Console", monospace',
+    });
+    initializedTheme = theme;
+  }
+  return mermaid;
+}
+
+// applyTheme marks the page with the id of the theme it applied
+const isDarkTheme = () => getTheme(document.documentElement.dataset.theme).dark;
+
+/** Whether the page's theme is dark, updated when the user switches themes. */
+function useDarkTheme(): boolean {
+  const [dark, setDark] = useState(isDarkTheme);
+
+  useEffect(() => {
+    const observer = new MutationObserver(() => setDark(isDarkTheme()));
+    observer.observe(document.documentElement, {
+      attributes: true,
+      attributeFilter: ["data-theme"],
+    });
+    return () => observer.disconnect();
+  }, []);
+
+  return dark;
+}
+
+// mermaid.render needs a document-unique id for the SVG it builds
+let renderCount = 0;
+
+/** mermaid's parse errors are Errors, but some failures throw `{ str }`. */
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === "object" && "str" in error) {
+    return String(error.str);
+  }
+  return String(error);
+}
+
+/**
+ * SVG rendering of a mermaid diagram, in mermaid's dark or default theme to
+ * match the page. Syntax errors are shown in place of the diagram, with
+ * mermaid's message (it names the line and what it expected).
+ */
+const MermaidPreview: React.FC<MermaidPreviewProps> = ({ source, onClick }) => {
+  const [result, setResult] = useState<PreviewResult>({ status: "pending" });
+  const dark = useDarkTheme();
+
+  useEffect(() => {
+    if (!source.trim()) {
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      try {
+        const mermaid = await loadMermaid(dark);
+        // parse throws readable errors; render would draw an error diagram
+        await mermaid.parse(source);
+        const { svg } = await mermaid.render(
+          `mermaid-preview-${++renderCount}`,
+          source
+        );
+        if (!cancelled) setResult({ status: "rendered", svg });
+      } catch (error) {
+        if (!cancelled) setResult({ status: "error", message: errorMessage(error) });
+      }
+    }, RENDER_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [source, dark]);
+
+  if (!source.trim()) {
+    return (
+      <div className="mermaid-preview empty" onClick={onClick}>
+        empty diagram
+      </div>
+    );
+  }
+  if (result.status === "error") {
+    return (
+      <div className="mermaid-preview error" role="alert" onClick={onClick}>
+        <div className="mermaid-error-title">diagram error</div>
+        <pre>{result.message}</pre>
+      </div>
+    );
+  }
+  if (result.status === "pending") {
+    return <div className="mermaid-preview pending">rendering diagram...</div>;
+  }
+  return (
+    <div
+      className="mermaid-preview"
+      onClick={onClick}
+      dangerouslySetInnerHTML={{ __html: result.svg }}
+    />
+  );
+};
+
+export default MermaidPreview;
@@ -0,0 +1,26 @@
+// src/editor/collaboration/collaboration.ts
+// Binds the editor to a shared Yjs document. The Yjs doc replaces the
+// editor's own content and undo history: every client edits the same
+// fragment, undo only reverts the local user's changes, and the other
+// clients' cursors and selections are drawn with their names and colors.
+import type { Extensions } from "@tiptap/core";
+import Collaboration from "@tiptap/extension-collaboration";
+import CollaborationCursor from "@tiptap/extension-collaboration-cursor";
+import type { CollaborationSession } from "../../services/collaboration/collaborationSession";
+import "./collaborationStyles.css";
+
+/**
+ * The extensions that sync the editor through `session`. StarterKit's
+ * history must be turned off next to them.
+ */
+export function createCollaborationExtensions(
+  session: CollaborationSession
+): Extensions {
+  return [
+    Collaboration.configure({ fragment: session.fragment }),
+    CollaborationCursor.configure({
+      provider: session.provider,
+      user: session.getUser(),
+    }),
+  ];
+}
@@ -0,0 +1,307 @@
+// src/editor/comments/comment.ts
+// Highlights the text review threads are about. The thread itself (its
+// messages, whether it is resolved) lives in the comment store; the mark
+// only carries the thread id, follows the text as it is edited, and is
+// never written to Markdown. The plugin state holds the thread open in the
+// comments panel and the selection a new comment is being written for.
+import { Mark, mergeAttributes } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import {
+  Plugin,
+  PluginKey,
+  type EditorState,
+  type Transaction,
+} from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import type { TextRange } from "../../services/comments/textAnchor";
+import "./commentStyles.css";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    comment: {
+      /** Start writing a comment on the selected text */
+      startComment: () => ReturnType;
+      cancelComment: () => ReturnType;
+      /** Highlight the text of the comment being written as thread `threadId` */
+      addComment: (threadId: string) => ReturnType;
+      /** Remove the highlight of a thread, e.g. once it is resolved */
+      removeComment: (threadId: string) => ReturnType;
+      /** Highlight threads at the given ranges, e.g. when a document is opened */
+      restoreComments: (
+        ranges: ({ threadId: string } & TextRange)[]
+      ) => ReturnType;
+      setActiveComment: (threadId: string | null) => ReturnType;
+    };
+  }
+}
+
+export interface CommentState {
+  activeThreadId: string | null; // Thread selected in the editor or the panel
+  draft: TextRange | null; // Text a new comment is being written for
+  decorations: DecorationSet; // The draft and the active thread's text
+}
+
+type CommentPatch = Partial<Pick<CommentState, "activeThreadId" | "draft">>;
+
+export const CommentPluginKey = new PluginKey<CommentState>("comment");
+
+const THREAD_ATTRIBUTE = "data-comment-thread";
+
+export function getCommentState(state: EditorState): CommentState | undefined {
+  return CommentPluginKey.getState(state);
+}
+
+/**
+ * The range each thread highlights, from the start of its first marked
+ * text to the end of its last.
+ */
+export function getCommentRanges(doc: ProseMirrorNode): Map<string, TextRange> {
+  const ranges = new Map<string, TextRange>();
+  doc.descendants((node, pos) => {
+    node.marks.forEach((mark) => {
+      if (mark.type.name !== "comment") {
+        return;
+      }
+      const threadId: string = mark.attrs.threadId;
+      const end = pos + node.nodeSize;
+      const range = ranges.get(threadId);
+      ranges.set(threadId, {
+        from: range ? Math.min(range.from, pos) : pos,
+        to: range ? Math.max(range.to, end) : end,
+      });
+    });
+  });
+  return ranges;
+}
+
+function buildDecorations(
+  doc: ProseMirrorNode,
+  activeThreadId: string | null,
+  draft: TextRange | null
+): DecorationSet {
+  const decorations: Decoration[] = [];
+  if (draft) {
+    decorations.push(
+      Decoration.inline(draft.from, draft.to, { class: "comment-draft" })
+    );
+  }
+  if (activeThreadId) {
+    doc.descendants((node, pos) => {
+      const isActive = node.marks.some(
+        (mark) =>
+          mark.type.name === "comment" && mark.attrs.threadId === activeThreadId
+      );
+      if (isActive) {
+        decorations.push(
+          Decoration.inline(pos, pos + node.nodeSize, { class: "comment-active" })
+        );
+      }
+    });
+  }
+  return DecorationSet.create(doc, decorations);
+}
+
+function applyComments(tr: Transaction, value: CommentState): CommentState {
+  const patch: CommentPatch | undefined = tr.getMeta(CommentPluginKey);
+  if (!patch && !tr.docChanged) {
+    return value;
+  }
+  const activeThreadId =
+    patch?.activeThreadId !== undefined ? patch.activeThreadId : value.activeThreadId;
+  let draft = patch?.draft !== undefined ? patch.draft : value.draft;
+  if (tr.docChanged && draft) {
+    const from = tr.mapping.map(draft.from, 1);
+    const to = tr.mapping.map(draft.to, -1);
+    // A draft whose text was deleted has nothing left to comment on
+    draft = from < to ? { from, to } : null;
+  }
+  // Rebuilt rather than mapped: edits can split or join the active thread's text
+  return {
+    activeThreadId,
+    draft,
+    decorations: buildDecorations(tr.doc, activeThreadId, draft),
+  };
+}
+
+/**
+ * Comment highlight: `<span data-comment-thread="id">`. Several threads can
+ * cover the same text, and typing at either end does not extend a thread.
+ * Adding and removing highlights stays out of the undo history.
+ */
+export const Comment = Mark.create({
+  name: "comment",
+  inclusive: false,
+  excludes: "",
+
+  addAttributes() {
+    return {
+      threadId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute(THREAD_ATTRIBUTE),
+        renderHTML: (attributes) => ({
+          [THREAD_ATTRIBUTE]: attributes.threadId,
+        }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: `span[${THREAD_ATTRIBUTE}]` }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      "span",
+      mergeAttributes({ class: "comment-highlight" }, HTMLAttributes),
+      0,
+    ];
+  },
+
+  addStorage() {
+    return {
+      // Comments are kept out of the Markdown; the text is saved as is
+      markdown: {
+        serialize: { open: "", close: "" },
+      },
+    };
+  },
+
+  addCommands() {
+    const { type } = this;
+    return {
+      startComment:
+        () =>
+        ({ state, tr, dispatch }) => {
+          const { from, to, empty } = state.selection;
+          if (empty || !state.doc.textBetween(from, to).trim()) {
+            return false;
+          }
+          if (dispatch) {
+            dispatch(
+              tr.setMeta(CommentPluginKey, {
+                draft: { from, to },
+                activeThreadId: null,
+              })
+            );
+          }
+          return true;
+        },
+
+      cancelComment:
+        () =>
+        ({ state, tr, dispatch }) => {
+          if (!getCommentState(state)?.draft) {
+            return false;
+          }
+          if (dispatch) {
+            dispatch(tr.setMeta(CommentPluginKey, { draft: null }));
+          }
+          return true;
+        },
+
+      addComment:
+        (threadId) =>
+        ({ state, tr, dispatch }) => {
+          const draft = getCommentState(state)?.draft;
+          if (!draft) {
+            return false;
+          }
+          if (dispatch) {
+            tr.addMark(draft.from, draft.to, type.create({ threadId }));
+            tr.setMeta(CommentPluginKey, {
+              draft: null,
+              activeThreadId: threadId,
+            });
+            dispatch(tr.setMeta("addToHistory", false));
+          }
+          return true;
+        },
+
+      removeComment:
+        (threadId) =>
+        ({ state, tr, dispatch }) => {
+          if (dispatch) {
+            state.doc.descendants((node, pos) => {
+              node.marks
+                .filter(
+                  (mark) => mark.type === type && mark.attrs.threadId === threadId
+                )
+                .forEach((mark) =>
+                  tr.removeMark(pos, pos + node.nodeSize, mark)
+                );
+            });
+            if (getCommentState(state)?.activeThreadId === threadId) {
+              tr.setMeta(CommentPluginKey, { activeThreadId: null });
+            }
+            dispatch(tr.setMeta("addToHistory", false));
+          }
+          return true;
+        },
+
+      restoreComments:
+        (ranges) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) {
+            ranges.forEach(({ threadId, from, to }) =>
+              tr.addMark(from, to, type.create({ threadId }))
+            );
+            // Not an edit: nothing to save or undo
+            dispatch(
+              tr.setMeta("addToHistory", false).setMeta("preventUpdate", true)
+            );
+          }
+          return true;
+        },
+
+      setActiveComment:
+        (threadId) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) {
+            dispatch(tr.setMeta(CommentPluginKey, { activeThreadId: threadId }));
+          }
+          return true;
+        },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      // Same as in Google Docs
+      "Mod-Alt-m": () => this.editor.commands.startComment(),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { type } = this;
+    return [
+      new Plugin<CommentState>({
+        key: CommentPluginKey,
+        state: {
+          init: () => ({
+            activeThreadId: null,
+            draft: null,
+            decorations: DecorationSet.empty,
+          }),
+          apply: applyComments,
+        },
+        props: {
+          decorations: (state) => getCommentState(state)?.decorations,
+          // Clicking highlighted text opens its thread
+          handleClick: (view, pos) => {
+            const marks = view.state.doc.resolve(pos).marks();
+            const mark = marks.find((candidate) => candidate.type === type);
+            const threadId: string | null = mark?.attrs.threadId ?? null;
+            if (getCommentState(view.state)?.activeThreadId !== threadId) {
+              view.dispatch(
+                view.state.tr.setMeta(CommentPluginKey, {
+                  activeThreadId: threadId,
+                })
+              );
+            }
+            return false;
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,75 @@
+// src/editor/comments/documentText.ts
+// The plain text of the whole document with the position of every
+// character, so comment anchors (src/services/comments/textAnchor.ts) can be
+// captured from and located in the editor content. Textblocks are separated
+// by a line break, and inline nodes (formulas, wiki-links) count as one
+// object replacement character so a quote never runs across them.
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import type { TextRange } from "../../services/comments/textAnchor";
+
+export interface DocumentText {
+  text: string;
+  positions: number[]; // Document position of each character of `text`
+}
+
+const OBJECT_REPLACEMENT = "\uFFFC";
+
+export function readDocumentText(doc: ProseMirrorNode): DocumentText {
+  let text = "";
+  const positions: number[] = [];
+  doc.descendants((node, pos) => {
+    if (node.isTextblock) {
+      if (text) {
+        text += "\n";
+        positions.push(pos);
+      }
+      return true;
+    }
+    if (node.isText) {
+      text += node.text;
+      for (let i = 0; i < node.nodeSize; i++) positions.push(pos + i);
+    } else if (node.isInline) {
+      text += OBJECT_REPLACEMENT;
+      positions.push(pos);
+    }
+    return true;
+  });
+  return { text, positions };
+}
+
+/** The document range covering the characters `from` to `to` of the text. */
+export function textRangeToPositions(
+  { positions }: DocumentText,
+  { from, to }: TextRange
+): TextRange | null {
+  if (from >= to || to > positions.length) {
+    return null;
+  }
+  return { from: positions[from], to: positions[to - 1] + 1 };
+}
+
+/** Index of the first character at or after document position `pos`. */
+function firstCharacterAt(positions: number[], pos: number): number {
+  let low = 0;
+  let high = positions.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (positions[middle] < pos) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/** The characters of the text inside the document range `from` to `to`. */
+export function positionsToTextRange(
+  { positions }: DocumentText,
+  { from, to }: TextRange
+): TextRange {
+  return {
+    from: firstCharacterAt(positions, from),
+    to: firstCharacterAt(positions, to),
+  };
+}
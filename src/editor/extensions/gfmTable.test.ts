@@ -0,0 +1,95 @@
+// src/editor/extensions/gfmTable.test.ts
+import { afterEach, describe, expect, it } from "vitest";
+import type { Editor } from "@tiptap/core";
+import { getEditorMarkdown, loadMarkdown } from "../../test/createTestEditor";
+
+const TABLE = "| Name | Value |\n| --- | ---: |\n| one | 1 |\n| two | 2 |\n";
+
+/** The text of every cell, row by row. */
+function cells(editor: Editor): string[][] {
+  const rows: string[][] = [];
+  editor.state.doc.descendants((node) => {
+    if (node.type.name === "tableRow") {
+      const row: string[] = [];
+      node.forEach((cell) => row.push(cell.textContent));
+      rows.push(row);
+      return false;
+    }
+    return true;
+  });
+  return rows;
+}
+
+/** Replaces the text of the cell holding exactly `current` with `text`. */
+function setCellText(editor: Editor, current: string, text: string) {
+  let range: { from: number; to: number } | null = null;
+  editor.state.doc.descendants((node, pos) => {
+    if (!range && node.type.name === "paragraph" && node.textContent === current) {
+      range = { from: pos + 1, to: pos + node.nodeSize - 1 };
+    }
+    return !range;
+  });
+  if (!range) {
+    throw new Error(`No cell holds "${current}"`);
+  }
+  editor.commands.insertContentAt(range, text);
+}
+
+describe("GFM tables", () => {
+  let editor: Editor | null = null;
+
+  afterEach(() => {
+    editor?.destroy();
+    editor = null;
+  });
+
+  it("saves an untouched table exactly as loaded", () => {
+    editor = loadMarkdown(TABLE);
+    expect(getEditorMarkdown(editor)).toBe(TABLE);
+  });
+
+  it("writes an edited row and keeps the column alignment", () => {
+    editor = loadMarkdown(TABLE);
+    setCellText(editor, "2", "20");
+    expect(getEditorMarkdown(editor)).toBe(
+      "| Name | Value |\n| --- | ---: |\n| one | 1 |\n| two | 20 |\n"
+    );
+  });
+
+  it("escapes pipes in header and body cells", () => {
+    editor = loadMarkdown(TABLE);
+    setCellText(editor, "Name", "a|b");
+    setCellText(editor, "one", "1 x | y");
+    const saved = getEditorMarkdown(editor);
+    expect(saved).toBe(
+      "| a\\|b | Value |\n| --- | ---: |\n| 1 x \\| y | 1 |\n| two | 2 |\n"
+    );
+
+    editor.destroy();
+    editor = loadMarkdown(saved);
+    expect(cells(editor)).toEqual([
+      ["a|b", "Value"],
+      ["1 x | y", "1"],
+      ["two", "2"],
+    ]);
+    expect(getEditorMarkdown(editor)).toBe(saved);
+  });
+
+  it("keeps escaped pipes, code spans and backslashes through a save", () => {
+    const markdown = "| Pattern | Note |\n| --- | --- |\n| `a\\|b` | back\\\\\\|slash |\n";
+    editor = loadMarkdown(markdown);
+    expect(cells(editor)).toEqual([
+      ["Pattern", "Note"],
+      ["a|b", "back\\|slash"],
+    ]);
+
+    setCellText(editor, "Note", "Notes");
+    const saved = getEditorMarkdown(editor);
+    editor.destroy();
+    editor = loadMarkdown(saved);
+    expect(cells(editor)).toEqual([
+      ["Pattern", "Notes"],
+      ["a|b", "back\\|slash"],
+    ]);
+  });
+});
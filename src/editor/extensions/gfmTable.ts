@@ -0,0 +1,218 @@
+// src/editor/extensions/gfmTable.ts
+// Table nodes that round-trip GitHub Flavored Markdown tables, including
+// column alignment. Tables GFM cannot express (merged cells, header cells
+// outside the first row, several paragraphs in a cell) are written as HTML.
+import { elementFromString, getHTMLFromFragment } from "@tiptap/core";
+import Table from "@tiptap/extension-table";
+import TableCell from "@tiptap/extension-table-cell";
+import TableHeader from "@tiptap/extension-table-header";
+import { Fragment, type Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey, type EditorState } from "@tiptap/pm/state";
+import { isInTable, selectedRect } from "@tiptap/pm/tables";
+import type { MarkdownSerializerState } from "prosemirror-markdown";
+import type { MarkdownNodeSpec } from "../markdown/markdownSpec";
+
+export type ColumnAlign = "left" | "center" | "right";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    gfmTable: {
+      /**
+       * Align the selected column(s); `null` removes the alignment
+       */
+      setColumnAlign: (align: ColumnAlign | null) => ReturnType;
+    };
+  }
+}
+
+// tiptap-markdown reads `inTable` to write hard breaks inside cells as <br>;
+// `out` is the output written so far, missing from prosemirror-markdown's types
+type TableSerializerState = MarkdownSerializerState & { inTable: boolean; out: string };
+
+const alignAttribute = {
+  align: {
+    default: null,
+    // markdown-it renders `:---:` as style="text-align:center"
+    parseHTML: (element: HTMLElement) => element.style.textAlign || null,
+    renderHTML: (attributes: Record<string, unknown>) =>
+      attributes.align ? { style: `text-align: ${attributes.align}` } : {},
+  },
+};
+
+export const GfmTableCell = TableCell.extend({
+  addAttributes() {
+    return { ...this.parent?.(), ...alignAttribute };
+  },
+});
+
+export const GfmTableHeader = TableHeader.extend({
+  addAttributes() {
+    return { ...this.parent?.(), ...alignAttribute };
+  },
+});
+
+const delimiters: Record<string, string> = {
+  left: ":---",
+  center: ":---:",
+  right: "---:",
+};
+
+function hasSpan(cell: ProseMirrorNode) {
+  return cell.attrs.colspan > 1 || cell.attrs.rowspan > 1;
+}
+
+/** Whether `table` can be written as a GFM pipe table. */
+function isMarkdownSerializable(table: ProseMirrorNode) {
+  let serializable = true;
+  table.forEach((row, _offset, rowIndex) => {
+    row.forEach((cell) => {
+      const isHeader = cell.type.name === "tableHeader";
+      if (
+        isHeader !== (rowIndex === 0) ||
+        hasSpan(cell) ||
+        cell.childCount > 1 ||
+        (cell.firstChild && cell.firstChild.type.name !== "paragraph")
+      ) {
+        serializable = false;
+      }
+    });
+  });
+  return serializable;
+}
+
+/** Writes `table` as a CommonMark HTML block. */
+function writeHTMLTable(state: MarkdownSerializerState, table: ProseMirrorNode) {
+  const html = getHTMLFromFragment(Fragment.from(table), table.type.schema);
+  const element = elementFromString(html).firstElementChild!;
+  element.innerHTML = `\n${element.innerHTML}\n`;
+  state.write(element.outerHTML);
+  state.closeBlock(table);
+}
+
+function writeRow(state: TableSerializerState, row: ProseMirrorNode) {
+  state.write("| ");
+  row.forEach((cell, _offset, index) => {
+    if (index > 0) {
+      state.write(" | ");
+    }
+    const paragraph = cell.firstChild;
+    if (paragraph?.textContent.trim()) {
+      const start = state.out.length;
+      state.renderInline(paragraph);
+      // A row is split on every pipe not preceded by a backslash, code spans
+      // included, and markdown-it drops that backslash again; escaping each
+      // pipe also keeps a literal `\|` in the text intact
+      state.out = state.out.slice(0, start) + state.out.slice(start).replace(/\|/g, "\\|");
+    }
+  });
+  state.write(" |");
+  state.ensureNewLine();
+}
+
+/**
+ * Copies the first row's alignment down every column, so rows and cells
+ * added later line up with the column they join.
+ */
+function syncColumnAlign(state: EditorState) {
+  const { map, table, tableStart } = selectedRect(state);
+  const tr = state.tr;
+  const visited = new Set<number>(); // Merged cells follow their first column
+  for (let column = 0; column < map.width; column++) {
+    const align = table.nodeAt(map.map[column])?.attrs.align ?? null;
+    for (let row = 1; row < map.height; row++) {
+      const offset = map.map[row * map.width + column];
+      const cell = table.nodeAt(offset);
+      if (visited.has(offset)) continue;
+      visited.add(offset);
+      if (cell && cell.attrs.align !== align) {
+        tr.setNodeMarkup(tableStart + offset, undefined, {
+          ...cell.attrs,
+          align,
+        });
+      }
+    }
+  }
+  return tr;
+}
+
+export const GfmTable = Table.extend({
+  addStorage() {
+    const markdown: MarkdownNodeSpec = {
+      serialize(state, node) {
+        if (!isMarkdownSerializable(node)) {
+          writeHTMLTable(state, node);
+          return;
+        }
+        const tableState = state as TableSerializerState;
+        tableState.inTable = true;
+        node.forEach((row, _offset, index) => {
+          writeRow(tableState, row);
+          if (index === 0) {
+            const delimiterRow: string[] = [];
+            row.forEach((cell) =>
+              delimiterRow.push(delimiters[cell.attrs.align] ?? "---")
+            );
+            state.write(`| ${delimiterRow.join(" | ")} |`);
+            state.ensureNewLine();
+          }
+        });
+        state.closeBlock(node);
+        tableState.inTable = false;
+      },
+      parse: {
+        // handled by markdown-it
+      },
+    };
+    return { markdown };
+  },
+
+  addCommands() {
+    return {
+      ...this.parent?.(),
+      setColumnAlign:
+        (align) =>
+        ({ state, tr, dispatch }) => {
+          if (!isInTable(state)) {
+            return false;
+          }
+          if (dispatch) {
+            const { map, table, tableStart, left, right } =
+              selectedRect(state);
+            const updated = new Set<number>(); // Spanning cells appear more than once
+            for (let row = 0; row < map.height; row++) {
+              for (let column = left; column < right; column++) {
+                const offset = map.map[row * map.width + column];
+                const cell = table.nodeAt(offset);
+                if (!cell || updated.has(offset)) continue;
+                updated.add(offset);
+                tr.setNodeMarkup(tableStart + offset, undefined, {
+                  ...cell.attrs,
+                  align,
+                });
+              }
+            }
+          }
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      ...(this.parent?.() ?? []),
+      new Plugin({
+        key: new PluginKey("gfmTableAlign"),
+        appendTransaction(transactions, _oldState, newState) {
+          if (
+            !transactions.some((transaction) => transaction.docChanged) ||
+            !isInTable(newState)
+          ) {
+            return null;
+          }
+          const tr = syncColumnAlign(newState);
+          return tr.docChanged ? tr : null;
+        },
+      }),
+    ];
+  },
+});
@@ -1,9 +1,10 @@
 // src/editor/extensions/textTaskItem.ts
 import { mergeAttributes, Node, wrappingInputRule } from '@tiptap/core'
+import type { MarkdownNodeSpec } from '../markdown/markdownSpec'
 
 export interface TextTaskItemOptions {
   nested: boolean
-  HTMLAttributes: Record<string, any>
+  HTMLAttributes: Record<string, string>
 }
 
 declare module '@tiptap/core' {
@@ -17,7 +18,24 @@ declare module '@tiptap/core' {
   }
 }
 
-export const inputRegex = /^\s*(\[([ x])\])\s$/
+export const inputRegex = /^\s*(\[([ xX])\])\s$/
+
+type TaskAttributes = Record<string, unknown>
+
+// Plain bullets in a mixed list show a bullet instead of a checkbox
+const checkboxText = ({ task, checked }: TaskAttributes) => {
+  if (!task) {
+    return '- '
+  }
+  return checked ? '[x] ' : '[ ] '
+}
+
+// Toggling a plain bullet turns it into an open task
+const toggled = (attrs: TaskAttributes) => ({
+  ...attrs,
+  task: true,
+  checked: attrs.task ? !attrs.checked : false,
+})
 
 export const TextTaskItem = Node.create<TextTaskItemOptions>({
   name: 'textTaskItem',
@@ -45,7 +63,29 @@ export const TextTaskItem = Node.create<TextTaskItemOptions>({
           'data-checked': attributes.checked,
         }),
       },
+      // false for plain bullets mixed into a task list
+      task: {
+        default: true,
+        keepOnSplit: false,
+        parseHTML: element => element.getAttribute('data-task') !== 'false',
+        renderHTML: attributes => (attributes.task ? {} : { 'data-task': 'false' }),
+      },
+    }
+  },
+
+  addStorage() {
+    const markdown: MarkdownNodeSpec = {
+      serialize(state, node) {
+        if (node.attrs.task) {
+          state.write(node.attrs.checked ? '[x] ' : '[ ] ')
+        }
+        state.renderContent(node)
+      },
+      parse: {
+        // Handled by TextTaskList, which sees whole lists
+      },
     }
+    return { markdown }
   },
 
   parseHTML() {
@@ -53,13 +93,16 @@ export const TextTaskItem = Node.create<TextTaskItemOptions>({
       {
         tag: `li[data-type="${this.name}"]`,
         priority: 51,
+        // Skip the rendered checkbox when reading our own HTML back (copy/paste)
+        contentElement: node => {
+          const element = node as HTMLElement
+          return element.querySelector<HTMLElement>(':scope > .task-content') ?? element
+        },
       },
     ]
   },
 
   renderHTML({ node, HTMLAttributes }) {
-    const checked = node.attrs.checked
-    
     return [
       'li',
       mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
@@ -68,7 +111,7 @@ export const TextTaskItem = Node.create<TextTaskItemOptions>({
       [
         'span',
         { class: 'task-checkbox-text' },
-        checked ? '[x] ' : '[ ] '
+        checkboxText(node.attrs)
       ],
       [
         'div',
@@ -93,10 +136,7 @@ export const TextTaskItem = Node.create<TextTaskItemOptions>({
           const node = $head.node(depth)
           if (node.type === this.type) {
             const pos = $head.before(depth)
-            const tr = state.tr.setNodeMarkup(pos, undefined, {
-              ...node.attrs,
-              checked: !node.attrs.checked,
-            })
+            const tr = state.tr.setNodeMarkup(pos, undefined, toggled(node.attrs))
             this.editor.view.dispatch(tr)
             return true
           }
@@ -134,11 +174,13 @@ export const TextTaskItem = Node.create<TextTaskItemOptions>({
         listItem.setAttribute(key, value)
       })
       Object.entries(HTMLAttributes).forEach(([key, value]) => {
-        listItem.setAttribute(key, value)
+        if (value !== null && value !== undefined) {
+          listItem.setAttribute(key, String(value))
+        }
       })
 
       checkboxSpan.className = 'task-checkbox-text'
-      checkboxSpan.textContent = node.attrs.checked ? '[x] ' : '[ ] '
+      checkboxSpan.textContent = checkboxText(node.attrs)
       checkboxSpan.contentEditable = 'false'
       checkboxSpan.style.cursor = 'pointer'
       checkboxSpan.style.userSelect = 'none'
@@ -151,14 +193,9 @@ export const TextTaskItem = Node.create<TextTaskItemOptions>({
         
         if (typeof getPos === 'function') {
           const pos = getPos()
-          const currentChecked = currentNode.attrs.checked
-          const newChecked = !currentChecked
           
           // Update the editor state
-          const transaction = editor.state.tr.setNodeMarkup(pos, undefined, {
-            ...currentNode.attrs,
-            checked: newChecked,
-          })
+          const transaction = editor.state.tr.setNodeMarkup(pos, undefined, toggled(currentNode.attrs))
           
           editor.view.dispatch(transaction)
         }
@@ -181,7 +218,7 @@ export const TextTaskItem = Node.create<TextTaskItemOptions>({
           // Update the tracked node reference
           currentNode = updatedNode
           listItem.dataset.checked = String(updatedNode.attrs.checked)
-          checkboxSpan.textContent = updatedNode.attrs.checked ? '[x] ' : '[ ] '
+          checkboxSpan.textContent = checkboxText(updatedNode.attrs)
           return true
         },
       }
@@ -194,7 +231,7 @@ export const TextTaskItem = Node.create<TextTaskItemOptions>({
         find: inputRegex,
         type: this.type,
         getAttributes: match => ({
-          checked: match[2] === 'x',
+          checked: match[2] !== ' ',
         }),
       }),
     ]
@@ -0,0 +1,98 @@
+// src/editor/extensions/textTaskList.test.ts
+import { afterEach, describe, expect, it } from "vitest";
+import type { Editor, JSONContent } from "@tiptap/core";
+import { getEditorMarkdown, loadMarkdown } from "../../test/createTestEditor";
+
+/** The document as tiptap-markdown writes it, ignoring the source map. */
+function serialize(editor: Editor): string {
+  return editor.storage.markdown.getMarkdown();
+}
+
+/** Every task item of the document as [text, task, checked]. */
+function taskItems(content: JSONContent): [string, boolean, boolean][] {
+  const items: [string, boolean, boolean][] = [];
+  const visit = (node: JSONContent) => {
+    if (node.type === "textTaskItem") {
+      const text = node.content?.[0]?.content?.map((child) => child.text).join("") ?? "";
+      items.push([text, node.attrs?.task, node.attrs?.checked]);
+    }
+    node.content?.forEach(visit);
+  };
+  visit(content);
+  return items;
+}
+
+describe("text task lists", () => {
+  let editor: Editor | null = null;
+
+  afterEach(() => {
+    editor?.destroy();
+    editor = null;
+  });
+
+  // [name, Markdown, Markdown written back]
+  it.each([
+    ["a flat list", "- [ ] open\n- [x] done", "- [ ] open\n- [x] done"],
+    [
+      "nested lists",
+      "- [ ] parent\n  - [x] child\n  - [ ] sibling\n- [x] done",
+      "- [ ] parent\n  - [x] child\n  - [ ] sibling\n- [x] done",
+    ],
+    ["mixed task and plain bullets", "- [ ] task\n- plain\n- [x] done", "- [ ] task\n- plain\n- [x] done"],
+    ["an upper-case [X]", "* [X] shouted", "- [x] shouted"],
+    ["an ordered list", "1. [ ] first\n2. [x] second", "1. [ ] first\n2. [x] second"],
+    ["an ordered list with a start", "3. [x] third\n4. [ ] fourth", "3. [x] third\n4. [ ] fourth"],
+    [
+      "an ordered list nested in bullets",
+      "- [ ] parent\n  1. [ ] step\n  2. [X] step",
+      "- [ ] parent\n  1. [ ] step\n  2. [x] step",
+    ],
+    ["a loose list", "- [ ] open\n\n- [x] done", "- [ ] open\n\n- [x] done"],
+  ])("writes back %s", (_name, markdown, expected) => {
+    editor = loadMarkdown(markdown);
+    expect(serialize(editor)).toBe(expected);
+  });
+
+  it("reads [x] and [X] as checked and plain items as non-tasks", () => {
+    editor = loadMarkdown("- [ ] open\n- [x] lower\n- [X] upper\n- plain");
+    expect(taskItems(editor.getJSON())).toEqual([
+      ["open", true, false],
+      ["lower", true, true],
+      ["upper", true, true],
+      ["plain", false, false],
+    ]);
+  });
+
+  it("keeps ordered task lists ordered", () => {
+    editor = loadMarkdown("2. [ ] second\n3. [x] third");
+    const [list] = editor.getJSON().content!;
+    expect(list.type).toBe("textTaskList");
+    expect(list.attrs).toMatchObject({ ordered: true, start: 2 });
+    expect(taskItems(list)).toEqual([
+      ["second", true, false],
+      ["third", true, true],
+    ]);
+  });
+
+  it("leaves lists without task markers alone", () => {
+    editor = loadMarkdown("1. one\n2. two\n\n- a\n- b");
+    expect(editor.getJSON().content!.map((node) => node.type)).toEqual([
+      "orderedList",
+      "bulletList",
+    ]);
+  });
+
+  it("saves an edited task item in an ordered list", () => {
+    editor = loadMarkdown("Steps:\n\n1. [ ] first\n2. [ ] second\n");
+    let itemPos = -1;
+    editor.state.doc.descendants((node, pos) => {
+      if (itemPos === -1 && node.type.name === "textTaskItem") itemPos = pos;
+      return itemPos === -1;
+    });
+    const item = editor.state.doc.nodeAt(itemPos)!;
+    editor.view.dispatch(
+      editor.state.tr.setNodeMarkup(itemPos, undefined, { ...item.attrs, checked: true })
+    );
+    expect(getEditorMarkdown(editor)).toBe("Steps:\n\n1. [x] first\n2. [ ] second\n");
+  });
+});
@@ -1,9 +1,58 @@
 // src/editor/extensions/textTaskList.ts
 import { mergeAttributes, Node } from '@tiptap/core'
+import type { MarkdownNodeSpec } from '../markdown/markdownSpec'
 
 export interface TextTaskListOptions {
   itemTypeName: string
-  HTMLAttributes: Record<string, any>
+  HTMLAttributes: Record<string, string>
+}
+
+// `[ ]`, `[x]` or `[X]` at the very start of a list item, as in GFM
+const taskMarkerRegex = /^\[([ xX])\](?:\s+|$)/
+
+/**
+ * Returns the text node holding the item's leading `[ ]`/`[x]` marker.
+ * markdown-it puts it directly in the `li` for tight lists and in the first
+ * `p` for loose ones.
+ */
+function findTaskMarker(item: Element): Text | null {
+  let first = item.firstChild
+  if (first?.nodeName === 'P') {
+    first = first.firstChild
+  }
+  if (first?.nodeType !== 3 || !taskMarkerRegex.test(first.textContent ?? '')) {
+    return null
+  }
+  return first as Text
+}
+
+/**
+ * Turns every bullet or ordered list with at least one `[ ]`/`[x]` item into
+ * a text task list. Items without a marker stay plain items inside the task
+ * list (`data-task="false"`).
+ */
+function markTaskLists(element: HTMLElement, listName: string, itemName: string) {
+  element.querySelectorAll('ul, ol').forEach(list => {
+    const items = [...list.children].filter(child => child.tagName === 'LI')
+    const markers = items.map(findTaskMarker)
+    if (!markers.some(Boolean)) {
+      return
+    }
+
+    list.setAttribute('data-type', listName)
+    list.setAttribute('data-tight', String(!list.querySelector(':scope > li > p')))
+    items.forEach((item, index) => {
+      item.setAttribute('data-type', itemName)
+      const marker = markers[index]
+      if (!marker) {
+        item.setAttribute('data-task', 'false')
+        return
+      }
+      const match = taskMarkerRegex.exec(marker.data)!
+      item.setAttribute('data-checked', String(match[1] !== ' '))
+      marker.deleteData(0, match[0].length)
+    })
+  })
 }
 
 declare module '@tiptap/core' {
@@ -29,6 +78,59 @@ export const TextTaskList = Node.create<TextTaskListOptions>({
 
   group: 'block list',
 
+  addAttributes() {
+    return {
+      // `1. [ ] foo` lists are numbered like the ordered lists they come from
+      ordered: {
+        default: false,
+        parseHTML: element => element.tagName === 'OL',
+        renderHTML: () => ({}),
+      },
+      start: {
+        default: 1,
+        parseHTML: element => Number(element.getAttribute('start') ?? 1) || 1,
+        renderHTML: attributes =>
+          attributes.ordered && attributes.start !== 1
+            ? { start: attributes.start, style: `counter-reset: task-number ${attributes.start - 1}` }
+            : {},
+      },
+      // Mirrors tiptap-markdown's tight lists: no blank line between items
+      tight: {
+        default: true,
+        parseHTML: element => {
+          const tight = element.getAttribute('data-tight')
+          return tight ? tight === 'true' : !element.querySelector(':scope > li > p')
+        },
+        renderHTML: attributes => ({
+          'data-tight': attributes.tight ? 'true' : 'false',
+        }),
+      },
+    }
+  },
+
+  addStorage() {
+    const markdown: MarkdownNodeSpec = {
+      serialize(state, node) {
+        if (!node.attrs.ordered) {
+          const marker = this.editor.storage.markdown.options.bulletListMarker || '-'
+          state.renderList(node, '  ', () => `${marker} `)
+          return
+        }
+        // Same numbering as tiptap-markdown's ordered lists
+        const { start } = node.attrs
+        const width = String(start + node.childCount - 1).length
+        state.renderList(node, ' '.repeat(width + 2), index => {
+          const number = String(start + index)
+          return `${' '.repeat(width - number.length)}${number}. `
+        })
+      },
+      parse: {
+        updateDOM: element => markTaskLists(element, this.name, this.options.itemTypeName),
+      },
+    }
+    return { markdown }
+  },
+
   content() {
     return `${this.options.itemTypeName}+`
   },
@@ -39,12 +141,16 @@ export const TextTaskList = Node.create<TextTaskListOptions>({
         tag: `ul[data-type="${this.name}"]`,
         priority: 51,
       },
+      {
+        tag: `ol[data-type="${this.name}"]`,
+        priority: 51,
+      },
     ]
   },
 
-  renderHTML({ HTMLAttributes }) {
+  renderHTML({ node, HTMLAttributes }) {
     return [
-      'ul',
+      node.attrs.ordered ? 'ol' : 'ul',
       mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
         'data-type': this.name,
       }),
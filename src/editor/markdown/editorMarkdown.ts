@@ -0,0 +1,17 @@
+// src/editor/markdown/editorMarkdown.ts
+import type { Editor } from "@tiptap/core";
+import type { MarkdownStorage } from "tiptap-markdown";
+import { getSourcePreservingMarkdown } from "./sourcePreservingMarkdown";
+
+/**
+ * Serializes the current editor document to Markdown. Editors with the
+ * SourcePreservingMarkdown extension keep untouched blocks byte-for-byte;
+ * otherwise this falls back to tiptap-markdown's serializer.
+ */
+export function getEditorMarkdown(editor: Editor): string {
+  if (editor.storage.sourcePreservingMarkdown) {
+    return getSourcePreservingMarkdown(editor);
+  }
+  const storage = editor.storage.markdown as MarkdownStorage | undefined;
+  return storage?.getMarkdown() ?? "";
+}
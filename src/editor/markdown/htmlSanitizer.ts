@@ -0,0 +1,58 @@
+// src/editor/markdown/htmlSanitizer.ts
+import { Extension } from "@tiptap/core";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import {
+  DEFAULT_SANITIZE_MODE,
+  sanitizeHtml,
+  type SanitizeMode,
+} from "../../services/sanitize/sanitizePolicy";
+
+export interface HtmlSanitizerOptions {
+  mode: SanitizeMode;
+}
+
+/**
+ * Runs all HTML that enters the editor through the app's sanitization
+ * policy: markdown-it's output for loaded and pasted Markdown (raw HTML is
+ * enabled there), and HTML pasted from other apps. Published pages go
+ * through the same policy in the renderer.
+ */
+export const HtmlSanitizer = Extension.create<HtmlSanitizerOptions>({
+  name: "htmlSanitizer",
+
+  // tiptap-markdown calls `updateDOM` in extension order; this one must see
+  // markdown-it's HTML before the other extensions turn it into their nodes
+  priority: 1000,
+
+  addOptions() {
+    return {
+      mode: DEFAULT_SANITIZE_MODE,
+    };
+  },
+
+  addStorage() {
+    const { mode } = this.options;
+    return {
+      // Picked up by tiptap-markdown after markdown-it renders each parse
+      markdown: {
+        parse: {
+          updateDOM(element: HTMLElement) {
+            element.innerHTML = sanitizeHtml(element.innerHTML, mode);
+          },
+        },
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { mode } = this.options;
+    return [
+      new Plugin({
+        key: new PluginKey("htmlSanitizer"),
+        props: {
+          transformPastedHTML: (html) => sanitizeHtml(html, mode),
+        },
+      }),
+    ];
+  },
+});
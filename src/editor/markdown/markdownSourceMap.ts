@@ -0,0 +1,222 @@
+// src/editor/markdown/markdownSourceMap.ts
+// Bookkeeping that lets untouched blocks be written back exactly as they
+// were read. A loaded document is cut into its top-level Markdown blocks;
+// each block remembers its original source and the editor nodes it became.
+// On save, blocks whose nodes are unchanged emit their original source and
+// only edited blocks go through the Markdown serializer.
+import { Fragment, type Node as ProseMirrorNode } from "@tiptap/pm/model";
+
+export interface SourceBlock {
+  source: string; // Original Markdown of the block, without its final line break
+  nodes: ProseMirrorNode[]; // Top-level editor nodes parsed from `source`
+}
+
+export interface MarkdownSourceMap {
+  blocks: SourceBlock[];
+  // gaps[i] is the text before blocks[i]; gaps[blocks.length] is the tail.
+  // Blank lines, link reference definitions and blocks that produce no
+  // editor node (e.g. HTML comments) live here.
+  gaps: string[];
+}
+
+interface BlockRange {
+  lines: [number, number]; // markdown-it style [startLine, endLine)
+  nodeCount: number;
+}
+
+/** Character offset at which every line of `markdown` starts. */
+function lineOffsets(markdown: string): number[] {
+  const offsets = [0];
+  for (let i = 0; i < markdown.length; i++) {
+    if (markdown[i] === "\n") {
+      offsets.push(i + 1);
+    }
+  }
+  return offsets;
+}
+
+/**
+ * Builds the source map from the line ranges markdown-it reported for each
+ * top-level block and the editor nodes those blocks produced, in order.
+ */
+export function createSourceMap(
+  markdown: string,
+  ranges: BlockRange[],
+  nodes: ProseMirrorNode[]
+): MarkdownSourceMap {
+  const offsets = lineOffsets(markdown);
+  const offsetOfLine = (line: number) =>
+    line < offsets.length ? offsets[line] : markdown.length;
+
+  const blocks: SourceBlock[] = [];
+  const gaps: string[] = [];
+  let cursor = 0; // End of the previous block in `markdown`
+  let nodeIndex = 0;
+  let pendingGap = "";
+
+  ranges.forEach(({ lines, nodeCount }) => {
+    const start = offsetOfLine(lines[0]);
+    let end = offsetOfLine(lines[1]);
+    // The line break ending a block belongs to the gap that follows it, as
+    // do the blank lines markdown-it counts into a list's range
+    while (end > start && /[\r\n]/.test(markdown[end - 1])) end--;
+
+    const gap = markdown.slice(cursor, start);
+    const source = markdown.slice(start, end);
+    cursor = end;
+
+    if (nodeCount === 0) {
+      // Nothing in the editor represents this block; keep it with the gap
+      pendingGap += gap + source;
+      return;
+    }
+    gaps.push(pendingGap + gap);
+    pendingGap = "";
+    blocks.push({
+      source,
+      nodes: nodes.slice(nodeIndex, nodeIndex + nodeCount),
+    });
+    nodeIndex += nodeCount;
+  });
+
+  gaps.push(pendingGap + markdown.slice(cursor));
+  return { blocks, gaps };
+}
+
+/**
+ * `node` without the marks named in `ignoredMarks`, with the text nodes
+ * those marks had split joined back together.
+ */
+function withoutMarks(
+  node: ProseMirrorNode,
+  ignoredMarks: ReadonlySet<string>
+): ProseMirrorNode {
+  const marks = node.marks.filter((mark) => !ignoredMarks.has(mark.type.name));
+  if (node.isText) {
+    return node.mark(marks);
+  }
+  const children: ProseMirrorNode[] = [];
+  node.forEach((child) => {
+    const stripped = withoutMarks(child, ignoredMarks);
+    const previous = children[children.length - 1];
+    if (previous?.isText && stripped.isText && previous.sameMarkup(stripped)) {
+      children[children.length - 1] = node.type.schema.text(
+        previous.text! + stripped.text!,
+        previous.marks
+      );
+    } else {
+      children.push(stripped);
+    }
+  });
+  return node.copy(Fragment.fromArray(children)).mark(marks);
+}
+
+/**
+ * Whether the editor node `current` still is `node`, apart from marks named
+ * in `ignoredMarks` that only `current` may carry.
+ */
+export function nodeMatches(
+  current: ProseMirrorNode,
+  node: ProseMirrorNode,
+  ignoredMarks: ReadonlySet<string>
+): boolean {
+  return (
+    current === node ||
+    current.eq(node) ||
+    (ignoredMarks.size > 0 && withoutMarks(current, ignoredMarks).eq(node))
+  );
+}
+
+function blockMatchesAt(
+  block: SourceBlock,
+  doc: ProseMirrorNode,
+  index: number,
+  ignoredMarks: ReadonlySet<string>
+): boolean {
+  if (index + block.nodes.length > doc.childCount) {
+    return false;
+  }
+  return block.nodes.every((node, offset) =>
+    nodeMatches(doc.child(index + offset), node, ignoredMarks)
+  );
+}
+
+/**
+ * Serializes `doc`, reusing the original source of every block whose nodes
+ * are unchanged. Unchanged nodes keep their identity across transactions, so
+ * the identity lookup makes this cheap even for long documents; blocks that
+ * were moved are still recognised. Nodes built elsewhere (a shared doc) are
+ * matched by structure against the expected block, then the later ones.
+ *
+ * Marks named in `ignoredMarks` are not written to Markdown (comment
+ * highlights), so a block that only gained or lost them counts as unchanged.
+ */
+export function serializeWithSourceMap(
+  doc: ProseMirrorNode,
+  sourceMap: MarkdownSourceMap,
+  serializeNodes: (nodes: ProseMirrorNode[]) => string,
+  ignoredMarks: ReadonlySet<string> = new Set()
+): string {
+  const { blocks, gaps } = sourceMap;
+  const blockByFirstNode = new Map<ProseMirrorNode, number>();
+  blocks.forEach((block, index) => {
+    if (block.nodes[0]) blockByFirstNode.set(block.nodes[0], index);
+  });
+
+  const pieces: { text: string; block: number | null }[] = [];
+  let freshNodes: ProseMirrorNode[] = [];
+  const flushFresh = () => {
+    if (freshNodes.length === 0) return;
+    // Blocks are joined below, so drop the line breaks some blocks end with
+    const text = serializeNodes(freshNodes).replace(/\n+$/, "");
+    if (text.trim()) {
+      pieces.push({ text, block: null });
+    }
+    freshNodes = [];
+  };
+
+  let nextBlock = 0;
+  let index = 0;
+  while (index < doc.childCount) {
+    const node = doc.child(index);
+    let blockIndex = blockByFirstNode.get(node);
+    if (blockIndex === undefined) {
+      // Structurally equal to the expected block, or to one after it?
+      for (let candidate = nextBlock; candidate < blocks.length; candidate++) {
+        if (blockMatchesAt(blocks[candidate], doc, index, ignoredMarks)) {
+          blockIndex = candidate;
+          break;
+        }
+      }
+    }
+
+    if (
+      blockIndex !== undefined &&
+      blockMatchesAt(blocks[blockIndex], doc, index, ignoredMarks)
+    ) {
+      flushFresh();
+      pieces.push({ text: blocks[blockIndex].source, block: blockIndex });
+      index += blocks[blockIndex].nodes.length;
+      nextBlock = blockIndex + 1;
+    } else {
+      freshNodes.push(node);
+      index++;
+    }
+  }
+  flushFresh();
+
+  let markdown = gaps[0];
+  pieces.forEach((piece, i) => {
+    if (i > 0) {
+      const previous = pieces[i - 1];
+      const keepsOriginalGap =
+        previous.block !== null &&
+        piece.block !== null &&
+        piece.block === previous.block + 1;
+      markdown += keepsOriginalGap ? gaps[piece.block!] : "\n\n";
+    }
+    markdown += piece.text;
+  });
+
+  return markdown + (blocks.length > 0 ? gaps[blocks.length] : "");
+}
@@ -0,0 +1,26 @@
+// src/editor/markdown/markdownSpec.ts
+import type { Editor } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import type MarkdownIt from "markdown-it";
+import type { MarkdownSerializerState } from "prosemirror-markdown";
+
+/**
+ * The `storage.markdown` spec tiptap-markdown looks for on a node extension.
+ * tiptap-markdown ships its own (older) markdown-it typings, so this mirrors
+ * its `MarkdownNodeSpec` against the markdown-it version the app uses.
+ */
+export interface MarkdownNodeSpec {
+  serialize(
+    this: { editor: Editor; options: unknown },
+    state: MarkdownSerializerState,
+    node: ProseMirrorNode,
+    parent: ProseMirrorNode,
+    index: number
+  ): void;
+  parse?: {
+    // Runs before every parse, so it must be safe to call repeatedly
+    setup?(markdownit: MarkdownIt): void;
+    // Adjusts markdown-it's HTML before the editor parses it
+    updateDOM?(element: HTMLElement): void;
+  };
+}
@@ -0,0 +1,143 @@
+// src/editor/markdown/sourcePositions.ts
+// Maps positions between the editor document and its Markdown, so the
+// source pane can follow the editor's cursor and the other way round.
+// getBlockLines finds the top-level block on both sides; inside a block the
+// spot is found by the text around it, since Markdown adds syntax ("**",
+// "# ", "- [ ] ") the editor text does not have.
+import type { Editor } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { readDocumentText } from "../comments/documentText";
+import { getBlockLines, type BlockLines } from "./sourcePreservingMarkdown";
+
+// Longest run of neighbouring text looked up on the other side
+const CONTEXT_LENGTH = 16;
+
+/** Character offset at which every line of `markdown` starts. */
+function lineStarts(markdown: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < markdown.length; i++) {
+    if (markdown[i] === "\n") starts.push(i + 1);
+  }
+  return starts;
+}
+
+/** The text of the nodes `from` to `to` with the document position of each character. */
+function readBlockText(doc: ProseMirrorNode, from: number, to: number) {
+  let text = "";
+  const positions: number[] = [];
+  doc.nodesBetween(from, to, (node, pos) => {
+    if (pos < from) return true; // Only top-level nodes from `from` on
+    const content = readDocumentText(node);
+    if (text) {
+      text += "\n";
+      positions.push(pos);
+    }
+    text += content.text;
+    // readDocumentText counts from the start of the node's content
+    content.positions.forEach((offset) => positions.push(pos + 1 + offset));
+    return false;
+  });
+  return { text, positions };
+}
+
+/**
+ * The offset in `toText` that matches `offset` in `fromText`: the start of
+ * the longest text after `offset` found in `toText` (or the end of the text
+ * before it), nearest to where a proportional mapping would land. Text
+ * after wins so a cursor lands behind Markdown syntax such as "- " or "**".
+ */
+function mapByContext(fromText: string, offset: number, toText: string): number {
+  const expected = fromText.length
+    ? Math.round((offset / fromText.length) * toText.length)
+    : 0;
+  const nearest = (needle: string, shift: number) => {
+    let best = -1;
+    for (
+      let index = toText.indexOf(needle);
+      index !== -1;
+      index = toText.indexOf(needle, index + 1)
+    ) {
+      const candidate = index + shift;
+      if (best === -1 || Math.abs(candidate - expected) < Math.abs(best - expected)) {
+        best = candidate;
+      }
+    }
+    return best;
+  };
+  for (let length = CONTEXT_LENGTH; length > 0; length = Math.floor(length / 2)) {
+    if (offset + length <= fromText.length) {
+      const found = nearest(fromText.slice(offset, offset + length), 0);
+      if (found !== -1) return found;
+    }
+    if (offset >= length) {
+      const found = nearest(fromText.slice(offset - length, offset), length);
+      if (found !== -1) return found;
+    }
+  }
+  return Math.min(expected, toText.length);
+}
+
+function findBlock(
+  blockLines: BlockLines[],
+  matches: (block: BlockLines) => boolean
+): BlockLines | null {
+  return blockLines.find(matches) ?? blockLines[blockLines.length - 1] ?? null;
+}
+
+/**
+ * The offset in `markdown` (the document's serialized body) of document
+ * position `pos`, or null when the blocks cannot be matched up.
+ */
+export function posToSourceOffset(
+  editor: Editor,
+  markdown: string,
+  pos: number
+): number | null {
+  const blockLines = getBlockLines(editor, markdown);
+  const block = blockLines && findBlock(blockLines, ({ to }) => pos < to);
+  if (!block) {
+    return null;
+  }
+  const starts = lineStarts(markdown);
+  const sourceStart = starts[block.lines[0]] ?? markdown.length;
+  const sourceEnd = starts[block.lines[1]] ?? markdown.length;
+  const source = markdown.slice(sourceStart, sourceEnd);
+  const { text, positions } = readBlockText(editor.state.doc, block.from, block.to);
+  let textOffset = positions.findIndex((position) => position >= pos);
+  if (textOffset === -1) textOffset = text.length;
+  return sourceStart + mapByContext(text, textOffset, source);
+}
+
+/**
+ * The document position of `offset` in `markdown` (the document's
+ * serialized body), or null when the blocks cannot be matched up.
+ */
+export function sourceOffsetToPos(
+  editor: Editor,
+  markdown: string,
+  offset: number
+): number | null {
+  const blockLines = getBlockLines(editor, markdown);
+  const starts = lineStarts(markdown);
+  let line = 0;
+  while (line + 1 < starts.length && starts[line + 1] <= offset) line++;
+  // Blank lines between blocks belong to the block after them
+  const block = blockLines && findBlock(blockLines, ({ lines }) => line < lines[1]);
+  if (!block) {
+    return null;
+  }
+  const sourceStart = starts[block.lines[0]] ?? markdown.length;
+  const sourceEnd = starts[block.lines[1]] ?? markdown.length;
+  const source = markdown.slice(sourceStart, sourceEnd);
+  const { text, positions } = readBlockText(editor.state.doc, block.from, block.to);
+  const textOffset = mapByContext(
+    source,
+    Math.min(Math.max(offset - sourceStart, 0), source.length),
+    text
+  );
+  if (textOffset < positions.length) {
+    return positions[textOffset];
+  }
+  // After the last character: the end of the block's last textblock
+  return positions.length > 0 ? positions[positions.length - 1] + 1 : block.from + 1;
+}
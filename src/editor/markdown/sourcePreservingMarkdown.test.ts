@@ -0,0 +1,133 @@
+// src/editor/markdown/sourcePreservingMarkdown.test.ts
+// Golden fixtures for the source map: fixtures/roundTrip must save exactly
+// as loaded, fixtures/edits/<name>.md is fixtures/edits/source.md after the
+// edit of the same name, and fixtures/fallback/<name>.md is saved as
+// fixtures/fallback/<name>.expected.md.
+import { afterEach, describe, expect, it } from "vitest";
+import type { Editor } from "@tiptap/core";
+import { getSourceMap, mapMarkdownSource } from "./sourcePreservingMarkdown";
+import {
+  createTestEditor,
+  getEditorMarkdown,
+  loadMarkdown,
+} from "../../test/createTestEditor";
+
+const fixtures = import.meta.glob<string>("./fixtures/**/*.md", {
+  query: "?raw",
+  import: "default",
+  eager: true,
+});
+
+/** Fixtures in `folder`, as [name, content] pairs. */
+function fixturesIn(folder: string): [string, string][] {
+  const prefix = `./fixtures/${folder}/`;
+  return Object.entries(fixtures)
+    .filter(([path]) => path.startsWith(prefix))
+    .map(([path, content]) => [path.slice(prefix.length, -".md".length), content]);
+}
+
+function fixture(path: string): string {
+  const content = fixtures[`./fixtures/${path}.md`];
+  if (content === undefined) {
+    throw new Error(`Missing fixture ${path}.md`);
+  }
+  return content;
+}
+
+/** Inserts `text` right after the first occurrence of `anchor`. */
+function insertAfter(editor: Editor, anchor: string, text: string) {
+  let position: number | null = null;
+  editor.state.doc.descendants((node, pos) => {
+    const index = node.isText ? node.text!.indexOf(anchor) : -1;
+    if (position === null && index !== -1) {
+      position = pos + index + anchor.length;
+    }
+    return position === null;
+  });
+  if (position === null) {
+    throw new Error(`"${anchor}" is not in the document`);
+  }
+  editor.commands.insertContentAt(position, text);
+}
+
+// Each edit touches one block of fixtures/edits/source.md
+const EDITS: [string, (editor: Editor) => void][] = [
+  ["paragraph", (editor) => insertAfter(editor, "Second ", "edited ")],
+  ["heading", (editor) => insertAfter(editor, "Heading", " edited")],
+  ["taskList", (editor) => insertAfter(editor, "plain bullet", " edited")],
+  ["table", (editor) => insertAfter(editor, "2", "0")],
+  [
+    "deletedBlock",
+    (editor) => {
+      let range: { from: number; to: number } | null = null;
+      editor.state.doc.forEach((node, offset) => {
+        if (!range && node.textContent.startsWith("Second")) {
+          range = { from: offset, to: offset + node.nodeSize };
+        }
+      });
+      editor.commands.deleteRange(range!);
+    },
+  ],
+];
+
+describe("source preserving Markdown", () => {
+  let editor: Editor | null = null;
+
+  afterEach(() => {
+    editor?.destroy();
+    editor = null;
+  });
+
+  it.each(fixturesIn("roundTrip"))("saves untouched %s exactly as loaded", (_name, markdown) => {
+    editor = loadMarkdown(markdown);
+    expect(getSourceMap(editor)).not.toBeNull();
+    expect(getEditorMarkdown(editor)).toBe(markdown);
+  });
+
+  it.each(EDITS)("re-serializes only the block of a %s edit", (name, edit) => {
+    editor = loadMarkdown(fixture("edits/source"));
+    edit(editor);
+    expect(getEditorMarkdown(editor)).toBe(fixture(`edits/${name}`));
+  });
+
+  it("saves an edit that was reverted exactly as loaded", () => {
+    const markdown = fixture("edits/source");
+    editor = loadMarkdown(markdown);
+    editor.chain().setTextSelection({ from: 1, to: 4 }).toggleBold().run();
+    expect(getEditorMarkdown(editor)).not.toBe(markdown);
+    editor.chain().setTextSelection({ from: 1, to: 4 }).toggleBold().run();
+    expect(getEditorMarkdown(editor)).toBe(markdown);
+  });
+
+  describe("content loaded elsewhere", () => {
+    // Another collaborator's editor put the content into the shared doc; this
+    // one only gets the resulting nodes, then maps its stored copy onto them
+    function receive(markdown: string): Editor {
+      const sender = loadMarkdown(markdown);
+      const receiver = createTestEditor();
+      receiver.commands.setContent(sender.getJSON());
+      sender.destroy();
+      mapMarkdownSource(receiver, markdown);
+      return receiver;
+    }
+
+    it.each(fixturesIn("roundTrip"))("saves untouched %s exactly as stored", (_name, markdown) => {
+      editor = receive(markdown);
+      expect(getEditorMarkdown(editor)).toBe(markdown);
+    });
+
+    it.each(EDITS)("re-serializes only the block of a %s edit", (name, edit) => {
+      editor = receive(fixture("edits/source"));
+      edit(editor);
+      expect(getEditorMarkdown(editor)).toBe(fixture(`edits/${name}`));
+    });
+  });
+
+  it.each(
+    fixturesIn("fallback").filter(([name]) => !name.endsWith(".expected"))
+  )("falls back to a plain parse when %s does not split into blocks", (name, markdown) => {
+    editor = loadMarkdown(markdown);
+    expect(getSourceMap(editor)).toBeNull();
+    expect(getEditorMarkdown(editor)).toBe(fixture(`fallback/${name}.expected`));
+  });
+});
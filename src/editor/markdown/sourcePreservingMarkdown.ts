@@ -0,0 +1,363 @@
+// src/editor/markdown/sourcePreservingMarkdown.ts
+import { Extension, elementFromString } from "@tiptap/core";
+import type { Editor } from "@tiptap/core";
+import {
+  DOMParser as ProseMirrorDOMParser,
+  type Node as ProseMirrorNode,
+} from "@tiptap/pm/model";
+import type MarkdownIt from "markdown-it";
+import type { MarkdownStorage } from "tiptap-markdown";
+import {
+  createSourceMap,
+  nodeMatches,
+  serializeWithSourceMap,
+  type MarkdownSourceMap,
+} from "./markdownSourceMap";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    sourcePreservingMarkdown: {
+      /**
+       * Replace the document with `markdown`, remembering the source of
+       * every block so untouched blocks are saved byte-for-byte.
+       */
+      setMarkdown: (markdown: string, emitUpdate?: boolean) => ReturnType;
+      /**
+       * Change the document to match `markdown` as an undoable edit. Only
+       * the blocks that differ are replaced, so the rest keep their
+       * selection, comments and node views.
+       */
+      updateMarkdown: (markdown: string) => ReturnType;
+    };
+  }
+}
+
+// tiptap-markdown keeps its parser and serializer on the storage at runtime
+interface MarkdownRuntimeStorage extends MarkdownStorage {
+  parser: { md: MarkdownIt; parse: (content: string) => string };
+  serializer: { serialize: (content: ProseMirrorNode) => string };
+}
+
+export interface SourcePreservingMarkdownOptions {
+  // Marks that only exist in the editor and never reach the Markdown, such
+  // as comment highlights; adding or removing them leaves a block untouched
+  editorOnlyMarks: string[];
+}
+
+// The top-level editor nodes `from` to `to` were read from source lines
+// `lines[0]` to `lines[1]` (exclusive) of a document's Markdown
+export interface BlockLines {
+  from: number;
+  to: number;
+  lines: [number, number];
+}
+
+// Extension storage is shared by every editor built from the same extension
+// instance, so per-document state is keyed by editor instead
+const sourceMaps = new WeakMap<Editor, MarkdownSourceMap | null>();
+// Last getBlockLines result per document node; scrolling asks repeatedly
+const blockLinesCache = new WeakMap<
+  ProseMirrorNode,
+  { markdown: string; blockLines: BlockLines[] | null }
+>();
+
+type CoreRule = Parameters<MarkdownIt["core"]["ruler"]["push"]>[1];
+type StateCore = Parameters<CoreRule>[0];
+type Token = StateCore["tokens"][number];
+
+const BLOCK_ATTRIBUTE = "data-md-block";
+const RULE_NAME = "docground_source_blocks";
+
+// The core rule below only wraps blocks while setMarkdown is parsing; every
+// other parse (paste, insertContent) goes through untouched.
+let isCollectingBlocks = false;
+let collectedRanges: [number, number][] = [];
+const patchedInstances = new WeakSet<MarkdownIt>();
+
+/**
+ * Wraps each top-level block in `<div data-md-block>` so the rendered HTML
+ * can be parsed into editor nodes block by block, and records the source
+ * lines markdown-it reported for each block.
+ */
+function wrapTopLevelBlocks(state: StateCore) {
+  if (!isCollectingBlocks) {
+    return;
+  }
+  const wrapped: Token[] = [];
+  let depth = 0;
+  collectedRanges = [];
+
+  state.tokens.forEach((token) => {
+    if (depth === 0) {
+      const open = new state.Token("html_block", "", 0);
+      open.content = `<div ${BLOCK_ATTRIBUTE}="${collectedRanges.length}">`;
+      wrapped.push(open);
+      collectedRanges.push(token.map ? [token.map[0], token.map[1]] : [0, 0]);
+    }
+    wrapped.push(token);
+    depth += token.nesting;
+    if (depth === 0) {
+      const close = new state.Token("html_block", "", 0);
+      close.content = "</div>";
+      wrapped.push(close);
+    }
+  });
+
+  state.tokens = wrapped;
+}
+
+/**
+ * Parses `markdown` one top-level block at a time. Returns null when the
+ * rendered HTML does not split cleanly into blocks (e.g. an HTML block that
+ * opens a tag closed by a later block); callers then fall back to a plain
+ * parse without source preservation.
+ */
+function parseBlocks(editor: Editor, markdown: string) {
+  const storage = editor.storage.markdown as MarkdownRuntimeStorage;
+
+  isCollectingBlocks = true;
+  let html: string;
+  try {
+    html = storage.parser.parse(markdown);
+  } finally {
+    isCollectingBlocks = false;
+  }
+  const ranges = collectedRanges;
+
+  const root = elementFromString(html);
+  const wrappers = [...root.children];
+  const isClean =
+    wrappers.length === ranges.length &&
+    wrappers.every(
+      (element, index) =>
+        element.getAttribute(BLOCK_ATTRIBUTE) === String(index)
+    );
+  if (!isClean) {
+    return null;
+  }
+
+  const domParser = ProseMirrorDOMParser.fromSchema(editor.schema);
+  const nodes: ProseMirrorNode[] = [];
+  const blocks = wrappers.map((element, index) => {
+    const slice = domParser.parseSlice(element, editor.options.parseOptions);
+    // Inline only HTML comes back as an open slice, and HTML mixing blocks
+    // with inline content (`<details><summary>`) as loose inline nodes;
+    // let the schema wrap them
+    let isBlocks = slice.openStart === 0;
+    slice.content.forEach((node) => {
+      isBlocks &&= node.isBlock;
+    });
+    const content = isBlocks
+      ? slice.content
+      : domParser.parse(element, editor.options.parseOptions).content;
+    content.forEach((node) => nodes.push(node));
+    return { lines: ranges[index], nodeCount: content.childCount };
+  });
+
+  return { nodes, blocks };
+}
+
+/** Source map of the document last loaded with setMarkdown, if any. */
+export function getSourceMap(editor: Editor): MarkdownSourceMap | null {
+  return sourceMaps.get(editor) ?? null;
+}
+
+/**
+ * Remembers `markdown` as the source of the editor document without
+ * changing the document, for content that was loaded elsewhere (a shared
+ * doc seeded by another client). Blocks still equal to a block of
+ * `markdown` are saved as written there; the rest are serialized.
+ */
+export function mapMarkdownSource(editor: Editor, markdown: string) {
+  const parsed = parseBlocks(editor, markdown);
+  sourceMaps.set(
+    editor,
+    parsed ? createSourceMap(markdown, parsed.blocks, parsed.nodes) : null
+  );
+}
+
+/**
+ * Where each top-level block of the editor document is in `markdown`, which
+ * must be the document's serialized body (see getEditorMarkdown). Null when
+ * the Markdown does not parse back into the same number of blocks.
+ */
+export function getBlockLines(
+  editor: Editor,
+  markdown: string
+): BlockLines[] | null {
+  const { doc } = editor.state;
+  const cached = blockLinesCache.get(doc);
+  if (cached?.markdown === markdown) {
+    return cached.blockLines;
+  }
+  let blockLines: BlockLines[] | null = null;
+  const parsed = parseBlocks(editor, markdown);
+  if (parsed?.nodes.length === doc.childCount) {
+    blockLines = [];
+    let index = 0;
+    let pos = 0;
+    for (const { lines, nodeCount } of parsed.blocks) {
+      if (nodeCount === 0) continue;
+      const from = pos;
+      for (let i = 0; i < nodeCount; i++) {
+        pos += doc.child(index++).nodeSize;
+      }
+      blockLines.push({ from, to: pos, lines });
+    }
+  }
+  blockLinesCache.set(doc, { markdown, blockLines });
+  return blockLines;
+}
+
+/**
+ * Serializes the editor document, writing untouched blocks exactly as they
+ * were loaded. Without a source map this is tiptap-markdown's output.
+ */
+export function getSourcePreservingMarkdown(editor: Editor): string {
+  const markdownStorage = editor.storage.markdown as MarkdownRuntimeStorage;
+  const sourceMap = getSourceMap(editor);
+  if (!sourceMap) {
+    return markdownStorage.getMarkdown();
+  }
+  const { doc, schema } = editor.state;
+  const { editorOnlyMarks } = editor.storage.sourcePreservingMarkdown;
+  return serializeWithSourceMap(
+    doc,
+    sourceMap,
+    (nodes) =>
+      markdownStorage.serializer.serialize(schema.topNodeType.create(null, nodes)),
+    editorOnlyMarks
+  );
+}
+
+export const SourcePreservingMarkdown = Extension.create<SourcePreservingMarkdownOptions>({
+  name: "sourcePreservingMarkdown",
+
+  addOptions() {
+    return {
+      editorOnlyMarks: [],
+    };
+  },
+
+  addStorage() {
+    return {
+      editorOnlyMarks: new Set<string>(this.options.editorOnlyMarks),
+      // Picked up by tiptap-markdown, which runs `setup` before every parse
+      markdown: {
+        parse: {
+          setup(markdownit: MarkdownIt) {
+            if (patchedInstances.has(markdownit)) return;
+            patchedInstances.add(markdownit);
+            markdownit.core.ruler.push(RULE_NAME, (state) => {
+              wrapTopLevelBlocks(state);
+              return true;
+            });
+          },
+        },
+      },
+    };
+  },
+
+  onDestroy() {
+    sourceMaps.delete(this.editor);
+  },
+
+  addCommands() {
+    return {
+      setMarkdown:
+        (markdown, emitUpdate = false) =>
+        ({ commands, editor, tr }) => {
+          const parsed = parseBlocks(editor, markdown);
+          if (!parsed) {
+            sourceMaps.set(editor, null);
+            return commands.setContent(markdown, emitUpdate);
+          }
+
+          const doc = editor.schema.topNodeType.createAndFill(
+            null,
+            parsed.nodes
+          );
+          if (!doc) {
+            sourceMaps.set(editor, null);
+            return commands.setContent(markdown, emitUpdate);
+          }
+          const result = commands.setContent(doc.toJSON(), emitUpdate);
+
+          // setContent rebuilt the nodes; map blocks onto the new ones
+          const newNodes: ProseMirrorNode[] = [];
+          tr.doc.forEach((node) => newNodes.push(node));
+          sourceMaps.set(
+            editor,
+            newNodes.length === parsed.nodes.length
+              ? createSourceMap(markdown, parsed.blocks, newNodes)
+              : null
+          );
+          return result;
+        },
+
+      updateMarkdown:
+        (markdown) =>
+        ({ commands, editor, tr, dispatch }) => {
+          const parsed = parseBlocks(editor, markdown);
+          const next =
+            parsed && editor.schema.topNodeType.createAndFill(null, parsed.nodes);
+          if (!parsed || !next) {
+            sourceMaps.set(editor, null);
+            return commands.setContent(markdown, true);
+          }
+          if (!dispatch) {
+            return true;
+          }
+
+          // Skip the blocks that are the same at both ends
+          const current = tr.doc;
+          const { editorOnlyMarks } = editor.storage.sourcePreservingMarkdown;
+          const same = (currentIndex: number, nextIndex: number) =>
+            nodeMatches(
+              current.child(currentIndex),
+              next.child(nextIndex),
+              editorOnlyMarks
+            );
+          let start = 0;
+          while (
+            start < current.childCount &&
+            start < next.childCount &&
+            same(start, start)
+          ) {
+            start++;
+          }
+          let currentEnd = current.childCount;
+          let nextEnd = next.childCount;
+          while (
+            currentEnd > start &&
+            nextEnd > start &&
+            same(currentEnd - 1, nextEnd - 1)
+          ) {
+            currentEnd--;
+            nextEnd--;
+          }
+
+          if (start < currentEnd || start < nextEnd) {
+            let from = 0;
+            for (let i = 0; i < start; i++) from += current.child(i).nodeSize;
+            let to = from;
+            for (let i = start; i < currentEnd; i++) to += current.child(i).nodeSize;
+            const nodes: ProseMirrorNode[] = [];
+            for (let i = start; i < nextEnd; i++) nodes.push(next.child(i));
+            tr.replaceWith(from, to, nodes);
+          }
+
+          // The kept nodes are the current ones, so map blocks onto tr.doc
+          const newNodes: ProseMirrorNode[] = [];
+          tr.doc.forEach((node) => newNodes.push(node));
+          sourceMaps.set(
+            editor,
+            newNodes.length === parsed.nodes.length
+              ? createSourceMap(markdown, parsed.blocks, newNodes)
+              : null
+          );
+          return true;
+        },
+    };
+  },
+});
@@ -0,0 +1,206 @@
+// src/editor/math/math.ts
+import { InputRule, mergeAttributes, Node } from "@tiptap/core";
+import { NodeSelection } from "@tiptap/pm/state";
+import { ReactNodeViewRenderer } from "@tiptap/react";
+import type { MarkdownNodeSpec } from "../markdown/markdownSpec";
+import {
+  MATH_BLOCK_ATTRIBUTE,
+  MATH_INLINE_ATTRIBUTE,
+  parseMathSyntax,
+} from "./mathSyntax";
+import MathView, { MathEditKey } from "./mathView";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    mathInline: {
+      /**
+       * Insert an inline formula; without `latex`, the selected text
+       * becomes its source
+       */
+      setMathInline: (latex?: string) => ReturnType;
+      /** Open the source editor of the selected formula, inline or block */
+      editMath: () => ReturnType;
+    };
+    mathBlock: {
+      setMathBlock: (latex?: string) => ReturnType;
+    };
+  }
+}
+
+// "$x^2$" just typed, not preceded by another $ or a backslash
+const INLINE_INPUT = /(?:^|[^$\\])(\$([^\s$](?:[^$]*[^\s$])?)\$)$/;
+// "$$ " at the start of a paragraph
+const BLOCK_INPUT = /^\$\$\s$/;
+
+// The source lives in an attribute; the element's text is only a copy for
+// clipboard HTML and the Markdown parser's output
+const latexAttribute = {
+  latex: {
+    default: "",
+    parseHTML: (element: HTMLElement) => element.textContent ?? "",
+    renderHTML: () => ({}),
+  },
+};
+
+/** Inline formula, saved as `$...$` (or $`...`$ when the source has a `$`). */
+export const MathInline = Node.create({
+  name: "mathInline",
+  group: "inline",
+  inline: true,
+  atom: true,
+
+  addAttributes() {
+    return latexAttribute;
+  },
+
+  parseHTML() {
+    return [{ tag: `span[${MATH_INLINE_ATTRIBUTE}]` }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      "span",
+      mergeAttributes({ [MATH_INLINE_ATTRIBUTE]: "" }, HTMLAttributes),
+      node.attrs.latex,
+    ];
+  },
+
+  addStorage() {
+    const markdown: MarkdownNodeSpec = {
+      serialize(state, node) {
+        const latex: string = node.attrs.latex;
+        if (!latex) return;
+        state.write(
+          /\$|^\s|\s$/.test(latex) ? `$\`${latex}\`$` : `$${latex}$`
+        );
+      },
+      parse: {
+        setup(markdownit) {
+          parseMathSyntax(markdownit);
+        },
+      },
+    };
+    return { markdown };
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MathView);
+  },
+
+  addCommands() {
+    return {
+      setMathInline:
+        (latex) =>
+        ({ state, commands }) => {
+          const { from, to } = state.selection;
+          return commands.insertContent({
+            type: this.name,
+            attrs: { latex: latex ?? state.doc.textBetween(from, to, " ") },
+          });
+        },
+      editMath:
+        () =>
+        ({ state, tr, dispatch }) => {
+          const { selection } = state;
+          if (
+            !(selection instanceof NodeSelection) ||
+            !["mathInline", "mathBlock"].includes(selection.node.type.name)
+          ) {
+            return false;
+          }
+          dispatch?.(tr.setMeta(MathEditKey, selection.from));
+          return true;
+        },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    // Covers selected block formulas too
+    return { Enter: () => this.editor.commands.editMath() };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: INLINE_INPUT,
+        handler: ({ state, range, match }) => {
+          // The closing $ was just typed, so it is not in the document yet
+          const start = range.to - (match[1].length - 1);
+          state.tr.replaceWith(
+            start,
+            range.to,
+            this.type.create({ latex: match[2] })
+          );
+        },
+      }),
+    ];
+  },
+});
+
+/** Display formula, saved as a `$$` block. */
+export const MathBlock = Node.create({
+  name: "mathBlock",
+  group: "block",
+  atom: true,
+
+  addAttributes() {
+    return latexAttribute;
+  },
+
+  parseHTML() {
+    return [{ tag: `div[${MATH_BLOCK_ATTRIBUTE}]` }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      "div",
+      mergeAttributes({ [MATH_BLOCK_ATTRIBUTE]: "" }, HTMLAttributes),
+      node.attrs.latex,
+    ];
+  },
+
+  addStorage() {
+    const markdown: MarkdownNodeSpec = {
+      serialize(state, node) {
+        state.write("$$");
+        state.ensureNewLine();
+        if (node.attrs.latex) {
+          state.text(node.attrs.latex, false);
+          state.ensureNewLine();
+        }
+        state.write("$$");
+        state.closeBlock(node);
+      },
+      parse: {
+        setup(markdownit) {
+          parseMathSyntax(markdownit);
+        },
+      },
+    };
+    return { markdown };
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MathView);
+  },
+
+  addCommands() {
+    return {
+      setMathBlock:
+        (latex = "") =>
+        ({ commands }) =>
+          commands.insertContent({ type: this.name, attrs: { latex } }),
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: BLOCK_INPUT,
+        handler: ({ range, chain }) => {
+          chain().deleteRange(range).setMathBlock().run();
+        },
+      }),
+    ];
+  },
+});
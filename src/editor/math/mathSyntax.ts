@@ -0,0 +1,132 @@
+// src/editor/math/mathSyntax.ts
+// markdown-it rules for GitHub's math syntax: `$x^2$` or $`x^2`$ inline,
+// and `$$ ... $$` blocks. They emit the elements the math nodes parse.
+import type MarkdownIt from "markdown-it";
+
+type InlineRule = Parameters<MarkdownIt["inline"]["ruler"]["after"]>[2];
+type BlockRule = Parameters<MarkdownIt["block"]["ruler"]["before"]>[2];
+
+export const MATH_INLINE_ATTRIBUTE = "data-math-inline";
+export const MATH_BLOCK_ATTRIBUTE = "data-math-block";
+
+const DOLLAR = 0x24;
+
+const patchedInstances = new WeakSet<MarkdownIt>();
+
+/**
+ * `$...$` where the opening `$` is not followed by a space and the next `$`
+ * is neither preceded by a space nor followed by a digit, so prices like
+ * "$5 and $10" stay text.
+ */
+const mathInline: InlineRule = (state, silent) => {
+  const { src, pos, posMax } = state;
+  if (src.charCodeAt(pos) !== DOLLAR) {
+    return false;
+  }
+
+  let latex: string;
+  let end: number;
+  if (src[pos + 1] === "`") {
+    const close = src.indexOf("`$", pos + 2);
+    if (close === -1 || close + 2 > posMax) return false;
+    latex = src.slice(pos + 2, close);
+    end = close + 2;
+  } else {
+    if (pos + 1 >= posMax || /[\s$]/.test(src[pos + 1])) return false;
+    let close = src.indexOf("$", pos + 1);
+    while (close !== -1 && src[close - 1] === "\\") {
+      close = src.indexOf("$", close + 1); // \$ is a literal dollar
+    }
+    if (
+      close === -1 ||
+      close >= posMax ||
+      /\s/.test(src[close - 1]) ||
+      /\d/.test(src[close + 1] ?? "")
+    ) {
+      return false;
+    }
+    latex = src.slice(pos + 1, close);
+    end = close + 1;
+  }
+
+  if (!silent) {
+    const token = state.push("math_inline", "span", 0);
+    token.content = latex;
+    token.markup = "$";
+  }
+  state.pos = end;
+  return true;
+};
+
+/** `$$` on a line of its own (or `$$ x $$` on one line) up to the next `$$`. */
+const mathBlock: BlockRule = (state, startLine, endLine, silent) => {
+  const start = state.bMarks[startLine] + state.tShift[startLine];
+  if (
+    state.sCount[startLine] - state.blkIndent >= 4 ||
+    !state.src.startsWith("$$", start)
+  ) {
+    return false;
+  }
+
+  const firstLine = state.src.slice(start + 2, state.eMarks[startLine]).trim();
+  let latex: string;
+  let closeLine = startLine;
+  if (firstLine.length >= 2 && firstLine.endsWith("$$")) {
+    latex = firstLine.slice(0, -2).trim();
+  } else {
+    const lines = firstLine ? [firstLine] : [];
+    let closed = false;
+    while (++closeLine < endLine) {
+      const lineStart = state.bMarks[closeLine] + state.tShift[closeLine];
+      if (
+        state.sCount[closeLine] < state.blkIndent &&
+        lineStart < state.eMarks[closeLine]
+      ) {
+        break; // Less indented than the list or quote holding the formula
+      }
+      const line = state.getLines(closeLine, closeLine + 1, state.blkIndent, false);
+      const trimmed = line.trimEnd();
+      if (trimmed.endsWith("$$")) {
+        const rest = trimmed.slice(0, -2);
+        if (rest.trim()) lines.push(rest);
+        closed = true;
+        break;
+      }
+      lines.push(line);
+    }
+    if (!closed) {
+      return false;
+    }
+    latex = lines.join("\n");
+  }
+
+  if (silent) {
+    return true;
+  }
+  const token = state.push("math_block", "div", 0);
+  token.block = true;
+  token.content = latex;
+  token.markup = "$$";
+  token.map = [startLine, closeLine + 1];
+  state.line = closeLine + 1;
+  return true;
+};
+
+/**
+ * Adds the math rules to `markdownit`, rendering formulas as
+ * `<span data-math-inline>` / `<div data-math-block>` holding the source.
+ */
+export function parseMathSyntax(markdownit: MarkdownIt) {
+  if (patchedInstances.has(markdownit)) return;
+  patchedInstances.add(markdownit);
+
+  const { escapeHtml } = markdownit.utils;
+  markdownit.inline.ruler.after("escape", "math_inline", mathInline);
+  markdownit.block.ruler.before("fence", "math_block", mathBlock, {
+    alt: ["paragraph", "reference", "blockquote", "list"],
+  });
+  markdownit.renderer.rules.math_inline = (tokens, index) =>
+    `<span ${MATH_INLINE_ATTRIBUTE}>${escapeHtml(tokens[index].content)}</span>`;
+  markdownit.renderer.rules.math_block = (tokens, index) =>
+    `<div ${MATH_BLOCK_ATTRIBUTE}>${escapeHtml(tokens[index].content)}</div>\n`;
+}
@@ -0,0 +1,178 @@
+// src/editor/math/mathView.tsx
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { NodeViewWrapper, type NodeViewProps } from "@tiptap/react";
+import { PluginKey, Selection } from "@tiptap/pm/state";
+import type { Transaction } from "@tiptap/pm/state";
+import katex from "katex";
+import "katex/dist/katex.min.css";
+import "./mathStyles.css";
+
+// Transactions with this meta (a formula's position) open that formula's
+// source editor; see the editMath command
+export const MathEditKey = new PluginKey("mathEdit");
+
+function renderLatex(latex: string, displayMode: boolean) {
+  try {
+    return {
+      html: katex.renderToString(latex, { displayMode, throwOnError: true }),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      html: "",
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Inline and block formulas: KaTeX output that turns into a source field on
+ * click (or Enter while selected), with a live preview while editing.
+ * Escape, Enter (Mod-Enter for blocks) or leaving the field closes it; an
+ * empty formula is removed when it closes.
+ */
+const MathView: React.FC<NodeViewProps> = ({
+  node,
+  editor,
+  getPos,
+  updateAttributes,
+  selected,
+}) => {
+  const isBlock = node.type.name === "mathBlock";
+  const latex: string = node.attrs.latex;
+  // Formulas inserted empty (/math, "$$ ") open straight into their source
+  const [isEditing, setIsEditing] = useState(() => !latex && editor.isEditable);
+  // Escape unmounts the field, which can also fire its blur; only close once
+  const isEditingRef = useRef(isEditing);
+  const sourceRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+  const rendered = useMemo(() => renderLatex(latex, isBlock), [latex, isBlock]);
+
+  const startEditing = useCallback(() => {
+    isEditingRef.current = true;
+    setIsEditing(true);
+  }, []);
+
+  // Not autoFocus: a new node view renders before ProseMirror attaches it
+  useEffect(() => {
+    if (!isEditing) {
+      return;
+    }
+    const frame = requestAnimationFrame(() => sourceRef.current?.focus());
+    return () => cancelAnimationFrame(frame);
+  }, [isEditing]);
+
+  useEffect(() => {
+    const onTransaction = ({ transaction }: { transaction: Transaction }) => {
+      const pos = transaction.getMeta(MathEditKey);
+      if (pos !== undefined && pos === getPos()) {
+        startEditing();
+      }
+    };
+    editor.on("transaction", onTransaction);
+    return () => {
+      editor.off("transaction", onTransaction);
+    };
+  }, [editor, getPos, startEditing]);
+
+  /** Closes the source field, putting the cursor after the formula when asked. */
+  const finishEditing = useCallback(
+    (moveCursor: boolean) => {
+      if (!isEditingRef.current) {
+        return;
+      }
+      isEditingRef.current = false;
+      setIsEditing(false);
+      const pos = getPos();
+      if (typeof pos !== "number") {
+        return;
+      }
+      const chain = moveCursor ? editor.chain().focus() : editor.chain();
+      if (!latex.trim()) {
+        chain.deleteRange({ from: pos, to: pos + node.nodeSize }).run();
+      } else if (moveCursor) {
+        chain
+          .command(({ tr }) => {
+            tr.setSelection(Selection.near(tr.doc.resolve(pos + node.nodeSize)));
+            return true;
+          })
+          .run();
+      }
+    },
+    [editor, getPos, latex, node.nodeSize]
+  );
+
+  const handleKeyDown = (
+    event: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    const isSubmit =
+      event.key === "Enter" && (!isBlock || event.metaKey || event.ctrlKey);
+    if (event.key === "Escape" || isSubmit) {
+      event.preventDefault();
+      finishEditing(true);
+    }
+  };
+
+  const preview = rendered.error ? (
+    <span className="math-error" title={rendered.error}>
+      {rendered.error}
+    </span>
+  ) : latex ? (
+    <span dangerouslySetInnerHTML={{ __html: rendered.html }} />
+  ) : (
+    <span className="math-empty">{isBlock ? "empty formula" : "formula"}</span>
+  );
+
+  const className = [
+    isBlock ? "math-block" : "math-inline",
+    isEditing ? "editing" : "",
+    selected ? "selected" : "",
+  ].join(" ");
+
+  return (
+    <NodeViewWrapper as={isBlock ? "div" : "span"} className={className}>
+      {isEditing ? (
+        <>
+          {isBlock ? (
+            <textarea
+              className="math-source"
+              ref={sourceRef}
+              value={latex}
+              spellCheck={false}
+              rows={Math.max(2, latex.split("\n").length)}
+              placeholder="LaTeX, e.g. E = mc^2 (Ctrl+Enter to finish)"
+              onChange={(event) => updateAttributes({ latex: event.target.value })}
+              onKeyDown={handleKeyDown}
+              onBlur={() => finishEditing(false)}
+            />
+          ) : (
+            <input
+              className="math-source"
+              ref={sourceRef}
+              value={latex}
+              spellCheck={false}
+              size={Math.max(latex.length, 8)}
+              placeholder="LaTeX"
+              onChange={(event) => updateAttributes({ latex: event.target.value })}
+              onKeyDown={handleKeyDown}
+              onBlur={() => finishEditing(false)}
+            />
+          )}
+          <span className="math-preview" contentEditable={false}>
+            {preview}
+          </span>
+        </>
+      ) : (
+        <span
+          className="math-rendered"
+          contentEditable={false}
+          title={editor.isEditable ? "Click to edit" : undefined}
+          onClick={() => editor.isEditable && startEditing()}
+        >
+          {preview}
+        </span>
+      )}
+    </NodeViewWrapper>
+  );
+};
+
+export default MathView;
@@ -0,0 +1,74 @@
+// src/editor/search/search.test.ts
+import { afterEach, describe, expect, it } from "vitest";
+import type { Editor } from "@tiptap/core";
+import type { SearchOptions } from "../../services/search/searchPattern";
+import { loadMarkdown } from "../../test/createTestEditor";
+import { getSearchState } from "./search";
+
+const REGEX: Partial<SearchOptions> = { regex: true, caseSensitive: true };
+
+/** The document as tiptap-markdown writes it, ignoring the source map. */
+function serialize(editor: Editor): string {
+  return editor.storage.markdown.getMarkdown();
+}
+
+describe("find and replace", () => {
+  let editor: Editor | null = null;
+
+  afterEach(() => {
+    editor?.destroy();
+    editor = null;
+  });
+
+  it("replaces lookaround matches using the text around them", () => {
+    editor = loadMarkdown("foobar foobaz\n\nab cb");
+    editor.commands.openSearch("foo(?=bar)", REGEX);
+    editor.commands.replaceAllMatches("X");
+    editor.commands.setSearchQuery("(?<=a)b");
+    editor.commands.replaceAllMatches("Z");
+    expect(serialize(editor)).toBe("Xbar foobaz\n\naZ cb");
+  });
+
+  it("expands captures of each match", () => {
+    editor = loadMarkdown("Doe, John\n\nRoe, Jane");
+    editor.commands.openSearch("^(\\w+), (?<first>\\w+)$", REGEX);
+    editor.commands.replaceAllMatches("$<first> $1");
+    expect(serialize(editor)).toBe("John Doe\n\nJane Roe");
+  });
+
+  it("replaces one match at a time and moves on", () => {
+    editor = loadMarkdown("Cat cat CAT");
+    editor.commands.openSearch("(c)at", { regex: true, caseSensitive: false });
+    expect(getSearchState(editor.state)?.matches).toHaveLength(3);
+
+    editor.commands.replaceMatch("$1og");
+    expect(serialize(editor)).toBe("Cog cat CAT");
+    editor.commands.replaceMatch("$1og");
+    expect(serialize(editor)).toBe("Cog cog CAT");
+    expect(getSearchState(editor.state)?.current).toBe(0);
+    expect(editor.state.doc.textBetween(editor.state.selection.from, editor.state.selection.to)).toBe(
+      "CAT"
+    );
+  });
+
+  it("leaves matches spanning wiki-links and formulas alone", () => {
+    editor = loadMarkdown("see [[Other page]] here\n\nsum $x+y$ here\n\nplain text here");
+    editor.commands.openSearch("\\w+ \\S+ here", REGEX);
+    expect(getSearchState(editor.state)?.matches).toHaveLength(3);
+
+    editor.commands.replaceAllMatches("gone");
+    expect(serialize(editor)).toBe("see [[Other page]] here\n\nsum $x+y$ here\n\ngone");
+  });
+
+  it("skips a current match spanning an inline node without deleting it", () => {
+    editor = loadMarkdown("see [[Other page]] here, see this here");
+    editor.commands.openSearch("see \\S+ here", REGEX);
+    expect(getSearchState(editor.state)?.current).toBe(0);
+
+    editor.commands.replaceMatch("gone");
+    expect(serialize(editor)).toBe("see [[Other page]] here, see this here");
+    expect(getSearchState(editor.state)?.current).toBe(1);
+    editor.commands.replaceMatch("gone");
+    expect(serialize(editor)).toBe("see [[Other page]] here, gone");
+  });
+});
@@ -0,0 +1,409 @@
+// src/editor/search/search.ts
+// Find and replace inside the open document. The plugin state holds the
+// query and every match; matches are drawn as inline decorations and the
+// find bar (components/findBar) reads and drives the state through the
+// commands below.
+import { Extension } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import {
+  Plugin,
+  PluginKey,
+  TextSelection,
+  type EditorState,
+  type Transaction,
+} from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import {
+  createSearchPattern,
+  DEFAULT_SEARCH_OPTIONS,
+  expandReplacement,
+  findMatches,
+  SearchQueryError,
+  type PatternMatch,
+  type SearchOptions,
+} from "../../services/search/searchPattern";
+import "./searchStyles.css";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    search: {
+      /**
+       * Open the find bar. Without a query, the selected text (or the last
+       * query) is searched for.
+       */
+      openSearch: (query?: string, options?: Partial<SearchOptions>) => ReturnType;
+      closeSearch: () => ReturnType;
+      setSearchQuery: (query: string) => ReturnType;
+      setSearchOptions: (options: Partial<SearchOptions>) => ReturnType;
+      findNext: () => ReturnType;
+      findPrevious: () => ReturnType;
+      /**
+       * Replace the current match and move on to the next one. A match
+       * spanning a formula or wiki-link is skipped rather than deleting it.
+       */
+      replaceMatch: (replacement: string) => ReturnType;
+      /** Replace every match except those spanning formulas or wiki-links */
+      replaceAllMatches: (replacement: string) => ReturnType;
+    };
+  }
+}
+
+export interface SearchState {
+  open: boolean;
+  query: string;
+  options: SearchOptions;
+  matches: PatternMatch[]; // Document positions
+  current: number; // Index into matches; -1 when there are none
+  error: string | null; // Why a regex query does not compile
+  focusRequest: number; // Bumped by openSearch so the find bar takes focus
+  decorations: DecorationSet;
+}
+
+type SearchPatch = Partial<
+  Pick<SearchState, "open" | "query" | "options" | "current" | "focusRequest">
+>;
+
+export const SearchPluginKey = new PluginKey<SearchState>("search");
+
+// Highlighting stops here; a one-letter query in a book would otherwise
+// decorate the whole document
+const MAX_MATCHES = 1000;
+// Stands in for inline nodes (formulas, wiki-links) so matches cannot span them
+const OBJECT_REPLACEMENT = "\uFFFC";
+
+export function getSearchState(state: EditorState): SearchState | undefined {
+  return SearchPluginKey.getState(state);
+}
+
+/** Matches of the query in every textblock, in document order. */
+function findDocumentMatches(
+  doc: ProseMirrorNode,
+  query: string,
+  options: SearchOptions
+): { matches: PatternMatch[]; error: string | null } {
+  if (!query) {
+    return { matches: [], error: null };
+  }
+  let pattern: RegExp;
+  try {
+    pattern = createSearchPattern(query, options);
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return { matches: [], error: error.message };
+    }
+    throw error;
+  }
+
+  const matches: PatternMatch[] = [];
+  doc.descendants((node, pos) => {
+    if (matches.length >= MAX_MATCHES) {
+      return false;
+    }
+    if (!node.isTextblock) {
+      return true;
+    }
+    // One character per position, so offsets map straight back to the doc
+    let text = "";
+    node.forEach((child) => {
+      text += child.isText
+        ? child.text
+        : OBJECT_REPLACEMENT.repeat(child.nodeSize);
+    });
+    findMatches(text, pattern, MAX_MATCHES - matches.length).forEach((match) =>
+      matches.push({ ...match, from: pos + 1 + match.from, to: pos + 1 + match.to })
+    );
+    return false;
+  });
+  return { matches, error: null };
+}
+
+/**
+ * Whether `match` covers an inline node such as a formula or wiki-link,
+ * which replacing its text would delete along with it.
+ */
+function spansInlineNode(doc: ProseMirrorNode, match: PatternMatch): boolean {
+  let spans = false;
+  doc.nodesBetween(match.from, match.to, (node) => {
+    spans ||= node.isInline && !node.isText;
+    return !spans;
+  });
+  return spans;
+}
+
+/** Replaces `match` with `replacement`, expanded against its captures. */
+function replaceText(
+  tr: Transaction,
+  match: PatternMatch,
+  options: SearchOptions,
+  replacement: string
+) {
+  const text = expandReplacement(match.captures, options, replacement);
+  if (text) {
+    tr.insertText(text, match.from, match.to);
+  } else {
+    tr.delete(match.from, match.to);
+  }
+}
+
+function buildDecorations(
+  doc: ProseMirrorNode,
+  matches: PatternMatch[],
+  current: number
+): DecorationSet {
+  return DecorationSet.create(
+    doc,
+    matches.map((match, index) =>
+      Decoration.inline(match.from, match.to, {
+        class: index === current ? "search-match current" : "search-match",
+      })
+    )
+  );
+}
+
+/** The first match at or after `pos`, wrapping around to the first one. */
+function matchIndexFrom(matches: PatternMatch[], pos: number): number {
+  if (matches.length === 0) {
+    return -1;
+  }
+  const index = matches.findIndex((match) => match.from >= pos);
+  return index === -1 ? 0 : index;
+}
+
+function applySearch(
+  tr: Transaction,
+  value: SearchState,
+  patch: SearchPatch | undefined
+): SearchState {
+  const next = { ...value, ...patch };
+  const queryChanged =
+    next.query !== value.query ||
+    next.options !== value.options ||
+    next.open !== value.open;
+  if (!queryChanged && !tr.docChanged) {
+    return next.current === value.current
+      ? next
+      : { ...next, decorations: buildDecorations(tr.doc, next.matches, next.current) };
+  }
+
+  const { matches, error } = next.open
+    ? findDocumentMatches(tr.doc, next.query, next.options)
+    : { matches: [], error: null };
+  let current: number;
+  if (patch?.current !== undefined) {
+    current = Math.min(patch.current, matches.length - 1);
+  } else if (queryChanged) {
+    current = matchIndexFrom(matches, tr.selection.from);
+  } else {
+    // Edits keep the position in the list, so replacing moves to the next match
+    current = Math.min(Math.max(value.current, 0), matches.length - 1);
+  }
+  return {
+    ...next,
+    matches,
+    error,
+    current,
+    decorations: buildDecorations(tr.doc, matches, current),
+  };
+}
+
+/** Selects match `index` and scrolls it into view, along with `patch`. */
+function revealMatch(
+  tr: Transaction,
+  matches: PatternMatch[],
+  index: number,
+  patch: SearchPatch = {}
+): Transaction {
+  tr.setMeta(SearchPluginKey, { ...patch, current: index });
+  const match = matches[index];
+  if (match) {
+    tr.setSelection(TextSelection.create(tr.doc, match.from, match.to));
+    tr.scrollIntoView();
+  }
+  return tr;
+}
+
+/**
+ * Searches with `patch` applied (a new query, options, or opening the bar)
+ * and reveals the first match from the cursor on, like typing in a find
+ * field does in most editors.
+ */
+function revealSearch(
+  state: EditorState,
+  tr: Transaction,
+  search: SearchState,
+  patch: SearchPatch
+): Transaction {
+  const { matches } = findDocumentMatches(
+    state.doc,
+    patch.query ?? search.query,
+    patch.options ?? search.options
+  );
+  return revealMatch(tr, matches, matchIndexFrom(matches, state.selection.from), patch);
+}
+
+export const Search = Extension.create({
+  name: "search",
+
+  addCommands() {
+    return {
+      openSearch:
+        (query, options) =>
+        ({ state, tr, dispatch }) => {
+          const search = getSearchState(state);
+          if (!search) {
+            return false;
+          }
+          const { from, to } = state.selection;
+          const selected = state.doc.textBetween(from, to, " ");
+          const nextQuery =
+            query ?? (selected && !selected.includes("\n") ? selected : search.query);
+          if (dispatch) {
+            revealSearch(state, tr, search, {
+              open: true,
+              query: nextQuery,
+              options: { ...search.options, ...options },
+              focusRequest: search.focusRequest + 1,
+            });
+          }
+          return true;
+        },
+
+      closeSearch:
+        () =>
+        ({ state, tr, dispatch }) => {
+          if (!getSearchState(state)?.open) {
+            return false;
+          }
+          dispatch?.(tr.setMeta(SearchPluginKey, { open: false }));
+          return true;
+        },
+
+      setSearchQuery:
+        (query) =>
+        ({ state, tr, dispatch }) => {
+          const search = getSearchState(state);
+          if (!search) {
+            return false;
+          }
+          dispatch?.(revealSearch(state, tr, search, { query }));
+          return true;
+        },
+
+      setSearchOptions:
+        (options) =>
+        ({ state, tr, dispatch }) => {
+          const search = getSearchState(state);
+          if (!search) {
+            return false;
+          }
+          dispatch?.(
+            revealSearch(state, tr, search, {
+              options: { ...search.options, ...options },
+            })
+          );
+          return true;
+        },
+
+      findNext:
+        () =>
+        ({ state, tr, dispatch }) => {
+          const search = getSearchState(state);
+          if (!search?.open || search.matches.length === 0) {
+            return false;
+          }
+          const index = (search.current + 1) % search.matches.length;
+          dispatch?.(revealMatch(tr, search.matches, index));
+          return true;
+        },
+
+      findPrevious:
+        () =>
+        ({ state, tr, dispatch }) => {
+          const search = getSearchState(state);
+          if (!search?.open || search.matches.length === 0) {
+            return false;
+          }
+          const { length } = search.matches;
+          const index = (search.current - 1 + length) % length;
+          dispatch?.(revealMatch(tr, search.matches, index));
+          return true;
+        },
+
+      replaceMatch:
+        (replacement) =>
+        ({ state, tr, dispatch }) => {
+          const search = getSearchState(state);
+          const match = search?.matches[search.current];
+          if (!search || !match) {
+            return false;
+          }
+          if (dispatch) {
+            if (spansInlineNode(state.doc, match)) {
+              // Leave it as is and move on, as findNext does
+              const index = (search.current + 1) % search.matches.length;
+              dispatch(revealMatch(tr, search.matches, index));
+              return true;
+            }
+            replaceText(tr, match, search.options, replacement);
+            // The next match now has the replaced one's index
+            const { matches } = findDocumentMatches(tr.doc, search.query, search.options);
+            const index = matchIndexFrom(matches, tr.mapping.map(match.to));
+            dispatch(revealMatch(tr, matches, index));
+          }
+          return true;
+        },
+
+      replaceAllMatches:
+        (replacement) =>
+        ({ state, tr, dispatch }) => {
+          const search = getSearchState(state);
+          if (!search || search.matches.length === 0) {
+            return false;
+          }
+          if (dispatch) {
+            // Back to front, so earlier positions stay valid
+            [...search.matches].reverse().forEach((match) => {
+              if (!spansInlineNode(state.doc, match)) {
+                replaceText(tr, match, search.options, replacement);
+              }
+            });
+            dispatch(tr);
+          }
+          return true;
+        },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      "Mod-f": () => this.editor.commands.openSearch(),
+      "Mod-g": () => this.editor.commands.findNext(),
+      "Shift-Mod-g": () => this.editor.commands.findPrevious(),
+      Escape: () => this.editor.commands.closeSearch(),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<SearchState>({
+        key: SearchPluginKey,
+        state: {
+          init: (_, { doc }) => ({
+            open: false,
+            query: "",
+            options: DEFAULT_SEARCH_OPTIONS,
+            matches: [],
+            current: -1,
+            error: null,
+            focusRequest: 0,
+            decorations: DecorationSet.create(doc, []),
+          }),
+          apply: (tr, value) => applySearch(tr, value, tr.getMeta(SearchPluginKey)),
+        },
+        props: {
+          decorations: (state) => getSearchState(state)?.decorations,
+        },
+      }),
+    ];
+  },
+});
@@ -2,6 +2,21 @@
 import { Editor, Range } from "@tiptap/core";
 import type { SuggestionProps } from "@tiptap/suggestion";
 import { JSX } from "react";
+import { MERMAID_LANGUAGE, normalizeLanguage } from "../codeBlock/languages";
+import { chooseFiles } from "../assets/assetUpload";
+
+// Menu sections, in the order the menu shows them
+export const SLASH_COMMAND_CATEGORIES = [
+  "Basic blocks",
+  "Media",
+  "Advanced",
+  "Inline",
+] as const;
+
+export type SlashCommandCategory = (typeof SLASH_COMMAND_CATEGORIES)[number];
+
+export const DEFAULT_SLASH_COMMAND_CATEGORY: SlashCommandCategory =
+  "Basic blocks";
 
 // Define the structure for a command item
 export interface SlashCommandItem {
@@ -9,8 +24,21 @@ export interface SlashCommandItem {
   title: string;
   aliases?: string[];
   description?: string;
+  category?: SlashCommandCategory; // Defaults to "Basic blocks"
   icon?: JSX.Element;
-  command: ({ editor, range }: { editor: Editor; range: Range }) => void;
+  // Converts the block holding the cursor; the block menu offers these
+  // under "turn into"
+  turnInto?: boolean;
+  // `args` is whatever was typed after the command name, e.g. "ts" in "/code ts"
+  command: ({
+    editor,
+    range,
+    args,
+  }: {
+    editor: Editor;
+    range: Range;
+    args?: string;
+  }) => void;
 }
 
 // This type defines the props our SlashCommandMenu component will receive.
@@ -19,10 +47,23 @@ export interface SlashCommandMenuComponentProps
   onClose: () => void; // Callback to signal the menu should be closed
 }
 
-// Define our initial set of slash commands
+/**
+ * Splits a slash query such as "code ts" into the command name used for
+ * filtering ("code") and the argument passed to the command ("ts").
+ */
+export function parseSlashQuery(query: string): { name: string; args: string } {
+  const [name, ...args] = query.trim().split(/\s+/);
+  return { name: name ?? "", args: args.join(" ") };
+}
+
+// Starting point for /diagram, so the preview has something to show
+const DIAGRAM_TEMPLATE = "flowchart TD\n  A[Start] --> B[End]";
+
+// Built-in commands; register more at runtime through slashCommandRegistry
 export const slashCommands: SlashCommandItem[] = [
   {
     id: "heading1",
+    turnInto: true,
     title: "Heading 1",
     aliases: ["h1"],
     description: "Large section heading",
@@ -32,6 +73,7 @@ export const slashCommands: SlashCommandItem[] = [
   },
   {
     id: "heading2",
+    turnInto: true,
     title: "Heading 2",
     aliases: ["h2"],
     description: "Medium section heading",
@@ -41,6 +83,7 @@ export const slashCommands: SlashCommandItem[] = [
   },
   {
     id: "heading3",
+    turnInto: true,
     title: "Heading 3",
     aliases: ["h3"],
     description: "Small section heading",
@@ -50,6 +93,7 @@ export const slashCommands: SlashCommandItem[] = [
   },
   {
     id: "bulletList",
+    turnInto: true,
     title: "Bulleted list",
     aliases: ["ul", "list"],
     description: "Create a simple bulleted list",
@@ -59,6 +103,7 @@ export const slashCommands: SlashCommandItem[] = [
   },
   {
     id: "numberedList",
+    turnInto: true,
     title: "Numbered list",
     aliases: ["ol"],
     description: "Create a list with numbering",
@@ -68,6 +113,7 @@ export const slashCommands: SlashCommandItem[] = [
   },
   {
     id: "taskList",
+    turnInto: true,
     title: "Task list",
     aliases: ["todo", "task"],
     description: "Track tasks with a checklist",
@@ -77,6 +123,7 @@ export const slashCommands: SlashCommandItem[] = [
   },
   {
     id: "blockquote",
+    turnInto: true,
     title: "Blockquote",
     aliases: ["quote"],
     description: "Capture a quote",
@@ -84,13 +131,117 @@ export const slashCommands: SlashCommandItem[] = [
       editor.chain().focus().toggleBlockquote().run();
     },
   },
+  {
+    id: "calloutNote",
+    turnInto: true,
+    title: "Note",
+    aliases: ["note", "callout", "info"],
+    description: "Callout for useful background (> [!NOTE])",
+    command: ({ editor }) => {
+      editor.chain().focus().setCallout("note").run();
+    },
+  },
+  {
+    id: "calloutTip",
+    turnInto: true,
+    title: "Tip",
+    aliases: ["tip", "hint"],
+    description: "Callout with helpful advice (> [!TIP])",
+    command: ({ editor }) => {
+      editor.chain().focus().setCallout("tip").run();
+    },
+  },
+  {
+    id: "calloutWarning",
+    turnInto: true,
+    title: "Warning",
+    aliases: ["warning", "warn"],
+    description: "Callout for something that needs attention (> [!WARNING])",
+    command: ({ editor }) => {
+      editor.chain().focus().setCallout("warning").run();
+    },
+  },
   {
     id: "codeBlock",
+    turnInto: true,
+    category: "Advanced",
     title: "Code block",
     aliases: ["code"],
-    description: "Capture a code snippet",
+    description: "Capture a code snippet (/code ts for a language)",
+    command: ({ editor, args }) => {
+      const language = normalizeLanguage(args);
+      editor
+        .chain()
+        .focus()
+        .toggleCodeBlock(language ? { language } : undefined)
+        .run();
+    },
+  },
+  {
+    id: "diagram",
+    category: "Advanced",
+    title: "Diagram",
+    aliases: ["mermaid", "flowchart", "chart"],
+    description: "Mermaid diagram with a live preview",
+    command: ({ editor }) => {
+      editor
+        .chain()
+        .focus()
+        .setCodeBlock({ language: MERMAID_LANGUAGE })
+        .command(({ tr }) => {
+          tr.insertText(DIAGRAM_TEMPLATE);
+          return true;
+        })
+        .run();
+    },
+  },
+  {
+    id: "image",
+    category: "Media",
+    title: "Image",
+    aliases: ["img", "picture", "photo", "screenshot"],
+    description: "Upload an image (/image https://... to link one)",
+    command: ({ editor, args }) => {
+      const url = args?.trim();
+      if (url) {
+        editor.chain().focus().setImage({ src: url }).run();
+      } else {
+        chooseFiles(editor, "image/*");
+      }
+    },
+  },
+  {
+    id: "file",
+    category: "Media",
+    title: "File",
+    aliases: ["attachment", "attach", "upload"],
+    description: "Attach a file, shown as a download card",
+    command: ({ editor }) => {
+      chooseFiles(editor);
+    },
+  },
+  {
+    id: "math",
+    category: "Advanced",
+    title: "Math",
+    aliases: ["latex", "equation", "formula", "katex"],
+    description: "LaTeX formula rendered with KaTeX (/math inline for $...$)",
+    command: ({ editor, args }) => {
+      if (args?.trim().toLowerCase() === "inline") {
+        editor.chain().focus().setMathInline("").run();
+      } else {
+        editor.chain().focus().setMathBlock().run();
+      }
+    },
+  },
+  {
+    id: "toc",
+    category: "Advanced",
+    title: "Table of contents",
+    aliases: ["toc", "contents", "outline"],
+    description: "Links to every heading, kept up to date",
     command: ({ editor }) => {
-      editor.chain().focus().toggleCodeBlock().run();
+      editor.chain().focus().insertTableOfContents().run();
     },
   },
   {
@@ -104,6 +255,7 @@ export const slashCommands: SlashCommandItem[] = [
   },
   {
     id: "table",
+    category: "Advanced",
     title: "Table",
     aliases: ["tbl"],
     description: "Create a simple table",
@@ -118,6 +270,7 @@ export const slashCommands: SlashCommandItem[] = [
   },
   {
     id: "paragraph",
+    turnInto: true,
     title: "Paragraph",
     aliases: ["p", "text"],
     description: "Plain text",
@@ -0,0 +1,182 @@
+// src/editor/slashCommands/slashCommandExtension.ts
+// "/" trigger for the slash menu, built on @tiptap/suggestion: the plugin
+// tracks the "/query" range as the user types and tells the menu when to
+// start, update and exit. The menu itself is rendered with ReactRenderer
+// inside a tippy popup.
+import { Extension, type Editor } from "@tiptap/core";
+import { PluginKey } from "@tiptap/pm/state";
+import { ReactRenderer } from "@tiptap/react";
+import Suggestion, {
+  findSuggestionMatch,
+  type SuggestionOptions,
+  type SuggestionProps,
+} from "@tiptap/suggestion";
+import tippy, { type Instance as TippyInstance } from "tippy.js";
+import {
+  parseSlashQuery,
+  type SlashCommandItem,
+  type SlashCommandMenuComponentProps,
+} from "./slashCommand.config";
+import SlashCommandMenu, { type SlashCommandMenuRef } from "./slashCommandMenu";
+import { slashCommandRegistry } from "./slashCommandRegistry";
+
+export const SlashCommandPluginKey = new PluginKey("slashCommand");
+
+// A command name plus at most one argument ("/code ts"); a second space
+// means the user is writing prose and the menu should go away
+const QUERY_PATTERN = /^\S*(?: \S*)?$/;
+
+type SlashSuggestionProps = SuggestionProps<SlashCommandItem, SlashCommandItem>;
+
+/**
+ * Renders the menu for one suggestion session. `dismiss` closes the session
+ * early (Escape, editor blur); the plugin has no exit API of its own.
+ */
+function createMenuRenderer(dismiss: (editor: Editor) => void) {
+  return () => {
+    let component: ReactRenderer<
+      SlashCommandMenuRef,
+      SlashCommandMenuComponentProps
+    > | null = null;
+    let popup: TippyInstance | null = null;
+    let currentProps: SlashSuggestionProps | null = null;
+    let unsubscribe: (() => void) | null = null;
+
+    // The editor usually scrolls inside #main_content, which tippy does not
+    // watch for a virtual reference; follow every scroll instead
+    const reposition = () => popup?.popperInstance?.update();
+
+    const handleBlur = ({ event }: { event: FocusEvent }) => {
+      const target = event.relatedTarget as Node | null;
+      if (currentProps && !popup?.popper.contains(target)) {
+        dismiss(currentProps.editor);
+      }
+    };
+
+    const menuProps = (props: SlashSuggestionProps) => ({
+      ...props,
+      onClose: () => dismiss(props.editor),
+    });
+
+    const syncVisibility = (props: SlashSuggestionProps) => {
+      if (props.items.length > 0) popup?.show();
+      else popup?.hide();
+    };
+
+    // Commands registered while the menu is open show up without a keystroke
+    const refreshItems = () => {
+      if (!currentProps) return;
+      const { name } = parseSlashQuery(currentProps.query);
+      currentProps = { ...currentProps, items: slashCommandRegistry.search(name) };
+      component?.updateProps(menuProps(currentProps));
+      syncVisibility(currentProps);
+    };
+
+    return {
+      onStart(props: SlashSuggestionProps) {
+        currentProps = props;
+        component = new ReactRenderer(SlashCommandMenu, {
+          props: menuProps(props),
+          editor: props.editor,
+        });
+        if (!props.clientRect) return;
+
+        popup = tippy(document.body, {
+          getReferenceClientRect: () =>
+            currentProps?.clientRect?.() ?? new DOMRect(),
+          appendTo: () => document.body,
+          content: component.element,
+          showOnCreate: false,
+          interactive: true,
+          trigger: "manual",
+          placement: "bottom-start",
+          theme: "slash-command-theme",
+          maxWidth: "none",
+        });
+        syncVisibility(props);
+        window.addEventListener("scroll", reposition, true);
+        props.editor.on("blur", handleBlur);
+        unsubscribe = slashCommandRegistry.subscribe(refreshItems);
+      },
+
+      onUpdate(props: SlashSuggestionProps) {
+        currentProps = props;
+        component?.updateProps(menuProps(props));
+        syncVisibility(props);
+        reposition();
+      },
+
+      onKeyDown({ event }: { event: KeyboardEvent }) {
+        if (event.key === "Escape") {
+          if (currentProps) dismiss(currentProps.editor);
+          return true;
+        }
+        if (!popup?.state.isVisible) return false;
+        return component?.ref?.onKeyDown(event) ?? false;
+      },
+
+      onExit() {
+        window.removeEventListener("scroll", reposition, true);
+        currentProps?.editor.off("blur", handleBlur);
+        unsubscribe?.();
+        unsubscribe = null;
+        popup?.destroy();
+        component?.destroy();
+        popup = null;
+        component = null;
+        currentProps = null;
+      },
+    };
+  };
+}
+
+export const SlashCommandExtension = Extension.create({
+  name: "slashCommand",
+
+  addProseMirrorPlugins() {
+    // Start of a "/" the user closed with Escape or by leaving the editor;
+    // it stays closed until that "/" goes away
+    let dismissedFrom: number | null = null;
+
+    const dismiss = (editor: Editor) => {
+      const { state } = editor;
+      const { range } = SlashCommandPluginKey.getState(state) ?? {};
+      if (!range) return;
+      dismissedFrom = range.from;
+      // Any transaction re-runs `allow`, which now ends the session
+      editor.view.dispatch(state.tr.setMeta(SlashCommandPluginKey, "dismiss"));
+    };
+
+    const options: SuggestionOptions<SlashCommandItem, SlashCommandItem> = {
+      editor: this.editor,
+      pluginKey: SlashCommandPluginKey,
+      char: "/",
+      allowSpaces: true,
+      findSuggestionMatch(config) {
+        const match = findSuggestionMatch(config);
+        if (!match || !QUERY_PATTERN.test(match.query)) {
+          dismissedFrom = null;
+          return null;
+        }
+        return match;
+      },
+      allow: ({ state, range }) =>
+        range.from !== dismissedFrom &&
+        !state.doc.resolve(range.from).parent.type.spec.code,
+      items: ({ query }) =>
+        slashCommandRegistry.search(parseSlashQuery(query).name),
+      command: ({ editor, range, props: item }) => {
+        // The range covers "/name args"; skip the "/" itself
+        const { args } = parseSlashQuery(
+          editor.state.doc.textBetween(range.from + 1, range.to)
+        );
+        editor.chain().focus().deleteRange(range).run();
+        slashCommandRegistry.recordUse(item.id);
+        item.command({ editor, range, args });
+      },
+      render: createMenuRenderer(dismiss),
+    };
+
+    return [Suggestion(options)];
+  },
+});
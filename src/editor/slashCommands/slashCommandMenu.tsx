@@ -1,5 +1,5 @@
 // src/editor/slashCommands/SlashCommandMenu.tsx
-import {
+import React, {
   useState,
   useEffect,
   useCallback,
@@ -7,7 +7,10 @@ import {
   forwardRef,
   useImperativeHandle,
 } from "react";
-import type { SlashCommandMenuComponentProps } from "./slashCommand.config";
+import {
+  DEFAULT_SLASH_COMMAND_CATEGORY,
+  type SlashCommandMenuComponentProps,
+} from "./slashCommand.config";
 import "./menuStyles.css";
 
 export interface SlashCommandMenuRef {
@@ -20,21 +23,18 @@ const SlashCommandMenu = forwardRef<
 >((props, ref) => {
   const [selectedIndex, setSelectedIndex] = useState(0);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
-  const prevItemsLengthRef = useRef(props.items.length); // Track previous items length
 
   const selectItem = useCallback(
     (index: number) => {
       const item = props.items[index];
       if (item) {
-        props.command(item); // This is TipTap's internal command to select the item
-        // The actual execution of the slash command's action happens in LiveMarkdownEditor's
-        // slashSuggestionOptions.command based on the `props` passed there.
-        // After selection, we should signal to close.
-        props.onClose(); // Explicitly call onClose after selection
+        // Runs the suggestion's command, which deletes the "/query" text and
+        // with it ends the suggestion session (and so closes this menu)
+        props.command(item);
       }
     },
     [props]
-  ); // props.command and props.onClose are stable if memoized in parent
+  );
 
   useImperativeHandle(ref, () => ({
     onKeyDown: (event: KeyboardEvent): boolean => {
@@ -52,7 +52,6 @@ const SlashCommandMenu = forwardRef<
       if (event.key === "Enter") {
         if (props.items[selectedIndex]) {
           selectItem(selectedIndex);
-          // props.onClose() is called within selectItem
         } else if (props.items.length === 0) {
           // If enter is pressed and there are no items, close the menu
           props.onClose();
@@ -68,16 +67,6 @@ const SlashCommandMenu = forwardRef<
     },
   }));
 
-  useEffect(() => {
-    // If items list becomes empty and it previously had items (meaning query resulted in no matches)
-    // and the menu is meant to be active (implied by this component rendering), then close.
-    if (props.items.length === 0 && prevItemsLengthRef.current > 0) {
-      console.log("[SlashCommandMenu] No items match query, calling onClose.");
-      props.onClose();
-    }
-    prevItemsLengthRef.current = props.items.length; // Update previous length for next render
-  }, [props.items, props.onClose]);
-
   useEffect(() => {
     // Reset selected index only if items array actually changes identity or length,
     // or if the query changes (which would lead to new items).
@@ -90,14 +79,11 @@ const SlashCommandMenu = forwardRef<
       props.items.length > 0 &&
       props.items[selectedIndex]
     ) {
-      const itemsOffset = scrollContainerRef.current.querySelector(
-        ".menu-title"
-      )
-        ? 1
-        : 0;
-      const selectedItemElement = scrollContainerRef.current.children[
-        selectedIndex + itemsOffset
-      ] as HTMLElement;
+      // Category headers sit between items, so look the button up by index
+      const selectedItemElement =
+        scrollContainerRef.current.querySelector<HTMLElement>(
+          `[data-index="${selectedIndex}"]`
+        );
       if (selectedItemElement) {
         selectedItemElement.scrollIntoView({
           behavior: "auto",
@@ -107,15 +93,9 @@ const SlashCommandMenu = forwardRef<
     }
   }, [selectedIndex, props.items]);
 
-  // If this component is rendered but there are no items (e.g. initial empty query before user types)
-  // it might be better to not render anything, or rely on the parent (LiveMarkdownEditor)
-  // to not render this component if items are empty *after* a query.
-  // The useEffect above handles closing if items become empty *after* having items.
-  // If initial items list is empty, it might flash, so parent should control rendering.
-  if (props.items.length === 0 && props.query !== "") {
-    // Only hide if query is not empty but results are
-    // This might already be handled by the useEffect calling onClose,
-    // but this provides an immediate non-render.
+  // No matches: the popup hides itself, but keep it empty in the meantime.
+  // The suggestion stays active so deleting a typo brings the items back.
+  if (props.items.length === 0) {
     return null;
   }
 
@@ -125,22 +105,34 @@ const SlashCommandMenu = forwardRef<
       ref={scrollContainerRef}
       className="tippy-content"
     >
-      <div className="menu-title">Blocks</div>
-      {props.items.map((item, index) => (
-        <button
-          key={item.id}
-          className={`menu-item ${index === selectedIndex ? "selected" : ""}`}
-          onClick={() => selectItem(index)}
-          type="button"
-        >
-          <div className="item-content">
-            <div className="item-title">{item.title}</div>
-            {item.description && (
-              <div className="item-description">{item.description}</div>
-            )}
-          </div>
-        </button>
-      ))}
+      {props.items.map((item, index) => {
+        // Items arrive grouped by category; head each group with its name
+        const category = item.category ?? DEFAULT_SLASH_COMMAND_CATEGORY;
+        const previous = props.items[index - 1];
+        const startsGroup =
+          !previous ||
+          (previous.category ?? DEFAULT_SLASH_COMMAND_CATEGORY) !== category;
+        return (
+          <React.Fragment key={item.id}>
+            {startsGroup && <div className="menu-title">{category}</div>}
+            <button
+              data-index={index}
+              className={`menu-item ${index === selectedIndex ? "selected" : ""}`}
+              // Keep focus in the editor; a blur would dismiss the menu
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => selectItem(index)}
+              type="button"
+            >
+              <div className="item-content">
+                <div className="item-title">{item.title}</div>
+                {item.description && (
+                  <div className="item-description">{item.description}</div>
+                )}
+              </div>
+            </button>
+          </React.Fragment>
+        );
+      })}
     </div>
   );
 });
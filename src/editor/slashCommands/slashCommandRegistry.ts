@@ -0,0 +1,189 @@
+// src/editor/slashCommands/slashCommandRegistry.ts
+// Runtime registry behind the slash menu. App code and editor extensions
+// register SlashCommandItems here; the menu asks the registry for matches,
+// ranked by a fuzzy score plus how recently each command was used.
+import {
+  DEFAULT_SLASH_COMMAND_CATEGORY,
+  SLASH_COMMAND_CATEGORIES,
+  slashCommands,
+  type SlashCommandItem,
+} from "./slashCommand.config";
+
+export interface SlashCommandRegistry {
+  /** Adds commands (replacing any with the same id); returns an undo function. */
+  register: (items: SlashCommandItem | SlashCommandItem[]) => () => void;
+  unregister: (id: string) => void;
+  list: () => SlashCommandItem[];
+  /**
+   * Commands matching `query`, best first and grouped by category (items of
+   * one category are adjacent). An empty query lists every command.
+   */
+  search: (query: string) => SlashCommandItem[];
+  /** Remembers that a command was run, so it ranks higher next time. */
+  recordUse: (id: string) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+interface SlashCommandRegistryOptions {
+  recentStorageKey?: string; // localStorage key for recently used ids
+  maxRecent?: number;
+}
+
+// Scoring weights; a query must match as a subsequence to score at all
+const SCORE_MATCH = 1;
+const SCORE_CONSECUTIVE = 4; // Per character following the previous match
+const SCORE_WORD_START = 6; // Match at the start of a word ("nl" -> "Numbered list")
+const SCORE_PREFIX = 10; // Query matches the start of the text
+const SCORE_EXACT = 30; // Query equals the text (typically an alias like "h1")
+const PENALTY_GAP = 0.5; // Per skipped character
+const RECENCY_BONUS = 8; // For the most recently used command, decaying
+
+/**
+ * Scores `text` for `query` (both lowercased), or returns null when the
+ * characters of `query` do not appear in order in `text`.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  if (!query) return 0;
+  if (query === text) return SCORE_EXACT + SCORE_PREFIX;
+
+  let score = text.startsWith(query) ? SCORE_PREFIX : 0;
+  let textIndex = 0;
+  let previousMatch = -2;
+  for (const char of query) {
+    const found = text.indexOf(char, textIndex);
+    if (found === -1) {
+      return null;
+    }
+    score += SCORE_MATCH;
+    if (found === previousMatch + 1) {
+      score += SCORE_CONSECUTIVE;
+    } else if (found === 0 || /[\s\-_]/.test(text[found - 1])) {
+      score += SCORE_WORD_START;
+    }
+    score -= (found - textIndex) * PENALTY_GAP;
+    previousMatch = found;
+    textIndex = found + 1;
+  }
+  return score;
+}
+
+/** Best score of `item` over its title, aliases and id. */
+function scoreItem(query: string, item: SlashCommandItem): number | null {
+  const candidates = [item.title, item.id, ...(item.aliases ?? [])];
+  let best: number | null = null;
+  for (const candidate of candidates) {
+    const score = fuzzyScore(query, candidate.toLowerCase());
+    if (score !== null && (best === null || score > best)) {
+      best = score;
+    }
+  }
+  return best;
+}
+
+function loadRecent(key: string | undefined): string[] {
+  if (!key) return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) ?? "[]");
+    return Array.isArray(stored) ? stored.filter((id) => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function createSlashCommandRegistry({
+  recentStorageKey,
+  maxRecent = 8,
+}: SlashCommandRegistryOptions = {}): SlashCommandRegistry {
+  // Map keeps registration order, which breaks ties between equal scores
+  const items = new Map<string, SlashCommandItem>();
+  const listeners = new Set<() => void>();
+  let recent = loadRecent(recentStorageKey); // Most recent first
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const categoryOf = (item: SlashCommandItem) =>
+    item.category ?? DEFAULT_SLASH_COMMAND_CATEGORY;
+
+  const recencyBonus = (id: string) => {
+    const index = recent.indexOf(id);
+    return index === -1 ? 0 : RECENCY_BONUS * (1 - index / maxRecent);
+  };
+
+  const unregister = (id: string) => {
+    if (items.delete(id)) notify();
+  };
+
+  return {
+    register(newItems) {
+      const list = Array.isArray(newItems) ? newItems : [newItems];
+      list.forEach((item) => items.set(item.id, item));
+      notify();
+      return () => {
+        list.forEach((item) => {
+          // Only remove what this call registered, not a later replacement
+          if (items.get(item.id) === item) items.delete(item.id);
+        });
+        notify();
+      };
+    },
+
+    unregister,
+
+    list: () => [...items.values()],
+
+    search(query) {
+      const normalized = query.trim().toLowerCase();
+      const ranked: { item: SlashCommandItem; rank: number; order: number }[] =
+        [];
+      let order = 0;
+      items.forEach((item) => {
+        const score = scoreItem(normalized, item);
+        if (score !== null) {
+          ranked.push({ item, rank: score + recencyBonus(item.id), order });
+        }
+        order++;
+      });
+      ranked.sort((a, b) => b.rank - a.rank || a.order - b.order);
+
+      // Without a query keep the menu's usual category order; with one, the
+      // category of the best match comes first
+      const categories = normalized
+        ? [...new Set(ranked.map(({ item }) => categoryOf(item)))]
+        : SLASH_COMMAND_CATEGORIES.filter((category) =>
+            ranked.some(({ item }) => categoryOf(item) === category)
+          );
+      return categories.flatMap((category) =>
+        ranked
+          .filter(({ item }) => categoryOf(item) === category)
+          .map(({ item }) => item)
+      );
+    },
+
+    recordUse(id) {
+      recent = [id, ...recent.filter((other) => other !== id)].slice(
+        0,
+        maxRecent
+      );
+      if (recentStorageKey) {
+        try {
+          localStorage.setItem(recentStorageKey, JSON.stringify(recent));
+        } catch {
+          // Ranking by recency is a nicety; ignore quota/private mode errors
+        }
+      }
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// The app-wide registry, seeded with the built-in commands
+export const slashCommandRegistry = createSlashCommandRegistry({
+  recentStorageKey: "docground:recentSlashCommands",
+});
+slashCommandRegistry.register(slashCommands);
@@ -0,0 +1,149 @@
+// src/editor/tableOfContents/headingAnchors.ts
+// Gives every heading in the editor the same id GitHub (and the preview
+// renderer) would, so `#getting-started` links resolve inside the editor,
+// and keeps the list of headings the outline and TOC blocks are built from.
+import {
+  Extension,
+  getText,
+  getTextSerializersFromSchema,
+} from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import {
+  Plugin,
+  PluginKey,
+  TextSelection,
+  type EditorState,
+} from "@tiptap/pm/state";
+import { Decoration, DecorationSet, type EditorView } from "@tiptap/pm/view";
+import { createSlugger } from "../../services/slugger";
+
+export interface HeadingEntry {
+  id: string; // GitHub-style slug, unique within the document
+  level: number;
+  text: string; // Visible text, as slugged
+  pos: number; // Position of the heading node
+}
+
+interface HeadingAnchorsState {
+  headings: HeadingEntry[];
+  decorations: DecorationSet;
+}
+
+export const HeadingAnchorsPluginKey = new PluginKey<HeadingAnchorsState>(
+  "headingAnchors"
+);
+
+const NO_HEADINGS: HeadingEntry[] = [];
+
+/** Every heading in document order, nested ones (in quotes, lists) included. */
+export function collectHeadings(doc: ProseMirrorNode): HeadingEntry[] {
+  const textSerializers = getTextSerializersFromSchema(doc.type.schema);
+  const slugger = createSlugger();
+  const headings: HeadingEntry[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name !== "heading") {
+      return true;
+    }
+    // Wiki-links count as their `[[source]]`, like in the rendered Markdown
+    const text = getText(node, { textSerializers }).trim();
+    headings.push({ id: slugger.slug(text), level: node.attrs.level, text, pos });
+    return false;
+  });
+  return headings;
+}
+
+export function getHeadings(state: EditorState): HeadingEntry[] {
+  return HeadingAnchorsPluginKey.getState(state)?.headings ?? NO_HEADINGS;
+}
+
+function buildState(doc: ProseMirrorNode): HeadingAnchorsState {
+  const headings = collectHeadings(doc);
+  return {
+    headings,
+    decorations: DecorationSet.create(
+      doc,
+      headings.map((heading) =>
+        Decoration.node(
+          heading.pos,
+          heading.pos + (doc.nodeAt(heading.pos)?.nodeSize ?? 0),
+          { id: heading.id }
+        )
+      )
+    ),
+  };
+}
+
+/**
+ * Scrolls the heading with `id` to the top and puts the cursor at its end.
+ * Returns false when the document has no such heading.
+ */
+export function revealHeading(view: EditorView, id: string): boolean {
+  const { state } = view;
+  const heading = getHeadings(state).find((entry) => entry.id === id);
+  const element = heading && view.nodeDOM(heading.pos);
+  if (!heading || !(element instanceof HTMLElement)) {
+    return false;
+  }
+  const end = heading.pos + (state.doc.nodeAt(heading.pos)?.nodeSize ?? 2) - 1;
+  view.dispatch(state.tr.setSelection(TextSelection.create(state.doc, end)));
+  element.scrollIntoView({ block: "start" });
+  return true;
+}
+
+/** The heading id in the page URL, e.g. "intro" for `#intro`. */
+function readLocationHash(): string | null {
+  const hash = window.location.hash.slice(1);
+  if (!hash) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(hash);
+  } catch {
+    return hash;
+  }
+}
+
+export const HeadingAnchors = Extension.create({
+  name: "headingAnchors",
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<HeadingAnchorsState>({
+        key: HeadingAnchorsPluginKey,
+        state: {
+          init: (_, { doc }) => buildState(doc),
+          apply: (tr, value) => (tr.docChanged ? buildState(tr.doc) : value),
+        },
+        props: {
+          decorations: (state) =>
+            HeadingAnchorsPluginKey.getState(state)?.decorations,
+        },
+        // Documents load after the editor exists, so a `#heading` in the URL
+        // waits until a heading with that id shows up
+        view: (view) => {
+          let pendingId = readLocationHash();
+          const revealPending = () => {
+            if (pendingId && !view.isDestroyed && revealHeading(view, pendingId)) {
+              pendingId = null;
+            }
+          };
+          const handleHashChange = () => {
+            pendingId = readLocationHash();
+            revealPending();
+          };
+          window.addEventListener("hashchange", handleHashChange);
+          return {
+            update: (_, previousState) => {
+              if (pendingId && getHeadings(view.state) !== getHeadings(previousState)) {
+                // Not from inside the view update that is running
+                setTimeout(revealPending);
+              }
+            },
+            destroy: () =>
+              window.removeEventListener("hashchange", handleHashChange),
+          };
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,134 @@
+// src/editor/tableOfContents/tableOfContents.ts
+import { mergeAttributes, Node } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { ReactNodeViewRenderer } from "@tiptap/react";
+import type { MarkdownNodeSpec } from "../markdown/markdownSpec";
+import { collectHeadings } from "./headingAnchors";
+import {
+  buildTocItems,
+  formatToc,
+  parseTocSyntax,
+  TOC_ATTRIBUTE,
+  type TocItem,
+} from "./tocSyntax";
+import TocView from "./tocView";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    tableOfContents: {
+      /** Insert a table of contents listing the document's headings */
+      insertTableOfContents: () => ReturnType;
+    };
+  }
+}
+
+const TableOfContentsPluginKey = new PluginKey("tableOfContents");
+
+function tocItems(doc: ProseMirrorNode): TocItem[] {
+  return buildTocItems(collectHeadings(doc));
+}
+
+/**
+ * Table of contents block, saved as a `<!-- toc -->` list of anchor links.
+ * The entries live in an attribute that is rewritten whenever the headings
+ * change, so an untouched table (and the document around it) is saved
+ * exactly as it was loaded.
+ */
+export const TableOfContents = Node.create({
+  name: "tableOfContents",
+  group: "block",
+  atom: true,
+
+  addAttributes() {
+    return {
+      items: {
+        default: [],
+        parseHTML: (element: HTMLElement): TocItem[] => {
+          try {
+            const items = JSON.parse(element.getAttribute(TOC_ATTRIBUTE) ?? "[]");
+            return Array.isArray(items) ? items : [];
+          } catch {
+            return [];
+          }
+        },
+        renderHTML: (attributes) => ({
+          [TOC_ATTRIBUTE]: JSON.stringify(attributes.items),
+        }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: `div[${TOC_ATTRIBUTE}]` }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["div", mergeAttributes(HTMLAttributes)];
+  },
+
+  addStorage() {
+    const markdown: MarkdownNodeSpec = {
+      serialize(state, node) {
+        state.text(formatToc(node.attrs.items), false);
+        state.closeBlock(node);
+      },
+      parse: {
+        setup(markdownit) {
+          parseTocSyntax(markdownit);
+        },
+      },
+    };
+    return { markdown };
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(TocView);
+  },
+
+  addCommands() {
+    return {
+      insertTableOfContents:
+        () =>
+        ({ state, commands }) =>
+          commands.insertContent({
+            type: this.name,
+            attrs: { items: tocItems(state.doc) },
+          }),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { type } = this;
+    return [
+      new Plugin({
+        key: TableOfContentsPluginKey,
+        // Brings every table of contents up to date with the headings
+        appendTransaction: (transactions, _, newState) => {
+          if (!transactions.some((tr) => tr.docChanged)) {
+            return null;
+          }
+          const tables: { node: ProseMirrorNode; pos: number }[] = [];
+          newState.doc.descendants((node, pos) => {
+            if (node.type === type) tables.push({ node, pos });
+            return !node.isTextblock;
+          });
+          if (tables.length === 0) {
+            return null;
+          }
+
+          const items = tocItems(newState.doc);
+          const json = JSON.stringify(items);
+          const { tr } = newState;
+          tables.forEach(({ node, pos }) => {
+            if (JSON.stringify(node.attrs.items) !== json) {
+              tr.setNodeMarkup(pos, undefined, { ...node.attrs, items });
+            }
+          });
+          // Kept out of undo history; undoing a heading edit refreshes the tables again
+          return tr.docChanged ? tr.setMeta("addToHistory", false) : null;
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,134 @@
+// src/editor/tableOfContents/tocSyntax.ts
+// The Markdown form of a table of contents: a list of links to the heading
+// anchors between `<!-- toc -->` and `<!-- tocstop -->` comments, the
+// markers markdown-toc and most editors use. The comments are invisible on
+// GitHub, which renders the list like any other.
+import type MarkdownIt from "markdown-it";
+
+type BlockRule = Parameters<MarkdownIt["block"]["ruler"]["before"]>[2];
+
+// One entry of a table of contents
+export interface TocItem {
+  id: string; // Heading anchor, without "#"
+  text: string;
+  depth: number; // List nesting, 0 for the outermost entries
+}
+
+export const TOC_ATTRIBUTE = "data-toc";
+
+const TOC_START = /^<!--\s*toc\s*-->$/i;
+const TOC_END = /^<!--\s*tocstop\s*-->$/i;
+const TOC_ENTRY = /^(\s*)[-*+]\s+\[(.*)\]\(#([^)\s]*)\)\s*$/;
+
+const patchedInstances = new WeakSet<MarkdownIt>();
+
+/**
+ * Nests headings by level: the shallowest level present is depth 0, and a
+ * skipped level (h1 straight to h3) nests one step, not two.
+ */
+export function buildTocItems(
+  headings: { id: string; text: string; level: number }[]
+): TocItem[] {
+  // Level of the heading at each open depth
+  const levels: number[] = [];
+  return headings.map(({ id, text, level }) => {
+    while (levels.length > 0 && levels[levels.length - 1] >= level) {
+      levels.pop();
+    }
+    levels.push(level);
+    return { id, text, depth: levels.length - 1 };
+  });
+}
+
+function escapeLinkText(text: string): string {
+  return text.replace(/[\\`*_[\]<]/g, "\\$&");
+}
+
+/** The Markdown of a table of contents, markers included. */
+export function formatToc(items: TocItem[]): string {
+  const list = items
+    .map(
+      ({ id, text, depth }) =>
+        `${"  ".repeat(depth)}- [${escapeLinkText(text)}](#${id})`
+    )
+    .join("\n");
+  return list
+    ? `<!-- toc -->\n\n${list}\n\n<!-- tocstop -->`
+    : "<!-- toc -->\n<!-- tocstop -->";
+}
+
+/** Reads the entries back from the list lines of a saved table of contents. */
+function parseTocEntries(lines: string[]): TocItem[] {
+  // Indent of the entries at each open depth
+  const indents: number[] = [];
+  return lines.flatMap((line) => {
+    const match = TOC_ENTRY.exec(line);
+    if (!match) {
+      return [];
+    }
+    const indent = match[1].length;
+    while (indents.length > 0 && indents[indents.length - 1] >= indent) {
+      indents.pop();
+    }
+    indents.push(indent);
+    return [
+      {
+        id: match[3],
+        text: match[2].replace(/\\(.)/g, "$1"),
+        depth: indents.length - 1,
+      },
+    ];
+  });
+}
+
+/**
+ * `<!-- toc -->` on a line of its own, up to the matching `<!-- tocstop -->`.
+ * A start marker without a stop marker is an empty table of contents.
+ */
+const tocBlock: BlockRule = (state, startLine, endLine, silent) => {
+  const lineText = (line: number) =>
+    state.src.slice(state.bMarks[line] + state.tShift[line], state.eMarks[line]);
+  if (
+    state.sCount[startLine] - state.blkIndent >= 4 ||
+    !TOC_START.test(lineText(startLine).trim())
+  ) {
+    return false;
+  }
+
+  let stopLine = startLine + 1;
+  while (stopLine < endLine && !TOC_END.test(lineText(stopLine).trim())) {
+    stopLine++;
+  }
+  const lastLine = stopLine < endLine ? stopLine : startLine;
+
+  if (silent) {
+    return true;
+  }
+  const entries: string[] = [];
+  for (let line = startLine + 1; line < lastLine; line++) {
+    entries.push(state.getLines(line, line + 1, state.blkIndent, false));
+  }
+  const token = state.push("toc_block", "div", 0);
+  token.block = true;
+  token.content = JSON.stringify(parseTocEntries(entries));
+  token.map = [startLine, lastLine + 1];
+  state.line = lastLine + 1;
+  return true;
+};
+
+/**
+ * Adds the table of contents rule to `markdownit`, rendering it as
+ * `<div data-toc="[...entries as JSON]">`.
+ */
+export function parseTocSyntax(markdownit: MarkdownIt) {
+  if (patchedInstances.has(markdownit)) return;
+  patchedInstances.add(markdownit);
+
+  const { escapeHtml } = markdownit.utils;
+  // Ahead of html_block, which would take the start marker as a comment
+  markdownit.block.ruler.before("html_block", "toc_block", tocBlock, {
+    alt: ["paragraph", "reference", "blockquote", "list"],
+  });
+  markdownit.renderer.rules.toc_block = (tokens, index) =>
+    `<div ${TOC_ATTRIBUTE}="${escapeHtml(tokens[index].content)}"></div>\n`;
+}
@@ -0,0 +1,44 @@
+// src/editor/tableOfContents/tocView.tsx
+import React from "react";
+import { NodeViewWrapper, type NodeViewProps } from "@tiptap/react";
+import { revealHeading } from "./headingAnchors";
+import type { TocItem } from "./tocSyntax";
+import "./tocStyles.css";
+
+/** The table of contents block: its entries jump to their headings. */
+const TocView: React.FC<NodeViewProps> = ({ node, editor, selected }) => {
+  const items: TocItem[] = node.attrs.items;
+
+  return (
+    <NodeViewWrapper
+      className={`toc-block ${selected ? "selected" : ""}`}
+      contentEditable={false}
+    >
+      <div className="toc-title">contents</div>
+      {items.length === 0 ? (
+        <div className="toc-empty">Add headings and they will be listed here.</div>
+      ) : (
+        <ul className="toc-list">
+          {items.map((item, index) => (
+            <li
+              key={`${item.id}:${index}`}
+              style={{ marginLeft: `${item.depth * 1.5}em` }}
+            >
+              <a
+                href={`#${item.id}`}
+                onClick={(event) => {
+                  event.preventDefault();
+                  revealHeading(editor.view, item.id);
+                }}
+              >
+                {item.text || item.id}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </NodeViewWrapper>
+  );
+};
+
+export default TocView;
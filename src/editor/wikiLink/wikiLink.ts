@@ -0,0 +1,247 @@
+// src/editor/wikiLink/wikiLink.ts
+import { InputRule, mergeAttributes, Node } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey, type EditorState } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import type { MarkdownNodeSpec } from "../markdown/markdownSpec";
+import {
+  formatWikiLink,
+  matchWikiLink,
+  resolveWikiLink,
+  retargetWikiLink,
+  type WikiLink as WikiLinkValue,
+  type WikiLinkDocument,
+} from "../../services/wikiLinks";
+import {
+  parseWikiLinkSyntax,
+  WIKI_LABEL_ATTRIBUTE,
+  WIKI_LINK_ATTRIBUTE,
+} from "./wikiLinkSyntax";
+import { createWikiLinkSuggestion } from "./wikiLinkSuggestion";
+import "./wikiLinkStyles.css";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    wikiLink: {
+      insertWikiLink: (link: WikiLinkValue) => ReturnType;
+      /**
+       * Tell the editor which documents links can point at. Links to a
+       * document whose name or folder changed since the last call are
+       * updated to its new name.
+       */
+      setWikiLinkDocuments: (documents: WikiLinkDocument[]) => ReturnType;
+    };
+  }
+}
+
+export interface WikiLinkOptions {
+  // Called with the document id when a link to an existing document is clicked
+  onOpenDocument: (documentId: string) => void;
+}
+
+interface WikiLinkPluginState {
+  documents: WikiLinkDocument[];
+  decorations: DecorationSet;
+}
+
+export const WikiLinkPluginKey = new PluginKey<WikiLinkPluginState>("wikiLink");
+
+// "[[Name]]" or "[[Name|label]]" just typed; the last "]" is not in the
+// document yet
+const INPUT = /\[\[[^[\]\n]+\]\]$/;
+
+function getDocuments(state: EditorState): WikiLinkDocument[] {
+  return WikiLinkPluginKey.getState(state)?.documents ?? [];
+}
+
+/** Marks links whose target is missing, and titles the others with their path. */
+function buildDecorations(
+  doc: ProseMirrorNode,
+  documents: WikiLinkDocument[]
+): DecorationSet {
+  const decorations: Decoration[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name !== "wikiLink") {
+      return;
+    }
+    const target = resolveWikiLink(node.attrs.target, documents);
+    decorations.push(
+      Decoration.node(
+        pos,
+        pos + node.nodeSize,
+        target
+          ? { title: target.path }
+          : {
+              class: "wiki-link-missing",
+              title: `No document named "${node.attrs.target}"`,
+            }
+      )
+    );
+  });
+  return DecorationSet.create(doc, decorations);
+}
+
+/**
+ * `[[Document Name]]` link to another workspace document, shown as a chip
+ * that opens it. Saved as written; the static site export turns it into a
+ * standard relative Markdown link.
+ */
+export const WikiLink = Node.create<WikiLinkOptions>({
+  name: "wikiLink",
+  group: "inline",
+  inline: true,
+  atom: true,
+
+  addOptions() {
+    return { onOpenDocument: () => {} };
+  },
+
+  addAttributes() {
+    return {
+      target: {
+        default: "",
+        parseHTML: (element) => element.getAttribute(WIKI_LINK_ATTRIBUTE) ?? "",
+        renderHTML: (attributes) => ({ [WIKI_LINK_ATTRIBUTE]: attributes.target }),
+      },
+      label: {
+        default: null,
+        parseHTML: (element) => element.getAttribute(WIKI_LABEL_ATTRIBUTE),
+        renderHTML: (attributes) =>
+          attributes.label ? { [WIKI_LABEL_ATTRIBUTE]: attributes.label } : {},
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: `span[${WIKI_LINK_ATTRIBUTE}]` }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      "span",
+      mergeAttributes({ class: "wiki-link" }, HTMLAttributes),
+      node.attrs.label || node.attrs.target,
+    ];
+  },
+
+  renderText({ node }) {
+    return formatWikiLink({ target: node.attrs.target, label: node.attrs.label });
+  },
+
+  addStorage() {
+    const markdown: MarkdownNodeSpec = {
+      serialize(state, node) {
+        state.write(
+          formatWikiLink({ target: node.attrs.target, label: node.attrs.label })
+        );
+      },
+      parse: {
+        setup(markdownit) {
+          parseWikiLinkSyntax(markdownit);
+        },
+      },
+    };
+    return { markdown };
+  },
+
+  addCommands() {
+    return {
+      insertWikiLink:
+        (link) =>
+        ({ commands }) =>
+          commands.insertContent({ type: this.name, attrs: link }),
+      setWikiLinkDocuments:
+        (documents) =>
+        ({ tr, dispatch }) => {
+          dispatch?.(tr.setMeta(WikiLinkPluginKey, documents));
+          return true;
+        },
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: INPUT,
+        handler: ({ state, range, match }) => {
+          const typed = matchWikiLink(match[0]);
+          if (!typed) {
+            return null;
+          }
+          state.tr.replaceWith(range.from, range.to, this.type.create(typed.link));
+        },
+      }),
+    ];
+  },
+
+  addProseMirrorPlugins() {
+    const { onOpenDocument } = this.options;
+    const linkType = this.type;
+
+    const plugin = new Plugin<WikiLinkPluginState>({
+      key: WikiLinkPluginKey,
+      state: {
+        init: (_, { doc }) => ({
+          documents: [],
+          decorations: buildDecorations(doc, []),
+        }),
+        apply(tr, value) {
+          const documents: WikiLinkDocument[] | undefined =
+            tr.getMeta(WikiLinkPluginKey);
+          if (!documents && !tr.docChanged) {
+            return value;
+          }
+          const next = documents ?? value.documents;
+          return { documents: next, decorations: buildDecorations(tr.doc, next) };
+        },
+      },
+
+      // Follows renames and moves: a link that reached a document before the
+      // new list arrived is pointed at its new name
+      appendTransaction(transactions, oldState, newState) {
+        if (!transactions.some((tr) => tr.getMeta(WikiLinkPluginKey))) {
+          return null;
+        }
+        const before = getDocuments(oldState);
+        const after = getDocuments(newState);
+        const { tr } = newState;
+        newState.doc.descendants((node, pos) => {
+          if (node.type !== linkType) {
+            return;
+          }
+          const retargeted = retargetWikiLink(
+            { target: node.attrs.target, label: node.attrs.label },
+            before,
+            after
+          );
+          if (retargeted) {
+            tr.setNodeMarkup(pos, undefined, { ...node.attrs, ...retargeted });
+          }
+        });
+        // Undo should not bring back a name that no longer exists
+        return tr.docChanged ? tr.setMeta("addToHistory", false) : null;
+      },
+
+      props: {
+        decorations: (editorState) =>
+          WikiLinkPluginKey.getState(editorState)?.decorations,
+        handleClickOn(view, _pos, node, _nodePos, _event, direct) {
+          if (!direct || node.type !== linkType) {
+            return false;
+          }
+          const target = resolveWikiLink(
+            node.attrs.target,
+            getDocuments(view.state)
+          );
+          if (!target) {
+            return false; // Missing documents just get selected
+          }
+          onOpenDocument(target.id);
+          return true;
+        },
+      },
+    });
+
+    return [plugin, createWikiLinkSuggestion(this.editor, getDocuments)];
+  },
+});
@@ -0,0 +1,114 @@
+// src/editor/wikiLink/wikiLinkMenu.tsx
+import {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+import type { WikiLinkDocument } from "../../services/wikiLinks";
+import "./wikiLinkStyles.css";
+
+// One row of the menu; `document` is null for a link to a document that
+// does not exist yet
+export interface WikiLinkSuggestionItem {
+  document: WikiLinkDocument | null;
+  target: string;
+  label: string | null;
+}
+
+export interface WikiLinkMenuProps {
+  items: WikiLinkSuggestionItem[];
+  command: (item: WikiLinkSuggestionItem) => void;
+  onClose: () => void;
+}
+
+export interface WikiLinkMenuRef {
+  onKeyDown: (event: KeyboardEvent) => boolean;
+}
+
+/** The `[[` autocomplete: workspace documents matching what was typed. */
+const WikiLinkMenu = forwardRef<WikiLinkMenuRef, WikiLinkMenuProps>(
+  ({ items, command, onClose }, ref) => {
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const scrollContainerRef = useRef<HTMLDivElement>(null);
+
+    const selectItem = useCallback(
+      (index: number) => {
+        const item = items[index];
+        if (item) {
+          // Replaces the "[[query" text, which ends the suggestion session
+          command(item);
+        }
+      },
+      [command, items]
+    );
+
+    useImperativeHandle(ref, () => ({
+      onKeyDown: (event: KeyboardEvent): boolean => {
+        if (event.key === "ArrowUp") {
+          setSelectedIndex((index) => (index + items.length - 1) % items.length);
+          return true;
+        }
+        if (event.key === "ArrowDown") {
+          setSelectedIndex((index) => (index + 1) % items.length);
+          return true;
+        }
+        if (event.key === "Enter" || event.key === "Tab") {
+          if (items[selectedIndex]) {
+            selectItem(selectedIndex);
+          } else {
+            onClose();
+          }
+          return true;
+        }
+        return false;
+      },
+    }));
+
+    useEffect(() => {
+      setSelectedIndex(0);
+    }, [items]);
+
+    useEffect(() => {
+      scrollContainerRef.current
+        ?.querySelector<HTMLElement>(`[data-index="${selectedIndex}"]`)
+        ?.scrollIntoView({ behavior: "auto", block: "nearest" });
+    }, [selectedIndex, items]);
+
+    if (items.length === 0) {
+      return null;
+    }
+
+    return (
+      <div id="wiki-link-menu" ref={scrollContainerRef} className="tippy-content">
+        <div className="menu-title">link to document</div>
+        {items.map((item, index) => (
+          <button
+            key={item.document?.id ?? `new:${item.target}`}
+            data-index={index}
+            className={`menu-item ${index === selectedIndex ? "selected" : ""}`}
+            // Keep focus in the editor; a blur would dismiss the menu
+            onMouseDown={(event) => event.preventDefault()}
+            onClick={() => selectItem(index)}
+            type="button"
+          >
+            <div className="item-content">
+              <div className="item-title">{item.document?.name ?? item.target}</div>
+              <div className="item-description">
+                {item.document
+                  ? item.document.path
+                  : "no such document yet, link anyway"}
+              </div>
+            </div>
+          </button>
+        ))}
+      </div>
+    );
+  }
+);
+
+WikiLinkMenu.displayName = "WikiLinkMenu";
+
+export default WikiLinkMenu;
@@ -0,0 +1,208 @@
+// src/editor/wikiLink/wikiLinkSuggestion.ts
+// "[[" autocomplete, built like the slash menu: @tiptap/suggestion tracks
+// the "[[query" range and a ReactRenderer inside a tippy popup lists the
+// workspace documents matching it.
+import type { Editor } from "@tiptap/core";
+import { PluginKey, type EditorState } from "@tiptap/pm/state";
+import { ReactRenderer } from "@tiptap/react";
+import Suggestion, {
+  findSuggestionMatch,
+  type SuggestionProps,
+} from "@tiptap/suggestion";
+import tippy, { type Instance as TippyInstance } from "tippy.js";
+import {
+  getWikiLinkTarget,
+  resolveWikiLink,
+  type WikiLinkDocument,
+} from "../../services/wikiLinks";
+import WikiLinkMenu, {
+  type WikiLinkMenuProps,
+  type WikiLinkMenuRef,
+  type WikiLinkSuggestionItem,
+} from "./wikiLinkMenu";
+
+export const WikiLinkSuggestionPluginKey = new PluginKey("wikiLinkSuggestion");
+
+const MAX_ITEMS = 10;
+
+type WikiLinkSuggestionProps = SuggestionProps<
+  WikiLinkSuggestionItem,
+  WikiLinkSuggestionItem
+>;
+
+/** "Name|label" as typed after the brackets. */
+function parseQuery(query: string): { target: string; label: string | null } {
+  const [target, ...label] = query.split("|");
+  return { target: target.trim(), label: label.join("|").trim() || null };
+}
+
+/** How well `document` matches: name prefix, then name, then folder path. */
+function rank(document: WikiLinkDocument, needle: string): number {
+  const name = document.name.toLowerCase();
+  if (name.startsWith(needle)) return 0;
+  if (name.includes(needle)) return 1;
+  return 2;
+}
+
+/**
+ * Documents whose path contains the typed target, best matches first. A
+ * target that names no document is offered as a link anyway, so notes can
+ * link to pages that are still to be written.
+ */
+function searchItems(
+  query: string,
+  documents: WikiLinkDocument[]
+): WikiLinkSuggestionItem[] {
+  const { target, label } = parseQuery(query);
+  const needle = target.toLowerCase();
+  const items: WikiLinkSuggestionItem[] = documents
+    .filter((document) => document.path.toLowerCase().includes(needle))
+    .sort((a, b) => rank(a, needle) - rank(b, needle))
+    .slice(0, MAX_ITEMS)
+    .map((document) => ({ document, target: document.path, label }));
+  if (target && !resolveWikiLink(target, documents)) {
+    items.push({ document: null, target, label });
+  }
+  return items;
+}
+
+/**
+ * Renders the menu for one suggestion session. `dismiss` closes the session
+ * early (Escape, editor blur); the plugin has no exit API of its own.
+ */
+function createMenuRenderer(dismiss: (editor: Editor) => void) {
+  return () => {
+    let component: ReactRenderer<WikiLinkMenuRef, WikiLinkMenuProps> | null =
+      null;
+    let popup: TippyInstance | null = null;
+    let currentProps: WikiLinkSuggestionProps | null = null;
+
+    // The editor scrolls inside #main_content, which tippy does not watch
+    const reposition = () => popup?.popperInstance?.update();
+
+    const handleBlur = ({ event }: { event: FocusEvent }) => {
+      const target = event.relatedTarget as Node | null;
+      if (currentProps && !popup?.popper.contains(target)) {
+        dismiss(currentProps.editor);
+      }
+    };
+
+    const menuProps = (props: WikiLinkSuggestionProps): WikiLinkMenuProps => ({
+      items: props.items,
+      command: props.command,
+      onClose: () => dismiss(props.editor),
+    });
+
+    const syncVisibility = (props: WikiLinkSuggestionProps) => {
+      if (props.items.length > 0) popup?.show();
+      else popup?.hide();
+    };
+
+    return {
+      onStart(props: WikiLinkSuggestionProps) {
+        currentProps = props;
+        component = new ReactRenderer(WikiLinkMenu, {
+          props: menuProps(props),
+          editor: props.editor,
+        });
+        if (!props.clientRect) return;
+
+        popup = tippy(document.body, {
+          getReferenceClientRect: () =>
+            currentProps?.clientRect?.() ?? new DOMRect(),
+          appendTo: () => document.body,
+          content: component.element,
+          showOnCreate: false,
+          interactive: true,
+          trigger: "manual",
+          placement: "bottom-start",
+          theme: "slash-command-theme",
+          maxWidth: "none",
+        });
+        syncVisibility(props);
+        window.addEventListener("scroll", reposition, true);
+        props.editor.on("blur", handleBlur);
+      },
+
+      onUpdate(props: WikiLinkSuggestionProps) {
+        currentProps = props;
+        component?.updateProps(menuProps(props));
+        syncVisibility(props);
+        reposition();
+      },
+
+      onKeyDown({ event }: { event: KeyboardEvent }) {
+        if (event.key === "Escape") {
+          if (currentProps) dismiss(currentProps.editor);
+          return true;
+        }
+        if (!popup?.state.isVisible) return false;
+        return component?.ref?.onKeyDown(event) ?? false;
+      },
+
+      onExit() {
+        window.removeEventListener("scroll", reposition, true);
+        currentProps?.editor.off("blur", handleBlur);
+        popup?.destroy();
+        component?.destroy();
+        popup = null;
+        component = null;
+        currentProps = null;
+      },
+    };
+  };
+}
+
+/**
+ * The autocomplete plugin. `getDocuments` reads the link targets the editor
+ * currently knows about; choosing one replaces "[[query" with a link to it.
+ */
+export function createWikiLinkSuggestion(
+  editor: Editor,
+  getDocuments: (state: EditorState) => WikiLinkDocument[]
+) {
+  // Start of a "[[" the user closed with Escape or by leaving the editor;
+  // it stays closed until that "[[" goes away
+  let dismissedFrom: number | null = null;
+
+  const dismiss = (target: Editor) => {
+    const { state } = target;
+    const { range } = WikiLinkSuggestionPluginKey.getState(state) ?? {};
+    if (!range) return;
+    dismissedFrom = range.from;
+    // Any transaction re-runs `allow`, which now ends the session
+    target.view.dispatch(
+      state.tr.setMeta(WikiLinkSuggestionPluginKey, "dismiss")
+    );
+  };
+
+  return Suggestion<WikiLinkSuggestionItem, WikiLinkSuggestionItem>({
+    editor,
+    pluginKey: WikiLinkSuggestionPluginKey,
+    char: "[[",
+    allowSpaces: true, // Document names usually have spaces
+    allowedPrefixes: null,
+    findSuggestionMatch(config) {
+      const match = findSuggestionMatch(config);
+      if (!match) dismissedFrom = null;
+      return match;
+    },
+    allow: ({ state, range }) =>
+      range.from !== dismissedFrom &&
+      !state.doc.resolve(range.from).parent.type.spec.code,
+    items: ({ query, editor: current }) =>
+      searchItems(query, getDocuments(current.state)),
+    command: ({ editor: current, range, props: item }) => {
+      const target = item.document
+        ? getWikiLinkTarget(item.document, getDocuments(current.state))
+        : item.target;
+      current
+        .chain()
+        .focus()
+        .deleteRange(range)
+        .insertWikiLink({ target, label: item.label })
+        .run();
+    },
+    render: createMenuRenderer(dismiss),
+  });
+}
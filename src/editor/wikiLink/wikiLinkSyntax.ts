@@ -0,0 +1,53 @@
+// src/editor/wikiLink/wikiLinkSyntax.ts
+// markdown-it rule for `[[Document Name]]` and `[[Document Name|label]]`.
+// It emits the element the wikiLink node parses.
+import type MarkdownIt from "markdown-it";
+import { matchWikiLink } from "../../services/wikiLinks";
+
+type InlineRule = Parameters<MarkdownIt["inline"]["ruler"]["before"]>[2];
+
+export const WIKI_LINK_ATTRIBUTE = "data-wiki-link";
+export const WIKI_LABEL_ATTRIBUTE = "data-wiki-label";
+
+const BRACKET = 0x5b; // [
+
+const patchedInstances = new WeakSet<MarkdownIt>();
+
+const wikiLink: InlineRule = (state, silent) => {
+  const { src, pos, posMax } = state;
+  if (src.charCodeAt(pos) !== BRACKET || src.charCodeAt(pos + 1) !== BRACKET) {
+    return false;
+  }
+  const match = matchWikiLink(src.slice(pos, posMax));
+  if (!match) {
+    return false;
+  }
+  if (!silent) {
+    const token = state.push("wiki_link", "span", 0);
+    token.content = match.link.target;
+    token.info = match.link.label ?? "";
+    token.markup = "[[";
+  }
+  state.pos += match.length;
+  return true;
+};
+
+/**
+ * Adds the wiki-link rule to `markdownit`, rendering links as
+ * `<span data-wiki-link="target">label</span>`. It runs before the link rule,
+ * which would otherwise read `[[x]]` as brackets around a reference.
+ */
+export function parseWikiLinkSyntax(markdownit: MarkdownIt) {
+  if (patchedInstances.has(markdownit)) return;
+  patchedInstances.add(markdownit);
+
+  const { escapeHtml } = markdownit.utils;
+  markdownit.inline.ruler.before("link", "wiki_link", wikiLink);
+  markdownit.renderer.rules.wiki_link = (tokens, index) => {
+    const { content: target, info: label } = tokens[index];
+    const labelAttribute = label
+      ? ` ${WIKI_LABEL_ATTRIBUTE}="${escapeHtml(label)}"`
+      : "";
+    return `<span ${WIKI_LINK_ATTRIBUTE}="${escapeHtml(target)}"${labelAttribute}>${escapeHtml(label || target)}</span>`;
+  };
+}
@@ -2,9 +2,14 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App.tsx";
-// DO NOT import hacker-theme.css here if already imported in App.tsx
+import { applyTheme } from "./services/themes/themes";
+import { loadTheme } from "./services/themes/themeSettings";
+// DO NOT import theme.css here if already imported in App.tsx
 // import './index.css' // if you have one
 
+// Before the first render, so the page does not flash in the default theme
+applyTheme(loadTheme());
+
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <App />
@@ -0,0 +1,106 @@
+// src/services/assets/assetFiles.ts
+// Images and other files pasted or dropped into a document are stored as
+// assets next to it and linked by a relative path such as
+// `assets/screenshot-3f9a2c.png`, so the Markdown reads the same on GitHub,
+// in the exported site and in the editor.
+
+export const ASSETS_DIRECTORY = "assets";
+
+// Relative `assets/...` path, optionally starting with "./"
+const ASSET_PATH = /^(?:\.\/)?assets\/[^?#]+$/;
+// A URL with a scheme (https:, data:, blob:) or an absolute path
+const ABSOLUTE_URL = /^(?:[a-z][a-z\d+.-]*:|\/)/i;
+
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "webp", "svg", "avif", "bmp"];
+
+// Types the browser needs to be told; anything else is served as bytes
+const MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  avif: "image/avif",
+  bmp: "image/bmp",
+  pdf: "application/pdf",
+  txt: "text/plain",
+  csv: "text/csv",
+  json: "application/json",
+  zip: "application/zip",
+};
+
+export class AssetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AssetError";
+  }
+}
+
+/** The extension of a file name or path in lower case, "" if it has none. */
+export function getFileExtension(path: string): string {
+  const name = path.split("/").pop() ?? "";
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+export function getMimeType(path: string): string {
+  return MIME_TYPES[getFileExtension(path)] ?? "application/octet-stream";
+}
+
+export function isImageFile(file: { name: string; type: string }): boolean {
+  return file.type.startsWith("image/") || isImagePath(file.name);
+}
+
+export function isImagePath(path: string): boolean {
+  return IMAGE_EXTENSIONS.includes(getFileExtension(path));
+}
+
+export function isAssetPath(href: string): boolean {
+  return ASSET_PATH.test(href);
+}
+
+/** True for links the browser can load as they are, without the asset store. */
+export function isAbsoluteUrl(href: string): boolean {
+  return ABSOLUTE_URL.test(href);
+}
+
+/**
+ * A fresh path under `assets/` for an uploaded file: the name slugged, plus
+ * a random suffix so every pasted "image.png" gets its own file and assets
+ * of documents in the same folder never overwrite each other.
+ */
+export function createAssetPath(fileName: string, type = ""): string {
+  const extension =
+    getFileExtension(fileName) ||
+    Object.keys(MIME_TYPES).find((key) => MIME_TYPES[key] === type) ||
+    "bin";
+  const dot = fileName.lastIndexOf(".");
+  const stem = (dot > 0 ? fileName.slice(0, dot) : fileName)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+  const suffix = crypto.randomUUID().slice(0, 6);
+  return `${ASSETS_DIRECTORY}/${stem || "file"}-${suffix}.${extension}`;
+}
+
+/**
+ * Resolves `path` against `directory` (both slash separated, without a
+ * leading slash): `resolveRelativePath("notes", "./assets/a.png")` is
+ * `notes/assets/a.png`. Paths climbing out of the root are rejected.
+ */
+export function resolveRelativePath(directory: string, path: string): string {
+  const segments = directory.split("/").filter(Boolean);
+  for (const segment of path.split("/")) {
+    if (segment === "..") {
+      if (segments.length === 0) {
+        throw new AssetError(`"${path}" points outside the repository`);
+      }
+      segments.pop();
+    } else if (segment && segment !== ".") {
+      segments.push(segment);
+    }
+  }
+  return segments.join("/");
+}
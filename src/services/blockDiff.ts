@@ -0,0 +1,91 @@
+// src/services/blockDiff.ts
+// Compares two versions of a document block by block (paragraphs, headings,
+// lists, code blocks, ...) rather than line by line, so the history view can
+// show which rendered blocks were added or removed.
+import { lexer } from "marked";
+import { splitFrontMatter } from "./frontMatter";
+
+export type BlockChange = "unchanged" | "added" | "removed";
+
+export interface MarkdownBlock {
+  markdown: string; // The block's source, without trailing blank lines
+  frontMatter: boolean; // The YAML front matter, shown as source
+}
+
+export interface DiffBlock extends MarkdownBlock {
+  change: BlockChange;
+}
+
+/** The top-level blocks of a document, front matter first when it has one. */
+export function splitBlocks(markdown: string): MarkdownBlock[] {
+  const { frontMatter, body } = splitFrontMatter(markdown);
+  const blocks: MarkdownBlock[] = frontMatter
+    ? [{ markdown: frontMatter.raw.trimEnd(), frontMatter: true }]
+    : [];
+  lexer(body).forEach((token) => {
+    const source = token.raw.trimEnd();
+    if (token.type !== "space" && source) {
+      blocks.push({ markdown: source, frontMatter: false });
+    }
+  });
+  return blocks;
+}
+
+/**
+ * The blocks of `after` interleaved with the ones removed from `before`,
+ * based on their longest common subsequence. Removed blocks come before the
+ * blocks added in their place.
+ */
+export function diffBlocks(before: string, after: string): DiffBlock[] {
+  const a = splitBlocks(before);
+  const b = splitBlocks(after);
+  const same = (i: number, j: number) => a[i].markdown === b[j].markdown;
+
+  // Most edits touch a few blocks; the common ends need no table
+  let start = 0;
+  while (start < a.length && start < b.length && same(start, start)) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && same(endA - 1, endB - 1)) {
+    endA--;
+    endB--;
+  }
+
+  // lcs[i * width + j]: common blocks of a[start + i..endA) and b[start + j..endB)
+  const rows = endA - start;
+  const width = endB - start + 1;
+  const lcs = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = width - 2; j >= 0; j--) {
+      lcs[i * width + j] = same(start + i, start + j)
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffBlock[] = a
+    .slice(0, start)
+    .map((block) => ({ ...block, change: "unchanged" }));
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < width - 1) {
+    if (i < rows && j < width - 1 && same(start + i, start + j)) {
+      result.push({ ...b[start + j], change: "unchanged" });
+      i++;
+      j++;
+    } else if (
+      j === width - 1 ||
+      (i < rows && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])
+    ) {
+      result.push({ ...a[start + i], change: "removed" });
+      i++;
+    } else {
+      result.push({ ...b[start + j], change: "added" });
+      j++;
+    }
+  }
+  b.slice(endB).forEach((block) => result.push({ ...block, change: "unchanged" }));
+  return result;
+}
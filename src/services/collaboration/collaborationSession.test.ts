@@ -0,0 +1,105 @@
+// src/services/collaboration/collaborationSession.test.ts
+import { describe, expect, it } from "vitest";
+import * as Y from "yjs";
+import { createSharedDocumentSeed } from "./collaborationSession";
+
+/** A client of the room: its own Yjs doc and seeding, no relay. */
+function createClient() {
+  const ydoc = new Y.Doc();
+  const fragment = ydoc.getXmlFragment("default");
+  return { ydoc, fragment, ...createSharedDocumentSeed(ydoc, fragment) };
+}
+
+type Client = ReturnType<typeof createClient>;
+
+/** Exchanges updates until every client has every change, as the relay would. */
+function syncAll(...clients: Client[]) {
+  for (let round = 0; round < 3; round++) {
+    clients.forEach((from) =>
+      clients.forEach((to) => {
+        if (from !== to) {
+          Y.applyUpdate(to.ydoc, Y.encodeStateAsUpdate(from.ydoc, Y.encodeStateVector(to.ydoc)));
+        }
+      })
+    );
+  }
+}
+
+/** Seeds `client` with one paragraph per line of `text`. */
+function seedText(client: Client, text: string) {
+  client.seed(() => {
+    client.fragment.insert(
+      0,
+      text.split("\n").map((line) => {
+        const paragraph = new Y.XmlElement("paragraph");
+        paragraph.insert(0, [new Y.XmlText(line)]);
+        return paragraph;
+      })
+    );
+  });
+}
+
+const paragraphs = (client: Client) =>
+  client.fragment.toArray().map((child) => (child as Y.XmlElement).toArray().join(""));
+
+describe("shared document seeding", () => {
+  it("lets a client joining later use the seeded content", () => {
+    const first = createClient();
+    const second = createClient();
+    expect(first.isSeeded()).toBe(false);
+    seedText(first, "one\ntwo");
+
+    syncAll(first, second);
+    expect(second.isSeeded()).toBe(true);
+    expect(paragraphs(second)).toEqual(["one", "two"]);
+  });
+
+  it("keeps one copy when two clients seed at once", () => {
+    const first = createClient();
+    const second = createClient();
+    // Neither has seen the other's seed yet
+    seedText(first, "first copy\nof the document");
+    seedText(second, "second copy\nof the document");
+
+    syncAll(first, second);
+    expect(paragraphs(first)).toEqual(paragraphs(second));
+    expect([
+      ["first copy", "of the document"],
+      ["second copy", "of the document"],
+    ]).toContainEqual(paragraphs(first));
+  });
+
+  it("settles a three-way race on a single copy", () => {
+    const clients = [createClient(), createClient(), createClient()];
+    clients.forEach((client, index) => seedText(client, `copy ${index}`));
+
+    syncAll(...clients);
+    const [content, ...others] = clients.map(paragraphs);
+    expect(content).toHaveLength(1);
+    others.forEach((other) => expect(other).toEqual(content));
+  });
+
+  it("keeps the winner's later edits", () => {
+    const first = createClient();
+    const second = createClient();
+    seedText(first, "first");
+    seedText(second, "second");
+    syncAll(first, second);
+
+    const winner = paragraphs(first)[0] === "first" ? first : second;
+    winner.fragment.push([new Y.XmlElement("paragraph")]);
+    syncAll(first, second);
+    expect(first.fragment.length).toBe(2);
+    expect(second.fragment.length).toBe(2);
+  });
+
+  it("does not seed again once the content was deleted", () => {
+    const first = createClient();
+    seedText(first, "one");
+    first.fragment.delete(0, first.fragment.length);
+
+    const second = createClient();
+    syncAll(first, second);
+    expect(second.isSeeded()).toBe(true);
+  });
+});
@@ -0,0 +1,183 @@
+// src/services/collaboration/collaborationSession.ts
+// One shared document: the Yjs doc the editor binds to, the WebSocket
+// provider that syncs it through the relay, and the awareness state that
+// carries everyone's name, color and cursor.
+import * as Y from "yjs";
+import { WebsocketProvider } from "y-websocket";
+import type { CollaborationUser } from "./collaborationSettings";
+
+export type CollaborationStatus = "connecting" | "connected" | "disconnected";
+
+// Another client editing the same document
+export interface CollaborationPeer {
+  clientId: number;
+  name: string;
+  color: string;
+}
+
+// isSeeded and seed decide who puts the stored document into the room
+export interface CollaborationSession extends SharedDocumentSeed {
+  documentId: string; // Workspace document the session belongs to
+  room: string; // Shared by every client editing the same document path
+  serverUrl: string; // The relay the room lives on
+  ydoc: Y.Doc;
+  provider: WebsocketProvider;
+  fragment: Y.XmlFragment; // The editor content
+  /** Resolves once the relay has sent the shared state, however old. */
+  whenSynced: Promise<void>;
+  getUser: () => CollaborationUser;
+  setUser: (user: CollaborationUser) => void;
+  getStatus: () => CollaborationStatus;
+  getPeers: () => CollaborationPeer[];
+  /** Called whenever the status or the peers change. */
+  subscribe: (listener: () => void) => () => void;
+  destroy: () => void;
+}
+
+// Key of the editor content in the Yjs doc
+const FRAGMENT_NAME = "default";
+// Map holding the client that seeded the content; it stays set when the
+// content is later emptied, so nobody seeds a document twice
+const META_NAME = "docground";
+const SEEDER_KEY = "seededBy";
+
+export interface SharedDocumentSeed {
+  /** Whether anyone has put content into the shared doc yet. */
+  isSeeded: () => boolean;
+  /**
+   * Fills the empty shared doc through `insert` (usually the bound editor
+   * loading the stored document) and claims the seed. Two clients joining
+   * an empty room at once both seed before they see each other; Yjs settles
+   * concurrent writes to the claim on the same client everywhere, and the
+   * other one takes its content back out so the document is not doubled.
+   */
+  seed: (insert: () => void) => void;
+}
+
+/** Seeding of the shared doc `ydoc`, whose editor content is `fragment`. */
+export function createSharedDocumentSeed(
+  ydoc: Y.Doc,
+  fragment: Y.XmlFragment
+): SharedDocumentSeed {
+  const meta = ydoc.getMap<number>(META_NAME);
+  // Top-level nodes this client seeded, until its claim is known to stand
+  let ownSeed: Y.XmlElement[] = [];
+
+  const withdrawLostSeed = () => {
+    if (ownSeed.length === 0 || meta.get(SEEDER_KEY) === ydoc.clientID) {
+      return;
+    }
+    const lost = new Set<unknown>(ownSeed);
+    ownSeed = [];
+    ydoc.transact(() => {
+      const children = fragment.toArray();
+      // From the end, so the indexes ahead stay valid
+      for (let index = children.length - 1; index >= 0; index--) {
+        if (lost.has(children[index])) {
+          fragment.delete(index, 1);
+        }
+      }
+    });
+  };
+  meta.observe(withdrawLostSeed);
+
+  return {
+    isSeeded: () => meta.has(SEEDER_KEY) || fragment.length > 0,
+    seed: (insert) => {
+      const before = new Set(fragment.toArray());
+      insert();
+      ownSeed = fragment
+        .toArray()
+        .filter(
+          (child): child is Y.XmlElement =>
+            !before.has(child) && child instanceof Y.XmlElement
+        );
+      // When another client's claim is already on its way and wins, the
+      // observer above withdraws this seed once it arrives
+      meta.set(SEEDER_KEY, ydoc.clientID);
+    },
+  };
+}
+
+/**
+ * The relay room of a document. Rooms go by workspace path, not id, because
+ * ids are local to each browser's workspace while paths are what people
+ * share ("notes/Ideas").
+ */
+export function getCollaborationRoom(path: string): string {
+  return `docground/${encodeURIComponent(path)}`;
+}
+
+/** Connects to the relay at `serverUrl` and joins the room of `path`. */
+export function createCollaborationSession(
+  documentId: string,
+  path: string,
+  serverUrl: string,
+  user: CollaborationUser
+): CollaborationSession {
+  const room = getCollaborationRoom(path);
+  const ydoc = new Y.Doc();
+  const provider = new WebsocketProvider(serverUrl, room, ydoc);
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach((listener) => listener());
+
+  let currentUser = user;
+  let status: CollaborationStatus = "connecting";
+  provider.awareness.setLocalStateField("user", currentUser);
+  provider.on("status", (event: { status: CollaborationStatus }) => {
+    status = event.status;
+    notify();
+  });
+  provider.awareness.on("change", notify);
+
+  const whenSynced = new Promise<void>((resolve) => {
+    const handleSync = (isSynced: boolean) => {
+      if (isSynced) {
+        provider.off("sync", handleSync);
+        resolve();
+      }
+    };
+    provider.on("sync", handleSync);
+  });
+
+  const fragment = ydoc.getXmlFragment(FRAGMENT_NAME);
+
+  return {
+    documentId,
+    room,
+    serverUrl,
+    ydoc,
+    provider,
+    fragment,
+    whenSynced,
+    ...createSharedDocumentSeed(ydoc, fragment),
+    getUser: () => currentUser,
+    setUser: (next) => {
+      currentUser = next;
+      provider.awareness.setLocalStateField("user", next);
+    },
+    getStatus: () => status,
+    getPeers: () =>
+      Array.from(provider.awareness.getStates())
+        .filter(([clientId, state]) => clientId !== ydoc.clientID && state.user)
+        .map(([clientId, state]) => ({
+          clientId,
+          name: String(state.user.name ?? ""),
+          color: String(state.user.color ?? ""),
+        })),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    destroy: () => {
+      listeners.clear();
+      provider.awareness.off("change", notify);
+      // Tells the others this client left, so its cursor disappears right away
+      provider.awareness.setLocalState(null);
+      provider.destroy();
+      ydoc.destroy();
+    },
+  };
+}
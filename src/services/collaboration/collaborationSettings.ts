@@ -0,0 +1,61 @@
+// src/services/collaboration/collaborationSettings.ts
+// Who the user is to other collaborators and which relay they share
+// documents through. Kept in localStorage so a reload rejoins as the same
+// person.
+
+// How the user shows up in other people's editors
+export interface CollaborationUser {
+  name: string;
+  color: string; // CSS color of the remote cursor and its label
+}
+
+export interface CollaborationSettings {
+  enabled: boolean;
+  serverUrl: string; // WebSocket relay, see server/relay.js
+  user: CollaborationUser;
+}
+
+const SETTINGS_KEY = "docground:collaboration";
+
+// The relay's default address when started with `npm run relay`
+export const DEFAULT_SERVER_URL = "ws://localhost:1234";
+
+// Cursor colors that read well on the dark editor background
+export const CURSOR_COLORS = [
+  "#b5e853",
+  "#63c0f5",
+  "#f4bf75",
+  "#ac4142",
+  "#6a9fb5",
+  "#d28445",
+  "#aa759f",
+  "#90a959",
+];
+
+function createGuestUser(): CollaborationUser {
+  const number = Math.floor(Math.random() * 1000);
+  return {
+    name: `guest-${String(number).padStart(3, "0")}`,
+    color: CURSOR_COLORS[number % CURSOR_COLORS.length],
+  };
+}
+
+export function loadCollaborationSettings(): CollaborationSettings {
+  const defaults: CollaborationSettings = {
+    enabled: false,
+    serverUrl: DEFAULT_SERVER_URL,
+    user: createGuestUser(),
+  };
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "null");
+    return stored
+      ? { ...defaults, ...stored, user: { ...defaults.user, ...stored.user } }
+      : defaults;
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveCollaborationSettings(settings: CollaborationSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
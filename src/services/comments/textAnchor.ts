@@ -0,0 +1,84 @@
+// src/services/comments/textAnchor.ts
+// Where a comment points, stored as the quoted text plus a little of the
+// text around it rather than as offsets. Offsets break with the first edit
+// above the comment; a quote with its context can still be found after the
+// document changed around it, and tells identical quotes apart.
+
+export interface TextAnchor {
+  quote: string; // The commented text
+  prefix: string; // Text right before the quote, up to CONTEXT_LENGTH chars
+  suffix: string; // Text right after it
+}
+
+export interface TextRange {
+  from: number;
+  to: number;
+}
+
+const CONTEXT_LENGTH = 32;
+
+/** The anchor of `text.slice(from, to)`. */
+export function createTextAnchor(
+  text: string,
+  from: number,
+  to: number
+): TextAnchor {
+  return {
+    quote: text.slice(from, to),
+    prefix: text.slice(Math.max(0, from - CONTEXT_LENGTH), from),
+    suffix: text.slice(to, to + CONTEXT_LENGTH),
+  };
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0;
+  while (
+    length < a.length &&
+    length < b.length &&
+    a[a.length - 1 - length] === b[b.length - 1 - length]
+  ) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Finds the anchor in `text`: of all the places the quote appears, the one
+ * whose surroundings match the stored context best. Null when the quote is
+ * gone, e.g. because the commented text was rewritten.
+ */
+export function locateTextAnchor(
+  text: string,
+  anchor: TextAnchor
+): TextRange | null {
+  if (!anchor.quote) {
+    return null;
+  }
+  let best: TextRange | null = null;
+  let bestScore = -1;
+  for (
+    let from = text.indexOf(anchor.quote);
+    from !== -1;
+    from = text.indexOf(anchor.quote, from + 1)
+  ) {
+    const to = from + anchor.quote.length;
+    const before = text.slice(Math.max(0, from - anchor.prefix.length), from);
+    const after = text.slice(to, to + anchor.suffix.length);
+    const score =
+      commonSuffixLength(before, anchor.prefix) +
+      commonPrefixLength(after, anchor.suffix);
+    if (score > bestScore) {
+      best = { from, to };
+      bestScore = score;
+    }
+  }
+  return best;
+}
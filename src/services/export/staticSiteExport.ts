@@ -0,0 +1,306 @@
+// src/services/export/staticSiteExport.ts
+import { strToU8, zipSync } from "fflate";
+import themeCss from "../../theme.css?raw";
+import { resolveRelativePath } from "../assets/assetFiles";
+import type { SanitizeMode } from "../sanitize/sanitizePolicy";
+import { slugify } from "../slugger";
+import { createThemeRenderer } from "../themes/themeRenderer";
+import { DEFAULT_THEME, formatThemeVariables, type Theme } from "../themes/themes";
+import type { WorkspaceEntry } from "../storage/workspaceStore";
+import {
+  convertWikiLinksToMarkdown,
+  listWikiLinkDocuments,
+} from "../wikiLinks";
+
+export interface StaticSiteExportOptions {
+  entries: WorkspaceEntry[];
+  rootId: string | null; // Folder to export; null exports the whole workspace
+  loadDocument: (id: string) => Promise<string>;
+  // Images and files a document links to, copied next to its page
+  loadAssets?: (id: string) => Promise<{ path: string; data: Blob }[]>;
+  theme?: Theme; // Colors, fonts and renderer options; the default theme if unset
+  sanitizeMode?: SanitizeMode; // Which raw HTML is published; GitHub's by default
+}
+
+// Output path (e.g. `notes/ideas.html`) -> file contents; assets are binary
+export type StaticSiteFiles = Record<string, string | Uint8Array>;
+
+export class StaticSiteExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StaticSiteExportError";
+  }
+}
+
+const STYLESHEET_PATH = "theme.css";
+const INDEX_PATH = "index.html";
+
+// A document or folder of the exported tree, with its path below the root
+interface SitePage {
+  entry: WorkspaceEntry;
+  segments: string[]; // ["notes", "ideas"] for notes/ideas
+  children: SitePage[];
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function encodePath(segments: string[]): string {
+  return segments.map(encodeURIComponent).join("/");
+}
+
+function sortPages(a: SitePage, b: SitePage) {
+  // Same order as the sidebar: folders first, then alphabetical
+  if (a.entry.kind !== b.entry.kind) {
+    return a.entry.kind === "folder" ? -1 : 1;
+  }
+  return a.entry.name.localeCompare(b.entry.name);
+}
+
+function buildTree(
+  entries: WorkspaceEntry[],
+  parentId: string | null,
+  parentSegments: string[]
+): SitePage[] {
+  return entries
+    .filter((entry) => entry.parentId === parentId)
+    .map((entry) => {
+      const segments = [...parentSegments, entry.name];
+      return {
+        entry,
+        segments,
+        children:
+          entry.kind === "folder" ? buildTree(entries, entry.id, segments) : [],
+      };
+    })
+    .sort(sortPages);
+}
+
+function flattenDocuments(pages: SitePage[]): SitePage[] {
+  return pages.flatMap((page) =>
+    page.entry.kind === "document" ? [page] : flattenDocuments(page.children)
+  );
+}
+
+/** Lookup key for a document path, matched case-insensitively like names. */
+function pathKey(segments: string[]): string {
+  return segments.join("/").toLowerCase();
+}
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text; // Malformed escapes are kept as written
+  }
+}
+
+/**
+ * Points relative links at the exported pages: `ideas.md`, `./ideas` and
+ * `../notes/ideas.md#goals` become links to the matching `.html` page when
+ * that document is part of the export. Other relative `.md` links just get
+ * the new extension; absolute URLs and in-page anchors are left alone.
+ */
+function createLinkRewriter(
+  fromDirectory: string[],
+  documentPaths: Map<string, string[]>
+) {
+  const toRoot = "../".repeat(fromDirectory.length);
+
+  return (href: string): string => {
+    if (/^(?:[a-z][a-z\d+.-]*:|\/|#)/i.test(href)) {
+      return href;
+    }
+    const [, path, suffix] = /^([^?#]*)(.*)$/.exec(href) ?? ["", href, ""];
+    if (!path) {
+      return href;
+    }
+
+    const segments = [...fromDirectory];
+    for (const segment of safeDecode(path).split("/")) {
+      if (segment === "..") {
+        segments.pop();
+      } else if (segment && segment !== ".") {
+        segments.push(segment);
+      }
+    }
+    const name = segments.pop();
+    if (name) {
+      segments.push(name.replace(/\.md$/i, ""));
+      const target = documentPaths.get(pathKey(segments));
+      if (target) {
+        return `${toRoot}${encodePath(target)}.html${suffix}`;
+      }
+    }
+    return /\.md$/i.test(path)
+      ? `${path.replace(/\.md$/i, ".html")}${suffix}`
+      : href;
+  };
+}
+
+function renderNavigation(
+  pages: SitePage[],
+  toRoot: string,
+  currentId: string | null
+): string {
+  const items = pages.map((page) => {
+    const name = escapeHtml(page.entry.name);
+    if (page.entry.kind === "folder") {
+      return `<li class="site-nav-folder">${name}/${renderNavigation(page.children, toRoot, currentId)}</li>`;
+    }
+    const active = page.entry.id === currentId ? ' class="active"' : "";
+    return `<li><a href="${toRoot}${encodePath(page.segments)}.html"${active}>${name}</a></li>`;
+  });
+  return items.length ? `<ul>${items.join("")}</ul>` : "";
+}
+
+function renderPage(options: {
+  siteTitle: string;
+  pageTitle: string;
+  toRoot: string;
+  navigation: string;
+  content: string;
+}): string {
+  const { siteTitle, pageTitle, toRoot, navigation, content } = options;
+  // Same markup as the pages-themes/hacker layout, so theme.css
+  // styles the header and #main_content without additions
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(pageTitle)} | ${escapeHtml(siteTitle)}</title>
+<link rel="stylesheet" href="${toRoot}${STYLESHEET_PATH}">
+</head>
+<body>
+<header>
+<div class="container">
+<a id="a-title" href="${toRoot}${INDEX_PATH}"><h1>${escapeHtml(siteTitle)}</h1></a>
+<h2>${escapeHtml(pageTitle)}</h2>
+</div>
+</header>
+<div class="container">
+${navigation && `<nav class="site-nav">${navigation}</nav>`}
+<section id="main_content">
+${content}
+</section>
+</div>
+</body>
+</html>
+`;
+}
+
+/**
+ * Renders every document below `rootId` to an HTML page, keeping the folder
+ * layout, plus the theme stylesheet and an index page listing the documents.
+ * A top-level document called "index" becomes the index page instead.
+ * Each document's assets are copied to the `assets/` folder beside its page.
+ */
+export async function buildStaticSite(
+  options: StaticSiteExportOptions
+): Promise<StaticSiteFiles> {
+  const { entries, rootId, loadDocument, loadAssets, sanitizeMode } = options;
+  const theme = options.theme ?? DEFAULT_THEME;
+  const root = rootId ? entries.find((entry) => entry.id === rootId) : null;
+  if (rootId && root?.kind !== "folder") {
+    throw new StaticSiteExportError("Only folders can be exported as a site");
+  }
+
+  const siteTitle = root?.name ?? "workspace";
+  const tree = buildTree(entries, rootId, []);
+  const documents = flattenDocuments(tree);
+  if (documents.length === 0) {
+    throw new StaticSiteExportError(`"${siteTitle}" has no documents to export`);
+  }
+  const documentPaths = new Map(
+    documents.map((page) => [pathKey(page.segments), page.segments])
+  );
+
+  // Wiki-links resolve against the whole workspace, like in the editor
+  const linkTargets = listWikiLinkDocuments(entries);
+
+  // The theme's variables come first, so the shared styles pick them up
+  const files: StaticSiteFiles = {
+    [STYLESHEET_PATH]: formatThemeVariables(theme) + themeCss,
+  };
+  const renderer = createThemeRenderer(theme);
+
+  for (const page of documents) {
+    const directory = page.segments.slice(0, -1);
+    const toRoot = "../".repeat(directory.length);
+    let markdown = await loadDocument(page.entry.id);
+    const linkSource = linkTargets.find(({ id }) => id === page.entry.id);
+    if (linkSource) {
+      // [[Name]] becomes [Name](Name.md), which the link rewriter then
+      // points at the exported page
+      markdown = convertWikiLinksToMarkdown(markdown, linkSource, linkTargets);
+    }
+    const { title, html } = renderer.renderDocument(markdown, {
+      rewriteLink: createLinkRewriter(directory, documentPaths),
+      sanitizeMode,
+    });
+    files[`${page.segments.join("/")}.html`] = renderPage({
+      siteTitle,
+      // The front matter title, like Jekyll's page.title
+      pageTitle: title ?? page.entry.name,
+      toRoot,
+      navigation: renderNavigation(tree, toRoot, page.entry.id),
+      content: html,
+    });
+    // Relative `assets/...` links keep working from the page's folder
+    for (const asset of (await loadAssets?.(page.entry.id)) ?? []) {
+      const path = resolveRelativePath(directory.join("/"), asset.path);
+      files[path] = new Uint8Array(await asset.data.arrayBuffer());
+    }
+  }
+
+  if (!files[INDEX_PATH]) {
+    files[INDEX_PATH] = renderPage({
+      siteTitle,
+      pageTitle: "index",
+      toRoot: "",
+      navigation: "",
+      content: `<h1>${escapeHtml(siteTitle)}</h1>\n${renderNavigation(tree, "", null)}`,
+    });
+  }
+
+  return files;
+}
+
+/** Builds the site and packs it into a ZIP archive named after the root. */
+export async function exportStaticSite(
+  options: StaticSiteExportOptions
+): Promise<{ filename: string; blob: Blob }> {
+  const files = await buildStaticSite(options);
+  const archive = zipSync(
+    Object.fromEntries(
+      Object.entries(files).map(([path, contents]) => [
+        path,
+        typeof contents === "string" ? strToU8(contents) : contents,
+      ])
+    )
+  );
+  const root = options.entries.find((entry) => entry.id === options.rootId);
+  return {
+    filename: `${slugify(root?.name ?? "workspace") || "site"}.zip`,
+    blob: new Blob([archive], { type: "application/zip" }),
+  };
+}
+
+/** Saves `blob` through a temporary download link. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
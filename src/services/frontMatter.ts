@@ -0,0 +1,123 @@
+// src/services/frontMatter.ts
+// YAML front matter (the `---` block Jekyll and GitHub Pages read at the top
+// of a page). It is split off before the body reaches the editor, which
+// would otherwise read it as a horizontal rule and a paragraph.
+import { isMap, parseDocument } from "yaml";
+
+export type FrontMatterData = Record<string, unknown>;
+
+export interface FrontMatter {
+  /** The block as loaded (fences and following blank lines included); saved verbatim until edited. */
+  raw: string;
+  /** Text between the fences. */
+  yaml: string;
+  /** Parsed properties, or null when `yaml` is not a valid mapping. */
+  data: FrontMatterData | null;
+  error: string | null;
+}
+
+// How the properties panel edits a value
+export type FrontMatterPropertyKind =
+  | "text"
+  | "number"
+  | "boolean"
+  | "date"
+  | "list"
+  | "yaml"; // Anything nested; only editable as YAML source
+
+// `---` on the first line, then everything up to a closing `---` or `...`
+const FRONT_MATTER_BLOCK =
+  /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)(?:[ \t]*\r?\n)*/;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseYaml(yaml: string): Pick<FrontMatter, "data" | "error"> {
+  const document = parseDocument(yaml);
+  if (document.errors.length > 0) {
+    return { data: null, error: document.errors[0].message };
+  }
+  if (document.contents === null) {
+    return { data: {}, error: null }; // Empty front matter is still valid
+  }
+  if (!isMap(document.contents)) {
+    return { data: null, error: "Front matter must be a list of key: value pairs" };
+  }
+  return { data: document.toJS() as FrontMatterData, error: null };
+}
+
+/** Builds front matter from YAML source, e.g. after editing it by hand. */
+export function createFrontMatter(yaml: string): FrontMatter {
+  const source = yaml && !yaml.endsWith("\n") ? `${yaml}\n` : yaml;
+  return { raw: `---\n${source}---\n\n`, yaml: source, ...parseYaml(source) };
+}
+
+/**
+ * Splits `markdown` into its front matter and the body the editor shows.
+ * Documents without a front matter block come back unchanged.
+ */
+export function splitFrontMatter(markdown: string): {
+  frontMatter: FrontMatter | null;
+  body: string;
+} {
+  const match = FRONT_MATTER_BLOCK.exec(markdown);
+  if (!match) {
+    return { frontMatter: null, body: markdown };
+  }
+  const yaml = match[1] === undefined ? "" : `${match[1]}\n`;
+  return {
+    frontMatter: { raw: match[0], yaml, ...parseYaml(yaml) },
+    body: markdown.slice(match[0].length),
+  };
+}
+
+/** Inverse of splitFrontMatter. */
+export function joinFrontMatter(
+  frontMatter: FrontMatter | null,
+  body: string
+): string {
+  return frontMatter ? frontMatter.raw + body : body;
+}
+
+/**
+ * Sets (or with `undefined`, removes) one property. Edits go through the
+ * YAML document so comments and the other properties keep their formatting.
+ */
+export function setFrontMatterProperty(
+  frontMatter: FrontMatter | null,
+  key: string,
+  value: unknown
+): FrontMatter {
+  const document = parseDocument(frontMatter?.yaml ?? "");
+  if (value === undefined) {
+    document.delete(key);
+  } else {
+    document.set(key, value);
+  }
+  const isEmpty = isMap(document.contents) && document.contents.items.length === 0;
+  // An empty mapping would be written as "{}"
+  return createFrontMatter(isEmpty ? "" : String(document));
+}
+
+/** The `title` property, which names the page in rendered output. */
+export function getFrontMatterTitle(
+  frontMatter: FrontMatter | null
+): string | null {
+  const title = frontMatter?.data?.title;
+  return typeof title === "string" || typeof title === "number"
+    ? String(title)
+    : null;
+}
+
+export function getPropertyKind(value: unknown): FrontMatterPropertyKind {
+  if (typeof value === "number") return "number";
+  if (typeof value === "boolean") return "boolean";
+  if (typeof value === "string") return ISO_DATE.test(value) ? "date" : "text";
+  if (value === null || value === undefined) return "text";
+  if (
+    Array.isArray(value) &&
+    value.every((item) => typeof item === "string" || typeof item === "number")
+  ) {
+    return "list";
+  }
+  return "yaml";
+}
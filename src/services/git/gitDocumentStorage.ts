@@ -0,0 +1,42 @@
+// src/services/git/gitDocumentStorage.ts
+import {
+  createAssetPath,
+  getMimeType,
+  resolveRelativePath,
+} from "../assets/assetFiles";
+import type { DocumentStorage } from "../storage/documentStorage";
+import type { GitRepository } from "./gitRepository";
+
+/** The directory a repository file is in, "" for the root. */
+function directoryOf(path: string): string {
+  return path.split("/").slice(0, -1).join("/");
+}
+
+/**
+ * Exposes a repository's working tree as DocumentStorage so
+ * LiveMarkdownEditor can open repository files directly. Document ids are
+ * paths relative to the repository root. Assets are written to an `assets/`
+ * folder beside the document, where sync commits them with it.
+ */
+export function createGitDocumentStorage(
+  repository: GitRepository
+): DocumentStorage {
+  return {
+    loadDocument: (path) => repository.readFile(path),
+    saveDocument: (path, markdown) => repository.writeFile(path, markdown),
+    saveAsset: async (path, file) => {
+      const assetPath = createAssetPath(file.name, file.type);
+      await repository.writeBinaryFile(
+        resolveRelativePath(directoryOf(path), assetPath),
+        new Uint8Array(await file.arrayBuffer())
+      );
+      return assetPath;
+    },
+    loadAsset: async (path, assetPath) => {
+      const data = await repository.readBinaryFile(
+        resolveRelativePath(directoryOf(path), assetPath)
+      );
+      return new Blob([data], { type: getMimeType(assetPath) });
+    },
+  };
+}
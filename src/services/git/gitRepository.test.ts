@@ -0,0 +1,187 @@
+// src/services/git/gitRepository.test.ts
+// @vitest-environment node
+// Runs openRepository against a local bare repository served by
+// `git http-backend`, with each clone in its own in-memory filesystem.
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync, spawn } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createFsFromVolume, Volume } from "memfs";
+import type { PromiseFsClient } from "isomorphic-git";
+import { openRepository, type GitSyncConfig } from "./gitRepository";
+
+const AUTHOR = { name: "Test", email: "test@example.com" };
+
+let root: string;
+let server: Server;
+let url: string;
+
+function runGit(args: string[], cwd = root): string {
+  return execFileSync(
+    "git",
+    ["-c", `user.name=${AUTHOR.name}`, "-c", `user.email=${AUTHOR.email}`, ...args],
+    { cwd, encoding: "utf8", stdio: ["ignore", "pipe", "pipe"] }
+  );
+}
+
+/** The remote's version of `path` on main. */
+function remoteFile(path: string): string {
+  return runGit(["--git-dir", "remote.git", "show", `main:${path}`]);
+}
+
+/**
+ * Serves the repositories under `root` over smart HTTP by handing every
+ * request to `git http-backend`, which speaks CGI.
+ */
+function serveRepositories(): Promise<Server> {
+  const httpServer = createServer((request, response) => {
+    const requestUrl = new URL(request.url!, "http://localhost");
+    const backend = spawn("git", ["http-backend"], {
+      env: {
+        ...process.env,
+        GIT_PROJECT_ROOT: root,
+        GIT_HTTP_EXPORT_ALL: "1",
+        PATH_INFO: requestUrl.pathname,
+        QUERY_STRING: requestUrl.search.slice(1),
+        REQUEST_METHOD: request.method,
+        CONTENT_TYPE: request.headers["content-type"] ?? "",
+        ...(request.headers["content-length"]
+          ? { CONTENT_LENGTH: request.headers["content-length"] }
+          : {}),
+      },
+    });
+    request.pipe(backend.stdin);
+
+    const chunks: Buffer[] = [];
+    backend.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    backend.on("close", () => {
+      const output = Buffer.concat(chunks);
+      const headerEnd = output.indexOf("\r\n\r\n");
+      const headers = output.subarray(0, headerEnd).toString().split("\r\n");
+      let status = 200;
+      headers.forEach((line) => {
+        const [name, ...value] = line.split(": ");
+        if (name.toLowerCase() === "status") {
+          status = parseInt(value.join(": "), 10);
+        } else {
+          response.setHeader(name, value.join(": "));
+        }
+      });
+      response.writeHead(status);
+      response.end(output.subarray(headerEnd + 4));
+    });
+  });
+  return new Promise((resolve) => httpServer.listen(0, "127.0.0.1", () => resolve(httpServer)));
+}
+
+/** A fresh browser's view of the remote: its own empty filesystem. */
+function openClone(config: Partial<GitSyncConfig> = {}) {
+  const fs = createFsFromVolume(new Volume()) as unknown as PromiseFsClient;
+  return openRepository(
+    { url, branch: "main", docsDirectory: "docs", author: AUTHOR, ...config },
+    { fs, rootDirectory: "/repos" }
+  );
+}
+
+beforeAll(async () => {
+  root = mkdtempSync(join(tmpdir(), "docground-git-"));
+  server = await serveRepositories();
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/remote.git`;
+});
+
+afterAll(() => {
+  server.close();
+  rmSync(root, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  rmSync(join(root, "remote.git"), { recursive: true, force: true });
+  rmSync(join(root, "seed"), { recursive: true, force: true });
+  runGit(["init", "--bare", "--initial-branch", "main", "remote.git"]);
+  runGit(["--git-dir", "remote.git", "config", "http.receivepack", "true"]);
+
+  // The remote starts with a document inside docs/ and a README outside it
+  const seed = join(root, "seed");
+  runGit(["init", "--initial-branch", "main", "seed"]);
+  mkdirSync(join(seed, "docs"));
+  writeFileSync(join(seed, "docs/notes.md"), "# Notes\n\nFirst line.\n");
+  writeFileSync(join(seed, "README.md"), "readme\n");
+  runGit(["add", "."], seed);
+  runGit(["commit", "-m", "Initial commit"], seed);
+  runGit(["push", "../remote.git", "main"], seed);
+});
+
+describe("openRepository", () => {
+  it("clones the remote and lists the documents of the docs directory", async () => {
+    const repository = await openClone();
+    expect(await repository.listMarkdownFiles()).toEqual(["docs/notes.md"]);
+    expect(await repository.readFile("docs/notes.md")).toBe("# Notes\n\nFirst line.\n");
+  });
+
+  it("commits local edits and pushes them", async () => {
+    const repository = await openClone();
+    await repository.writeFile("docs/notes.md", "# Notes\n\nEdited line.\n");
+    await repository.writeFile("docs/new.md", "# New\n");
+    expect((await repository.getStatus()).modified).toEqual(["docs/new.md", "docs/notes.md"]);
+
+    const result = await repository.sync("Edit notes");
+    expect(result.status).toBe("pushed");
+    expect(runGit(["--git-dir", "remote.git", "log", "-1", "--format=%s"]).trim()).toBe(
+      "Edit notes"
+    );
+    expect(remoteFile("docs/notes.md")).toBe("# Notes\n\nEdited line.\n");
+    expect(remoteFile("docs/new.md")).toBe("# New\n");
+    expect((await repository.getStatus()).modified).toEqual([]);
+  });
+
+  it("reports up-to-date and pulled syncs", async () => {
+    const first = await openClone();
+    const second = await openClone();
+    expect((await first.sync("")).status).toBe("up-to-date");
+
+    await second.writeFile("docs/notes.md", "# Notes\n\nFrom the second clone.\n");
+    await second.sync("Second clone");
+    const result = await first.sync("");
+    expect(result.status).toBe("pulled");
+    expect(await first.readFile("docs/notes.md")).toBe("# Notes\n\nFrom the second clone.\n");
+  });
+
+  it("merges remote changes to other files before pushing", async () => {
+    const first = await openClone();
+    const second = await openClone();
+    await second.writeFile("docs/other.md", "# Other\n");
+    expect((await second.sync("Add other")).status).toBe("pushed");
+
+    await first.writeFile("docs/notes.md", "# Notes\n\nEdited first.\n");
+    expect((await first.sync("Edit notes")).status).toBe("pushed");
+
+    expect(await first.readFile("docs/other.md")).toBe("# Other\n");
+    expect(remoteFile("docs/notes.md")).toBe("# Notes\n\nEdited first.\n");
+    expect(remoteFile("docs/other.md")).toBe("# Other\n");
+    const parents = runGit(["--git-dir", "remote.git", "log", "-1", "--format=%P"]).trim();
+    expect(parents.split(" ")).toHaveLength(2);
+  });
+
+  it("stops on conflicts until the markers are resolved", async () => {
+    const first = await openClone();
+    const second = await openClone();
+    await second.writeFile("docs/notes.md", "# Notes\n\nTheirs.\n");
+    await second.sync("Theirs");
+
+    await first.writeFile("docs/notes.md", "# Notes\n\nOurs.\n");
+    expect(await first.sync("Ours")).toEqual({ status: "conflict", paths: ["docs/notes.md"] });
+    expect(await first.readFile("docs/notes.md")).toMatch(/^<{7} /m);
+    expect((await first.getStatus()).conflicted).toEqual(["docs/notes.md"]);
+
+    // Syncing again with the markers still in place changes nothing
+    expect((await first.sync("")).status).toBe("conflict");
+
+    await first.writeFile("docs/notes.md", "# Notes\n\nOurs and theirs.\n");
+    expect((await first.sync("Merge")).status).toBe("pushed");
+    expect(remoteFile("docs/notes.md")).toBe("# Notes\n\nOurs and theirs.\n");
+    expect((await first.getStatus()).conflicted).toEqual([]);
+  });
+});
@@ -0,0 +1,343 @@
+// src/services/git/gitRepository.ts
+// Clones a remote repository into an in-browser filesystem and syncs a
+// directory of Markdown files (and the assets they link to) with it as
+// ordinary git commits.
+import { Buffer } from "buffer";
+import FS from "@isomorphic-git/lightning-fs";
+import git, { Errors } from "isomorphic-git";
+import type { PromiseFsClient } from "isomorphic-git";
+import http from "isomorphic-git/http/web";
+
+// isomorphic-git expects Node's Buffer to exist globally
+const globalWithBuffer = globalThis as typeof globalThis & {
+  Buffer?: typeof Buffer;
+};
+globalWithBuffer.Buffer ??= Buffer;
+
+export interface GitSyncConfig {
+  url: string; // Remote URL, e.g. https://github.com/me/notes.git or a local http stand-in
+  branch: string;
+  docsDirectory: string; // Directory inside the repo to sync, "" for the root
+  author: { name: string; email: string };
+  token?: string; // Personal access token used for fetch and push
+  // Needed for hosts such as github.com that do not send CORS headers. The
+  // proxy relays every request including the token, so it is opt-in
+  corsProxy?: string;
+}
+
+export type SyncResult =
+  | { status: "up-to-date" }
+  | { status: "pulled"; commit: string } // Only remote changes were brought in
+  | { status: "pushed"; commit: string }
+  | { status: "conflict"; paths: string[] };
+
+export interface RepositoryStatus {
+  modified: string[]; // Paths with uncommitted changes under docsDirectory
+  conflicted: string[]; // Paths left with conflict markers by an unfinished merge
+}
+
+export interface GitRepository {
+  config: GitSyncConfig;
+  listMarkdownFiles: () => Promise<string[]>;
+  readFile: (path: string) => Promise<string>;
+  writeFile: (path: string, content: string) => Promise<void>;
+  // Images and attachments stored next to the documents
+  readBinaryFile: (path: string) => Promise<Uint8Array>;
+  writeBinaryFile: (path: string, data: Uint8Array) => Promise<void>;
+  getStatus: () => Promise<RepositoryStatus>;
+  sync: (message: string) => Promise<SyncResult>;
+}
+
+export class GitSyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GitSyncError";
+  }
+}
+
+type Fs = PromiseFsClient["promises"];
+
+// Created lazily so the module can be imported where IndexedDB is missing
+let browserFs: PromiseFsClient | null = null;
+function getBrowserFs(): PromiseFsClient {
+  browserFs ??= new FS("docground-git");
+  return browserFs;
+}
+
+const REMOTE = "origin";
+// isomorphic-git has no `merge --continue`, so the commit being merged is
+// remembered here until the user resolves the conflicts and syncs again.
+const MERGE_HEAD_FILE = ".git/docground-merge-head";
+const MERGE_PATHS_FILE = ".git/docground-merge-paths";
+const CONFLICT_MARKER = /^(<{7}|>{7}) /m;
+
+/** Directory for a remote's clone, stable across reloads. */
+function repositoryDirectory(rootDirectory: string, url: string): string {
+  const name = url.replace(/^[a-z]+:\/\//i, "").replace(/[^\w.-]+/g, "_");
+  return `${rootDirectory.replace(/\/+$/, "")}/${name}`;
+}
+
+function normalizeDirectory(directory: string): string {
+  return directory.replace(/^\/+|\/+$/g, "");
+}
+
+async function exists(pfs: Fs, path: string): Promise<boolean> {
+  try {
+    await pfs.stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readOptionalFile(pfs: Fs, path: string): Promise<string | null> {
+  try {
+    return (await pfs.readFile(path, { encoding: "utf8" })) as string;
+  } catch {
+    return null;
+  }
+}
+
+async function mkdirp(pfs: Fs, path: string) {
+  const segments = path.split("/").filter(Boolean);
+  let current = "";
+  for (const segment of segments) {
+    current += `/${segment}`;
+    if (!(await exists(pfs, current))) {
+      await pfs.mkdir(current);
+    }
+  }
+}
+
+export interface OpenRepositoryOptions {
+  fs?: PromiseFsClient; // Defaults to an IndexedDB backed filesystem
+  rootDirectory?: string; // Where clones live inside `fs`, defaults to /repos
+}
+
+/**
+ * Opens the local clone of `config.url`, cloning it first if this browser
+ * has never seen the repository. Passing Node's `fs` and a temporary
+ * `rootDirectory` runs the same code against a local bare repository served
+ * over HTTP (e.g. `git http-backend`).
+ */
+export async function openRepository(
+  config: GitSyncConfig,
+  { fs = getBrowserFs(), rootDirectory = "/repos" }: OpenRepositoryOptions = {}
+): Promise<GitRepository> {
+  const pfs = fs.promises;
+  const dir = repositoryDirectory(rootDirectory, config.url);
+  const docsDirectory = normalizeDirectory(config.docsDirectory);
+  const remoteOptions = {
+    http,
+    corsProxy: config.corsProxy || undefined,
+    onAuth: () =>
+      config.token
+        ? { username: config.token, password: "x-oauth-basic" }
+        : { cancel: true },
+  };
+  // git.commit writes to `ref` verbatim, so it must be fully expanded
+  const branchRef = `refs/heads/${config.branch}`;
+  const isInDocsDirectory = (path: string) =>
+    !docsDirectory || path.startsWith(`${docsDirectory}/`);
+
+  if (!(await exists(pfs, `${dir}/.git`))) {
+    await mkdirp(pfs, dir);
+    try {
+      await git.clone({
+        fs,
+        dir,
+        url: config.url,
+        ref: config.branch,
+        singleBranch: true,
+        ...remoteOptions,
+      });
+    } catch (error) {
+      const hint = config.corsProxy
+        ? ""
+        : " (hosts without CORS support, such as github.com, need a CORS proxy)";
+      throw new GitSyncError(
+        `Could not clone ${config.url}: ${(error as Error).message}${hint}`
+      );
+    }
+  }
+
+  const listMarkdownFiles = async () => {
+    const files = await git.listFiles({ fs, dir, ref: "HEAD" });
+    const tracked = new Set(files);
+    // Files created in the working tree are not in HEAD yet
+    const status = await git.statusMatrix({ fs, dir });
+    status.forEach(([path, , workdir]) => {
+      if (workdir !== 0) tracked.add(path);
+    });
+    return [...tracked]
+      .filter((path) => path.toLowerCase().endsWith(".md"))
+      .filter(isInDocsDirectory)
+      .sort();
+  };
+
+  const getStatus = async (): Promise<RepositoryStatus> => {
+    const matrix = await git.statusMatrix({ fs, dir });
+    // [path, 1, 1, 1] is an unmodified file; everything else has changes
+    const modified = matrix
+      .filter(
+        ([path, head, workdir, stage]) =>
+          isInDocsDirectory(path) && !(head === 1 && workdir === 1 && stage === 1)
+      )
+      .map(([path]) => path);
+    const conflictedPaths = await readOptionalFile(pfs, `${dir}/${MERGE_PATHS_FILE}`);
+    return {
+      modified: modified.sort(),
+      conflicted: conflictedPaths ? conflictedPaths.split("\n").filter(Boolean) : [],
+    };
+  };
+
+  /** Stages every change under docsDirectory. Returns true if anything changed. */
+  const stageChanges = async () => {
+    const matrix = await git.statusMatrix({ fs, dir });
+    let changed = false;
+    for (const [path, head, workdir, stage] of matrix) {
+      if (!isInDocsDirectory(path)) continue;
+      if (workdir === 0 && head !== 0) {
+        await git.remove({ fs, dir, filepath: path });
+        changed = true;
+      } else if (head !== workdir || workdir !== stage) {
+        await git.add({ fs, dir, filepath: path });
+        changed = true;
+      }
+    }
+    return changed;
+  };
+
+  const push = async () => {
+    const result = await git.push({
+      fs,
+      dir,
+      remote: REMOTE,
+      ref: config.branch,
+      ...remoteOptions,
+    });
+    if (!result.ok) {
+      throw new GitSyncError(result.error ?? "Push was rejected");
+    }
+  };
+
+  const sync = async (message: string): Promise<SyncResult> => {
+    const pendingMergeHead = await readOptionalFile(pfs, `${dir}/${MERGE_HEAD_FILE}`);
+
+    if (pendingMergeHead) {
+      // Finish an earlier merge once every conflict marker is gone
+      const { conflicted } = await getStatus();
+      const stillConflicted: string[] = [];
+      for (const path of conflicted) {
+        const content = await readOptionalFile(pfs, `${dir}/${path}`);
+        if (content && CONFLICT_MARKER.test(content)) {
+          stillConflicted.push(path);
+        }
+      }
+      if (stillConflicted.length > 0) {
+        return { status: "conflict", paths: stillConflicted };
+      }
+      await stageChanges();
+      await git.commit({
+        fs,
+        dir,
+        ref: branchRef,
+        message: message || `Merge ${REMOTE}/${config.branch}`,
+        author: config.author,
+        parent: [branchRef, pendingMergeHead.trim()],
+      });
+      await pfs.unlink(`${dir}/${MERGE_HEAD_FILE}`);
+      await pfs.unlink(`${dir}/${MERGE_PATHS_FILE}`);
+    } else if (await stageChanges()) {
+      await git.commit({
+        fs,
+        dir,
+        ref: branchRef,
+        message: message || "Update documents",
+        author: config.author,
+      });
+    }
+
+    await git.fetch({
+      fs,
+      dir,
+      remote: REMOTE,
+      ref: config.branch,
+      singleBranch: true,
+      ...remoteOptions,
+    });
+
+    const localOid = await git.resolveRef({ fs, dir, ref: branchRef });
+    const remoteOid = await git.resolveRef({
+      fs,
+      dir,
+      ref: `refs/remotes/${REMOTE}/${config.branch}`,
+    });
+
+    if (localOid === remoteOid) {
+      return { status: "up-to-date" };
+    }
+
+    const remoteIsAncestor = await git.isDescendent({
+      fs,
+      dir,
+      oid: localOid,
+      ancestor: remoteOid,
+      depth: -1,
+    });
+
+    if (!remoteIsAncestor) {
+      // The remote moved since our last sync: merge it before pushing
+      try {
+        await git.merge({
+          fs,
+          dir,
+          ours: branchRef,
+          theirs: `${REMOTE}/${config.branch}`,
+          abortOnConflict: false,
+          author: config.author,
+          message: `Merge ${REMOTE}/${config.branch}`,
+        });
+      } catch (error) {
+        if (error instanceof Errors.MergeConflictError) {
+          await pfs.writeFile(`${dir}/${MERGE_HEAD_FILE}`, remoteOid, "utf8");
+          await pfs.writeFile(
+            `${dir}/${MERGE_PATHS_FILE}`,
+            error.data.filepaths.join("\n"),
+            "utf8"
+          );
+          return { status: "conflict", paths: error.data.filepaths };
+        }
+        throw error;
+      }
+      // merge only moves the branch; bring the working tree along
+      await git.checkout({ fs, dir, ref: config.branch, force: true });
+    }
+
+    const commit = await git.resolveRef({ fs, dir, ref: branchRef });
+    if (commit === remoteOid) {
+      return { status: "pulled", commit };
+    }
+    await push();
+    return { status: "pushed", commit };
+  };
+
+  return {
+    config,
+    listMarkdownFiles,
+    readFile: async (path) =>
+      (await pfs.readFile(`${dir}/${path}`, { encoding: "utf8" })) as string,
+    writeFile: async (path, content) => {
+      await mkdirp(pfs, `${dir}/${path.split("/").slice(0, -1).join("/")}`);
+      await pfs.writeFile(`${dir}/${path}`, content, "utf8");
+    },
+    readBinaryFile: async (path) =>
+      (await pfs.readFile(`${dir}/${path}`)) as Uint8Array,
+    writeBinaryFile: async (path, data) => {
+      await mkdirp(pfs, `${dir}/${path.split("/").slice(0, -1).join("/")}`);
+      await pfs.writeFile(`${dir}/${path}`, data);
+    },
+    getStatus,
+    sync,
+  };
+}
@@ -0,0 +1,208 @@
+// src/services/sanitize/sanitizePolicy.test.ts
+import { afterEach, describe, expect, it } from "vitest";
+import type { Editor } from "@tiptap/core";
+import {
+  getSanitizePolicy,
+  isAllowedUrl,
+  sanitizeHtml,
+  type SanitizeMode,
+} from "./sanitizePolicy";
+import { createThemeRenderer } from "../themes/themeRenderer";
+import { DEFAULT_THEME } from "../themes/themes";
+import { createTestEditor } from "../../test/createTestEditor";
+
+const MODES: SanitizeMode[] = ["strict", "github", "permissive"];
+
+// Anything that could run script, load a document or pose as app syntax
+const UNSAFE_OUTPUT =
+  /<script|<svg|<iframe|<object|<embed|<form|<style|<meta|<base|<template|<noscript|\son[a-z]+=|javascript:|vbscript:|data:text|svg\+xml|expression\(|url\(|data-evil|data-attachment="(?!assets\/)/i;
+
+// [name, payload] pairs; every one must come out inert in every mode
+const XSS_PAYLOADS: [string, string][] = [
+  ["script tag", `<script>alert(1)</script>`],
+  ["img onerror", `<img src=x onerror=alert(1)>`],
+  ["svg onload", `<svg onload=alert(1)>`],
+  ["svg script", `<svg><script>alert(1)</script></svg>`],
+  ["svg use", `<svg><use href="data:image/svg+xml;base64,PHN2Zz4="/></svg>`],
+  ["details ontoggle", `<details open ontoggle=alert(1)><summary>s</summary>x</details>`],
+  ["summary onclick", `<details><summary onclick=alert(1)>s</summary></details>`],
+  ["kbd handler", `<kbd onmouseover=alert(1)>K</kbd>`],
+  ["sup handler", `<sup onfocus=alert(1) tabindex=0>2</sup>`],
+  ["body onload", `<body onload=alert(1)>`],
+  ["javascript href", `<a href="javascript:alert(1)">a</a>`],
+  ["mixed case scheme", `<a href="JaVaScRiPt:alert(1)">a</a>`],
+  ["tab in scheme", `<a href="java&#x09;script:alert(1)">a</a>`],
+  ["leading control characters", `<a href=" &#14; javascript:alert(1)">a</a>`],
+  ["entity encoded scheme", `<a href="&#106;avascript:alert(1)">a</a>`],
+  ["vbscript href", `<a href="vbscript:msgbox(1)">a</a>`],
+  ["data html link", `<a href="data:text/html,<script>alert(1)</script>">a</a>`],
+  ["data svg image", `<img src="data:image/svg+xml;base64,PHN2Zz4=">`],
+  ["javascript image", `<img src="javascript:alert(1)">`],
+  ["srcset", `<picture><source srcset="javascript:alert(1) 1x"><img src=x></picture>`],
+  ["video poster", `<video poster="javascript:alert(1)" controls></video>`],
+  ["blockquote cite", `<blockquote cite="javascript:alert(1)">q</blockquote>`],
+  ["iframe", `<iframe src="https://example.com"></iframe>`],
+  ["object and embed", `<object data="x.swf"></object><embed src="x.swf">`],
+  ["form", `<form action="https://example.com"><input name=q><button>go</button></form>`],
+  ["meta refresh", `<meta http-equiv="refresh" content="0;url=javascript:alert(1)">`],
+  ["base href", `<base href="javascript:/">`],
+  ["style tag", `<style>body{display:none}</style>`],
+  ["style url", `<div style="background:url(javascript:alert(1))">s</div>`],
+  ["style expression", `<div style="width:expression(alert(1))">s</div>`],
+  ["escaped style", `<div style="background:u\\72l(x)">s</div>`],
+  ["template", `<template><img src=x onerror=alert(1)></template>`],
+  ["noscript mutation", `<noscript><p title="</noscript><img src=x onerror=alert(1)>"></p></noscript>`],
+  [
+    "mathml mutation",
+    `<math><mtext><table><mglyph><style><img src=x onerror=alert(1)></style></mglyph></table></mtext></math>`,
+  ],
+  ["spoofed attachment", `<div data-attachment="javascript:alert(1)">x</div>`],
+  ["attachment data url", `<div data-attachment="data:text/html,x">x</div>`],
+  ["unknown data attribute", `<div data-evil="1">x</div>`],
+];
+
+describe("sanitizeHtml", () => {
+  for (const mode of MODES) {
+    it.each(XSS_PAYLOADS)(`neutralizes %s in ${mode} mode`, (_name, payload) => {
+      expect(sanitizeHtml(payload, mode)).not.toMatch(UNSAFE_OUTPUT);
+    });
+  }
+
+  it("keeps the inert tags without their attributes", () => {
+    const html = `<details open class="x" id="y" data-type="textTaskList"><summary title="t">S</summary><kbd style="color:red">K</kbd><sup data-toc>2</sup></details>`;
+    for (const mode of MODES) {
+      expect(sanitizeHtml(html, mode)).toBe(
+        "<details open=\"\"><summary>S</summary><kbd>K</kbd><sup>2</sup></details>"
+      );
+    }
+  });
+
+  it("only keeps task list checkboxes, disabled", () => {
+    expect(sanitizeHtml(`<input type="checkbox" checked>`)).toBe(
+      `<input type="checkbox" checked="" disabled="">`
+    );
+    expect(sanitizeHtml(`<input type="text" value="x">`)).toBe("");
+  });
+
+  it("keeps the app's own syntax attributes", () => {
+    const html = `<div data-callout="note">n</div><span data-wiki-link="Notes: 2024" data-wiki-label="n">n</span><div data-attachment="assets/report.pdf">report.pdf</div><h2 id="title" data-source-line="3">T</h2>`;
+    expect(sanitizeHtml(html, "strict")).toBe(html);
+  });
+
+  it("allows the URL schemes of each mode", () => {
+    const links = `<a href="https://example.com">w</a><a href="mailto:a@example.com">m</a><a href="tel:123">t</a><a href="notes.md#intro">r</a>`;
+    expect(sanitizeHtml(links, "strict")).toBe(
+      `<a href="https://example.com">w</a><a>m</a><a>t</a><a href="notes.md#intro">r</a>`
+    );
+    expect(sanitizeHtml(links, "github")).toBe(
+      `<a href="https://example.com">w</a><a href="mailto:a@example.com">m</a><a>t</a><a href="notes.md#intro">r</a>`
+    );
+    expect(sanitizeHtml(links, "permissive")).toBe(links);
+  });
+
+  it("allows raster data: images in permissive mode only", () => {
+    const image = `<img src="data:image/png;base64,iVBORw0KGgo=">`;
+    expect(sanitizeHtml(image, "github")).toBe("<img>");
+    expect(sanitizeHtml(image, "permissive")).toBe(image);
+  });
+
+  it("only aligns table cells unless styles are allowed", () => {
+    const cells = `<table><tbody><tr><td style="text-align:center">c</td><td style="color:red">r</td></tr></tbody></table>`;
+    expect(sanitizeHtml(cells, "github")).toBe(
+      `<table><tbody><tr><td style="text-align:center">c</td><td>r</td></tr></tbody></table>`
+    );
+    expect(sanitizeHtml(cells, "permissive")).toBe(cells);
+  });
+});
+
+describe("isAllowedUrl", () => {
+  const github = getSanitizePolicy("github");
+
+  it.each([
+    ["https://example.com", true],
+    ["assets/diagram.png", true],
+    ["#intro", true],
+    ["mailto:a@example.com", true],
+    ["javascript:alert(1)", false],
+    [" java\nscript:alert(1)", false],
+    ["data:image/png;base64,x", false],
+  ])("%s -> %s", (url, allowed) => {
+    expect(isAllowedUrl(url, github)).toBe(allowed);
+  });
+
+  it("only lets data: through for images", () => {
+    const permissive = getSanitizePolicy("permissive");
+    expect(isAllowedUrl("data:image/png;base64,x", permissive, "img")).toBe(true);
+    expect(isAllowedUrl("data:image/png;base64,x", permissive, "a")).toBe(false);
+    expect(isAllowedUrl("data:image/svg+xml,x", permissive, "img")).toBe(false);
+  });
+});
+
+describe("rendered output", () => {
+  const renderer = createThemeRenderer(DEFAULT_THEME);
+
+  for (const mode of MODES) {
+    it.each(XSS_PAYLOADS)(`neutralizes %s in ${mode} mode`, (_name, payload) => {
+      const html = renderer.render(`Before\n\n${payload}\n\nAfter`, { sanitizeMode: mode });
+      expect(html).not.toMatch(UNSAFE_OUTPUT);
+      expect(html).toContain("After");
+    });
+  }
+
+  it("drops Markdown links with unsafe schemes", () => {
+    expect(renderer.render("[x](javascript:alert(1))")).toBe("<p><a>x</a></p>\n");
+  });
+
+  it("keeps what Markdown renders to", () => {
+    const html = renderer.render(
+      "# Title\n\n> [!NOTE]\n> n\n\n| a |\n|:-:|\n| 1 |\n\n- [x] done\n\n$$x^2$$",
+      { sanitizeMode: "strict" }
+    );
+    expect(html).toContain('<h1 id="title">');
+    expect(html).toContain('<div class="callout" data-callout="note">');
+    expect(html).toContain('<th align="center">a</th>');
+    expect(html).toContain('<input checked="" disabled="" type="checkbox">');
+    expect(html).toContain('<annotation encoding="application/x-tex">x^2</annotation>');
+  });
+});
+
+describe("editor input", () => {
+  let editor: Editor | null = null;
+
+  afterEach(() => {
+    editor?.destroy();
+    editor = null;
+  });
+
+  for (const mode of MODES) {
+    it.each(XSS_PAYLOADS)(`neutralizes pasted %s in ${mode} mode`, (_name, payload) => {
+      editor = createTestEditor(mode);
+      editor.view.pasteHTML(`<p>Before</p>${payload}<p>After</p>`);
+      const html = editor.getHTML();
+      expect(html).not.toMatch(UNSAFE_OUTPUT);
+      expect(html).toContain("After");
+    });
+
+    it.each(XSS_PAYLOADS)(`neutralizes %s in loaded Markdown in ${mode} mode`, (_name, payload) => {
+      editor = createTestEditor(mode);
+      editor.commands.setMarkdown(`Before\n\n${payload}\n\nAfter`);
+      const html = editor.getHTML();
+      expect(html).not.toMatch(UNSAFE_OUTPUT);
+      expect(html).toContain("After");
+    });
+  }
+
+  it("passes pasted HTML through the policy", () => {
+    editor = createTestEditor();
+    const transformed = editor.view.someProp("transformPastedHTML", (transform) =>
+      transform(`<a href="javascript:alert(1)" onclick="x()">a</a>`, editor!.view)
+    );
+    expect(transformed).toBe("<a>a</a>");
+  });
+
+  it("turns spoofed attachments into text", () => {
+    editor = createTestEditor("permissive");
+    editor.view.pasteHTML(`<div data-attachment="javascript:alert(1)">x</div>`);
+    expect(editor.getJSON().content?.some((node) => node.type === "attachment")).toBe(false);
+  });
+});
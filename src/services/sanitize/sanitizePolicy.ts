@@ -0,0 +1,323 @@
+// src/services/sanitize/sanitizePolicy.ts
+// The one HTML sanitization policy of the app. Raw HTML in Markdown is
+// filtered through it twice: when the editor parses Markdown or pasted HTML
+// (src/editor/markdown/htmlSanitizer.ts), and when the renderer publishes a
+// page (src/services/themes/themeRenderer.ts). Documents can come from
+// untrusted pull requests, so everything not on an allow-list is dropped.
+import DOMPurify, { type Config } from "dompurify";
+
+export type SanitizeMode =
+  | "strict" // What Markdown itself produces, plus the inert tags
+  | "github" // Roughly what github.com keeps in rendered Markdown
+  | "permissive"; // Layout and media tags and inline styles as well
+
+export interface SanitizePolicy {
+  mode: SanitizeMode;
+  // Allowed elements; others are dropped but their text is kept
+  tags: string[];
+  // Allowed attributes by tag; "*" lists the ones every tag may have.
+  // aria-* attributes are allowed on all but the inert tags.
+  attributes: Record<string, string[]>;
+  // data-* attributes allowed on all but the inert tags. The editor turns
+  // these into nodes, so anything not listed could pose as app syntax.
+  dataAttributes: string[];
+  // Schemes links and images may use; relative URLs and #fragments always pass
+  urlSchemes: string[];
+  // Otherwise `style` may only align table cells, as Markdown tables do
+  allowStyles: boolean;
+}
+
+export const DEFAULT_SANITIZE_MODE: SanitizeMode = "github";
+
+// Allowed in every mode but never with more than these attributes: no ids,
+// classes or data to hang scripts or styles on, and no event handlers
+// (`<details open ontoggle=...>` fires without anybody clicking)
+const INERT_TAGS: Record<string, string[]> = {
+  details: ["open"],
+  summary: [],
+  kbd: [],
+  sup: [],
+};
+
+// Everything Markdown and the app's own syntax (callouts, wiki-links, math,
+// attachments) render to, in the editor and in published pages
+const MARKDOWN_TAGS = [
+  "p", "br", "hr", "h1", "h2", "h3", "h4", "h5", "h6", "blockquote", "pre",
+  "code", "em", "strong", "del", "s", "a", "img", "ul", "ol", "li", "table",
+  "thead", "tbody", "tr", "th", "td", "input", "div", "span",
+];
+
+// KaTeX's MathML output (src/services/themes/themeRenderer.ts)
+const MATHML_TAGS = [
+  "math", "semantics", "annotation", "mrow", "mi", "mn", "mo", "ms", "mtext",
+  "mspace", "msup", "msub", "msubsup", "mfrac", "msqrt", "mroot", "mover",
+  "munder", "munderover", "mtable", "mtr", "mtd", "mlabeledtr", "mpadded",
+  "mphantom", "mstyle", "menclose", "merror",
+];
+
+const MATHML_ATTRIBUTES = [
+  "xmlns", "display", "encoding", "mathvariant", "stretchy", "fence",
+  "separator", "lspace", "rspace", "width", "height", "depth", "voffset",
+  "accent", "accentunder", "columnalign", "columnlines", "columnspacing",
+  "rowalign", "rowlines", "rowspacing", "displaystyle", "scriptlevel",
+  "minsize", "maxsize", "movablelimits", "symmetric", "largeop",
+  "linethickness", "notation",
+];
+
+const GITHUB_TAGS = [
+  "b", "i", "ins", "sub", "strike", "tt", "dl", "dt", "dd", "q", "samp",
+  "var", "abbr", "bdo", "cite", "dfn", "mark", "small", "time", "wbr", "ruby",
+  "rt", "rp", "caption", "tfoot", "figure", "figcaption", "picture", "source",
+];
+
+const PERMISSIVE_TAGS = [
+  "u", "big", "center", "font", "section", "article", "aside", "header",
+  "footer", "nav", "main", "address", "hgroup", "colgroup", "col", "video",
+  "audio", "track",
+];
+
+// What the app's own syntax renders to: markdown-it's output in the editor
+// (src/editor/*Syntax.ts), nodes copied within the editor, and the
+// renderer's source lines (src/services/themes/themeRenderer.ts)
+const SYNTAX_DATA_ATTRIBUTES = [
+  "data-md-block",
+  "data-callout",
+  "data-meta",
+  "data-math-inline",
+  "data-math-block",
+  "data-wiki-link",
+  "data-wiki-label",
+  "data-attachment",
+  "data-toc",
+  "data-type",
+  "data-checked",
+  "data-task",
+  "data-tight",
+];
+
+// Only the renderer adds these; they place the preview next to the editor
+const RENDERER_DATA_ATTRIBUTES = ["data-source-line"];
+
+const STRICT_ATTRIBUTES: Record<string, string[]> = {
+  // ids for heading anchors, classes for code languages and callouts
+  "*": ["class", "id"],
+  a: ["href", "title"],
+  img: ["src", "alt", "title", "width", "height"],
+  input: ["type", "checked", "disabled"],
+  ol: ["start"],
+  th: ["align", "style", "colspan", "rowspan"],
+  td: ["align", "style", "colspan", "rowspan"],
+};
+
+// Adds the attributes of `extra` to those `base` allows per tag
+function mergeAttributes(
+  base: Record<string, string[]>,
+  extra: Record<string, string[]>
+): Record<string, string[]> {
+  const merged = { ...base };
+  for (const [tag, names] of Object.entries(extra)) {
+    merged[tag] = [...(merged[tag] ?? []), ...names];
+  }
+  return merged;
+}
+
+const GITHUB_ATTRIBUTES = mergeAttributes(STRICT_ATTRIBUTES, {
+  "*": ["title", "lang", "dir"],
+  a: ["name"],
+  img: ["align"],
+  blockquote: ["cite"],
+  q: ["cite"],
+  del: ["cite", "datetime"],
+  ins: ["cite", "datetime"],
+  time: ["datetime"],
+  ol: ["type", "reversed"],
+  li: ["value"],
+  th: ["scope", "abbr", "valign", "width"],
+  td: ["abbr", "valign", "width"],
+  source: ["srcset", "media", "type"],
+});
+
+const PERMISSIVE_ATTRIBUTES = mergeAttributes(GITHUB_ATTRIBUTES, {
+  "*": ["style"],
+  col: ["span"],
+  colgroup: ["span"],
+  font: ["color", "size", "face"],
+  video: ["src", "poster", "controls", "width", "height", "loop", "muted"],
+  audio: ["src", "controls", "loop", "muted"],
+  source: ["src"],
+  track: ["src", "kind", "srclang", "label"],
+});
+
+function createPolicy(
+  mode: SanitizeMode,
+  tags: string[],
+  attributes: Record<string, string[]>,
+  dataAttributes: string[],
+  urlSchemes: string[],
+  allowStyles: boolean
+): SanitizePolicy {
+  return {
+    mode,
+    tags: [...tags, ...MATHML_TAGS, ...Object.keys(INERT_TAGS)],
+    attributes: {
+      ...attributes,
+      ...Object.fromEntries(MATHML_TAGS.map((tag) => [tag, MATHML_ATTRIBUTES])),
+    },
+    dataAttributes,
+    urlSchemes,
+    allowStyles,
+  };
+}
+
+const POLICIES: Record<SanitizeMode, SanitizePolicy> = {
+  strict: createPolicy(
+    "strict",
+    MARKDOWN_TAGS,
+    STRICT_ATTRIBUTES,
+    [...SYNTAX_DATA_ATTRIBUTES, ...RENDERER_DATA_ATTRIBUTES],
+    ["http", "https"],
+    false
+  ),
+  github: createPolicy(
+    "github",
+    [...MARKDOWN_TAGS, ...GITHUB_TAGS],
+    GITHUB_ATTRIBUTES,
+    [...SYNTAX_DATA_ATTRIBUTES, ...RENDERER_DATA_ATTRIBUTES],
+    ["http", "https", "mailto"],
+    false
+  ),
+  // data: is only ever let through for images, see isAllowedUrl
+  permissive: createPolicy(
+    "permissive",
+    [...MARKDOWN_TAGS, ...GITHUB_TAGS, ...PERMISSIVE_TAGS],
+    PERMISSIVE_ATTRIBUTES,
+    [...SYNTAX_DATA_ATTRIBUTES, ...RENDERER_DATA_ATTRIBUTES],
+    ["http", "https", "mailto", "tel", "ftp", "data"],
+    true
+  ),
+};
+
+export function getSanitizePolicy(mode: SanitizeMode = DEFAULT_SANITIZE_MODE): SanitizePolicy {
+  return POLICIES[mode];
+}
+
+// Attributes holding a URL (srcset holds a list of them); an attachment
+// card's download button opens its `data-attachment`
+const URL_ATTRIBUTES = new Set([
+  "href",
+  "src",
+  "cite",
+  "poster",
+  "srcset",
+  "data-attachment",
+]);
+const URL_SCHEME = /^([a-z][a-z0-9+.-]*):/i;
+// Raster images only; SVG documents can carry scripts
+const IMAGE_DATA_URL = /^data:image\/(?:png|gif|jpe?g|webp|avif|bmp);/i;
+// The table cell alignment Markdown renders, e.g. `style="text-align:center"`
+const TEXT_ALIGN_STYLE = /^\s*text-align\s*:\s*(?:left|right|center)\s*;?\s*$/i;
+// Styles that load or run something: url(), @import, old IE expression()
+// and behavior, and escapes that could spell any of them
+const ACTIVE_STYLE = /url\s*\(|@import|expression\s*\(|behavior\s*:|javascript:|\\/i;
+
+// Browsers ignore whitespace and control characters inside a scheme, so
+// "java\tscript:" is still javascript:
+function removeIgnoredUrlCharacters(url: string): string {
+  return Array.from(url)
+    .filter((character) => {
+      const code = character.charCodeAt(0);
+      return code > 0x20 && (code < 0x7f || code > 0x9f);
+    })
+    .join("");
+}
+
+/**
+ * Whether `url` may appear in an `href` or `src` under `policy`. `tag` is
+ * the element it sits on; data: URLs are only ever allowed for images.
+ */
+export function isAllowedUrl(url: string, policy: SanitizePolicy, tag = "a"): boolean {
+  const normalized = removeIgnoredUrlCharacters(url);
+  const scheme = URL_SCHEME.exec(normalized)?.[1].toLowerCase();
+  if (!scheme) {
+    return true; // Relative, e.g. `notes.md`, `assets/diagram.png` or `#intro`
+  }
+  if (!policy.urlSchemes.includes(scheme)) {
+    return false;
+  }
+  return scheme !== "data" || (tag === "img" && IMAGE_DATA_URL.test(normalized));
+}
+
+// Own instance, so the hooks below leave other DOMPurify users (mermaid) alone
+const purify = DOMPurify(window);
+// The policy of the sanitize call in progress, read by the hooks
+let activePolicy: SanitizePolicy = getSanitizePolicy();
+
+purify.addHook("uponSanitizeAttribute", (node, data) => {
+  const tag = node.nodeName.toLowerCase();
+  const name = data.attrName;
+  const inertAttributes = INERT_TAGS[tag];
+  const allowed = inertAttributes
+    ? inertAttributes.includes(name)
+    : name.startsWith("aria-") ||
+      activePolicy.dataAttributes.includes(name) ||
+      activePolicy.attributes["*"]?.includes(name) ||
+      activePolicy.attributes[tag]?.includes(name);
+  if (!allowed) {
+    data.keepAttr = false;
+  } else if (name === "style") {
+    data.keepAttr = activePolicy.allowStyles
+      ? !ACTIVE_STYLE.test(data.attrValue)
+      : TEXT_ALIGN_STYLE.test(data.attrValue);
+  } else if (URL_ATTRIBUTES.has(name)) {
+    const urls =
+      name === "srcset"
+        ? data.attrValue.split(",").map((candidate) => candidate.trim().split(/\s+/)[0])
+        : [data.attrValue];
+    data.keepAttr = urls.every((url) => isAllowedUrl(url, activePolicy, tag));
+  } else if (name === "id" && /^h[1-6]$/.test(tag)) {
+    // DOMPurify drops ids that name a `document` property ("title",
+    // "forms") to stop DOM clobbering. Headings cannot clobber `document`,
+    // so their slugs are kept and links to `#title` still land.
+    data.forceKeepAttr = true;
+  }
+});
+
+// Only task list checkboxes, which never submit or change anything
+purify.addHook("afterSanitizeAttributes", (node) => {
+  if (node.nodeName !== "INPUT") {
+    return;
+  }
+  if ((node as HTMLInputElement).getAttribute("type") !== "checkbox") {
+    node.remove();
+  } else {
+    node.setAttribute("disabled", "");
+  }
+});
+
+/** `html` with everything `policy` (or the policy of `mode`) does not allow removed. */
+export function sanitizeHtml(
+  html: string,
+  policy: SanitizePolicy | SanitizeMode = DEFAULT_SANITIZE_MODE
+): string {
+  activePolicy = typeof policy === "string" ? getSanitizePolicy(policy) : policy;
+  const config: Config = {
+    ALLOWED_TAGS: activePolicy.tags,
+    ALLOWED_ATTR: [
+      ...new Set([
+        ...Object.values(activePolicy.attributes).flat(),
+        ...Object.values(INERT_TAGS).flat(),
+      ]),
+    ],
+    // The hook above drops data-* attributes the policy does not list; the
+    // ones left are text (document names, TeX), not URLs, unless checked there
+    ALLOW_DATA_ATTR: true,
+    ALLOW_ARIA_ATTR: true,
+    // isAllowedUrl has the final say; this only keeps DOMPurify from
+    // rejecting the schemes the policy allows
+    ALLOWED_URI_REGEXP: new RegExp(
+      `^(?:(?:${activePolicy.urlSchemes.join("|")}):|[^a-z]|[a-z+.-]+(?:[^a-z+.:-]|$))`,
+      "i"
+    ),
+  };
+  return purify.sanitize(html, config);
+}
@@ -0,0 +1,35 @@
+// src/services/sanitize/sanitizeSettings.ts
+// The sanitization mode picked in the sidebar, kept in localStorage. It
+// applies to the editor, the preview, snapshot diffs and site exports.
+import { DEFAULT_SANITIZE_MODE, type SanitizeMode } from "./sanitizePolicy";
+
+export const SANITIZE_MODES: { mode: SanitizeMode; label: string; description: string }[] = [
+  {
+    mode: "strict",
+    label: "strict",
+    description: "Only what Markdown produces; http(s) links",
+  },
+  {
+    mode: "github",
+    label: "GitHub",
+    description: "Close to what github.com keeps in rendered Markdown",
+  },
+  {
+    mode: "permissive",
+    label: "permissive",
+    description: "Also layout and media tags, inline styles and data: images",
+  },
+];
+
+const SANITIZE_MODE_KEY = "docground:sanitizeMode";
+
+export function loadSanitizeMode(): SanitizeMode {
+  const stored = localStorage.getItem(SANITIZE_MODE_KEY);
+  return SANITIZE_MODES.some(({ mode }) => mode === stored)
+    ? (stored as SanitizeMode)
+    : DEFAULT_SANITIZE_MODE;
+}
+
+export function saveSanitizeMode(mode: SanitizeMode) {
+  localStorage.setItem(SANITIZE_MODE_KEY, mode);
+}
@@ -0,0 +1,237 @@
+// src/services/search/searchIndex.ts
+import type { DocumentStorage } from "../storage/documentStorage";
+import { getEntryPath, type WorkspaceEntry } from "../storage/workspaceStore";
+import {
+  createSearchPattern,
+  findMatches,
+  type SearchOptions,
+  type TextMatch,
+} from "./searchPattern";
+
+// A line of a matching document, with the match offsets inside `text`
+export interface SearchSnippet {
+  text: string;
+  highlights: TextMatch[];
+}
+
+export interface SearchResult {
+  documentId: string;
+  name: string;
+  path: string;
+  matchCount: number;
+  snippets: SearchSnippet[];
+}
+
+export type SearchIndexListener = () => void;
+
+export interface SearchIndex {
+  /** Adds new documents, reloads changed ones and drops deleted ones. */
+  sync: (
+    entries: WorkspaceEntry[],
+    loadDocument: DocumentStorage["loadDocument"]
+  ) => Promise<void>;
+  /** Re-indexes one document from its latest Markdown, e.g. on every edit. */
+  update: (documentId: string, markdown: string) => void;
+  /** Ranked results; throws SearchQueryError for an invalid regex. */
+  search: (query: string, options: SearchOptions) => SearchResult[];
+  subscribe: (listener: SearchIndexListener) => () => void;
+}
+
+interface IndexedDocument {
+  id: string;
+  name: string;
+  path: string;
+  updatedAt: number;
+  text: string;
+  terms: Set<string>;
+}
+
+const MAX_RESULTS = 50;
+const MAX_SNIPPETS = 3;
+// Matches counted per document; enough to rank by, cheap for huge files
+const MAX_COUNTED_MATCHES = 1000;
+// Characters of context kept on each side of the first match of a line
+const SNIPPET_CONTEXT = 40;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+/** Cuts the line around its first match and shifts the highlights to match. */
+function buildSnippet(line: string, matches: TextMatch[]): SearchSnippet {
+  const start = Math.max(0, matches[0].from - SNIPPET_CONTEXT);
+  const end = Math.min(line.length, matches[0].to + SNIPPET_CONTEXT * 2);
+  const prefix = start > 0 ? "..." : "";
+  const suffix = end < line.length ? "..." : "";
+  const shift = prefix.length - start;
+  return {
+    text: prefix + line.slice(start, end) + suffix,
+    highlights: matches
+      .filter((match) => match.to <= end)
+      .map((match) => ({ from: match.from + shift, to: match.to + shift })),
+  };
+}
+
+function buildSnippets(text: string, pattern: RegExp): SearchSnippet[] {
+  const snippets: SearchSnippet[] = [];
+  for (const line of text.split("\n")) {
+    const matches = findMatches(line, pattern);
+    if (matches.length > 0) {
+      snippets.push(buildSnippet(line, matches));
+      if (snippets.length === MAX_SNIPPETS) break;
+    }
+  }
+  return snippets;
+}
+
+/**
+ * In-memory full-text index of the workspace. Documents are tokenized into
+ * word sets so literal queries only scan documents holding every word of
+ * the query; regex queries scan every document. Results are ranked by
+ * matches in the name first, then by how often the body matches.
+ */
+export function createSearchIndex(): SearchIndex {
+  const documents = new Map<string, IndexedDocument>();
+  // Word -> ids of the documents containing it
+  const postings = new Map<string, Set<string>>();
+  const listeners = new Set<SearchIndexListener>();
+  // Syncs run one after another so a slow load cannot undo a newer one
+  let syncQueue = Promise.resolve();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const removeTerms = (document: IndexedDocument) => {
+    document.terms.forEach((term) => {
+      const ids = postings.get(term);
+      ids?.delete(document.id);
+      if (ids?.size === 0) postings.delete(term);
+    });
+  };
+
+  const indexText = (document: IndexedDocument, text: string) => {
+    removeTerms(document);
+    document.text = text;
+    document.terms = new Set(tokenize(`${document.name} ${text}`));
+    document.terms.forEach((term) => {
+      const ids = postings.get(term) ?? new Set<string>();
+      ids.add(document.id);
+      postings.set(term, ids);
+    });
+  };
+
+  /** Documents containing every word of a literal query, at least in part. */
+  const findCandidates = (query: string): IndexedDocument[] => {
+    const words = tokenize(query);
+    if (words.length === 0) {
+      return [...documents.values()];
+    }
+    const [first, ...rest] = words.map((word) => {
+      const holders = new Set<string>();
+      postings.forEach((ids, term) => {
+        if (term.includes(word)) ids.forEach((id) => holders.add(id));
+      });
+      return holders;
+    });
+    return [...first]
+      .filter((id) => rest.every((holders) => holders.has(id)))
+      .flatMap((id) => documents.get(id) ?? []);
+  };
+
+  const runSync = async (
+    entries: WorkspaceEntry[],
+    loadDocument: DocumentStorage["loadDocument"]
+  ) => {
+    const liveIds = new Set<string>();
+    for (const entry of entries) {
+      if (entry.kind !== "document") continue;
+      liveIds.add(entry.id);
+      const indexed = documents.get(entry.id);
+      const path = getEntryPath(entries, entry.id);
+      if (indexed && indexed.updatedAt === entry.updatedAt) {
+        // Renaming a folder moves its documents without touching them
+        indexed.path = path;
+        continue;
+      }
+      const document: IndexedDocument = {
+        id: entry.id,
+        name: entry.name,
+        path,
+        updatedAt: entry.updatedAt,
+        text: "",
+        terms: indexed?.terms ?? new Set(), // Dropped from postings by indexText
+      };
+      indexText(document, await loadDocument(entry.id));
+      documents.set(entry.id, document);
+    }
+    documents.forEach((document, id) => {
+      if (!liveIds.has(id)) {
+        removeTerms(document);
+        documents.delete(id);
+      }
+    });
+    notify();
+  };
+
+  return {
+    sync: (entries, loadDocument) => {
+      syncQueue = syncQueue
+        .then(() => runSync(entries, loadDocument))
+        .catch((error) => console.error("Error indexing documents:", error));
+      return syncQueue;
+    },
+
+    update: (documentId, markdown) => {
+      const document = documents.get(documentId);
+      if (document && document.text !== markdown) {
+        indexText(document, markdown);
+        notify();
+      }
+    },
+
+    search: (query, options) => {
+      if (!query) {
+        return [];
+      }
+      const pattern = createSearchPattern(query, options);
+      const candidates = options.regex
+        ? [...documents.values()]
+        : findCandidates(query);
+
+      return candidates
+        .map((document) => {
+          const nameMatches = findMatches(document.name, pattern).length;
+          const bodyMatches = findMatches(
+            document.text,
+            pattern,
+            MAX_COUNTED_MATCHES
+          ).length;
+          return {
+            document,
+            nameMatches,
+            bodyMatches,
+            score: nameMatches * 10 + Math.log2(1 + bodyMatches),
+          };
+        })
+        .filter(({ nameMatches, bodyMatches }) => nameMatches + bodyMatches > 0)
+        .sort(
+          (a, b) =>
+            b.score - a.score || a.document.path.localeCompare(b.document.path)
+        )
+        .slice(0, MAX_RESULTS)
+        .map(({ document, bodyMatches }) => ({
+          documentId: document.id,
+          name: document.name,
+          path: document.path,
+          matchCount: bodyMatches,
+          snippets: buildSnippets(document.text, pattern),
+        }));
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,59 @@
+// src/services/search/searchPattern.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  createSearchPattern,
+  expandReplacement,
+  findMatches,
+  type SearchOptions,
+} from "./searchPattern";
+
+const REGEX: SearchOptions = { regex: true, caseSensitive: true };
+
+/** `text` with every match of `query` replaced, as replace all does. */
+function replaceAll(
+  text: string,
+  query: string,
+  replacement: string,
+  options: SearchOptions = REGEX
+): string {
+  const matches = findMatches(text, createSearchPattern(query, options));
+  return [...matches]
+    .reverse()
+    .reduce(
+      (result, match) =>
+        result.slice(0, match.from) +
+        expandReplacement(match.captures, options, replacement) +
+        result.slice(match.to),
+      text
+    );
+}
+
+describe("expandReplacement", () => {
+  // [name, text, query, replacement, result]
+  it.each([
+    ["a lookahead", "foobar foobaz", "foo(?=bar)", "X", "Xbar foobaz"],
+    ["a lookbehind", "ab cb", "(?<=a)b", "Z", "aZ cb"],
+    ["a start anchor", "one one", "^one", "two", "two one"],
+    ["word boundaries", "cat concat cat", "\\bcat\\b", "dog", "dog concat dog"],
+    ["numbered groups", "Doe, John", "(\\w+), (\\w+)", "$2 $1", "John Doe"],
+    ["named groups", "2026-10-19", "(?<year>\\d+)-(?<month>\\d+)-(?<day>\\d+)", "$<day>.$<month>.$<year>", "19.10.2026"],
+    ["the whole match", "x y", "\\w", "[$&]", "[x] [y]"],
+    ["a group that did not take part", "ac", "a(b)?c", "<$1>", "<>"],
+    ["an escaped dollar", "cost 5", "\\d", "$$$&", "cost $5"],
+    ["a group number past the last group", "ab", "(a)b", "$12", "a2"],
+    ["unknown tokens", "ab", "(a)b", "$0 $9 $<name>", "$0 $9 $<name>"],
+    ["the text around the match", "a-b", "-", "[$`$']", "a[ab]b"],
+  ])("expands %s", (_name, text, query, replacement, expected) => {
+    expect(replaceAll(text, query, replacement)).toBe(expected);
+  });
+
+  it("replaces case-insensitive matches with their own captures", () => {
+    const options = { regex: true, caseSensitive: false };
+    expect(replaceAll("Foo fOO foo", "(f)(o+)", "$2$1", options)).toBe("ooF OOf oof");
+  });
+
+  it("takes a literal query's replacement as is", () => {
+    const options = { regex: false, caseSensitive: false };
+    expect(replaceAll("a.b A.B", "a.b", "$&-$1", options)).toBe("$&-$1 $&-$1");
+  });
+});
@@ -0,0 +1,127 @@
+// src/services/search/searchPattern.ts
+// The matching rules shared by workspace search and in-editor find: a query
+// is either literal text or a regular expression, optionally case-sensitive.
+
+export interface SearchOptions {
+  regex: boolean;
+  caseSensitive: boolean;
+}
+
+export interface TextMatch {
+  from: number;
+  to: number;
+}
+
+// A match with the exec result it came from, whose captures a replacement
+// expands; the pattern may have needed text around the match (lookarounds,
+// anchors), so the match cannot be re-run on its own
+export interface PatternMatch extends TextMatch {
+  captures: RegExpExecArray;
+}
+
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchQueryError";
+  }
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  regex: false,
+  caseSensitive: false,
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Builds the global RegExp for `query`. Throws a SearchQueryError with the
+ * engine's message when a regex query does not compile.
+ */
+export function createSearchPattern(
+  query: string,
+  options: SearchOptions
+): RegExp {
+  const flags = options.caseSensitive ? "g" : "gi";
+  if (!options.regex) {
+    return new RegExp(escapeRegExp(query), flags);
+  }
+  try {
+    return new RegExp(query, flags);
+  } catch (error) {
+    throw new SearchQueryError(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+/**
+ * Every non-empty match of `pattern` in `text`, at most `limit` of them.
+ * Empty matches (`a*`, `^`) are skipped so they cannot loop forever.
+ */
+export function findMatches(
+  text: string,
+  pattern: RegExp,
+  limit = Infinity
+): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while (matches.length < limit && (match = pattern.exec(text))) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    matches.push({
+      from: match.index,
+      to: match.index + match[0].length,
+      captures: match,
+    });
+  }
+  return matches;
+}
+
+// `$$`, `$&`, `` $` ``, `$'`, `$<name>` or `$1` to `$99`
+const REPLACEMENT_TOKEN = /\$(?:([$&`'])|<([^>]*)>|(\d\d?))/g;
+
+/**
+ * What a match is replaced with: literal queries take `replacement` as is,
+ * regex queries expand `$1`, `$&` and friends from the match's captures,
+ * the way String.prototype.replace does.
+ */
+export function expandReplacement(
+  captures: RegExpExecArray,
+  options: SearchOptions,
+  replacement: string
+): string {
+  if (!options.regex) {
+    return replacement;
+  }
+  const groupCount = captures.length - 1;
+  return replacement.replace(
+    REPLACEMENT_TOKEN,
+    (token, symbol: string | undefined, name: string | undefined, digits: string | undefined) => {
+      if (symbol === "$") return "$";
+      if (symbol === "&") return captures[0];
+      if (symbol === "`") return captures.input.slice(0, captures.index);
+      if (symbol === "'") {
+        return captures.input.slice(captures.index + captures[0].length);
+      }
+      if (name !== undefined) {
+        // Without named groups `$<` is plain text
+        return captures.groups ? (captures.groups[name] ?? "") : token;
+      }
+      // `$12` is group 12 when there is one, else group 1 followed by "2"
+      const number = Number(digits);
+      if (digits!.length === 2 && number >= 1 && number <= groupCount) {
+        return captures[number] ?? "";
+      }
+      const first = Number(digits![0]);
+      if (first >= 1 && first <= groupCount) {
+        return (captures[first] ?? "") + digits!.slice(1);
+      }
+      return token;
+    }
+  );
+}
@@ -0,0 +1,38 @@
+// src/services/slugger.ts
+// GitHub-style heading slugs ("Getting started!" -> "getting-started"), so
+// anchors in exported pages match the ones GitHub generates for the same
+// Markdown.
+
+export interface Slugger {
+  /** Slug for `text`, made unique by appending -1, -2, ... on repeats. */
+  slug: (text: string) => string;
+}
+
+/** Lowercases, drops punctuation and turns spaces into hyphens. */
+export function slugify(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, "")
+    .replace(/ /g, "-");
+}
+
+/** Creates a slugger; use one per document so repeats are counted per page. */
+export function createSlugger(): Slugger {
+  const seen = new Map<string, number>();
+  return {
+    slug(text) {
+      const base = slugify(text);
+      let slug = base;
+      let count = seen.get(base) ?? 0;
+      // A numbered slug can clash with a heading that literally ends in -1
+      while (seen.has(slug)) {
+        count++;
+        slug = `${base}-${count}`;
+      }
+      seen.set(base, count);
+      seen.set(slug, 0);
+      return slug;
+    },
+  };
+}
@@ -0,0 +1,85 @@
+// src/services/storage/assetStore.ts
+// Files linked from workspace documents (pasted screenshots, attachments).
+// They are kept per document under the relative path the Markdown links
+// to, so `assets/diagram-3f9a2c.png` always means the same file for the
+// same document, wherever the document is moved.
+import { AssetError, createAssetPath } from "../assets/assetFiles";
+import {
+  STORE_NAMES,
+  deleteByIndex,
+  requestToPromise,
+  withTransaction,
+} from "./indexedDb";
+
+export interface DocumentAsset {
+  documentId: string;
+  path: string; // Relative to the document, e.g. `assets/diagram-3f9a2c.png`
+  data: Blob;
+  createdAt: number;
+}
+
+/** Stores `file` for a document and resolves with the path to link it by. */
+export async function saveDocumentAsset(
+  documentId: string,
+  file: File
+): Promise<string> {
+  const asset: DocumentAsset = {
+    documentId,
+    path: createAssetPath(file.name, file.type),
+    data: file,
+    createdAt: Date.now(),
+  };
+  await withTransaction(STORE_NAMES.assets, "readwrite", (transaction) => {
+    transaction.objectStore(STORE_NAMES.assets).put(asset);
+  });
+  return asset.path;
+}
+
+export async function loadDocumentAsset(
+  documentId: string,
+  path: string
+): Promise<Blob> {
+  const asset = await withTransaction(
+    STORE_NAMES.assets,
+    "readonly",
+    (transaction) =>
+      requestToPromise<DocumentAsset | undefined>(
+        transaction
+          .objectStore(STORE_NAMES.assets)
+          .get([documentId, path.replace(/^\.\//, "")])
+      )
+  );
+  if (!asset) {
+    throw new AssetError(`"${path}" is not stored with this document`);
+  }
+  return asset.data;
+}
+
+/** Every asset of a document, oldest first. */
+export async function listDocumentAssets(
+  documentId: string
+): Promise<DocumentAsset[]> {
+  const assets = await withTransaction(
+    STORE_NAMES.assets,
+    "readonly",
+    (transaction) =>
+      requestToPromise<DocumentAsset[]>(
+        transaction
+          .objectStore(STORE_NAMES.assets)
+          .index("documentId")
+          .getAll(IDBKeyRange.only(documentId))
+      )
+  );
+  return assets.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/** Deletes every asset of the given documents inside `transaction`. */
+export function deleteDocumentAssets(
+  transaction: IDBTransaction,
+  documentIds: string[]
+) {
+  const store = transaction.objectStore(STORE_NAMES.assets);
+  documentIds.forEach((documentId) =>
+    deleteByIndex(store, "documentId", documentId)
+  );
+}
@@ -0,0 +1,202 @@
+// src/services/storage/commentStore.ts
+// Review threads on workspace documents. Threads live in their own object
+// store next to the documents, never in the Markdown, so saved and
+// committed files stay free of comment syntax. Each thread remembers the
+// text it is about as a TextAnchor, refreshed as the document is edited.
+import type { TextAnchor } from "../comments/textAnchor";
+import {
+  STORE_NAMES,
+  deleteByIndex,
+  requestToPromise,
+  withTransaction,
+} from "./indexedDb";
+
+// One message of a thread; the first one opened it
+export interface CommentMessage {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: number;
+}
+
+export interface CommentThread {
+  id: string;
+  documentId: string;
+  anchor: TextAnchor;
+  resolved: boolean;
+  createdAt: number;
+  comments: CommentMessage[];
+}
+
+export type CommentListener = (documentId: string) => void;
+
+export interface CommentStore {
+  /** The threads of a document, oldest first. */
+  listThreads: (documentId: string) => Promise<CommentThread[]>;
+  createThread: (
+    documentId: string,
+    anchor: TextAnchor,
+    author: string,
+    body: string
+  ) => Promise<CommentThread>;
+  addReply: (
+    thread: CommentThread,
+    author: string,
+    body: string
+  ) => Promise<CommentThread>;
+  setResolved: (
+    thread: CommentThread,
+    resolved: boolean
+  ) => Promise<CommentThread>;
+  /** Stores the anchors that moved, keyed by thread id. */
+  updateAnchors: (
+    documentId: string,
+    anchors: Map<string, TextAnchor>
+  ) => Promise<void>;
+  deleteThread: (thread: CommentThread) => Promise<void>;
+  /** Called with the document id whenever its threads change. */
+  subscribe: (listener: CommentListener) => () => void;
+}
+
+/** When a comment was written, in the user's locale, e.g. "Oct 19, 2026, 9:41 AM". */
+export function formatCommentTime(createdAt: number): string {
+  return new Date(createdAt).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+function sameAnchor(a: TextAnchor, b: TextAnchor): boolean {
+  return a.quote === b.quote && a.prefix === b.prefix && a.suffix === b.suffix;
+}
+
+function createMessage(author: string, body: string): CommentMessage {
+  return { id: crypto.randomUUID(), author, body, createdAt: Date.now() };
+}
+
+/** Deletes every thread of the given documents inside `transaction`. */
+export function deleteDocumentComments(
+  transaction: IDBTransaction,
+  documentIds: string[]
+) {
+  const store = transaction.objectStore(STORE_NAMES.comments);
+  documentIds.forEach((documentId) =>
+    deleteByIndex(store, "documentId", documentId)
+  );
+}
+
+export function createCommentStore(): CommentStore {
+  const listeners = new Set<CommentListener>();
+  const notify = (documentId: string) =>
+    listeners.forEach((listener) => listener(documentId));
+
+  /**
+   * Applies `change` to the stored copy of a thread, so concurrent updates
+   * (an anchor refresh during a reply) do not overwrite each other.
+   */
+  const modifyThread = async (
+    thread: CommentThread,
+    change: (stored: CommentThread) => CommentThread
+  ): Promise<CommentThread> => {
+    const updated = await withTransaction(
+      STORE_NAMES.comments,
+      "readwrite",
+      async (transaction) => {
+        const store = transaction.objectStore(STORE_NAMES.comments);
+        const stored = await requestToPromise<CommentThread | undefined>(
+          store.get(thread.id)
+        );
+        const next = change(stored ?? thread);
+        store.put(next);
+        return next;
+      }
+    );
+    notify(thread.documentId);
+    return updated;
+  };
+
+  return {
+    listThreads: async (documentId) => {
+      const threads = await withTransaction(
+        STORE_NAMES.comments,
+        "readonly",
+        (transaction) =>
+          requestToPromise<CommentThread[]>(
+            transaction
+              .objectStore(STORE_NAMES.comments)
+              .index("documentId")
+              .getAll(IDBKeyRange.only(documentId))
+          )
+      );
+      return threads.sort((a, b) => a.createdAt - b.createdAt);
+    },
+
+    createThread: async (documentId, anchor, author, body) => {
+      const message = createMessage(author, body);
+      const thread: CommentThread = {
+        id: crypto.randomUUID(),
+        documentId,
+        anchor,
+        resolved: false,
+        createdAt: message.createdAt,
+        comments: [message],
+      };
+      await withTransaction(STORE_NAMES.comments, "readwrite", (transaction) => {
+        transaction.objectStore(STORE_NAMES.comments).put(thread);
+      });
+      notify(documentId);
+      return thread;
+    },
+
+    addReply: (thread, author, body) =>
+      modifyThread(thread, (stored) => ({
+        ...stored,
+        comments: [...stored.comments, createMessage(author, body)],
+      })),
+
+    setResolved: (thread, resolved) =>
+      modifyThread(thread, (stored) => ({ ...stored, resolved })),
+
+    updateAnchors: async (documentId, anchors) => {
+      const changed = await withTransaction(
+        STORE_NAMES.comments,
+        "readwrite",
+        async (transaction) => {
+          const store = transaction.objectStore(STORE_NAMES.comments);
+          let count = 0;
+          for (const [threadId, anchor] of anchors) {
+            const stored = await requestToPromise<CommentThread | undefined>(
+              store.get(threadId)
+            );
+            // Highlights pasted from another document keep their thread there
+            if (
+              stored?.documentId === documentId &&
+              !sameAnchor(stored.anchor, anchor)
+            ) {
+              store.put({ ...stored, anchor });
+              count++;
+            }
+          }
+          return count;
+        }
+      );
+      if (changed > 0) {
+        notify(documentId);
+      }
+    },
+
+    deleteThread: async (thread) => {
+      await withTransaction(STORE_NAMES.comments, "readwrite", (transaction) => {
+        transaction.objectStore(STORE_NAMES.comments).delete(thread.id);
+      });
+      notify(thread.documentId);
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,18 @@
+// src/services/storage/documentStorage.ts
+
+/**
+ * The storage abstraction LiveMarkdownEditor loads from and saves to.
+ * Implementations decide where the Markdown lives (IndexedDB, a git
+ * working tree, ...); the editor only deals in document ids and strings.
+ *
+ * Storages that can keep files next to a document also implement the
+ * asset methods; without them pasted and dropped files are not uploaded.
+ */
+export interface DocumentStorage {
+  loadDocument: (id: string) => Promise<string>;
+  saveDocument: (id: string, markdown: string) => Promise<void>;
+  /** Stores a file for the document and resolves with its relative path, e.g. `assets/a.png`. */
+  saveAsset?: (id: string, file: File) => Promise<string>;
+  /** Reads a file the document links to by relative path. */
+  loadAsset?: (id: string, path: string) => Promise<Blob>;
+}
@@ -0,0 +1,124 @@
+// src/services/storage/indexedDb.ts
+// Thin promise wrappers around the IndexedDB API. Every store used by the
+// app lives in the same database so upgrades happen in one place.
+
+const DATABASE_NAME = "docground";
+const DATABASE_VERSION = 4;
+
+export const STORE_NAMES = {
+  entries: "entries", // Folder and document metadata for the sidebar tree
+  contents: "contents", // Markdown content keyed by document id
+  snapshots: "snapshots", // Saved versions of documents, indexed by document id
+  comments: "comments", // Comment threads of documents, indexed by document id
+  assets: "assets", // Images and files linked from documents, keyed by document id and path
+} as const;
+
+export type StoreName = (typeof STORE_NAMES)[keyof typeof STORE_NAMES];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use, creates or upgrades) the application database.
+ * The connection is cached for the lifetime of the page.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) {
+    return databasePromise;
+  }
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAMES.entries)) {
+        const entries = db.createObjectStore(STORE_NAMES.entries, {
+          keyPath: "id",
+        });
+        entries.createIndex("parentId", "parentId", { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORE_NAMES.contents)) {
+        db.createObjectStore(STORE_NAMES.contents, { keyPath: "id" });
+      }
+      // Version 2
+      if (!db.objectStoreNames.contains(STORE_NAMES.snapshots)) {
+        const snapshots = db.createObjectStore(STORE_NAMES.snapshots, {
+          keyPath: "id",
+        });
+        snapshots.createIndex("documentId", "documentId", { unique: false });
+      }
+      // Version 3
+      if (!db.objectStoreNames.contains(STORE_NAMES.comments)) {
+        const comments = db.createObjectStore(STORE_NAMES.comments, {
+          keyPath: "id",
+        });
+        comments.createIndex("documentId", "documentId", { unique: false });
+      }
+      // Version 4
+      if (!db.objectStoreNames.contains(STORE_NAMES.assets)) {
+        const assets = db.createObjectStore(STORE_NAMES.assets, {
+          keyPath: ["documentId", "path"],
+        });
+        assets.createIndex("documentId", "documentId", { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+
+  return databasePromise;
+}
+
+/** Resolves with the result of a single IDBRequest. */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Deletes every record of `store` whose `indexName` index matches `key`. */
+export function deleteByIndex(
+  store: IDBObjectStore,
+  indexName: string,
+  key: IDBValidKey
+) {
+  const request = store.index(indexName).openKeyCursor(IDBKeyRange.only(key));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    }
+  };
+}
+
+/** Resolves once the transaction has committed. */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Runs `work` inside a transaction over the given stores and resolves with
+ * its return value once the transaction has committed.
+ */
+export async function withTransaction<T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, mode);
+  const done = transactionDone(transaction);
+  const result = await work(transaction);
+  await done;
+  return result;
+}
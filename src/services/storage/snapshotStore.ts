@@ -0,0 +1,224 @@
+// src/services/storage/snapshotStore.ts
+// Saved versions of workspace documents. Snapshots are taken automatically
+// while a document is edited (see createSnapshotScheduler) or on demand
+// from the history panel, and are kept in their own object store so
+// loading a document never reads its history.
+import type { DocumentStorage } from "./documentStorage";
+import {
+  STORE_NAMES,
+  deleteByIndex,
+  requestToPromise,
+  withTransaction,
+} from "./indexedDb";
+
+// "auto" snapshots are pruned once there are too many; "manual" ones stay
+// until they are deleted
+export type SnapshotKind = "auto" | "manual";
+
+export interface Snapshot {
+  id: string;
+  documentId: string;
+  kind: SnapshotKind;
+  createdAt: number;
+  markdown: string;
+}
+
+export type SnapshotListener = (documentId: string) => void;
+
+export interface SnapshotStore {
+  /** The snapshots of a document, newest first. */
+  listSnapshots: (documentId: string) => Promise<Snapshot[]>;
+  /**
+   * Saves `markdown` as a new snapshot. Automatic snapshots identical to the
+   * latest one are skipped and resolve with null.
+   */
+  saveSnapshot: (
+    documentId: string,
+    markdown: string,
+    kind: SnapshotKind
+  ) => Promise<Snapshot | null>;
+  deleteSnapshot: (snapshot: Snapshot) => Promise<void>;
+  /** Called with the document id whenever its snapshots change. */
+  subscribe: (listener: SnapshotListener) => () => void;
+}
+
+export interface SnapshotScheduler {
+  /** Call on every edit with the document's full Markdown. */
+  recordChange: (documentId: string, markdown: string) => void;
+  /** Saves a manual snapshot of the latest content right away. */
+  snapshotNow: (documentId: string) => Promise<Snapshot | null>;
+}
+
+// Automatic snapshots kept per document; older ones are deleted
+const MAX_AUTO_SNAPSHOTS = 50;
+// While a document is being edited, one automatic snapshot per interval
+const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Date and time of a snapshot in the user's locale, e.g. "Oct 19, 2026, 9:41 AM". */
+export function formatSnapshotTime(createdAt: number): string {
+  return new Date(createdAt).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+/** Every snapshot of a document, oldest first. */
+function readSnapshots(
+  transaction: IDBTransaction,
+  documentId: string
+): Promise<Snapshot[]> {
+  return requestToPromise<Snapshot[]>(
+    transaction
+      .objectStore(STORE_NAMES.snapshots)
+      .index("documentId")
+      .getAll(IDBKeyRange.only(documentId))
+  ).then((snapshots) => snapshots.sort((a, b) => a.createdAt - b.createdAt));
+}
+
+/** Deletes every snapshot of the given documents inside `transaction`. */
+export function deleteDocumentSnapshots(
+  transaction: IDBTransaction,
+  documentIds: string[]
+) {
+  const store = transaction.objectStore(STORE_NAMES.snapshots);
+  documentIds.forEach((documentId) =>
+    deleteByIndex(store, "documentId", documentId)
+  );
+}
+
+export function createSnapshotStore(): SnapshotStore {
+  const listeners = new Set<SnapshotListener>();
+  const notify = (documentId: string) =>
+    listeners.forEach((listener) => listener(documentId));
+
+  return {
+    listSnapshots: async (documentId) => {
+      const snapshots = await withTransaction(
+        STORE_NAMES.snapshots,
+        "readonly",
+        (transaction) => readSnapshots(transaction, documentId)
+      );
+      return snapshots.reverse();
+    },
+
+    saveSnapshot: async (documentId, markdown, kind) => {
+      const snapshot = await withTransaction(
+        STORE_NAMES.snapshots,
+        "readwrite",
+        async (transaction) => {
+          const existing = await readSnapshots(transaction, documentId);
+          const latest = existing[existing.length - 1];
+          if (kind === "auto" && latest?.markdown === markdown) {
+            return null;
+          }
+          const store = transaction.objectStore(STORE_NAMES.snapshots);
+          const created: Snapshot = {
+            id: crypto.randomUUID(),
+            documentId,
+            kind,
+            // Never before the latest, so the order survives clock changes
+            createdAt: Math.max(Date.now(), (latest?.createdAt ?? 0) + 1),
+            markdown,
+          };
+          store.put(created);
+          const autos = existing.filter((item) => item.kind === "auto");
+          if (kind === "auto") autos.push(created);
+          autos
+            .slice(0, Math.max(0, autos.length - MAX_AUTO_SNAPSHOTS))
+            .forEach((item) => store.delete(item.id));
+          return created;
+        }
+      );
+      if (snapshot) {
+        notify(documentId);
+      }
+      return snapshot;
+    },
+
+    deleteSnapshot: async (snapshot) => {
+      await withTransaction(STORE_NAMES.snapshots, "readwrite", (transaction) => {
+        transaction.objectStore(STORE_NAMES.snapshots).delete(snapshot.id);
+      });
+      notify(snapshot.documentId);
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Takes the automatic snapshots. The first edit of a document in a session
+ * snapshots the stored version from before that edit, so the session can
+ * always be undone; after that, the latest content is snapshotted once per
+ * interval for as long as the edits continue.
+ */
+export function createSnapshotScheduler(
+  store: SnapshotStore,
+  loadDocument: DocumentStorage["loadDocument"],
+  intervalMs = SNAPSHOT_INTERVAL_MS
+): SnapshotScheduler {
+  // Latest Markdown of the documents edited since their last snapshot
+  const pending = new Map<string, string>();
+  const timers = new Map<string, number>();
+  // Snapshot writes per document, in order, so the baseline lands first
+  const queues = new Map<string, Promise<unknown>>();
+
+  const enqueue = <T>(documentId: string, work: () => Promise<T>): Promise<T> => {
+    const previous = queues.get(documentId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(work);
+    queues.set(documentId, next);
+    return next;
+  };
+
+  const flush = (documentId: string) => {
+    timers.delete(documentId);
+    const markdown = pending.get(documentId);
+    pending.delete(documentId);
+    if (markdown === undefined) {
+      return;
+    }
+    enqueue(documentId, () =>
+      store.saveSnapshot(documentId, markdown, "auto")
+    ).catch((error) => console.error("Error saving snapshot:", error));
+  };
+
+  return {
+    recordChange: (documentId, markdown) => {
+      if (!queues.has(documentId)) {
+        // Storage still has the version from before this edit; saves are debounced
+        enqueue(documentId, async () =>
+          store.saveSnapshot(documentId, await loadDocument(documentId), "auto")
+        ).catch((error) => console.error("Error saving snapshot:", error));
+      }
+      pending.set(documentId, markdown);
+      if (!timers.has(documentId)) {
+        timers.set(
+          documentId,
+          window.setTimeout(() => flush(documentId), intervalMs)
+        );
+      }
+    },
+
+    snapshotNow: (documentId) => {
+      const timer = timers.get(documentId);
+      if (timer !== undefined) {
+        window.clearTimeout(timer);
+        timers.delete(documentId);
+      }
+      const markdown = pending.get(documentId);
+      pending.delete(documentId);
+      return enqueue(documentId, async () =>
+        store.saveSnapshot(
+          documentId,
+          markdown ?? (await loadDocument(documentId)),
+          "manual"
+        )
+      );
+    },
+  };
+}
@@ -0,0 +1,302 @@
+// src/services/storage/workspaceStore.ts
+import type { DocumentStorage } from "./documentStorage";
+import {
+  STORE_NAMES,
+  requestToPromise,
+  withTransaction,
+} from "./indexedDb";
+import { deleteDocumentSnapshots } from "./snapshotStore";
+import { deleteDocumentComments } from "./commentStore";
+import {
+  deleteDocumentAssets,
+  listDocumentAssets,
+  loadDocumentAsset,
+  saveDocumentAsset,
+  type DocumentAsset,
+} from "./assetStore";
+
+export type WorkspaceEntryKind = "folder" | "document";
+
+// A node of the sidebar tree. Folders only group documents; the Markdown
+// itself is kept in a separate object store so listing the tree stays cheap.
+export interface WorkspaceEntry {
+  id: string;
+  kind: WorkspaceEntryKind;
+  name: string;
+  parentId: string | null; // null means the workspace root
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface DocumentContent {
+  id: string;
+  markdown: string;
+}
+
+export type WorkspaceListener = (entries: WorkspaceEntry[]) => void;
+
+export interface WorkspaceStore extends DocumentStorage {
+  listEntries: () => Promise<WorkspaceEntry[]>;
+  createEntry: (
+    kind: WorkspaceEntryKind,
+    name: string,
+    parentId: string | null,
+    markdown?: string
+  ) => Promise<WorkspaceEntry>;
+  renameEntry: (id: string, name: string) => Promise<WorkspaceEntry>;
+  moveEntry: (id: string, parentId: string | null) => Promise<WorkspaceEntry>;
+  deleteEntry: (id: string) => Promise<void>;
+  /** The images and files stored for a document, e.g. for an export. */
+  listAssets: (documentId: string) => Promise<DocumentAsset[]>;
+  subscribe: (listener: WorkspaceListener) => () => void;
+}
+
+export class WorkspaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkspaceError";
+  }
+}
+
+/** Returns the ids of `id` and every entry nested below it. */
+export function collectDescendantIds(
+  entries: WorkspaceEntry[],
+  id: string
+): string[] {
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    entries
+      .filter((entry) => entry.parentId === ids[i])
+      .forEach((child) => ids.push(child.id));
+  }
+  return ids;
+}
+
+/** Builds a slash separated path such as `notes/ideas/todo` for an entry. */
+export function getEntryPath(
+  entries: WorkspaceEntry[],
+  id: string
+): string {
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  const segments: string[] = [];
+  let current = byId.get(id);
+  while (current) {
+    segments.unshift(current.name);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return segments.join("/");
+}
+
+function createId(): string {
+  return crypto.randomUUID();
+}
+
+async function readAllEntries(): Promise<WorkspaceEntry[]> {
+  return withTransaction(STORE_NAMES.entries, "readonly", (transaction) =>
+    requestToPromise<WorkspaceEntry[]>(
+      transaction.objectStore(STORE_NAMES.entries).getAll()
+    )
+  );
+}
+
+async function readEntry(id: string): Promise<WorkspaceEntry> {
+  const entry = await withTransaction(
+    STORE_NAMES.entries,
+    "readonly",
+    (transaction) =>
+      requestToPromise<WorkspaceEntry | undefined>(
+        transaction.objectStore(STORE_NAMES.entries).get(id)
+      )
+  );
+  if (!entry) {
+    throw new WorkspaceError(`No workspace entry with id "${id}"`);
+  }
+  return entry;
+}
+
+function assertValidName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new WorkspaceError("Names cannot be empty");
+  }
+  if (trimmed.includes("/")) {
+    throw new WorkspaceError('Names cannot contain "/"');
+  }
+  return trimmed;
+}
+
+function assertUniqueName(
+  entries: WorkspaceEntry[],
+  name: string,
+  parentId: string | null,
+  ignoreId?: string
+) {
+  const clash = entries.some(
+    (entry) =>
+      entry.parentId === parentId &&
+      entry.id !== ignoreId &&
+      entry.name.toLowerCase() === name.toLowerCase()
+  );
+  if (clash) {
+    throw new WorkspaceError(`"${name}" already exists in this folder`);
+  }
+}
+
+function assertFolder(entries: WorkspaceEntry[], parentId: string | null) {
+  if (parentId === null) {
+    return;
+  }
+  const parent = entries.find((entry) => entry.id === parentId);
+  if (!parent || parent.kind !== "folder") {
+    throw new WorkspaceError("Entries can only be placed inside folders");
+  }
+}
+
+/**
+ * Creates the IndexedDB backed workspace. Listeners are notified with the
+ * full entry list after every structural change so the sidebar can simply
+ * re-render from it.
+ */
+export function createWorkspaceStore(): WorkspaceStore {
+  const listeners = new Set<WorkspaceListener>();
+
+  const notify = async () => {
+    if (listeners.size === 0) {
+      return;
+    }
+    const entries = await readAllEntries();
+    listeners.forEach((listener) => listener(entries));
+  };
+
+  const putEntry = (entry: WorkspaceEntry) =>
+    withTransaction(STORE_NAMES.entries, "readwrite", (transaction) => {
+      transaction.objectStore(STORE_NAMES.entries).put(entry);
+    });
+
+  return {
+    listEntries: readAllEntries,
+
+    loadDocument: async (id) => {
+      const content = await withTransaction(
+        STORE_NAMES.contents,
+        "readonly",
+        (transaction) =>
+          requestToPromise<DocumentContent | undefined>(
+            transaction.objectStore(STORE_NAMES.contents).get(id)
+          )
+      );
+      return content?.markdown ?? "";
+    },
+
+    saveDocument: async (id, markdown) => {
+      const entry = await readEntry(id);
+      await withTransaction(
+        [STORE_NAMES.entries, STORE_NAMES.contents],
+        "readwrite",
+        (transaction) => {
+          transaction
+            .objectStore(STORE_NAMES.contents)
+            .put({ id, markdown } satisfies DocumentContent);
+          transaction
+            .objectStore(STORE_NAMES.entries)
+            .put({ ...entry, updatedAt: Date.now() });
+        }
+      );
+    },
+
+    saveAsset: saveDocumentAsset,
+    loadAsset: loadDocumentAsset,
+    listAssets: listDocumentAssets,
+
+    createEntry: async (kind, name, parentId, markdown = "") => {
+      const entries = await readAllEntries();
+      const validName = assertValidName(name);
+      assertFolder(entries, parentId);
+      assertUniqueName(entries, validName, parentId);
+
+      const now = Date.now();
+      const entry: WorkspaceEntry = {
+        id: createId(),
+        kind,
+        name: validName,
+        parentId,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await withTransaction(
+        [STORE_NAMES.entries, STORE_NAMES.contents],
+        "readwrite",
+        (transaction) => {
+          transaction.objectStore(STORE_NAMES.entries).put(entry);
+          if (kind === "document") {
+            transaction
+              .objectStore(STORE_NAMES.contents)
+              .put({ id: entry.id, markdown } satisfies DocumentContent);
+          }
+        }
+      );
+      await notify();
+      return entry;
+    },
+
+    renameEntry: async (id, name) => {
+      const entries = await readAllEntries();
+      const entry = await readEntry(id);
+      const validName = assertValidName(name);
+      assertUniqueName(entries, validName, entry.parentId, id);
+
+      const renamed = { ...entry, name: validName, updatedAt: Date.now() };
+      await putEntry(renamed);
+      await notify();
+      return renamed;
+    },
+
+    moveEntry: async (id, parentId) => {
+      const entries = await readAllEntries();
+      const entry = await readEntry(id);
+      assertFolder(entries, parentId);
+      if (parentId && collectDescendantIds(entries, id).includes(parentId)) {
+        throw new WorkspaceError("A folder cannot be moved into itself");
+      }
+      assertUniqueName(entries, entry.name, parentId, id);
+
+      const moved = { ...entry, parentId, updatedAt: Date.now() };
+      await putEntry(moved);
+      await notify();
+      return moved;
+    },
+
+    deleteEntry: async (id) => {
+      const entries = await readAllEntries();
+      const ids = collectDescendantIds(entries, id);
+      await withTransaction(
+        [
+          STORE_NAMES.entries,
+          STORE_NAMES.contents,
+          STORE_NAMES.snapshots,
+          STORE_NAMES.comments,
+          STORE_NAMES.assets,
+        ],
+        "readwrite",
+        (transaction) => {
+          ids.forEach((entryId) => {
+            transaction.objectStore(STORE_NAMES.entries).delete(entryId);
+            transaction.objectStore(STORE_NAMES.contents).delete(entryId);
+          });
+          // Version history, comments and assets go with the document
+          deleteDocumentSnapshots(transaction, ids);
+          deleteDocumentComments(transaction, ids);
+          deleteDocumentAssets(transaction, ids);
+        }
+      );
+      await notify();
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,265 @@
+// src/services/themes/themeRenderer.ts
+import { Marked } from "marked";
+import type { MarkedExtension, Token, Tokens } from "marked";
+import katex from "katex";
+import { parseAlertMarker } from "../../editor/callout/calloutTypes";
+import { getFrontMatterTitle, splitFrontMatter } from "../frontMatter";
+import {
+  DEFAULT_SANITIZE_MODE,
+  sanitizeHtml,
+  type SanitizeMode,
+} from "../sanitize/sanitizePolicy";
+import { createSlugger } from "../slugger";
+import type { Theme } from "./themes";
+
+export interface RenderOptions {
+  /**
+   * Rewrites every link target, e.g. `notes.md` -> `notes.html` when the
+   * page is exported as part of a static site.
+   */
+  rewriteLink?: (href: string) => string;
+  /**
+   * Tags every top-level block with `data-source-line`, the 0-based line of
+   * the Markdown it starts on, so a preview can scroll along with the editor.
+   */
+  sourceLines?: boolean;
+  // Which raw HTML survives (src/services/sanitize/sanitizePolicy.ts)
+  sanitizeMode?: SanitizeMode;
+}
+
+export interface RenderedDocument {
+  title: string | null; // `title` from the front matter, if any
+  html: string;
+}
+
+// Heading token after walkTokens has given it an anchor id
+type AnchoredHeading = Tokens.Heading & { id?: string };
+
+// Define the options for the Marked instance
+// No custom renderer is used here; we rely on default Marked rendering.
+const markedOptions: MarkedExtension = {
+  gfm: true, // Enable GitHub Flavored Markdown (tables, strikethrough, task lists etc.)
+  pedantic: false, // Don't be too strict to original markdown.pl.
+  breaks: false, // Don't convert single line breaks to <br>. GFM handles this.
+  // No 'sanitize', 'headerIds', or 'headerPrefix' here as they are handled by gfm or deprecated.
+  // Marked will use its default renderer.
+};
+
+// A blockquote whose first line is a GitHub alert marker, e.g. "> [!NOTE]"
+const ALERT_BLOCKQUOTE = /^ {0,3}> ?(\[![a-z]+\][ \t]*(?:\n|$))((?: {0,3}>.*(?:\n|$))*)/i;
+
+// Renders GitHub alerts the way the editor's callout node does
+// (src/editor/callout), so exported HTML picks up the same theme styles
+const githubAlerts: MarkedExtension = {
+  extensions: [
+    {
+      name: "githubAlert",
+      level: "block",
+      start: (src) => src.match(/^ {0,3}> ?\[!/im)?.index,
+      tokenizer(src) {
+        const match = ALERT_BLOCKQUOTE.exec(src);
+        const alert = match && parseAlertMarker(match[1]);
+        if (!match || !alert) {
+          return undefined; // Not an alert; let the blockquote rule have it
+        }
+        const body = match[2].replace(/^ {0,3}> ?/gm, "");
+        return {
+          type: "githubAlert",
+          raw: match[0],
+          calloutType: alert.type,
+          tokens: this.lexer.blockTokens(body, []),
+        };
+      },
+      renderer(token) {
+        const { calloutType, tokens } = token as Tokens.Generic;
+        return `<div class="callout" data-callout="${calloutType}">\n${this.parser.parse(tokens ?? [])}</div>\n`;
+      },
+    },
+  ],
+};
+
+// Same syntax the editor's math nodes read (src/editor/math/mathSyntax.ts)
+const MATH_BLOCK = /^ {0,3}\$\$([\s\S]*?)\$\$[ \t]*(?:\n+|$)/;
+const MATH_INLINE = /^\$`([\s\S]*?)`\$|^\$(?![\s$])((?:\\.|[^\\$])*?[^\s\\])\$(?!\d)/;
+
+// MathML needs no fonts or stylesheet, so exported pages stay self-contained
+function renderMath(latex: string, displayMode: boolean): string {
+  return katex.renderToString(latex, {
+    displayMode,
+    output: "mathml",
+    throwOnError: false, // Bad input is shown as red source instead
+  });
+}
+
+// Formulas rendered with KaTeX, like the editor's math nodes
+const mathSyntax: MarkedExtension = {
+  extensions: [
+    {
+      name: "mathBlock",
+      level: "block",
+      start: (src) => src.match(/^ {0,3}\$\$/m)?.index,
+      tokenizer(src) {
+        const match = MATH_BLOCK.exec(src);
+        if (!match) {
+          return undefined;
+        }
+        return { type: "mathBlock", raw: match[0], latex: match[1].trim() };
+      },
+      renderer(token) {
+        return `<div class="math-block">${renderMath(token.latex, true)}</div>\n`;
+      },
+    },
+    {
+      name: "mathInline",
+      level: "inline",
+      start: (src) => {
+        const index = src.indexOf("$");
+        return index === -1 ? undefined : index;
+      },
+      tokenizer(src) {
+        const match = MATH_INLINE.exec(src);
+        if (!match) {
+          return undefined;
+        }
+        return { type: "mathInline", raw: match[0], latex: match[1] ?? match[2] };
+      },
+      renderer(token) {
+        return renderMath(token.latex, false);
+      },
+    },
+  ],
+};
+
+// Headings get an id and a link to themselves (`anchor`, "#" by default),
+// like GitHub's anchors
+function headingAnchors(anchor = "#"): MarkedExtension {
+  const anchorText = escapeHtml(anchor);
+  return {
+    renderer: {
+      heading(token) {
+        const { id } = token as AnchoredHeading;
+        if (!id) {
+          return false; // Fall back to the default renderer
+        }
+        const text = this.parser.parseInline(token.tokens);
+        return `<h${token.depth} id="${id}">${text} <a class="heading-anchor" href="#${id}" aria-hidden="true">${anchorText}</a></h${token.depth}>\n`;
+      },
+    },
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// The heading's visible text ("Use `npm`" -> "Use npm"), which is what
+// GitHub slugs rather than the raw Markdown
+function plainText(tokens: Token[]): string {
+  return tokens
+    .map((token) =>
+      "tokens" in token && token.tokens
+        ? plainText(token.tokens)
+        : "text" in token
+          ? String(token.text)
+          : ""
+    )
+    .join("");
+}
+
+export interface ThemeRenderer {
+  theme: Theme;
+  /**
+   * Renders a whole document: front matter is left out of the HTML and its
+   * `title` is returned for use as the page title.
+   */
+  renderDocument: (markdown: string, options?: RenderOptions) => RenderedDocument;
+  render: (markdown: string, options?: RenderOptions) => string;
+}
+
+// Renders the top-level blocks one at a time and adds the line each starts
+// on to its first tag. Blocks are found in `markdown` by their raw text, as
+// link definitions never become tokens and would throw a running count off.
+function renderWithSourceLines(
+  markedInstance: Marked,
+  markdown: string,
+  tokens: Token[]
+): string {
+  let offset = 0;
+  let line = 0;
+  // Moves `offset` forward to `to`, counting the lines passed
+  const advance = (to: number) => {
+    for (; offset < to; offset++) {
+      if (markdown[offset] === "\n") line++;
+    }
+  };
+  return tokens
+    .map((token) => {
+      const index = markdown.indexOf(token.raw, offset);
+      if (index !== -1) advance(index);
+      const startLine = line;
+      if (index !== -1) advance(index + token.raw.length);
+      if (token.type === "space") {
+        return "";
+      }
+      return markedInstance
+        .parser([token])
+        .replace(/^(\s*<[a-z][\w-]*)/i, `$1 data-source-line="${startLine}"`);
+    })
+    .join("");
+}
+
+/**
+ * Markdown to sanitized HTML the way `theme` publishes it. The colors come
+ * from the theme's CSS variables (src/theme.css); the renderer only applies
+ * the theme's renderer options.
+ */
+export function createThemeRenderer(theme: Theme): ThemeRenderer {
+  const markedInstance = new Marked(
+    markedOptions,
+    githubAlerts,
+    mathSyntax,
+    headingAnchors(theme.renderer?.headingAnchor)
+  );
+
+  const render = (markdown: string, options: RenderOptions = {}): string => {
+    try {
+      const tokens = markedInstance.lexer(markdown);
+      // Slugs are numbered per page, so each render gets its own slugger
+      const slugger = createSlugger();
+      markedInstance.walkTokens(tokens, (token) => {
+        if (token.type === "heading") {
+          const heading = token as AnchoredHeading;
+          heading.id = slugger.slug(plainText(heading.tokens));
+        } else if (token.type === "link" && options.rewriteLink) {
+          token.href = options.rewriteLink(token.href);
+        }
+      });
+      const rawHtml = options.sourceLines
+        ? renderWithSourceLines(markedInstance, markdown, tokens)
+        : markedInstance.parser(tokens);
+
+      // Sanitize HTML to prevent XSS attacks, with the same policy the
+      // editor applies to the HTML it reads
+      return sanitizeHtml(rawHtml, options.sanitizeMode ?? DEFAULT_SANITIZE_MODE);
+    } catch (error) {
+      console.error("Error parsing Markdown:", error);
+      return "<p>Error rendering Markdown.</p>";
+    }
+  };
+
+  return {
+    theme,
+    renderDocument: (markdown, options = {}) => {
+      const { frontMatter, body } = splitFrontMatter(markdown);
+      return {
+        title: getFrontMatterTitle(frontMatter),
+        html: render(body, options),
+      };
+    },
+    render,
+  };
+}
@@ -0,0 +1,14 @@
+// src/services/themes/themeSettings.ts
+// The theme picked in the sidebar, kept in localStorage so reloads and
+// exports keep using it.
+import { getTheme, type Theme } from "./themes";
+
+const THEME_KEY = "docground:theme";
+
+export function loadTheme(): Theme {
+  return getTheme(localStorage.getItem(THEME_KEY));
+}
+
+export function saveTheme(theme: Theme) {
+  localStorage.setItem(THEME_KEY, theme.id);
+}
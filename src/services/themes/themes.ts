@@ -0,0 +1,254 @@
+// src/services/themes/themes.ts
+// The bundled themes. A theme is a set of CSS custom properties that every
+// stylesheet of the app reads (`var(--theme-accent)`), plus options for the
+// Markdown renderer, so the editor, the preview and exported sites all look
+// the same. src/theme.css holds the page styles shared by all themes.
+
+// Names of the custom properties; each is set as `--theme-<name>`
+export type ThemeVariable =
+  | "background" // Page and editor background
+  | "surface" // Inputs, popups and menus
+  | "raised" // Hovered and selected rows, chips
+  | "hover" // Highlighted menu items
+  | "text"
+  | "text-code" // Code blocks in the editor
+  | "heading"
+  | "muted" // Secondary text
+  | "faint" // Placeholders and hints
+  | "border"
+  | "border-subtle"
+  | "accent" // Focus, selection and active items
+  | "link"
+  | "danger"
+  | "warning"
+  | "info"
+  | "success"
+  | "special" // Inline code, keywords, "important" callouts
+  | "syntax-type"
+  | "syntax-regex"
+  | "syntax-escape"
+  | "code-text" // Text of rendered code blocks
+  | "code-background"
+  | "code-border"
+  | "header-background" // Page header of exported sites
+  | "shadow" // Drop shadow of popups
+  | "heading-glow" // text-shadow of headings, or none
+  | "link-glow" // text-shadow of links, or none
+  | "font"
+  | "font-code"
+  | "bullet" // CSS string shown before list items in the editor
+  | "title-prefix"; // CSS string before the site title of exported pages
+
+export type ThemeVariables = Record<ThemeVariable, string>;
+
+export interface ThemeRendererOptions {
+  headingAnchor?: string; // Text of the link after each heading; "#" by default
+}
+
+export interface Theme {
+  id: string;
+  name: string;
+  dark: boolean; // Sets color-scheme, for scrollbars and form controls
+  variables: ThemeVariables;
+  renderer?: ThemeRendererOptions;
+}
+
+const MONOSPACE_FONT =
+  'Monaco, "Bitstream Vera Sans Mono", "Lucida Console", Terminal, monospace';
+const SYSTEM_FONT =
+  '-apple-system, BlinkMacSystemFont, "Segoe UI", "Noto Sans", Helvetica, Arial, sans-serif';
+const SYSTEM_MONOSPACE_FONT =
+  'ui-monospace, SFMono-Regular, "SF Mono", Menlo, Consolas, "Liberation Mono", monospace';
+
+// https://pages-themes.github.io/hacker/
+const hacker: Theme = {
+  id: "hacker",
+  name: "Hacker",
+  dark: true,
+  variables: {
+    background: "#151515",
+    surface: "#000",
+    raised: "#2a2a2a",
+    hover: "#4f4f4f",
+    text: "#eaeaea",
+    "text-code": "#d0d0d0",
+    heading: "#b5e853",
+    muted: "#888",
+    faint: "#666",
+    border: "#444",
+    "border-subtle": "#333",
+    accent: "#b5e853",
+    link: "#63c0f5",
+    danger: "#ac4142",
+    warning: "#f4bf75",
+    info: "#6a9fb5",
+    success: "#90a959",
+    special: "#aa759f",
+    "syntax-type": "#d28445",
+    "syntax-regex": "#75b5aa",
+    "syntax-escape": "#8f5536",
+    "code-text": "#b5e853",
+    "code-background": "rgba(0,0,0,0.9)",
+    "code-border": "rgba(255,255,255,0.15)",
+    "header-background": "rgba(0,0,0,0.1)",
+    shadow: "rgba(0,0,0,0.6)",
+    "heading-glow":
+      "0 1px 1px rgba(0,0,0,0.1),0 0 5px rgba(181,232,83,0.1),0 0 10px rgba(181,232,83,0.1)",
+    "link-glow": "0 0 5px rgba(104,182,255,0.5)",
+    font: MONOSPACE_FONT,
+    "font-code": MONOSPACE_FONT,
+    bullet: '">>"',
+    "title-prefix": '"./ "',
+  },
+};
+
+// The hacker layout in dark ink on paper
+const light: Theme = {
+  id: "light",
+  name: "Light",
+  dark: false,
+  variables: {
+    background: "#fafafa",
+    surface: "#fff",
+    raised: "#ececec",
+    hover: "#dcdcdc",
+    text: "#222",
+    "text-code": "#333",
+    heading: "#2f7d0c",
+    muted: "#6b6b6b",
+    faint: "#999",
+    border: "#c8c8c8",
+    "border-subtle": "#e0e0e0",
+    accent: "#3d8b16",
+    link: "#0a6fb8",
+    danger: "#c0392b",
+    warning: "#b7791f",
+    info: "#2b7bb9",
+    success: "#2f855a",
+    special: "#805ad5",
+    "syntax-type": "#b7651d",
+    "syntax-regex": "#2c7a7b",
+    "syntax-escape": "#9c4221",
+    "code-text": "#2f7d0c",
+    "code-background": "#f0f0f0",
+    "code-border": "#dcdcdc",
+    "header-background": "#f0f0f0",
+    shadow: "rgba(0,0,0,0.15)",
+    "heading-glow": "none",
+    "link-glow": "none",
+    font: MONOSPACE_FONT,
+    "font-code": MONOSPACE_FONT,
+    bullet: '">>"',
+    "title-prefix": '"./ "',
+  },
+};
+
+// Colors and fonts of Markdown files on github.com
+const github: Theme = {
+  id: "github",
+  name: "GitHub",
+  dark: false,
+  variables: {
+    background: "#fff",
+    surface: "#f6f8fa",
+    raised: "#eaeef2",
+    hover: "#d0d7de",
+    text: "#1f2328",
+    "text-code": "#1f2328",
+    heading: "#1f2328",
+    muted: "#656d76",
+    faint: "#8c959f",
+    border: "#d0d7de",
+    "border-subtle": "#d8dee4",
+    accent: "#0969da",
+    link: "#0969da",
+    danger: "#cf222e",
+    warning: "#9a6700",
+    info: "#0969da",
+    success: "#1a7f37",
+    special: "#8250df",
+    "syntax-type": "#953800",
+    "syntax-regex": "#0a3069",
+    "syntax-escape": "#116329",
+    "code-text": "#1f2328",
+    "code-background": "#f6f8fa",
+    "code-border": "#d0d7de",
+    "header-background": "#f6f8fa",
+    shadow: "rgba(140,149,159,0.3)",
+    "heading-glow": "none",
+    "link-glow": "none",
+    font: SYSTEM_FONT,
+    "font-code": SYSTEM_MONOSPACE_FONT,
+    bullet: '"•"',
+    "title-prefix": '""',
+  },
+  renderer: { headingAnchor: "¶" },
+};
+
+// https://ethanschoonover.com/solarized/, dark background
+const solarized: Theme = {
+  id: "solarized",
+  name: "Solarized",
+  dark: true,
+  variables: {
+    background: "#002b36",
+    surface: "#00212b",
+    raised: "#073642",
+    hover: "#0e4b5a",
+    text: "#93a1a1",
+    "text-code": "#839496",
+    heading: "#b58900",
+    muted: "#657b83",
+    faint: "#586e75",
+    border: "#2e5661",
+    "border-subtle": "#0d3a45",
+    accent: "#859900",
+    link: "#268bd2",
+    danger: "#dc322f",
+    warning: "#b58900",
+    info: "#2aa198",
+    success: "#859900",
+    special: "#6c71c4",
+    "syntax-type": "#cb4b16",
+    "syntax-regex": "#2aa198",
+    "syntax-escape": "#d33682",
+    "code-text": "#2aa198",
+    "code-background": "#00212b",
+    "code-border": "#0d3a45",
+    "header-background": "rgba(0,0,0,0.15)",
+    shadow: "rgba(0,0,0,0.5)",
+    "heading-glow": "none",
+    "link-glow": "none",
+    font: MONOSPACE_FONT,
+    "font-code": MONOSPACE_FONT,
+    bullet: '"›"',
+    "title-prefix": '""',
+  },
+  renderer: { headingAnchor: "¶" },
+};
+
+export const THEMES: Theme[] = [hacker, light, github, solarized];
+
+export const DEFAULT_THEME = hacker;
+
+/** The theme called `id`, or the default theme for unknown ids. */
+export function getTheme(id: string | null | undefined): Theme {
+  return THEMES.find((theme) => theme.id === id) ?? DEFAULT_THEME;
+}
+
+/** The theme's custom properties as a `:root` rule, for standalone pages. */
+export function formatThemeVariables(theme: Theme): string {
+  const declarations = Object.entries(theme.variables).map(
+    ([name, value]) => `  --theme-${name}: ${value};`
+  );
+  return `:root {\n  color-scheme: ${theme.dark ? "dark" : "light"};\n${declarations.join("\n")}\n}\n`;
+}
+
+/** Sets the theme's custom properties on the page. */
+export function applyTheme(theme: Theme, root: HTMLElement = document.documentElement) {
+  Object.entries(theme.variables).forEach(([name, value]) =>
+    root.style.setProperty(`--theme-${name}`, value)
+  );
+  root.style.colorScheme = theme.dark ? "dark" : "light";
+  root.dataset.theme = theme.id;
+}
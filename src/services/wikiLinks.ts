@@ -0,0 +1,294 @@
+// src/services/wikiLinks.ts
+// `[[Document Name]]` references between workspace documents: resolving
+// them to documents, finding backlinks, keeping them valid across renames
+// and turning them into standard Markdown links for export.
+import type { DocumentStorage } from "./storage/documentStorage";
+import { getEntryPath, type WorkspaceEntry } from "./storage/workspaceStore";
+
+// `[[target]]` or `[[target|label]]`
+export interface WikiLink {
+  target: string;
+  label: string | null;
+}
+
+// A document a wiki-link can point at
+export interface WikiLinkDocument {
+  id: string;
+  name: string;
+  path: string; // Slash separated, without extension: "notes/Ideas"
+}
+
+export interface Backlink {
+  document: WikiLinkDocument;
+  excerpts: string[]; // The lines holding the links, trimmed
+}
+
+const WIKI_LINK = /\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\]/g;
+// Fence openers and closers (``` or ~~~), and inline code spans
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const CODE_SPAN = /(``[^\n]*?``|`[^`\n]*`)/;
+const EXCERPT_LENGTH = 120;
+
+/** Reads the wiki-link at the start of `text`, if there is one. */
+export function matchWikiLink(
+  text: string
+): { link: WikiLink; length: number } | null {
+  const match = new RegExp(`^${WIKI_LINK.source}`).exec(text);
+  if (!match || !match[1].trim()) {
+    return null;
+  }
+  return {
+    link: { target: match[1].trim(), label: match[2]?.trim() || null },
+    length: match[0].length,
+  };
+}
+
+export function formatWikiLink({ target, label }: WikiLink): string {
+  return label ? `[[${target}|${label}]]` : `[[${target}]]`;
+}
+
+/** Lookup key for a target: paths and names match case-insensitively. */
+function targetKey(target: string): string {
+  return target
+    .trim()
+    .replace(/^\/+/, "")
+    .replace(/\.md$/i, "")
+    .toLowerCase();
+}
+
+/** The workspace documents, ordered by path so name clashes resolve stably. */
+export function listWikiLinkDocuments(
+  entries: WorkspaceEntry[]
+): WikiLinkDocument[] {
+  return entries
+    .filter((entry) => entry.kind === "document")
+    .map((entry) => ({
+      id: entry.id,
+      name: entry.name,
+      path: getEntryPath(entries, entry.id),
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Finds the document a target points at: a full path (`notes/Ideas`) wins,
+ * otherwise the first document with that name.
+ */
+export function resolveWikiLink(
+  target: string,
+  documents: WikiLinkDocument[]
+): WikiLinkDocument | null {
+  const key = targetKey(target);
+  if (!key) {
+    return null;
+  }
+  return (
+    documents.find((document) => document.path.toLowerCase() === key) ??
+    documents.find((document) => document.name.toLowerCase() === key) ??
+    null
+  );
+}
+
+/** The shortest target for `document`: its name unless another document claims it. */
+export function getWikiLinkTarget(
+  document: WikiLinkDocument,
+  documents: WikiLinkDocument[]
+): string {
+  return resolveWikiLink(document.name, documents)?.id === document.id
+    ? document.name
+    : document.path;
+}
+
+/**
+ * Calls `replace` for each wiki-link outside code blocks and code spans and
+ * puts its return value in place of the link; null keeps the link as is.
+ */
+export function replaceWikiLinks(
+  markdown: string,
+  replace: (link: WikiLink) => string | null
+): string {
+  let fence: string | null = null;
+  return markdown
+    .split("\n")
+    .map((line) => {
+      const opener = FENCE.exec(line);
+      if (fence) {
+        const closes =
+          opener &&
+          opener[1][0] === fence[0] &&
+          opener[1].length >= fence.length &&
+          !line.slice(opener[0].length).trim();
+        if (closes) fence = null;
+        return line;
+      }
+      if (opener) {
+        fence = opener[1];
+        return line;
+      }
+      // split() with a capture group puts the code spans at odd indexes
+      return line
+        .split(CODE_SPAN)
+        .map((part, index) =>
+          index % 2
+            ? part
+            : part.replace(
+                WIKI_LINK,
+                (source) => {
+                  const match = matchWikiLink(source);
+                  return (match && replace(match.link)) ?? source;
+                }
+              )
+        )
+        .join("");
+    })
+    .join("\n");
+}
+
+export function extractWikiLinks(markdown: string): WikiLink[] {
+  const links: WikiLink[] = [];
+  replaceWikiLinks(markdown, (link) => {
+    links.push(link);
+    return null;
+  });
+  return links;
+}
+
+function excerpt(line: string): string {
+  const trimmed = line.trim();
+  return trimmed.length > EXCERPT_LENGTH
+    ? `${trimmed.slice(0, EXCERPT_LENGTH - 3)}...`
+    : trimmed;
+}
+
+/** Every other document linking to `documentId`, with the lines that do. */
+export async function findBacklinks(
+  documents: WikiLinkDocument[],
+  documentId: string,
+  loadDocument: DocumentStorage["loadDocument"]
+): Promise<Backlink[]> {
+  const backlinks: Backlink[] = [];
+  for (const document of documents) {
+    if (document.id === documentId) {
+      continue;
+    }
+    const markdown = await loadDocument(document.id);
+    const excerpts = markdown
+      .split("\n")
+      .filter((line) =>
+        extractWikiLinks(line).some(
+          (link) => resolveWikiLink(link.target, documents)?.id === documentId
+        )
+      )
+      .map(excerpt);
+    if (excerpts.length > 0) {
+      backlinks.push({ document, excerpts });
+    }
+  }
+  return backlinks;
+}
+
+/**
+ * Rewrites the target of a link that pointed at a document in `before` but
+ * no longer reaches it in `after` (renamed or moved). Returns null for links
+ * that still work or never did.
+ */
+export function retargetWikiLink(
+  link: WikiLink,
+  before: WikiLinkDocument[],
+  after: WikiLinkDocument[]
+): WikiLink | null {
+  const previous = resolveWikiLink(link.target, before);
+  if (!previous || resolveWikiLink(link.target, after)?.id === previous.id) {
+    return null;
+  }
+  const next = after.find((document) => document.id === previous.id);
+  return next ? { ...link, target: getWikiLinkTarget(next, after) } : null;
+}
+
+/**
+ * Saves every document whose links `retargetWikiLink` changes between the two
+ * document lists. Returns each changed document's previous Markdown by id,
+ * so a failed rename can put them back.
+ */
+export async function rewriteWikiLinks(
+  before: WikiLinkDocument[],
+  after: WikiLinkDocument[],
+  storage: DocumentStorage
+): Promise<Map<string, string>> {
+  const originals = new Map<string, string>();
+  for (const document of after) {
+    const markdown = await storage.loadDocument(document.id);
+    const rewritten = replaceWikiLinks(markdown, (link) => {
+      const retargeted = retargetWikiLink(link, before, after);
+      return retargeted && formatWikiLink(retargeted);
+    });
+    if (rewritten !== markdown) {
+      await storage.saveDocument(document.id, rewritten);
+      originals.set(document.id, markdown);
+    }
+  }
+  return originals;
+}
+
+/**
+ * Runs a rename or move (`change`) that turns `entries` into `nextEntries`,
+ * first pointing the links of every document at the new names. The links
+ * are put back when the change fails, e.g. because the name is taken.
+ */
+export async function changeEntriesWithWikiLinks<T>(
+  storage: DocumentStorage,
+  entries: WorkspaceEntry[],
+  nextEntries: WorkspaceEntry[],
+  change: () => Promise<T>
+): Promise<T> {
+  const originals = await rewriteWikiLinks(
+    listWikiLinkDocuments(entries),
+    listWikiLinkDocuments(nextEntries),
+    storage
+  );
+  try {
+    return await change();
+  } catch (error) {
+    for (const [id, markdown] of originals) {
+      await storage.saveDocument(id, markdown);
+    }
+    throw error;
+  }
+}
+
+function encodePath(segments: string[]): string {
+  return segments.map(encodeURIComponent).join("/");
+}
+
+/**
+ * Replaces the wiki-links in `from`'s Markdown with standard links relative
+ * to its folder, e.g. `[[Ideas]]` in `notes/todo` becomes
+ * `[Ideas](../Ideas.md)`. Links to missing documents become plain text.
+ */
+export function convertWikiLinksToMarkdown(
+  markdown: string,
+  from: WikiLinkDocument,
+  documents: WikiLinkDocument[]
+): string {
+  const fromDirectory = from.path.split("/").slice(0, -1);
+  return replaceWikiLinks(markdown, (link) => {
+    const text = link.label ?? link.target;
+    const target = resolveWikiLink(link.target, documents);
+    if (!target) {
+      return text;
+    }
+    const segments = target.path.split("/");
+    let shared = 0;
+    while (
+      shared < fromDirectory.length &&
+      shared < segments.length - 1 &&
+      fromDirectory[shared] === segments[shared]
+    ) {
+      shared++;
+    }
+    const href =
+      "../".repeat(fromDirectory.length - shared) +
+      encodePath(segments.slice(shared));
+    return `[${text}](${href}.md)`;
+  });
+}
@@ -0,0 +1,77 @@
+// src/test/createTestEditor.ts
+// An editor with the Markdown extensions of LiveMarkdownEditor
+// (src/components/liveMarkdown/editor.tsx), minus its menus, node view UI
+// and collaboration, for tests of loading, saving, pasting and replacing.
+import { Editor } from "@tiptap/core";
+import StarterKit from "@tiptap/starter-kit";
+import TableRow from "@tiptap/extension-table-row";
+import { Markdown } from "tiptap-markdown";
+import { HtmlSanitizer } from "../editor/markdown/htmlSanitizer";
+import { SourcePreservingMarkdown } from "../editor/markdown/sourcePreservingMarkdown";
+import { getEditorMarkdown } from "../editor/markdown/editorMarkdown";
+import { HighlightedCodeBlock } from "../editor/codeBlock/highlightedCodeBlock";
+import { Callout } from "../editor/callout/callout";
+import { MathBlock, MathInline } from "../editor/math/math";
+import { WikiLink } from "../editor/wikiLink/wikiLink";
+import { HeadingAnchors } from "../editor/tableOfContents/headingAnchors";
+import { TableOfContents } from "../editor/tableOfContents/tableOfContents";
+import { Comment } from "../editor/comments/comment";
+import { Image } from "../editor/assets/image";
+import { Attachment } from "../editor/assets/attachment";
+import { Search } from "../editor/search/search";
+import { TextTaskList } from "../editor/extensions/textTaskList";
+import { TextTaskItem } from "../editor/extensions/textTaskItem";
+import {
+  GfmTable,
+  GfmTableCell,
+  GfmTableHeader,
+} from "../editor/extensions/gfmTable";
+import type { SanitizeMode } from "../services/sanitize/sanitizePolicy";
+
+export function createTestEditor(sanitizeMode?: SanitizeMode): Editor {
+  return new Editor({
+    element: document.createElement("div"),
+    extensions: [
+      StarterKit.configure({
+        heading: { levels: [1, 2, 3, 4, 5, 6] },
+        codeBlock: false,
+      }),
+      Markdown.configure({
+        html: true,
+        tightLists: true,
+        linkify: true,
+        breaks: false,
+        transformPastedText: true,
+      }),
+      HtmlSanitizer.configure(sanitizeMode ? { mode: sanitizeMode } : {}),
+      SourcePreservingMarkdown.configure({ editorOnlyMarks: ["comment"] }),
+      HighlightedCodeBlock,
+      Callout,
+      MathInline,
+      MathBlock,
+      WikiLink,
+      HeadingAnchors,
+      TableOfContents,
+      Comment,
+      Image,
+      Attachment,
+      TextTaskList.configure({ itemTypeName: "textTaskItem" }),
+      TextTaskItem.configure({ nested: true }),
+      GfmTable,
+      TableRow,
+      GfmTableHeader,
+      GfmTableCell,
+      Search,
+    ],
+    content: "",
+  });
+}
+
+/** Loads `markdown` into a new test editor, as opening a document does. */
+export function loadMarkdown(markdown: string, sanitizeMode?: SanitizeMode): Editor {
+  const editor = createTestEditor(sanitizeMode);
+  editor.commands.setMarkdown(markdown);
+  return editor;
+}
+
+export { getEditorMarkdown };
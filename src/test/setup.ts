@@ -0,0 +1,15 @@
+// src/test/setup.ts
+// Browser APIs the editor uses that jsdom lacks.
+
+// ProseMirror's view.pasteHTML() builds a paste event
+if (typeof globalThis.ClipboardEvent === "undefined") {
+  class TestClipboardEvent extends Event {
+    clipboardData: DataTransfer | null;
+
+    constructor(type: string, init: ClipboardEventInit = {}) {
+      super(type, init);
+      this.clipboardData = init.clipboardData ?? null;
+    }
+  }
+  globalThis.ClipboardEvent = TestClipboardEvent as typeof ClipboardEvent;
+}